@@ -17,6 +17,8 @@ const customJestConfig = {
     '**/?(*.)+(spec|test).[jt]s?(x)',
     '<rootDir>/tests/**/*.[jt]s?(x)',
   ],
+  // Helpers shared by the tests, not tests themselves
+  testPathIgnorePatterns: ['<rootDir>/tests/utils/'],
 }
 
 // createJestConfig is exported this way to ensure that next/jest can load the Next.js config which is async
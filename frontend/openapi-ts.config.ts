@@ -0,0 +1,15 @@
+import { defineConfig } from '@hey-api/openapi-ts';
+
+export default defineConfig({
+  input: 'openapi.json',
+  output: 'src/lib/api/generated',
+  plugins: [
+    '@hey-api/typescript',
+    '@hey-api/sdk',
+    {
+      name: 'zod',
+      // The API emits DateTime values without an offset when their Kind is unspecified
+      dates: { local: true, offset: true },
+    },
+  ],
+});
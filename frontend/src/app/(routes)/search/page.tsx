@@ -1,45 +1,257 @@
 'use client';
 
+import { Suspense, useCallback, useEffect, useRef, useState } from 'react';
 import { SearchInput } from '@/components/search/SearchInput';
-import { ResultsList } from '@/components/search/ResultsList';
+import { PaginationMode, ResultsList } from '@/components/search/ResultsList';
 import { ConversationHistory } from '@/components/search/ConversationHistory';
 import { RefinementControls } from '@/components/search/RefinementControls';
 import { RefinementSuggestions } from '@/components/search/RefinementSuggestions';
+import { ActiveFilters } from '@/components/search/ActiveFilters';
+import { QueryUnderstandingPanel } from '@/components/search/QueryUnderstandingPanel';
 import { ComparisonView } from '@/components/search/ComparisonView';
+import { SearchErrorPanel } from '@/components/search/SearchErrorPanel';
+import { SearchProgress } from '@/components/search/SearchProgress';
+import { RefinementDiff } from '@/components/search/RefinementDiff';
+import { SearchQuerySummary } from '@/components/search/SearchQuerySummary';
+import { PrioritisePanel } from '@/components/search/PrioritisePanel';
 import { useSearch } from '@/lib/hooks/useSearch';
 import { useSession } from '@/lib/hooks/useSession';
+import { useSearchState } from '@/lib/hooks/useSearchState';
+import { useInventoryCount } from '@/lib/hooks/useInventoryCount';
+import { useSearchUrlState } from '@/lib/hooks/useSearchUrlState';
+import { useScrollRestoration } from '@/lib/hooks/useScrollRestoration';
+import { useRerankedResults } from '@/lib/hooks/useRerankedResults';
+import { useComparison } from '@/lib/context/ComparisonContext';
+import { getVehicleById } from '@/lib/api/search';
+import { removeFilterField } from '@/lib/api/filters';
+import { editEntity } from '@/lib/api/understanding';
+import { Priorities } from '@/lib/api/rerank';
+import { Relaxation } from '@/lib/api/relaxation';
+import type { SearchConstraint } from '@/lib/api/generated';
 import { Skeleton } from '@/components/ui/skeleton';
 import { AlertCircle } from 'lucide-react';
-import { RefinementFilters } from '@/lib/api/types';
+import { RefinementFilters, SortOrder, StrategyType, VehicleDocument } from '@/lib/api/types';
+import { SearchUrlState } from '@/lib/searchParams';
+import { rememberedSort, rememberSort } from '@/lib/sorting';
+import { RefinementSuggestion } from '@/lib/suggestions';
+import { cn } from '@/lib/utils';
 
+function SearchPageSkeleton() {
+  return (
+    <main className="container mx-auto px-4 py-8">
+      <div className="space-y-4">
+        <Skeleton className="h-12 w-64" />
+        <Skeleton className="h-32 w-full" />
+      </div>
+    </main>
+  );
+}
+
+// useSearchParams needs a Suspense boundary so the page can be prerendered
 export default function SearchPage() {
-  const { session, isLoading: sessionLoading, error: sessionError } = useSession();
-  const { search, results, isLoading, error } = useSearch(session?.sessionId);
+  return (
+    <Suspense fallback={<SearchPageSkeleton />}>
+      <SearchPageContent />
+    </Suspense>
+  );
+}
+
+function SearchPageContent() {
+  const { session, isLoading: sessionLoading, error: sessionError, createNewSession } = useSession();
+  const {
+    search: runSearch,
+    restore,
+    clearResults,
+    cancel,
+    query: currentQuery,
+    sort,
+    sortBy,
+    results,
+    understanding,
+    isLoading,
+    progress,
+    isStale,
+    error,
+    blockedUntil,
+    page,
+    pageResults,
+    pageSize,
+    pageCount,
+    hasMore,
+    isLoadingMore,
+    loadMore,
+    goToPage,
+  } = useSearch(session?.sessionId);
+  const { activeFilters } = useSearchState(session?.sessionId);
+  const { count: inventoryCount } = useInventoryCount();
+  const { selectedVehicles, setComparison } = useComparison();
+  const [paginationMode, setPaginationMode] = useState<PaginationMode>('pages');
+  const [filters, setFilters] = useState<RefinementFilters>({});
+  // Null for the search's own order
+  const [priorities, setPriorities] = useState<Priorities | null>(null);
+  // Chosen in the search details; null lets the backend choose
+  const [nextStrategy, setNextStrategy] = useState<StrategyType | null>(null);
+  // False while the comparison named in the URL is being fetched, so it isn't overwritten
+  const [comparisonRestored, setComparisonRestored] = useState(false);
+  const resultsRef = useRef<HTMLDivElement>(null);
+
+  const restoreComparison = async (ids: string[], known: VehicleDocument[]) => {
+    setComparisonRestored(false);
+    const byId = new Map(known.map((vehicle) => [vehicle.id, vehicle]));
+    const vehicles = await Promise.all(
+      ids.map((id) => byId.get(id) ?? getVehicleById(id).catch(() => null))
+    );
+    setComparison(vehicles.filter((vehicle): vehicle is VehicleDocument => vehicle !== null));
+    setComparisonRestored(true);
+  };
+
+  // Show the search in the URL: on load, and after back/forward
+  const handleNavigate = (state: SearchUrlState) => {
+    setFilters(state.filters);
+    restoreComparison(state.compare, [
+      ...selectedVehicles,
+      ...(results?.results.map((result) => result.vehicle) ?? []),
+    ]);
+    if (state.query) {
+      restore(state.query, {
+        page: state.page,
+        filters: state.filters,
+        sort: state.sort ?? rememberedSort(session?.sessionId),
+      });
+    } else {
+      clearResults();
+    }
+  };
+
+  const { state: urlState, update: updateUrl } = useSearchUrlState({
+    onNavigate: handleNavigate,
+    enabled: !!session,
+  });
+
+  useScrollRestoration(
+    `search:${urlState.query}:${urlState.page}`,
+    results !== null && !isLoading && !isLoadingMore && page === urlState.page
+  );
+
+  // Keep the comparison shareable
+  useEffect(() => {
+    if (comparisonRestored) {
+      updateUrl({ compare: selectedVehicles.map((vehicle) => vehicle.id) });
+    }
+  }, [comparisonRestored, selectedVehicles, updateUrl]);
+
+  // The results shown, reordered by the priorities once they have all arrived
+  const shownResults = results ? (paginationMode === 'pages' ? pageResults : results.results) : [];
+  const {
+    results: prioritisedResults,
+    isReranking,
+    error: rerankError,
+  } = useRerankedResults(shownResults, understanding?.composed, isLoading ? null : priorities);
+
+  // A strategy chosen in the search details applies to the next search only
+  const search: typeof runSearch = async (query, options) => {
+    setNextStrategy(null);
+    await runSearch(query, { ...options, strategy: nextStrategy ?? undefined });
+  };
 
+  // Before the first search, the order chosen earlier in this session
+  const activeSort = currentQuery ? sort : rememberedSort(session?.sessionId);
+
+  // Applied filters and the sort order carry over to new queries until changed
   const handleSearch = async (query: string) => {
-    await search(query);
+    updateUrl({ query, sort: activeSort, page: 1 }, { push: true });
+    await search(query, { filters, sort: activeSort });
+  };
+
+  // Filters narrow the current query rather than replacing it
+  const handleRefine = async (refinement: RefinementFilters) => {
+    if (!currentQuery) {
+      return;
+    }
+    setFilters(refinement);
+    updateUrl({ filters: refinement, page: 1 }, { push: true });
+    await search(currentQuery, { filters: refinement, sort });
+  };
+
+  // Search the session's active filters again without some of them, rather than
+  // the query, which would bring them back
+  const searchWithout = async (removed: SearchConstraint[]) => {
+    if (!currentQuery) {
+      return;
+    }
+    const refinement = removed.reduce((remaining, { fieldName }) => removeFilterField(remaining, fieldName), filters);
+    const constraints = activeFilters.filter((constraint) => !removed.includes(constraint));
+    setFilters(refinement);
+    updateUrl({ filters: refinement, page: 1 }, { push: true });
+    await search(currentQuery, { filters: refinement, sort, constraints });
+  };
+
+  // Search again with one constraint loosened or dropped, taking out any filter on its field
+  // so it isn't merged back in
+  const handleRelax = async ({ fieldName, constraints }: Relaxation) => {
+    if (!currentQuery) {
+      return;
+    }
+    const refinement = removeFilterField(filters, fieldName);
+    setFilters(refinement);
+    updateUrl({ filters: refinement, page: 1 }, { push: true });
+    await search(currentQuery, { filters: refinement, sort, constraints });
   };
 
-  const handleRefine = async (filters: RefinementFilters, query: string) => {
-    await search(query);
+  // Search again with the correction rather than parsing the query, which would repeat the mistake
+  const handleEditEntity = async (index: number, value: string | null) => {
+    if (!understanding?.parsed) {
+      return;
+    }
+    const parsed = editEntity(understanding.parsed, index, value);
+    updateUrl({ query: parsed.originalQuery, page: 1 }, { push: true });
+    await search(parsed.originalQuery, { filters, sort, parsed });
   };
 
-  const handleSuggest = async (query: string) => {
-    await search(query);
+  // A suggestion narrows the filters, or for what they can't express asks a follow-up
+  const handleSuggest = async (suggestion: RefinementSuggestion) => {
+    if (suggestion.filters) {
+      await handleRefine(suggestion.filters);
+      return;
+    }
+    if (suggestion.query) {
+      updateUrl({ query: suggestion.query, sort: activeSort, page: 1 }, { push: true });
+      await search(suggestion.query, { filters, sort: activeSort });
+    }
   };
 
+  // Choosing a sort order replaces the priorities
+  const handleSortChange = async (nextSort: SortOrder | undefined) => {
+    setPriorities(null);
+    if (session) {
+      rememberSort(session.sessionId, nextSort);
+    }
+    updateUrl({ sort: nextSort, page: 1 });
+    await sortBy(nextSort);
+    if (page !== 1) {
+      await goToPage(1);
+    }
+  };
+
+  const handlePageChange = async (target: number) => {
+    updateUrl({ page: target });
+    await goToPage(target);
+    resultsRef.current?.scrollIntoView?.({ behavior: 'smooth', block: 'start' });
+  };
+
+  // Memoised, since the infinite-scroll observer is rebuilt whenever it changes
+  const loadedCount = results?.results.length ?? 0;
+  const handleLoadMore = useCallback(async () => {
+    updateUrl({ page: Math.ceil(loadedCount / pageSize) + 1 });
+    await loadMore();
+  }, [updateUrl, loadedCount, pageSize, loadMore]);
+
   if (sessionLoading) {
-    return (
-      <main className="container mx-auto px-4 py-8">
-        <div className="space-y-4">
-          <Skeleton className="h-12 w-64" />
-          <Skeleton className="h-32 w-full" />
-        </div>
-      </main>
-    );
+    return <SearchPageSkeleton />;
   }
 
-  if (sessionError) {
+  // A session kept after it couldn't be checked is still used, with a warning below
+  if (sessionError && !session) {
     return (
       <main className="container mx-auto px-4 py-8">
         <div className="flex items-center gap-2 p-4 bg-destructive/15 text-destructive rounded-md">
@@ -56,47 +268,139 @@ export default function SearchPage() {
         <h1 className="text-4xl font-bold mb-2">Vehicle Search</h1>
         <p className="text-muted-foreground">
           Find your perfect vehicle using natural language
+          {inventoryCount !== null && (
+            <> from {new Intl.NumberFormat('en-GB').format(inventoryCount)} vehicles</>
+          )}
         </p>
       </header>
 
+      {sessionError && (
+        <div role="status" className="mb-6 flex items-center gap-2 p-4 bg-amber-100 text-amber-900 rounded-md">
+          <AlertCircle className="h-5 w-5 flex-shrink-0" />
+          <p>Couldn&apos;t reach the server about your conversation ({sessionError}). You can carry on searching.</p>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Main search area */}
         <div className="lg:col-span-2 space-y-6">
           <SearchInput
             onSearch={handleSearch}
             isLoading={isLoading}
+            disabled={blockedUntil !== null || error?.kind === 'sessionBlocked'}
             placeholder="e.g., reliable BMW under £20k with low mileage"
+            sessionId={session?.sessionId}
+            lastResults={results?.results.map((result) => result.vehicle)}
           />
 
+          {understanding && (
+            <QueryUnderstandingPanel
+              understanding={understanding}
+              onEditEntity={handleEditEntity}
+              disabled={isLoading}
+            />
+          )}
+
+          {currentQuery && (
+            <SearchQuerySummary query={currentQuery} />
+          )}
+
+          {/* A follow-up shows what it changed against the session's last search */}
+          {results && understanding?.refined && (
+            <RefinementDiff
+              changes={understanding.refined.changes}
+              previousCount={understanding.refined.previousCount}
+              count={results.totalCount}
+            />
+          )}
+
+          {/* The session's filters belong to its last recorded search; vector-only searches have none */}
+          {results && understanding?.endpoint === 'search' && (
+            <ActiveFilters
+              constraints={activeFilters}
+              onRemove={(constraint) => searchWithout([constraint])}
+              onClearAll={() => searchWithout(activeFilters)}
+              disabled={isLoading}
+            />
+          )}
+
+          {isLoading && <SearchProgress stage={progress} onCancel={cancel} />}
+
           {error && (
-            <div className="flex items-center gap-2 p-4 bg-destructive/15 text-destructive rounded-md">
-              <AlertCircle className="h-5 w-5" />
-              <p>{error}</p>
-            </div>
+            <SearchErrorPanel error={error} onSearch={handleSearch} blockedUntil={blockedUntil} />
           )}
 
           {/* Refinement Controls and Suggestions */}
           {results && results.totalCount > 0 && (
             <div className="space-y-4">
               <div className="flex items-center justify-between">
-                <RefinementSuggestions onSuggest={handleSuggest} isLoading={isLoading} />
-                <RefinementControls onRefine={handleRefine} isLoading={isLoading} />
+                <RefinementSuggestions
+                  results={results.results}
+                  totalCount={results.totalCount}
+                  filters={filters}
+                  onSuggest={handleSuggest}
+                  isLoading={isLoading}
+                />
+                <RefinementControls
+                  onRefine={handleRefine}
+                  filters={filters}
+                  composedQuery={understanding?.composed}
+                  isLoading={isLoading}
+                />
               </div>
+              {results.results.length > 1 && (
+                <PrioritisePanel
+                  priorities={priorities}
+                  onChange={setPriorities}
+                  isReranking={isReranking}
+                  error={rerankError}
+                  disabled={isLoading}
+                />
+              )}
             </div>
           )}
 
           {results && (
-            <ResultsList
-              results={results.results}
-              totalCount={results.totalCount}
-              searchDuration={results.searchDuration}
-            />
+            <div
+              ref={resultsRef}
+              aria-busy={isStale}
+              className={cn('transition-opacity', isStale && 'opacity-50 pointer-events-none')}
+            >
+              <ResultsList
+                results={prioritisedResults}
+                totalCount={results.totalCount}
+                searchDuration={results.searchDuration}
+                strategy={results.strategy}
+                stages={results.stages}
+                nextStrategy={nextStrategy}
+                onNextStrategyChange={setNextStrategy}
+                query={understanding?.parsed}
+                concepts={understanding?.mapped?.concepts.map((concept) => concept.concept)}
+                composedQuery={isLoading ? undefined : understanding?.composed}
+                onRelax={handleRelax}
+                isStreaming={isLoading && !isStale}
+                firstPosition={paginationMode === 'pages' ? (page - 1) * pageSize + 1 : 1}
+                sort={sort}
+                onSortChange={handleSortChange}
+                mode={paginationMode}
+                onModeChange={setPaginationMode}
+                page={page}
+                pageCount={pageCount}
+                onPageChange={handlePageChange}
+                hasMore={hasMore && blockedUntil === null && error?.kind !== 'sessionBlocked'}
+                onLoadMore={handleLoadMore}
+                isLoadingMore={isLoadingMore}
+                loadMoreFailed={error !== null}
+              />
+            </div>
           )}
         </div>
 
         {/* Sidebar: conversation history */}
         <div className="lg:col-span-1">
-          {session && <ConversationHistory sessionId={session.sessionId} />}
+          {session && (
+            <ConversationHistory sessionId={session.sessionId} onClear={createNewSession} />
+          )}
         </div>
       </div>
 
@@ -1,6 +1,7 @@
 import type { Metadata } from 'next'
 import './globals.css'
 import { ComparisonProvider } from '@/lib/context/ComparisonContext'
+import { SWRProvider } from '@/lib/context/SWRProvider'
 
 export const metadata: Metadata = {
   title: 'Vehicle Search - Intelligent Search Agent',
@@ -16,9 +17,11 @@ export default function RootLayout({
     <html lang="en">
       <body>
         <div className="min-h-screen bg-background">
-          <ComparisonProvider>
-            {children}
-          </ComparisonProvider>
+          <SWRProvider>
+            <ComparisonProvider>
+              {children}
+            </ComparisonProvider>
+          </SWRProvider>
         </div>
       </body>
     </html>
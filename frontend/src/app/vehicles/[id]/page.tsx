@@ -1,9 +1,8 @@
 'use client';
 
-import { use, useEffect, useState } from 'react';
-import { useRouter } from 'next/navigation';
-import { getVehicleById } from '@/lib/api/search';
-import { VehicleDocument } from '@/lib/api/types';
+import { use } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { useVehicle } from '@/lib/hooks/useVehicle';
 import { VehicleDetails } from '@/components/vehicles/VehicleDetails';
 import { VehicleSpecifications } from '@/components/vehicles/VehicleSpecifications';
 import { VehicleImages } from '@/components/vehicles/VehicleImages';
@@ -19,25 +18,9 @@ interface PageProps {
 export default function VehicleDetailPage({ params }: PageProps) {
   const router = useRouter();
   const { id } = use(params);
-  const [vehicle, setVehicle] = useState<VehicleDocument | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    const fetchVehicle = async () => {
-      try {
-        setIsLoading(true);
-        const data = await getVehicleById(id);
-        setVehicle(data);
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to load vehicle');
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    fetchVehicle();
-  }, [id]);
+  // Concepts of the search the vehicle was opened from, if any (see VehicleCard)
+  const concepts = useSearchParams().get('concepts')?.split(',').filter(Boolean) ?? [];
+  const { vehicle, isLoading, error } = useVehicle(id);
 
   if (isLoading) {
     return (
@@ -104,7 +87,7 @@ export default function VehicleDetailPage({ params }: PageProps) {
           />
 
           {/* Vehicle Details */}
-          <VehicleDetails vehicle={vehicle} />
+          <VehicleDetails vehicle={vehicle} concepts={concepts} />
 
           {/* Technical Specifications */}
           <VehicleSpecifications vehicle={vehicle} />
@@ -0,0 +1,60 @@
+'use client';
+
+import { X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { describeConstraint } from '@/lib/api/filters';
+import type { SearchConstraint } from '@/lib/api/generated';
+import { cn } from '@/lib/utils';
+
+interface ActiveFiltersProps {
+  // The session's active filters (see useSearchState)
+  constraints: SearchConstraint[];
+  // Removing a chip or clearing them all; the page searches again without them
+  onRemove: (constraint: SearchConstraint) => void;
+  onClearAll: () => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * Every constraint in effect for the conversation, whether it came from the
+ * query, a follow-up refinement or the refinement sheet, as removable chips
+ */
+export function ActiveFilters({ constraints, onRemove, onClearAll, disabled = false, className }: ActiveFiltersProps) {
+  if (constraints.length === 0) {
+    return null;
+  }
+
+  return (
+    <section aria-label="Active filters" className={cn('flex flex-wrap items-center gap-2 text-sm', className)}>
+      <span className="text-muted-foreground">Filtering by</span>
+      <ul className="flex flex-wrap gap-2">
+        {constraints.map((constraint) => {
+          const label = describeConstraint(constraint);
+          return (
+            <li key={constraint.fieldName}>
+              <Badge variant="outline" className="gap-1 pr-1">
+                {label}
+                <button
+                  type="button"
+                  aria-label={`Remove ${label}`}
+                  className="rounded-full p-0.5 hover:bg-muted-foreground/20 disabled:opacity-50"
+                  disabled={disabled}
+                  onClick={() => onRemove(constraint)}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            </li>
+          );
+        })}
+      </ul>
+      {constraints.length > 1 && (
+        <Button variant="ghost" size="sm" className="h-7 px-2" disabled={disabled} onClick={onClearAll}>
+          Clear all
+        </Button>
+      )}
+    </section>
+  );
+}
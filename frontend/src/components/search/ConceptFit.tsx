@@ -0,0 +1,94 @@
+'use client';
+
+import { Skeleton } from '@/components/ui/skeleton';
+import { conceptIndicators } from '@/lib/api/concepts';
+import { useConceptFit } from '@/lib/hooks/useConceptFit';
+import { cn } from '@/lib/utils';
+
+interface ConceptFitProps {
+  vehicleId: string;
+  // The concepts the search asked for, e.g. "reliable" in "reliable BMW"
+  concepts: string[];
+  className?: string;
+}
+
+interface ConceptMeterProps {
+  vehicleId: string;
+  concept: string;
+}
+
+// Left out when the concept can't be scored; the rest of the strip still shows
+function ConceptMeter({ vehicleId, concept }: ConceptMeterProps) {
+  const { fit, isLoading } = useConceptFit(vehicleId, concept);
+
+  if (isLoading) {
+    return (
+      <li className="space-y-1">
+        <span className="capitalize">{concept}</span>
+        <Skeleton className="h-1.5 w-full" />
+      </li>
+    );
+  }
+  if (!fit) {
+    return null;
+  }
+
+  const percentage = Math.round(fit.overallScore * 100);
+  const { positive, negative } = conceptIndicators(fit);
+
+  return (
+    <li className="space-y-1">
+      <div className="flex items-baseline justify-between gap-2">
+        <span className="font-medium capitalize">{concept}</span>
+        <span className="tabular-nums text-muted-foreground">{percentage}%</span>
+      </div>
+      <div
+        role="meter"
+        aria-label={`${concept} fit`}
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={percentage}
+        className="h-1.5 w-full rounded-full bg-muted"
+      >
+        <div className="h-full rounded-full bg-primary" style={{ width: `${percentage}%` }} />
+      </div>
+      {positive.length > 0 && (
+        <p className="text-xs text-green-700">
+          <span aria-hidden="true">+ </span>
+          <span className="sr-only">For: </span>
+          {positive.join(', ')}
+        </p>
+      )}
+      {negative.length > 0 && (
+        <p className="text-xs text-destructive">
+          <span aria-hidden="true">− </span>
+          <span className="sr-only">Against: </span>
+          {negative.join(', ')}
+        </p>
+      )}
+    </li>
+  );
+}
+
+/**
+ * How well a vehicle fits each concept in the search, so the "reliable" in
+ * "reliable BMW" is backed by a score and what drove it: the attributes met
+ * or missed and the phrases found in the description. Renders nothing when
+ * the search named no concepts.
+ */
+export function ConceptFit({ vehicleId, concepts, className }: ConceptFitProps) {
+  if (concepts.length === 0) {
+    return null;
+  }
+
+  return (
+    <section aria-label="Concept fit" className={cn('space-y-2 text-sm', className)}>
+      <h4 className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Concept fit</h4>
+      <ul className="space-y-2">
+        {concepts.map((concept) => (
+          <ConceptMeter key={concept} vehicleId={vehicleId} concept={concept} />
+        ))}
+      </ul>
+    </section>
+  );
+}
@@ -6,37 +6,21 @@ import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { MessageSquare, Trash2, User, Bot } from 'lucide-react';
-import { getConversationHistory, clearConversation } from '@/lib/api/conversation';
-import { ConversationMessage } from '@/lib/api/types';
+import { RefinementDiff } from './RefinementDiff';
+import { useConversationHistory } from '@/lib/hooks/useConversationHistory';
 import { cn } from '@/lib/utils';
 
 interface ConversationHistoryProps {
   sessionId: string;
   className?: string;
+  onClear?: () => void;
 }
 
-export function ConversationHistory({ sessionId, className }: ConversationHistoryProps) {
-  const [messages, setMessages] = useState<ConversationMessage[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+export function ConversationHistory({ sessionId, className, onClear }: ConversationHistoryProps) {
+  const { messages, isLoading, error: loadError, clearHistory } = useConversationHistory(sessionId);
   const [dialogOpen, setDialogOpen] = useState(false);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
 
-  useEffect(() => {
-    const fetchHistory = async () => {
-      try {
-        setIsLoading(true);
-        const history = await getConversationHistory(sessionId);
-        setMessages(history.messages);
-      } catch (error) {
-        console.error('Failed to fetch conversation history:', error);
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    fetchHistory();
-  }, [sessionId]);
-
   // Auto-scroll to bottom when messages change
   useEffect(() => {
     if (scrollAreaRef.current) {
@@ -48,10 +32,11 @@ export function ConversationHistory({ sessionId, className }: ConversationHistor
   }, [messages]);
 
   const handleClearHistory = async () => {
+    // The history empties straight away; a failed delete puts it back
+    setDialogOpen(false);
     try {
-      await clearConversation(sessionId);
-      setMessages([]);
-      setDialogOpen(false);
+      await clearHistory();
+      onClear?.();
     } catch (error) {
       console.error('Failed to clear conversation:', error);
     }
@@ -89,7 +74,7 @@ export function ConversationHistory({ sessionId, className }: ConversationHistor
                 <DialogHeader>
                   <DialogTitle>Clear conversation history?</DialogTitle>
                   <DialogDescription>
-                    This will permanently delete all messages in this session. This action cannot be undone.
+                    This will permanently delete this session and all of its messages. This action cannot be undone.
                   </DialogDescription>
                 </DialogHeader>
                 <DialogFooter>
@@ -111,6 +96,10 @@ export function ConversationHistory({ sessionId, className }: ConversationHistor
             <p className="text-sm text-muted-foreground text-center py-4">
               Loading conversation...
             </p>
+          ) : loadError ? (
+            <p role="alert" className="text-sm text-destructive text-center py-4">
+              Couldn&apos;t load conversation history: {loadError}
+            </p>
           ) : messages.length === 0 ? (
             <p className="text-sm text-muted-foreground text-center py-4">
               Your search history will appear here
@@ -139,11 +128,19 @@ export function ConversationHistory({ sessionId, className }: ConversationHistor
                     )}
                   >
                     <p className="text-sm">{message.content}</p>
-                    {message.results && (
-                      <div className="text-xs mt-1 opacity-80">
-                        {message.results.count} results • {message.results.strategy}
-                      </div>
-                    )}
+                    {message.results &&
+                      (message.results.previousCount != null ? (
+                        <RefinementDiff
+                          className="mt-1"
+                          changes={message.results.changes ?? []}
+                          previousCount={message.results.previousCount}
+                          count={message.results.count}
+                        />
+                      ) : (
+                        <div className="text-xs mt-1 opacity-80">
+                          {message.results.count} results
+                        </div>
+                      ))}
                     <div className="text-xs mt-1 opacity-70">
                       {formatTime(message.timestamp)}
                     </div>
@@ -0,0 +1,294 @@
+'use client';
+
+import { useId, useState } from 'react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { FACET_FIELDS, FACET_KEYS } from '@/lib/api/filters';
+import type { FacetResults, FacetValue, NumericRange } from '@/lib/api/generated';
+import { FacetKey, FilterRange, RefinementFilters } from '@/lib/api/types';
+import { cn } from '@/lib/utils';
+
+interface FacetPanelProps {
+  // The filters chosen so far; every change is reported through onChange
+  filters: RefinementFilters;
+  onChange: (filters: RefinementFilters) => void;
+  // Values, counts and ranges for the current results (see useFacets)
+  facets: FacetResults | null;
+  isLoading?: boolean;
+  error?: string | null;
+  disabled?: boolean;
+  className?: string;
+}
+
+const FACET_LABELS: Record<FacetKey, string> = {
+  make: 'Make',
+  model: 'Model',
+  bodyType: 'Body type',
+  colour: 'Colour',
+  fuelType: 'Fuel type',
+  transmission: 'Transmission',
+  location: 'Location',
+  grade: 'Grade',
+};
+
+// Values listed before "Show all"
+const VISIBLE_VALUES = 6;
+
+const ANY_YEAR = 'any';
+
+const formatPrice = (value: number) =>
+  new Intl.NumberFormat('en-GB', {
+    style: 'currency',
+    currency: 'GBP',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(value);
+
+const formatMileage = (value: number) => `${new Intl.NumberFormat('en-GB').format(value)} miles`;
+
+const formatCount = (value: number) => new Intl.NumberFormat('en-GB').format(value);
+
+/**
+ * Slider bounds covering the data, rounded out to whole steps, and stretched
+ * to take in a chosen value that the data no longer reaches
+ */
+function sliderBounds(range: NumericRange, chosen: FilterRange | undefined, step: number) {
+  const min = Math.floor(Math.min(range.min, chosen?.min ?? Infinity) / step) * step;
+  const max = Math.ceil(Math.max(range.max, chosen?.max ?? -Infinity) / step) * step;
+  return { min, max: Math.max(max, min + step) };
+}
+
+/**
+ * Facet values with their counts, keeping selected values the data no longer
+ * has so they can still be deselected
+ */
+function withSelected(values: FacetValue[], selected: string[]): FacetValue[] {
+  const missing = selected.filter((value) => !values.some((facet) => facet.value === value));
+  return [...values, ...missing.map((value) => ({ value, count: 0 }))];
+}
+
+interface RangeFacetProps {
+  label: string;
+  range: NumericRange;
+  value: FilterRange | undefined;
+  step: number;
+  format: (value: number) => string;
+  onChange: (value: FilterRange | undefined) => void;
+  disabled: boolean;
+}
+
+function RangeFacet({ label, range, value, step, format, onChange, disabled }: RangeFacetProps) {
+  const bounds = sliderBounds(range, value, step);
+  const current: [number, number] = [value?.min ?? bounds.min, value?.max ?? bounds.max];
+
+  // An end left at its bound stays open, so the filter keeps up with the data
+  const handleChange = ([min, max]: number[]) => {
+    const next: FilterRange = {
+      ...(min > bounds.min && { min }),
+      ...(max < bounds.max && { max }),
+    };
+    onChange(next.min === undefined && next.max === undefined ? undefined : next);
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium">
+        {label}: {format(current[0])} – {format(current[1])}
+      </p>
+      <Slider
+        aria-label={label}
+        value={current}
+        onValueChange={handleChange}
+        min={bounds.min}
+        max={bounds.max}
+        step={step}
+        disabled={disabled}
+        className="w-full"
+      />
+    </div>
+  );
+}
+
+interface ValuesFacetProps {
+  label: string;
+  values: FacetValue[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+  disabled: boolean;
+}
+
+function ValuesFacet({ label, values, selected, onChange, disabled }: ValuesFacetProps) {
+  const id = useId();
+  const [showAll, setShowAll] = useState(false);
+  const options = withSelected(values, selected);
+  const visible = showAll ? options : options.slice(0, VISIBLE_VALUES);
+
+  const toggle = (value: string, checked: boolean) =>
+    onChange(checked ? [...selected, value] : selected.filter((item) => item !== value));
+
+  return (
+    <fieldset className="space-y-2">
+      <legend className="text-sm font-medium">{label}</legend>
+      {options.length === 0 ? (
+        <p className="text-sm text-muted-foreground">None in these results</p>
+      ) : (
+        <ul className="space-y-1.5">
+          {visible.map(({ value, count }, index) => {
+            const checked = selected.includes(value);
+            return (
+              <li key={value} className="flex items-center gap-2">
+                <Checkbox
+                  id={`${id}-${index}`}
+                  checked={checked}
+                  onCheckedChange={(state) => toggle(value, state === true)}
+                  // A value with no vehicles can only be deselected
+                  disabled={disabled || (count === 0 && !checked)}
+                />
+                <label
+                  htmlFor={`${id}-${index}`}
+                  className={cn('flex flex-1 justify-between text-sm', count === 0 && 'text-muted-foreground')}
+                >
+                  <span>{value}</span>
+                  <span className="text-muted-foreground tabular-nums">{formatCount(count)}</span>
+                </label>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      {options.length > VISIBLE_VALUES && (
+        <button
+          type="button"
+          className="text-sm text-primary hover:underline"
+          onClick={() => setShowAll(!showAll)}
+        >
+          {showAll ? 'Show fewer' : `Show all ${options.length}`}
+        </button>
+      )}
+    </fieldset>
+  );
+}
+
+/**
+ * Filters for the current results, built from the values and ranges actually in
+ * them: sliders bounded by the lowest and highest price and mileage, the years
+ * registered, and a multi-select list with counts for each facet. Models are
+ * offered once a make is chosen.
+ */
+export function FacetPanel({
+  filters,
+  onChange,
+  facets,
+  isLoading = false,
+  error,
+  disabled = false,
+  className,
+}: FacetPanelProps) {
+  if (error && !facets) {
+    return (
+      <p role="alert" className={cn('text-sm text-destructive', className)}>
+        {error}
+      </p>
+    );
+  }
+
+  if (!facets) {
+    return (
+      <div aria-busy="true" aria-label="Loading filters" className={cn('space-y-4', className)}>
+        {Array.from({ length: 4 }, (_, i) => (
+          <Skeleton key={i} className="h-10 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  const update = (changes: RefinementFilters) => onChange({ ...filters, ...changes });
+
+  const handleValuesChange = (key: FacetKey, selected: string[]) => {
+    // Models belong to the chosen makes, so they go when the makes do
+    if (key === 'make' && selected.length === 0) {
+      update({ make: [], model: [] });
+    } else {
+      update({ [key]: selected });
+    }
+  };
+
+  const yearRange = facets.ranges.year;
+  const years = yearRange
+    ? Array.from({ length: yearRange.max - yearRange.min + 1 }, (_, i) => yearRange.max - i)
+    : [];
+  if (filters.yearMin && !years.includes(filters.yearMin)) {
+    years.push(filters.yearMin);
+    years.sort((a, b) => b - a);
+  }
+
+  const keys = FACET_KEYS.filter((key) => key !== 'model' || filters.make?.length);
+
+  return (
+    <div aria-busy={isLoading} className={cn('space-y-6', isLoading && 'opacity-70', className)}>
+      <p className="text-sm text-muted-foreground" aria-live="polite">
+        {formatCount(facets.totalCount)} {facets.totalCount === 1 ? 'vehicle matches' : 'vehicles match'}
+      </p>
+
+      {facets.ranges.price && (
+        <RangeFacet
+          label="Price"
+          range={facets.ranges.price}
+          value={filters.priceRange}
+          step={500}
+          format={formatPrice}
+          onChange={(priceRange) => update({ priceRange })}
+          disabled={disabled}
+        />
+      )}
+
+      {facets.ranges.mileage && (
+        <RangeFacet
+          label="Mileage"
+          range={facets.ranges.mileage}
+          value={filters.mileageRange}
+          step={1000}
+          format={formatMileage}
+          onChange={(mileageRange) => update({ mileageRange })}
+          disabled={disabled}
+        />
+      )}
+
+      {years.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Registered from</p>
+          <Select
+            value={filters.yearMin?.toString() ?? ANY_YEAR}
+            onValueChange={(value) => update({ yearMin: value === ANY_YEAR ? undefined : Number(value) })}
+            disabled={disabled}
+          >
+            <SelectTrigger aria-label="Registered from">
+              <SelectValue placeholder="Any year" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY_YEAR}>Any year</SelectItem>
+              {years.map((year) => (
+                <SelectItem key={year} value={year.toString()}>
+                  {year}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {keys.map((key) => (
+        <ValuesFacet
+          key={key}
+          label={FACET_LABELS[key]}
+          values={facets.facets[FACET_FIELDS[key]] ?? []}
+          selected={filters[key] ?? []}
+          onChange={(selected) => handleValuesChange(key, selected)}
+          disabled={disabled}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+'use client';
+
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import type { ComposeQueryResponse } from '@/lib/api/generated';
+import { Relaxation } from '@/lib/api/relaxation';
+import { useRelaxations } from '@/lib/hooks/useRelaxations';
+import { cn } from '@/lib/utils';
+
+interface NoResultsRecoveryProps {
+  // The search that found nothing
+  composedQuery: ComposeQueryResponse;
+  onRelax: (relaxation: Relaxation) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const formatCount = (count: number) =>
+  `${new Intl.NumberFormat('en-GB').format(count)} ${count === 1 ? 'result' : 'results'}`;
+
+/**
+ * Ways out of a search that found nothing: why, when the composer found the
+ * request contradicting itself, and "Did you mean…?" cards that each loosen
+ * or drop one constraint, with the number of results that would give.
+ */
+export function NoResultsRecovery({ composedQuery, onRelax, disabled = false, className }: NoResultsRecoveryProps) {
+  const { relaxations, isLoading } = useRelaxations(composedQuery);
+  const { hasConflicts, warnings } = composedQuery;
+
+  return (
+    <section aria-label="Did you mean" className={cn('space-y-3 text-left text-sm', className)}>
+      {(hasConflicts || warnings.length > 0) && (
+        <div className="flex gap-2 rounded-md bg-amber-50 p-3 text-amber-900">
+          <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+          <div className="space-y-1">
+            <p className="font-medium">
+              {hasConflicts
+                ? 'Some of what you asked for contradicts itself, so no vehicle can match all of it.'
+                : 'Something about this search may be ruling vehicles out.'}
+            </p>
+            {warnings.length > 0 && (
+              <ul className="list-disc list-inside">
+                {warnings.map((warning) => (
+                  <li key={warning}>{warning}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+
+      {isLoading && (
+        <p role="status" className="flex items-center gap-2 text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Looking for a search that finds something…
+        </p>
+      )}
+
+      {relaxations.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="font-medium">Did you mean…?</h3>
+          <ul className="grid gap-2 sm:grid-cols-3">
+            {relaxations.map((relaxation) => (
+              <li key={relaxation.label}>
+                <button
+                  type="button"
+                  className="flex h-full w-full flex-col gap-1 rounded-md border bg-card p-3 text-left hover:bg-muted/50 disabled:pointer-events-none disabled:opacity-50"
+                  onClick={() => onRelax(relaxation)}
+                  disabled={disabled}
+                >
+                  <span>{relaxation.label}</span>
+                  <span className="text-muted-foreground">→ {formatCount(relaxation.count)}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </section>
+  );
+}
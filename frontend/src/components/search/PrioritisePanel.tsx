@@ -0,0 +1,100 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2, RotateCcw, SlidersHorizontal } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import {
+  isRelevanceOrder,
+  MAX_PRIORITY,
+  Priorities,
+  PRIORITY_FACTORS,
+  priorityShares,
+  RELEVANCE_PRIORITIES,
+} from '@/lib/api/rerank';
+import { cn } from '@/lib/utils';
+
+interface PrioritisePanelProps {
+  // Null while the results are in relevance order
+  priorities: Priorities | null;
+  onChange: (priorities: Priorities | null) => void;
+  isReranking?: boolean;
+  error?: string | null;
+  disabled?: boolean;
+  className?: string;
+}
+
+const STEP = 10;
+
+/**
+ * Sliders for how much price, mileage, age, service history and relevance
+ * should count in the order of the current results. A change is applied when
+ * a slider is let go, and leaving nothing but relevance goes back to
+ * relevance order, as does the reset.
+ */
+export function PrioritisePanel({
+  priorities,
+  onChange,
+  isReranking = false,
+  error,
+  disabled = false,
+  className,
+}: PrioritisePanelProps) {
+  // The values while a slider is being dragged, before they are applied
+  const [dragging, setDragging] = useState<Priorities | null>(null);
+  const values = dragging ?? priorities ?? RELEVANCE_PRIORITIES;
+  const shares = priorityShares(values);
+
+  const apply = (next: Priorities) => {
+    setDragging(null);
+    onChange(isRelevanceOrder(next) ? null : next);
+  };
+
+  return (
+    <section aria-label="Prioritise" className={cn('space-y-3 rounded-md border p-3 text-sm', className)}>
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 font-medium text-muted-foreground">
+          <SlidersHorizontal className="h-4 w-4" />
+          <span>Prioritise</span>
+          {isReranking && (
+            <span role="status" className="flex items-center gap-1 text-xs font-normal">
+              <Loader2 className="h-3 w-3 animate-spin" />
+              Reordering…
+            </span>
+          )}
+        </div>
+        <Button variant="ghost" size="sm" onClick={() => apply(RELEVANCE_PRIORITIES)} disabled={disabled || !priorities}>
+          <RotateCcw className="mr-1 h-3 w-3" />
+          Reset to relevance
+        </Button>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        {PRIORITY_FACTORS.map(({ factor, label }) => (
+          <div key={factor} className="space-y-1">
+            <div className="flex items-baseline justify-between gap-2">
+              <span id={`priority-${factor}`}>{label}</span>
+              <span className="tabular-nums text-muted-foreground">{Math.round(shares[factor] * 100)}%</span>
+            </div>
+            <Slider
+              aria-labelledby={`priority-${factor}`}
+              value={[values[factor]]}
+              onValueChange={([value]) => setDragging({ ...values, [factor]: value })}
+              onValueCommit={([value]) => apply({ ...values, [factor]: value })}
+              min={0}
+              max={MAX_PRIORITY}
+              step={STEP}
+              disabled={disabled}
+            />
+          </div>
+        ))}
+      </div>
+
+      {error && (
+        <p role="alert" className="text-destructive">
+          Couldn&apos;t reorder the results by your priorities.
+        </p>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,260 @@
+'use client';
+
+import { FormEvent, useState } from 'react';
+import { AlertTriangle, ChevronDown, ChevronUp } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { describeAttributeWeight, describeConstraint } from '@/lib/api/filters';
+import type { EntityResponse } from '@/lib/api/generated';
+import { QueryUnderstanding } from '@/lib/api/types';
+import { cn } from '@/lib/utils';
+
+interface QueryUnderstandingPanelProps {
+  understanding: QueryUnderstanding;
+  // Correct an entity, or remove it when `value` is null; the page searches again
+  onEditEntity?: (index: number, value: string | null) => void;
+  disabled?: boolean;
+  defaultOpen?: boolean;
+  className?: string;
+}
+
+const INTENT_LABELS: Record<string, string> = {
+  search: 'New search',
+  refine: 'Refining the last search',
+  compare: 'Comparison',
+  information: 'Question',
+  offtopic: 'Not about vehicles',
+};
+
+const ENTITY_LABELS: Record<string, string> = {
+  PriceRange: 'Price range',
+  EngineSize: 'Engine size',
+  FuelType: 'Fuel',
+  BodyType: 'Body type',
+  Year: 'Registered',
+  QualitativeTerm: 'Quality',
+};
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+interface EntityItemProps {
+  entity: EntityResponse;
+  onEdit?: (value: string | null) => void;
+  disabled: boolean;
+}
+
+function EntityItem({ entity, onEdit, disabled }: EntityItemProps) {
+  const [editing, setEditing] = useState(false);
+  const [value, setValue] = useState(entity.value);
+  const label = ENTITY_LABELS[entity.type] ?? entity.type;
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    const trimmed = value.trim();
+    setEditing(false);
+    if (trimmed && trimmed !== entity.value) {
+      onEdit?.(trimmed);
+    }
+  };
+
+  const summary = (
+    <>
+      <span className="text-muted-foreground">{label}:</span> <span className="font-medium">{entity.value}</span>{' '}
+      <span className="text-xs text-muted-foreground tabular-nums">{formatPercent(entity.confidence)}</span>
+    </>
+  );
+
+  if (!onEdit) {
+    return <li className="rounded-md border px-2 py-1">{summary}</li>;
+  }
+
+  return (
+    <li>
+      <button
+        type="button"
+        aria-expanded={editing}
+        className="rounded-md border px-2 py-1 hover:bg-muted disabled:opacity-50"
+        disabled={disabled}
+        onClick={() => {
+          setValue(entity.value);
+          setEditing(!editing);
+        }}
+      >
+        {summary}
+      </button>
+      {editing && (
+        <form onSubmit={handleSubmit} className="mt-2 flex flex-wrap items-center gap-2">
+          <Input
+            aria-label={`Edit ${label.toLowerCase()}`}
+            value={value}
+            onChange={(event) => setValue(event.target.value)}
+            className="h-8 w-40"
+            autoFocus
+          />
+          <Button type="submit" size="sm" className="h-8" disabled={disabled}>
+            Search again
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="h-8"
+            disabled={disabled}
+            onClick={() => {
+              setEditing(false);
+              onEdit(null);
+            }}
+          >
+            Remove
+          </Button>
+          <Button type="button" variant="ghost" size="sm" className="h-8" onClick={() => setEditing(false)}>
+            Cancel
+          </Button>
+        </form>
+      )}
+    </li>
+  );
+}
+
+/**
+ * What the backend made of the query, for anyone wondering why it returned
+ * what it did: the intent and entities /query/parse found, the concepts
+ * qualitative terms stand for, and the constraint groups and OData filter
+ * /query/compose built from them. Entities can be corrected or removed.
+ */
+export function QueryUnderstandingPanel({
+  understanding,
+  onEditEntity,
+  disabled = false,
+  defaultOpen = false,
+  className,
+}: QueryUnderstandingPanelProps) {
+  const [open, setOpen] = useState(defaultOpen);
+  const { parsed, mapped, composed } = understanding;
+  const unmapped = [...new Set([...(parsed?.unmappedTerms ?? []), ...(mapped?.unmappableTerms ?? [])])];
+  const concepts = mapped?.concepts ?? [];
+  const groups = composed.constraintGroups.filter((group) => group.constraints.length > 0);
+
+  return (
+    <section aria-label="How we understood your search" className={cn('rounded-md border text-sm', className)}>
+      <button
+        type="button"
+        aria-expanded={open}
+        className="flex w-full items-center gap-1 px-3 py-2 font-medium hover:bg-muted/50"
+        onClick={() => setOpen(!open)}
+      >
+        {open ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+        How we understood your search
+        {(composed.hasConflicts || composed.warnings.length > 0) && (
+          <AlertTriangle className="ml-1 h-4 w-4 text-amber-600" aria-label="Has warnings" />
+        )}
+      </button>
+
+      {open && (
+        <div className="space-y-4 border-t p-3">
+          {(composed.hasConflicts || composed.warnings.length > 0) && (
+            <div role="alert" className="rounded-md bg-amber-50 p-2 text-amber-900">
+              {composed.hasConflicts && <p className="font-medium">Some of what you asked for conflicts.</p>}
+              {composed.warnings.length > 0 && (
+                <ul className="list-disc list-inside">
+                  {composed.warnings.map((warning) => (
+                    <li key={warning}>{warning}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {parsed && (
+            <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1">
+              <dt className="text-muted-foreground">Intent</dt>
+              <dd>{INTENT_LABELS[parsed.intent.toLowerCase()] ?? parsed.intent}</dd>
+              <dt className="text-muted-foreground">Confidence</dt>
+              <dd className="tabular-nums">{formatPercent(parsed.confidence)}</dd>
+            </dl>
+          )}
+
+          {parsed && parsed.entities.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="font-medium">What we picked out</h4>
+              <ul aria-label="Entities" className="flex flex-wrap gap-2">
+                {parsed.entities.map((entity, index) => (
+                  <EntityItem
+                    key={`${index}:${entity.type}:${entity.value}`}
+                    entity={entity}
+                    onEdit={onEditEntity && ((value) => onEditEntity(index, value))}
+                    disabled={disabled}
+                  />
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {unmapped.length > 0 && (
+            <p>
+              <span className="text-muted-foreground">Not understood:</span> {unmapped.join(', ')}
+            </p>
+          )}
+
+          {concepts.length > 0 && (
+            <div className="space-y-3">
+              <h4 className="font-medium">What the qualities mean</h4>
+              {concepts.map((concept) => (
+                <div key={concept.concept} className="space-y-1">
+                  <p className="font-medium capitalize">{concept.concept}</p>
+                  <ul aria-label={`${concept.concept} attributes`} className="space-y-1">
+                    {concept.attributeWeights.map((weight) => (
+                      <li key={weight.attribute} className="grid grid-cols-[1fr_6rem_2.5rem] items-center gap-2">
+                        <span>{describeAttributeWeight(weight)}</span>
+                        <span className="h-1.5 rounded-full bg-muted" aria-hidden="true">
+                          <span
+                            className="block h-full rounded-full bg-primary"
+                            style={{ width: formatPercent(weight.weight) }}
+                          />
+                        </span>
+                        <span className="text-right text-muted-foreground tabular-nums">
+                          {formatPercent(weight.weight)}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <h4 className="font-medium">
+              {groups.length > 1
+                ? `Constraints (${composed.groupOperator === 'Or' ? 'any' : 'all'} of these groups)`
+                : 'Constraints'}
+            </h4>
+            {groups.length === 0 ? (
+              <p className="text-muted-foreground">None; results are ranked by meaning alone</p>
+            ) : (
+              <ol className="space-y-2">
+                {groups.map((group, index) => (
+                  <li key={index} className="rounded-md bg-muted p-2">
+                    <p className="text-xs text-muted-foreground">
+                      {group.operator === 'Or' ? 'Any of' : 'All of'} · priority {group.priority}
+                    </p>
+                    <ul className="list-disc list-inside">
+                      {group.constraints.map((constraint, i) => (
+                        <li key={i}>{describeConstraint(constraint)}</li>
+                      ))}
+                    </ul>
+                  </li>
+                ))}
+              </ol>
+            )}
+            {composed.oDataFilter && (
+              <pre className="overflow-x-auto rounded-md bg-muted p-2 text-xs">
+                <code>{composed.oDataFilter}</code>
+              </pre>
+            )}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
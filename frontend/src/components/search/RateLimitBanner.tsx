@@ -0,0 +1,52 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Timer } from 'lucide-react';
+
+interface RateLimitBannerProps {
+  // Epoch milliseconds at which searching is allowed again
+  retryAt: number;
+  className?: string;
+}
+
+const secondsUntil = (time: number) => Math.max(0, Math.ceil((time - Date.now()) / 1000));
+
+function formatWait(seconds: number) {
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}m ${String(seconds % 60).padStart(2, '0')}s`;
+}
+
+export function RateLimitBanner({ retryAt, className }: RateLimitBannerProps) {
+  const [secondsLeft, setSecondsLeft] = useState(() => secondsUntil(retryAt));
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      const remaining = secondsUntil(retryAt);
+      setSecondsLeft(remaining);
+      // Nothing left to count once the window has reopened
+      if (remaining === 0) {
+        clearInterval(interval);
+      }
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [retryAt]);
+
+  return (
+    <div
+      role="alert"
+      className={`flex items-center gap-2 p-4 bg-amber-100 text-amber-900 rounded-md ${className || ''}`}
+    >
+      <Timer className="h-5 w-5 flex-shrink-0" />
+      <p>
+        Too many searches in a short time. You can search again in{' '}
+        <span className="font-semibold tabular-nums" aria-live="polite">
+          {formatWait(secondsLeft)}
+        </span>
+        .
+      </p>
+    </div>
+  );
+}
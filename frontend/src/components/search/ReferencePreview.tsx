@@ -0,0 +1,95 @@
+'use client';
+
+import { ArrowRight } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { describeConstraint } from '@/lib/api/filters';
+import type { ReferenceResponse, ResolveReferencesResponse } from '@/lib/api/generated';
+import { describeReferent, isVehicleReference } from '@/lib/api/references';
+import { VehicleDocument } from '@/lib/api/types';
+import { cn } from '@/lib/utils';
+
+interface ReferencePreviewProps {
+  resolution: ResolveReferencesResponse;
+  // The last results, to name the vehicles referred to and offer in their place
+  vehicles: VehicleDocument[];
+  onPick: (reference: ReferenceResponse, vehicle: VehicleDocument) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+// What a reference resolved to, or null when it didn't
+function describeResolution(reference: ReferenceResponse, vehicles: VehicleDocument[]): string | null {
+  if (reference.constraint) {
+    return describeConstraint(reference.constraint);
+  }
+  if (reference.vehicleIds.length > 1) {
+    return `the ${reference.vehicleIds.length} vehicles from your last search`;
+  }
+  if (reference.vehicleIds.length === 1) {
+    const vehicle = vehicles.find((candidate) => candidate.id === reference.vehicleIds[0]);
+    return vehicle ? describeReferent(vehicle) : `vehicle ${reference.vehicleIds[0]}`;
+  }
+  return null;
+}
+
+/**
+ * What each reference in a query being typed points at, such as "second one
+ * → Ford Focus (£8,995)" or "cheaper → Price < £18,000", from /query/resolve.
+ * A reference to one vehicle can be pointed at another from the last results
+ * instead.
+ */
+export function ReferencePreview({ resolution, vehicles, onPick, disabled = false, className }: ReferencePreviewProps) {
+  const references = resolution.resolvedReferences.filter(
+    (reference) => isVehicleReference(reference) || describeResolution(reference, vehicles) !== null
+  );
+  if (references.length === 0) {
+    return null;
+  }
+
+  return (
+    <section aria-label="What your references point to" className={cn('space-y-2 rounded-md border p-3 text-sm', className)}>
+      <ul className="space-y-2">
+        {references.map((reference) => {
+          const resolved = describeResolution(reference, vehicles);
+          return (
+            <li key={`${reference.type}:${reference.position}`} className="flex flex-wrap items-center gap-2">
+              <span className="font-medium">{reference.referenceText}</span>
+              <ArrowRight className="h-3 w-3 text-muted-foreground" aria-label="refers to" />
+              <span className={cn(!resolved && 'text-muted-foreground')}>{resolved ?? 'not sure which one'}</span>
+              {isVehicleReference(reference) && vehicles.length > 0 && (
+                // Always shows its prompt: choosing names the vehicle in the query instead
+                <Select
+                  value=""
+                  onValueChange={(id) => {
+                    const vehicle = vehicles.find((candidate) => candidate.id === id);
+                    if (vehicle) {
+                      onPick(reference, vehicle);
+                    }
+                  }}
+                  disabled={disabled}
+                >
+                  <SelectTrigger
+                    aria-label={`Choose what "${reference.referenceText}" refers to`}
+                    className="h-7 w-auto gap-1 px-2 text-xs"
+                  >
+                    <SelectValue placeholder={resolved ? 'Not this one?' : 'Choose one'} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {vehicles.map((vehicle, index) => (
+                      <SelectItem key={vehicle.id} value={vehicle.id}>
+                        {index + 1}. {describeReferent(vehicle)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+      {resolution.hasUnresolvedReferences && resolution.unresolvedMessage && (
+        <p className="text-muted-foreground">{resolution.unresolvedMessage}</p>
+      )}
+    </section>
+  );
+}
@@ -3,127 +3,57 @@
 import { useState } from 'react';
 import { Sheet, SheetContent, SheetDescription, SheetFooter, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
 import { Button } from '@/components/ui/button';
-import { Slider } from '@/components/ui/slider';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Filter } from 'lucide-react';
+import { FacetPanel } from '@/components/search/FacetPanel';
+import { facetsQuery } from '@/lib/api/facets';
+import { compactFilters } from '@/lib/api/filters';
+import type { ComposeQueryResponse } from '@/lib/api/generated';
 import { RefinementFilters } from '@/lib/api/types';
+import { useFacets } from '@/lib/hooks/useFacets';
 
 interface RefinementControlsProps {
-  onRefine: (filters: RefinementFilters, query: string) => void;
+  // Sent to the search as structured constraints, so no query text is built from them
+  onRefine: (filters: RefinementFilters) => void;
+  // Filters currently applied, shown each time the sheet opens (e.g. restored from the URL)
+  filters?: RefinementFilters;
+  // The current search, whose results the facets are counted over; the whole inventory without one
+  composedQuery?: ComposeQueryResponse;
   isLoading?: boolean;
 }
 
-const MAKES = [
-  'All Makes',
-  'Audi',
-  'BMW',
-  'Ford',
-  'Mercedes-Benz',
-  'Toyota',
-  'Volkswagen',
-  'Volvo',
-];
+const NO_FILTERS: RefinementFilters = {};
 
-const FUEL_TYPES = [
-  'All Fuel Types',
-  'Petrol',
-  'Diesel',
-  'Electric',
-  'Hybrid',
-];
-
-const TRANSMISSIONS = [
-  'All Transmissions',
-  'Manual',
-  'Automatic',
-];
-
-const YEARS = Array.from({ length: 25 }, (_, i) => new Date().getFullYear() - i);
-
-export function RefinementControls({ onRefine, isLoading }: RefinementControlsProps) {
+export function RefinementControls({
+  onRefine,
+  filters: appliedFilters = NO_FILTERS,
+  composedQuery,
+  isLoading,
+}: RefinementControlsProps) {
   const [open, setOpen] = useState(false);
-  const [priceRange, setPriceRange] = useState<[number, number]>([0, 50000]);
-  const [mileageRange, setMileageRange] = useState<[number, number]>([0, 150000]);
-  const [make, setMake] = useState<string>('All Makes');
-  const [fuelType, setFuelType] = useState<string>('All Fuel Types');
-  const [transmission, setTransmission] = useState<string>('All Transmissions');
-  const [yearMin, setYearMin] = useState<string>('Any Year');
-
-  const formatPrice = (value: number) => {
-    return new Intl.NumberFormat('en-GB', {
-      style: 'currency',
-      currency: 'GBP',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(value);
-  };
-
-  const formatMileage = (value: number) => {
-    return new Intl.NumberFormat('en-GB').format(value);
-  };
+  const [draft, setDraft] = useState<RefinementFilters>(NO_FILTERS);
+  const { facets, isLoading: facetsLoading, error } = useFacets(
+    facetsQuery(composedQuery, appliedFilters, draft),
+    open
+  );
 
   const handleApply = () => {
-    const filters: RefinementFilters = {};
-
-    // Only add ranges if they differ from defaults
-    if (priceRange[0] !== 0 || priceRange[1] !== 50000) {
-      filters.priceRange = priceRange;
-    }
-    
-    if (mileageRange[0] !== 0 || mileageRange[1] !== 150000) {
-      filters.mileageRange = mileageRange;
-    }
-
-    if (make !== 'All Makes') {
-      filters.make = make;
-    }
-
-    if (fuelType !== 'All Fuel Types') {
-      filters.fuelType = fuelType;
-    }
-
-    if (transmission !== 'All Transmissions') {
-      filters.transmission = transmission;
-    }
-
-    if (yearMin !== 'Any Year') {
-      filters.yearMin = parseInt(yearMin);
-    }
-
-    // Build natural language query
-    const parts: string[] = [];
-    if (make !== 'All Makes') parts.push(make);
-    if (fuelType !== 'All Fuel Types') parts.push(fuelType);
-    if (transmission !== 'All Transmissions') parts.push(transmission);
-    
-    // Only include price/mileage if not at max defaults
-    if (priceRange[1] < 50000) {
-      parts.push(`under ${formatPrice(priceRange[1])}`);
-    }
-    if (mileageRange[1] < 150000) {
-      parts.push(`with less than ${formatMileage(mileageRange[1])} miles`);
-    }
-    
-    if (yearMin !== 'Any Year') {
-      parts.push(`from ${yearMin} or newer`);
-    }
-
-    const query = parts.length > 0 ? parts.join(' ') : 'all vehicles';
-    onRefine(filters, query);
+    onRefine(compactFilters(draft));
     setOpen(false);
   };
 
   const handleReset = () => {
-    setPriceRange([0, 50000]);
-    setMileageRange([0, 150000]);
-    setMake('All Makes');
-    setFuelType('All Fuel Types');
-    setTransmission('All Transmissions');
-    setYearMin('Any Year');
+    setDraft(NO_FILTERS);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setDraft(appliedFilters);
+    }
+    setOpen(nextOpen);
   };
 
   return (
-    <Sheet open={open} onOpenChange={setOpen}>
+    <Sheet open={open} onOpenChange={handleOpenChange}>
       <SheetTrigger asChild>
         <Button variant="outline" size="sm">
           <Filter className="h-4 w-4 mr-2" />
@@ -138,108 +68,15 @@ export function RefinementControls({ onRefine, isLoading }: RefinementControlsPr
           </SheetDescription>
         </SheetHeader>
 
-        <div className="space-y-6 py-6">
-          {/* Price Range */}
-          <div className="space-y-2">
-            <label className="text-sm font-medium">
-              Price Range: {formatPrice(priceRange[0])} - {formatPrice(priceRange[1])}
-            </label>
-            <Slider
-              data-testid="price-slider"
-              value={priceRange}
-              onValueChange={(value) => setPriceRange(value as [number, number])}
-              min={0}
-              max={50000}
-              step={1000}
-              className="w-full"
-            />
-          </div>
-
-          {/* Mileage Range */}
-          <div className="space-y-2">
-            <label className="text-sm font-medium">
-              Mileage Range: {formatMileage(mileageRange[0])} - {formatMileage(mileageRange[1])} miles
-            </label>
-            <Slider
-              data-testid="mileage-slider"
-              value={mileageRange}
-              onValueChange={(value) => setMileageRange(value as [number, number])}
-              min={0}
-              max={150000}
-              step={5000}
-              className="w-full"
-            />
-          </div>
-
-          {/* Make */}
-          <div className="space-y-2">
-            <label className="text-sm font-medium">Make</label>
-            <Select value={make} onValueChange={setMake}>
-              <SelectTrigger data-testid="make-select">
-                <SelectValue placeholder="Select make" />
-              </SelectTrigger>
-              <SelectContent>
-                {MAKES.map((m) => (
-                  <SelectItem key={m} value={m}>
-                    {m}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
-
-          {/* Fuel Type */}
-          <div className="space-y-2">
-            <label className="text-sm font-medium">Fuel Type</label>
-            <Select value={fuelType} onValueChange={setFuelType}>
-              <SelectTrigger data-testid="fuel-type-select">
-                <SelectValue placeholder="Select fuel type" />
-              </SelectTrigger>
-              <SelectContent>
-                {FUEL_TYPES.map((f) => (
-                  <SelectItem key={f} value={f}>
-                    {f}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
-
-          {/* Transmission */}
-          <div className="space-y-2">
-            <label className="text-sm font-medium">Transmission</label>
-            <Select value={transmission} onValueChange={setTransmission}>
-              <SelectTrigger data-testid="transmission-select">
-                <SelectValue placeholder="Select transmission" />
-              </SelectTrigger>
-              <SelectContent>
-                {TRANSMISSIONS.map((t) => (
-                  <SelectItem key={t} value={t}>
-                    {t}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
-
-          {/* Year Minimum */}
-          <div className="space-y-2">
-            <label className="text-sm font-medium">Minimum Year</label>
-            <Select value={yearMin} onValueChange={setYearMin}>
-              <SelectTrigger data-testid="year-select">
-                <SelectValue placeholder="Select year" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="Any Year">Any Year</SelectItem>
-                {YEARS.map((year) => (
-                  <SelectItem key={year} value={year.toString()}>
-                    {year}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
-        </div>
+        <FacetPanel
+          className="py-6"
+          filters={draft}
+          onChange={setDraft}
+          facets={facets}
+          isLoading={facetsLoading}
+          error={error}
+          disabled={isLoading}
+        />
 
         <SheetFooter className="gap-2">
           <Button variant="outline" onClick={handleReset} disabled={isLoading}>
@@ -0,0 +1,64 @@
+'use client';
+
+import { describeConstraintChange } from '@/lib/api/filters';
+import type { ConstraintChange, ConstraintChangeResponse } from '@/lib/api/generated';
+import { cn } from '@/lib/utils';
+
+interface RefinementDiffProps {
+  changes: (ConstraintChange | ConstraintChangeResponse)[];
+  // Result counts before and after the follow-up, when both are known
+  previousCount?: number | null;
+  count?: number;
+  className?: string;
+}
+
+const CHANGE_STYLES: Record<string, { sign: string; label: string; className: string }> = {
+  Added: { sign: '+', label: 'Added', className: 'text-emerald-700' },
+  Updated: { sign: '~', label: 'Changed', className: 'text-amber-700' },
+  Removed: { sign: '−', label: 'Removed', className: 'text-red-700' },
+};
+
+const CHANGE_ORDER = Object.keys(CHANGE_STYLES);
+
+const formatCount = (value: number) => new Intl.NumberFormat('en-GB').format(value);
+
+/**
+ * How a follow-up changed the search: the constraints it added, changed and
+ * removed, and how many results there were before and after
+ */
+export function RefinementDiff({ changes, previousCount, count, className }: RefinementDiffProps) {
+  const showCounts = previousCount !== undefined && previousCount !== null && count !== undefined;
+  if (changes.length === 0 && !showCounts) {
+    return null;
+  }
+
+  const ordered = [...changes].sort(
+    (a, b) => CHANGE_ORDER.indexOf(a.changeType) - CHANGE_ORDER.indexOf(b.changeType)
+  );
+
+  return (
+    <div aria-label="What changed" role="group" className={cn('flex flex-wrap items-center gap-x-3 gap-y-1 text-xs', className)}>
+      {ordered.length > 0 && (
+        <ul className="flex flex-wrap gap-x-3 gap-y-1">
+          {ordered.map((change) => {
+            const style = CHANGE_STYLES[change.changeType] ?? CHANGE_STYLES.Updated;
+            return (
+              <li key={change.fieldName} className={style.className}>
+                <span aria-hidden="true" className="mr-0.5 font-semibold">
+                  {style.sign}
+                </span>
+                <span className="sr-only">{style.label}: </span>
+                {describeConstraintChange(change)}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      {showCounts && (
+        <p className="text-muted-foreground tabular-nums">
+          {formatCount(previousCount)} → {formatCount(count)} results
+        </p>
+      )}
+    </div>
+  );
+}
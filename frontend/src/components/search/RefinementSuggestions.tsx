@@ -1,25 +1,32 @@
 'use client';
 
-import { Badge } from '@/components/ui/badge';
+import { badgeVariants } from '@/components/ui/badge';
 import { Sparkles } from 'lucide-react';
+import { RefinementFilters, VehicleResult } from '@/lib/api/types';
+import { RefinementSuggestion, suggestRefinements } from '@/lib/suggestions';
+import { cn } from '@/lib/utils';
 
 interface RefinementSuggestionsProps {
-  onSuggest: (query: string) => void;
+  // The current results and the filters they were searched with
+  results: VehicleResult[];
+  totalCount: number;
+  filters?: RefinementFilters;
+  onSuggest: (suggestion: RefinementSuggestion) => void;
   isLoading?: boolean;
 }
 
-const SUGGESTIONS = [
-  'Show me cheaper ones',
-  'With lower mileage',
-  'Only automatic',
-  'From 2020 or newer',
-  'With leather seats',
-  'In London',
-  'Electric only',
-  'Under £15,000',
-];
+const formatCount = (value: number) => new Intl.NumberFormat('en-GB').format(value);
+
+/**
+ * Quick refinements drawn from the current results (see suggestRefinements),
+ * each with the number of results it would leave
+ */
+export function RefinementSuggestions({ results, totalCount, filters, onSuggest, isLoading }: RefinementSuggestionsProps) {
+  const suggestions = suggestRefinements(results, totalCount, filters);
+  if (suggestions.length === 0) {
+    return null;
+  }
 
-export function RefinementSuggestions({ onSuggest, isLoading }: RefinementSuggestionsProps) {
   return (
     <div className="space-y-2">
       <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
@@ -27,16 +34,27 @@ export function RefinementSuggestions({ onSuggest, isLoading }: RefinementSugges
         <span>Quick Refinements</span>
       </div>
       <div className="flex flex-wrap gap-2">
-        {SUGGESTIONS.map((suggestion) => (
-          <Badge
-            key={suggestion}
-            variant="secondary"
-            className="cursor-pointer hover:bg-primary hover:text-primary-foreground transition-colors"
-            onClick={() => !isLoading && onSuggest(suggestion)}
-          >
-            {suggestion}
-          </Badge>
-        ))}
+        {suggestions.map((suggestion) => {
+          const count = `${suggestion.estimated ? 'about ' : ''}${formatCount(suggestion.count)} results`;
+          return (
+            <button
+              key={suggestion.label}
+              type="button"
+              aria-label={`${suggestion.label}, ${count}`}
+              className={cn(
+                badgeVariants({ variant: 'secondary' }),
+                'cursor-pointer gap-1 hover:bg-primary hover:text-primary-foreground transition-colors'
+              )}
+              onClick={() => !isLoading && onSuggest(suggestion)}
+            >
+              {suggestion.label}
+              <span className="font-normal opacity-70 tabular-nums">
+                {suggestion.estimated ? '~' : ''}
+                {formatCount(suggestion.count)}
+              </span>
+            </button>
+          );
+        })}
       </div>
     </div>
   );
@@ -1,17 +1,201 @@
 'use client';
 
-import { VehicleResult } from '@/lib/api/types';
+import { useEffect, useRef } from 'react';
+import { ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { ComposeQueryResponse, ParseQueryResponse } from '@/lib/api/generated';
+import { Relaxation } from '@/lib/api/relaxation';
+import { SearchStageTiming, SearchStrategy, SortOrder, StrategyType, VehicleResult } from '@/lib/api/types';
+import { useReorderAnimation } from '@/lib/hooks/useReorderAnimation';
+import { cn } from '@/lib/utils';
 import { VehicleCard } from './VehicleCard';
+import { NoResultsRecovery } from './NoResultsRecovery';
 import { SearchMetadata } from './SearchMetadata';
+import { SortSelect } from './SortSelect';
+
+/**
+ * Numbered pages show one page of `results` at a time; infinite scrolling shows
+ * everything loaded so far and fetches the next page as the end comes into view
+ */
+export type PaginationMode = 'pages' | 'infinite';
 
 interface ResultsListProps {
   results: VehicleResult[];
   totalCount: number;
   searchDuration: string;
+  // How the backend searched, shown in the search details
+  strategy?: SearchStrategy;
+  stages?: SearchStageTiming[];
+  // The strategy the next search is made to use, chosen in the search details
+  nextStrategy?: StrategyType | null;
+  onNextStrategyChange?: (strategy: StrategyType | null) => void;
+  // The search as understood, so each card can explain its match
+  query?: ParseQueryResponse;
+  // The concepts it asked for, such as "reliable", for each card's concept fit
+  concepts?: string[];
+  // The composed search, so one that finds nothing can suggest how to relax it
+  composedQuery?: ComposeQueryResponse;
+  onRelax?: (relaxation: Relaxation) => void;
+  // More results are still streaming in; the list may grow and reorder
+  isStreaming?: boolean;
+  // Position of the first result shown, so numbering continues across pages
+  firstPosition?: number;
+  // The order `results` are in; absent for relevance
+  sort?: SortOrder;
+  onSortChange?: (sort: SortOrder | undefined) => void;
+  mode?: PaginationMode;
+  // Lets the user switch between numbered pages and infinite scrolling
+  onModeChange?: (mode: PaginationMode) => void;
+  // Numbered pages
+  page?: number;
+  pageCount?: number;
+  onPageChange?: (page: number) => void;
+  // Infinite scrolling
+  hasMore?: boolean;
+  onLoadMore?: () => void;
+  isLoadingMore?: boolean;
+  // A page failed to load: scrolling no longer loads more until the user asks again
+  loadMoreFailed?: boolean;
   className?: string;
 }
 
-export function ResultsList({ results, totalCount, searchDuration, className }: ResultsListProps) {
+const MODES: { mode: PaginationMode; label: string }[] = [
+  { mode: 'pages', label: 'Pages' },
+  { mode: 'infinite', label: 'Scroll' },
+];
+
+// The first and last pages plus those either side of the current one; null marks a gap
+function visiblePages(page: number, pageCount: number): (number | null)[] {
+  const pages = [...new Set([1, page - 1, page, page + 1, pageCount])]
+    .filter((n) => n >= 1 && n <= pageCount)
+    .sort((a, b) => a - b);
+
+  return pages.flatMap((n, index) => (index > 0 && n - pages[index - 1] > 1 ? [null, n] : [n]));
+}
+
+interface PageNavigationProps {
+  page: number;
+  pageCount: number;
+  onPageChange: (page: number) => void;
+  disabled: boolean;
+}
+
+function PageNavigation({ page, pageCount, onPageChange, disabled }: PageNavigationProps) {
+  return (
+    <nav aria-label="Result pages" className="flex items-center justify-center gap-1 mt-6">
+      <Button
+        variant="outline"
+        size="sm"
+        aria-label="Previous page"
+        disabled={disabled || page <= 1}
+        onClick={() => onPageChange(page - 1)}
+      >
+        <ChevronLeft className="h-4 w-4" />
+      </Button>
+      {visiblePages(page, pageCount).map((n, index) =>
+        n === null ? (
+          <span key={`gap-${index}`} className="px-2 text-muted-foreground">
+            …
+          </span>
+        ) : (
+          <Button
+            key={n}
+            variant={n === page ? 'default' : 'outline'}
+            size="sm"
+            aria-label={`Page ${n}`}
+            aria-current={n === page ? 'page' : undefined}
+            disabled={disabled}
+            onClick={() => onPageChange(n)}
+          >
+            {n}
+          </Button>
+        )
+      )}
+      <Button
+        variant="outline"
+        size="sm"
+        aria-label="Next page"
+        disabled={disabled || page >= pageCount}
+        onClick={() => onPageChange(page + 1)}
+      >
+        <ChevronRight className="h-4 w-4" />
+      </Button>
+    </nav>
+  );
+}
+
+interface LoadMoreSentinelProps {
+  onLoadMore: () => void;
+  // While a page is loading; re-enabling observes again, so a short page keeps loading
+  paused: boolean;
+}
+
+// Calls onLoadMore when the end of the list scrolls into view
+function LoadMoreSentinel({ onLoadMore, paused }: LoadMoreSentinelProps) {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || paused || typeof IntersectionObserver === 'undefined') {
+      return;
+    }
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          onLoadMore();
+        }
+      },
+      // Start loading a little before the user reaches the end
+      { rootMargin: '400px 0px' }
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [onLoadMore, paused]);
+
+  return <div ref={ref} data-testid="load-more-sentinel" aria-hidden="true" />;
+}
+
+export function ResultsList({
+  results,
+  totalCount,
+  searchDuration,
+  strategy,
+  stages,
+  nextStrategy,
+  onNextStrategyChange,
+  query,
+  concepts,
+  composedQuery,
+  onRelax,
+  isStreaming = false,
+  firstPosition = 1,
+  sort,
+  onSortChange,
+  mode = 'pages',
+  onModeChange,
+  page = 1,
+  pageCount = 1,
+  onPageChange,
+  hasMore = false,
+  onLoadMore,
+  isLoadingMore = false,
+  loadMoreFailed = false,
+  className,
+}: ResultsListProps) {
+  const gridRef = useReorderAnimation<HTMLDivElement>(results.map((result) => result.vehicle.id));
+
+  if (results.length === 0 && isStreaming) {
+    return (
+      <div className={className}>
+        <p role="status" className="flex items-center justify-center gap-2 py-12 text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Looking for more matches…
+        </p>
+      </div>
+    );
+  }
+
   if (results.length === 0) {
     return (
       <div className={className}>
@@ -20,28 +204,104 @@ export function ResultsList({ results, totalCount, searchDuration, className }:
           <p className="text-sm text-muted-foreground">
             Try adjusting your search criteria or using different keywords
           </p>
+          {composedQuery && onRelax && (
+            <NoResultsRecovery composedQuery={composedQuery} onRelax={onRelax} className="mt-6" />
+          )}
         </div>
       </div>
     );
   }
 
+  const canLoadMore = mode === 'infinite' && !!onLoadMore && hasMore && !isStreaming;
+
   return (
     <div className={className}>
-      <SearchMetadata
-        totalCount={totalCount}
-        searchDuration={searchDuration}
-        className="mb-4"
-      />
+      <div className="flex items-center justify-between gap-4 mb-4">
+        <div className="flex flex-wrap items-center gap-4">
+          <SearchMetadata
+            totalCount={totalCount}
+            searchDuration={searchDuration}
+            strategy={strategy}
+            stages={stages}
+            nextStrategy={nextStrategy}
+            onNextStrategyChange={onNextStrategyChange}
+          />
+          {onSortChange && <SortSelect value={sort} onChange={onSortChange} disabled={isStreaming} />}
+        </div>
+        {onModeChange && (
+          <div role="group" aria-label="Show results as" className="flex gap-1">
+            {MODES.map((option) => (
+              <Button
+                key={option.mode}
+                variant={option.mode === mode ? 'secondary' : 'ghost'}
+                size="sm"
+                aria-pressed={option.mode === mode}
+                onClick={() => onModeChange(option.mode)}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+        )}
+      </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {/* Cards slide to their new places when the order changes, e.g. when prioritised */}
+      <div
+        ref={gridRef}
+        className={cn(
+          'grid grid-cols-1 md:grid-cols-2 gap-4 transition-opacity',
+          mode === 'pages' && isLoadingMore && 'opacity-50'
+        )}
+        aria-busy={isStreaming || isLoadingMore}
+      >
         {results.map((result, index) => (
-          <VehicleCard
-            key={result.vehicle.id}
-            result={result}
-            rank={index + 1}
-          />
+          <div key={result.vehicle.id} data-reorder-key={result.vehicle.id}>
+            <VehicleCard
+              result={result}
+              position={firstPosition + index}
+              query={query}
+              concepts={concepts}
+            />
+          </div>
         ))}
       </div>
+
+      {isStreaming && (
+        <p role="status" className="flex items-center gap-2 mt-4 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Finding more matches — results may reorder
+        </p>
+      )}
+
+      {mode === 'pages' && onPageChange && pageCount > 1 && !isStreaming && (
+        <PageNavigation
+          page={page}
+          pageCount={pageCount}
+          onPageChange={onPageChange}
+          disabled={isLoadingMore}
+        />
+      )}
+
+      {mode === 'infinite' && isLoadingMore && (
+        <p role="status" className="flex items-center justify-center gap-2 mt-6 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading more vehicles…
+        </p>
+      )}
+
+      {canLoadMore && (
+        <>
+          {!loadMoreFailed && <LoadMoreSentinel onLoadMore={onLoadMore} paused={isLoadingMore} />}
+          {/* For keyboard users and browsers without IntersectionObserver */}
+          {!isLoadingMore && (
+            <div className="flex justify-center mt-6">
+              <Button variant="outline" onClick={onLoadMore}>
+                Show more vehicles
+              </Button>
+            </div>
+          )}
+        </>
+      )}
     </div>
   );
 }
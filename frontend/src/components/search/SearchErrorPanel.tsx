@@ -0,0 +1,179 @@
+'use client';
+
+import { AlertCircle, Ban, Scissors, ShieldAlert, WifiOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { RateLimitBanner } from '@/components/search/RateLimitBanner';
+import { MAX_QUERY_LENGTH, SearchError } from '@/lib/api/safety';
+
+interface SearchErrorPanelProps {
+  error: SearchError;
+  onSearch: (query: string) => void;
+  // When the rate limit or session block ends, in epoch milliseconds
+  blockedUntil?: number | null;
+  className?: string;
+}
+
+const VEHICLE_QUERIES = [
+  'Reliable BMW under £20k',
+  'Family SUV with low mileage',
+  'Automatic hatchback under 50,000 miles',
+];
+
+const NARROW_QUERIES = [
+  'Diesel estate under £15k in Leeds',
+  'Electric car with under 30,000 miles',
+  'Audi A3 automatic from 2019 onwards',
+];
+
+// Cut at the last word boundary that fits, so the trimmed query stays readable
+function trimToLimit(query: string): string {
+  const cut = query.slice(0, MAX_QUERY_LENGTH);
+  const lastSpace = cut.lastIndexOf(' ');
+  return (lastSpace > MAX_QUERY_LENGTH / 2 ? cut.slice(0, lastSpace) : cut).trim();
+}
+
+function stripSpecialCharacters(query: string): string {
+  return query
+    .replace(/[^\p{L}\p{N}\s£.,-]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+const formatTime = (time: string | number) =>
+  new Date(time).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' });
+
+interface PanelContent {
+  title: string;
+  description: string;
+  icon: typeof AlertCircle;
+  examples?: string[];
+  action?: { label: string; query: string };
+}
+
+function describeViolation(error: Extract<SearchError, { kind: 'safety' }>): PanelContent {
+  switch (error.violation) {
+    case 'OffTopic':
+      return {
+        title: "That doesn't look like a vehicle search",
+        description: 'We can only help you find vehicles. Try describing the car you want:',
+        icon: AlertCircle,
+        examples: VEHICLE_QUERIES,
+      };
+    case 'PromptInjection':
+      return {
+        title: "We couldn't process that query",
+        description: 'Describe the vehicle you want in plain words, for example:',
+        icon: ShieldAlert,
+        examples: VEHICLE_QUERIES,
+      };
+    case 'InappropriateContent':
+      return {
+        title: "That query can't be searched",
+        description: 'Please rephrase your search without offensive language.',
+        icon: ShieldAlert,
+      };
+    case 'ExcessiveLength': {
+      const length = error.query?.length;
+      return {
+        title: 'Your search is too long',
+        description: `Searches are limited to ${MAX_QUERY_LENGTH} characters${
+          length ? ` and yours has ${length}` : ''
+        }. Keep the details that matter most.`,
+        icon: Scissors,
+        action: error.query
+          ? { label: `Search the first ${MAX_QUERY_LENGTH} characters`, query: trimToLimit(error.query) }
+          : undefined,
+      };
+    }
+    case 'InvalidCharacters': {
+      const cleaned = error.query ? stripSpecialCharacters(error.query) : '';
+      return {
+        title: "Your search contains characters we can't accept",
+        description: 'Use letters, numbers and everyday punctuation only.',
+        icon: AlertCircle,
+        action: cleaned ? { label: 'Search without special characters', query: cleaned } : undefined,
+      };
+    }
+    case 'BulkExtraction':
+      return {
+        title: 'Please narrow your search',
+        description:
+          "We match vehicles against specific criteria rather than listing the whole inventory. Add a make, budget, body type or location:",
+        icon: AlertCircle,
+        examples: NARROW_QUERIES,
+      };
+  }
+}
+
+function describe(error: SearchError): PanelContent {
+  switch (error.kind) {
+    case 'safety':
+      return describeViolation(error);
+    case 'validation':
+      return {
+        title: 'Please check your search',
+        description: error.errors.length > 0 ? error.errors.map((e) => e.message).join(' ') : error.message,
+        icon: AlertCircle,
+      };
+    case 'sessionBlocked':
+      return {
+        title: 'Your session is temporarily blocked',
+        description: error.blockedUntil
+          ? `Searching will be available again at ${formatTime(error.blockedUntil)}. Contact support if you believe this is an error.`
+          : error.message,
+        icon: Ban,
+      };
+    case 'network':
+      return {
+        title: "Can't reach the search service",
+        description: 'Check your connection and try again.',
+        icon: WifiOff,
+        action: error.query ? { label: 'Try again', query: error.query } : undefined,
+      };
+    case 'rateLimited':
+    case 'unknown':
+      break;
+  }
+
+  return {
+    title: 'Search failed',
+    description: error.message,
+    icon: AlertCircle,
+    action: error.query ? { label: 'Try again', query: error.query } : undefined,
+  };
+}
+
+export function SearchErrorPanel({ error, onSearch, blockedUntil, className }: SearchErrorPanelProps) {
+  if (error.kind === 'rateLimited' && blockedUntil) {
+    return <RateLimitBanner key={blockedUntil} retryAt={blockedUntil} className={className} />;
+  }
+
+  const { title, description, icon: Icon, examples, action } = describe(error);
+
+  return (
+    <div
+      role="alert"
+      className={`flex gap-3 p-4 bg-destructive/15 text-destructive rounded-md ${className || ''}`}
+    >
+      <Icon className="h-5 w-5 flex-shrink-0 mt-0.5" />
+      <div className="space-y-2">
+        <p className="font-semibold">{title}</p>
+        <p className="text-sm">{description}</p>
+        {examples && (
+          <div className="flex flex-wrap gap-2">
+            {examples.map((example) => (
+              <Button key={example} variant="outline" size="sm" onClick={() => onSearch(example)}>
+                {example}
+              </Button>
+            ))}
+          </div>
+        )}
+        {action && (
+          <Button variant="outline" size="sm" onClick={() => onSearch(action.query)}>
+            {action.label}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,25 +3,54 @@
 import { useState, useRef, useEffect, KeyboardEvent } from 'react';
 import { Textarea } from '@/components/ui/textarea';
 import { Button } from '@/components/ui/button';
-import { Loader2 } from 'lucide-react';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import { ReferencePreview } from '@/components/search/ReferencePreview';
+import { nameReferent } from '@/lib/api/references';
+import { MAX_QUERY_LENGTH } from '@/lib/api/safety';
+import { VehicleDocument } from '@/lib/api/types';
+import { useReferencePreview } from '@/lib/hooks/useReferencePreview';
+import { validateQuery } from '@/lib/queryValidation';
 
 interface SearchInputProps {
   onSearch: (query: string) => void;
   isLoading?: boolean;
+  // Blocks input entirely, e.g. while rate limited
+  disabled?: boolean;
   placeholder?: string;
   className?: string;
+  // With the last results, references to them ("the second one", "cheaper") are previewed as typed
+  sessionId?: string | null;
+  lastResults?: VehicleDocument[];
 }
 
+const NO_RESULTS: VehicleDocument[] = [];
+
 const EXAMPLE_QUERIES = [
   'Reliable BMW under £20k',
   'Economical family car',
   'Sporty convertible with low mileage',
 ];
 
-export function SearchInput({ onSearch, isLoading = false, placeholder, className }: SearchInputProps) {
+export function SearchInput({
+  onSearch,
+  isLoading = false,
+  disabled = false,
+  placeholder,
+  className,
+  sessionId,
+  lastResults = NO_RESULTS,
+}: SearchInputProps) {
+  const isBlocked = isLoading || disabled;
   const [query, setQuery] = useState('');
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
+  const trimmed = query.trim();
+  const { resolution } = useReferencePreview(trimmed, sessionId, lastResults.length > 0);
+  const issue = validateQuery(trimmed);
+  // Empty and too-short queries only disable submit; guardrail breaches are explained
+  const warning = issue?.violation ? issue.message : null;
+  const isNearLimit = trimmed.length > MAX_QUERY_LENGTH * 0.9;
+
   // Auto-resize textarea
   useEffect(() => {
     const textarea = textareaRef.current;
@@ -34,8 +63,8 @@ export function SearchInput({ onSearch, isLoading = false, placeholder, classNam
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (query.trim() && !isLoading) {
-      onSearch(query.trim());
+    if (!issue && !isBlocked) {
+      onSearch(trimmed);
       setQuery('');
     }
   };
@@ -65,16 +94,42 @@ export function SearchInput({ onSearch, isLoading = false, placeholder, classNam
             onKeyDown={handleKeyDown}
             placeholder={placeholder || 'Describe the vehicle you\'re looking for...'}
             className="resize-none min-h-[100px] max-h-[300px]"
-            disabled={isLoading}
+            disabled={isBlocked}
             aria-label="Search query input"
+            aria-invalid={warning ? true : undefined}
+            aria-describedby={warning ? 'search-query-warning' : undefined}
           />
           {query.length > 0 && (
-            <div className="absolute bottom-2 right-2 text-xs text-muted-foreground">
-              {query.length} characters
+            <div
+              className={`absolute bottom-2 right-2 text-xs tabular-nums ${
+                trimmed.length > MAX_QUERY_LENGTH
+                  ? 'text-destructive font-semibold'
+                  : isNearLimit
+                    ? 'text-amber-600'
+                    : 'text-muted-foreground'
+              }`}
+            >
+              {trimmed.length}/{MAX_QUERY_LENGTH}
             </div>
           )}
         </div>
 
+        {resolution && (
+          <ReferencePreview
+            resolution={resolution}
+            vehicles={lastResults}
+            onPick={(reference, vehicle) => setQuery(nameReferent(query, reference.referenceText, vehicle))}
+            disabled={isBlocked}
+          />
+        )}
+
+        {warning && (
+          <p id="search-query-warning" role="alert" className="flex items-center gap-2 text-sm text-destructive">
+            <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+            {warning}
+          </p>
+        )}
+
         <div className="flex items-center justify-between gap-4">
           <div className="flex flex-wrap gap-2">
             <span className="text-sm text-muted-foreground">Try:</span>
@@ -84,14 +139,14 @@ export function SearchInput({ onSearch, isLoading = false, placeholder, classNam
                 type="button"
                 onClick={() => handleExampleClick(example)}
                 className="text-sm text-primary hover:underline disabled:opacity-50 disabled:cursor-not-allowed"
-                disabled={isLoading}
+                disabled={isBlocked}
               >
                 {example}
               </button>
             ))}
           </div>
 
-          <Button type="submit" disabled={!query.trim() || isLoading}>
+          <Button type="submit" disabled={!!issue || isBlocked}>
             {isLoading ? (
               <>
                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
@@ -1,16 +1,79 @@
 'use client';
 
-import { Clock, Search } from 'lucide-react';
+import { useId, useState } from 'react';
+import { Clock, Info, Search } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SearchStageTiming, SearchStrategy, StrategyType } from '@/lib/api/types';
+import { cn } from '@/lib/utils';
 
 interface SearchMetadataProps {
   totalCount: number;
   searchDuration: string;
+  // How the backend searched; without it there are no details to show
+  strategy?: SearchStrategy;
+  stages?: SearchStageTiming[];
+  // The strategy the next search is made to use, or null to let the backend choose
+  nextStrategy?: StrategyType | null;
+  onNextStrategyChange?: (strategy: StrategyType | null) => void;
   className?: string;
 }
 
-export function SearchMetadata({ totalCount, searchDuration, className }: SearchMetadataProps) {
+const STRATEGY_LABELS: Record<string, string> = {
+  ExactOnly: 'Exact match only',
+  SemanticOnly: 'Semantic only',
+  Hybrid: 'Hybrid',
+  MultiStage: 'Multi-stage',
+};
+
+const APPROACH_LABELS: Record<string, string> = {
+  ExactMatch: 'Exact match',
+  SemanticSearch: 'Semantic search',
+  FullTextSearch: 'Full-text search',
+  Faceted: 'Faceted',
+};
+
+const STAGE_LABELS: Record<string, string> = {
+  strategy: 'Choosing the strategy',
+  search: 'Searching',
+  exact: 'Exact matches',
+  semantic: 'Semantic matches',
+  reranked: 'Final ranking',
+};
+
+const FORCIBLE_STRATEGIES: StrategyType[] = ['ExactOnly', 'SemanticOnly', 'Hybrid'];
+
+const AUTOMATIC = 'automatic';
+
+const formatDuration = (ms: number) => `${ms < 10 ? ms.toFixed(1) : Math.round(ms)} ms`;
+
+/**
+ * The result count and search time, with the details behind them for anyone
+ * who wants to know how the search ran: the strategy, its approaches and
+ * their weights, whether the results were reranked and how long each stage
+ * took. The next search can be made to use a particular strategy from there.
+ */
+export function SearchMetadata({
+  totalCount,
+  searchDuration,
+  strategy,
+  stages = [],
+  nextStrategy = null,
+  onNextStrategyChange,
+  className,
+}: SearchMetadataProps) {
+  const [open, setOpen] = useState(false);
+  const detailsId = useId();
+
   return (
-    <div className={`flex items-center gap-4 text-sm text-muted-foreground ${className || ''}`}>
+    <div
+      className={cn('relative flex items-center gap-4 text-sm text-muted-foreground', className)}
+      onKeyDown={(event) => {
+        // Escape in the strategy select closes only the select
+        if (event.key === 'Escape' && !event.defaultPrevented) {
+          setOpen(false);
+        }
+      }}
+    >
       <div className="flex items-center gap-1">
         <Search className="h-4 w-4" />
         <span>
@@ -21,6 +84,93 @@ export function SearchMetadata({ totalCount, searchDuration, className }: Search
         <Clock className="h-4 w-4" />
         <span>{searchDuration}</span>
       </div>
+
+      {strategy && (
+        <button
+          type="button"
+          aria-expanded={open}
+          aria-controls={detailsId}
+          className="flex items-center gap-1 rounded-sm hover:text-foreground"
+          onClick={() => setOpen(!open)}
+        >
+          <Info className="h-4 w-4" />
+          How we searched
+        </button>
+      )}
+      {nextStrategy && <span className="text-xs">Next search: {STRATEGY_LABELS[nextStrategy]}</span>}
+
+      {strategy && open && (
+        <div
+          id={detailsId}
+          role="dialog"
+          aria-label="How we searched"
+          className="absolute left-0 top-full z-20 mt-2 w-80 space-y-3 rounded-md border bg-popover p-3 text-popover-foreground shadow-md"
+        >
+          <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1">
+            <dt className="text-muted-foreground">Strategy</dt>
+            <dd>{STRATEGY_LABELS[strategy.name] ?? strategy.name}</dd>
+            <dt className="text-muted-foreground">Reranked</dt>
+            <dd>{strategy.shouldRerank ? 'Yes' : 'No'}</dd>
+          </dl>
+
+          {strategy.approaches.length > 0 && (
+            <div className="space-y-1">
+              <h4 className="font-medium">Approaches</h4>
+              <ul aria-label="Approaches" className="space-y-1">
+                {strategy.approaches.map((approach) => (
+                  <li key={approach} className="flex justify-between gap-2">
+                    <span>{APPROACH_LABELS[approach] ?? approach}</span>
+                    {strategy.weights[approach] !== undefined && (
+                      <span className="tabular-nums text-muted-foreground">
+                        {Math.round(strategy.weights[approach] * 100)}%
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {stages.length > 0 && (
+            <div className="space-y-1">
+              <h4 className="font-medium">Stages</h4>
+              <ul aria-label="Stage timings" className="space-y-1">
+                {stages.map((stage) => (
+                  <li key={stage.name} className="flex justify-between gap-2">
+                    <span>{STAGE_LABELS[stage.name] ?? stage.name}</span>
+                    <span className="tabular-nums text-muted-foreground">{formatDuration(stage.durationMs)}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {onNextStrategyChange && (
+            <div className="space-y-1 border-t pt-3">
+              <span id={`${detailsId}-next`} className="font-medium">
+                Next search
+              </span>
+              <Select
+                value={nextStrategy ?? AUTOMATIC}
+                onValueChange={(next) => onNextStrategyChange(next === AUTOMATIC ? null : (next as StrategyType))}
+              >
+                <SelectTrigger aria-labelledby={`${detailsId}-next`} className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={AUTOMATIC}>Automatic</SelectItem>
+                  {FORCIBLE_STRATEGIES.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {STRATEGY_LABELS[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">Used once, then the choice goes back to automatic.</p>
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,61 @@
+'use client';
+
+import { Check, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { SearchStage } from '@/lib/api/types';
+import { cn } from '@/lib/utils';
+
+interface SearchProgressProps {
+  // Latest stage reached, or null before the query has been parsed
+  stage: SearchStage | null;
+  onCancel: () => void;
+  className?: string;
+}
+
+const STEPS: { stage: SearchStage; label: string }[] = [
+  { stage: 'parsed', label: 'Understood' },
+  { stage: 'composed', label: 'Filters' },
+  { stage: 'exact', label: 'Exact matches' },
+  { stage: 'semantic', label: 'Similar vehicles' },
+  { stage: 'reranked', label: 'Ranked' },
+];
+
+// What the search is doing once a stage has completed
+const NEXT_STEP: Record<SearchStage | 'start', string> = {
+  start: 'Understanding your search…',
+  parsed: 'Turning your search into filters…',
+  composed: 'Searching the inventory…',
+  exact: 'Looking for similar vehicles…',
+  semantic: 'Ranking the best matches…',
+  reranked: 'Finishing up…',
+};
+
+export function SearchProgress({ stage, onCancel, className }: SearchProgressProps) {
+  const reached = stage ? STEPS.findIndex((step) => step.stage === stage) : -1;
+
+  return (
+    <div className={cn('space-y-2 text-sm text-muted-foreground', className)}>
+      <div className="flex items-center justify-between">
+        <span role="status" className="flex items-center gap-2">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          {NEXT_STEP[stage ?? 'start']}
+        </span>
+        <Button variant="ghost" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+      <ol className="flex flex-wrap gap-x-4 gap-y-1 text-xs" aria-label="Search progress">
+        {STEPS.map((step, index) => (
+          <li
+            key={step.stage}
+            aria-current={index === reached ? 'step' : undefined}
+            className={cn('flex items-center gap-1', index <= reached && 'text-foreground')}
+          >
+            {index <= reached && <Check className="h-3 w-3" />}
+            {step.label}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+'use client';
+
+import { X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { describeFilters } from '@/lib/api/filters';
+import { RefinementFilters } from '@/lib/api/types';
+import { cn } from '@/lib/utils';
+
+interface SearchQuerySummaryProps {
+  query: string;
+  filters?: RefinementFilters;
+  // Removing a chip drops that filter; the page searches again without it
+  onRemoveFilter?: (key: keyof RefinementFilters) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * The query being shown, followed by any refinement filters applied to it as chips
+ */
+export function SearchQuerySummary({
+  query,
+  filters = {},
+  onRemoveFilter,
+  disabled = false,
+  className,
+}: SearchQuerySummaryProps) {
+  const chips = describeFilters(filters);
+
+  return (
+    <div className={cn('flex flex-wrap items-center gap-2 text-sm', className)}>
+      <span className="text-muted-foreground">Results for</span>
+      <q className="font-medium">{query}</q>
+      {chips.length > 0 && (
+        <ul aria-label="Applied filters" className="flex flex-wrap gap-2">
+          {chips.map((chip) => (
+            <li key={chip.key}>
+              <Badge variant="secondary" className="gap-1 pr-1">
+                {chip.label}
+                {onRemoveFilter && (
+                  <button
+                    type="button"
+                    aria-label={`Remove filter ${chip.label}`}
+                    className="rounded-full p-0.5 hover:bg-muted-foreground/20 disabled:opacity-50"
+                    disabled={disabled}
+                    onClick={() => onRemoveFilter(chip.key)}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                )}
+              </Badge>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+'use client';
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SortOrder } from '@/lib/api/types';
+import { SORT_OPTIONS, SORT_ORDERS } from '@/lib/sorting';
+import { cn } from '@/lib/utils';
+
+interface SortSelectProps {
+  // Absent for relevance
+  value?: SortOrder;
+  onChange: (sort: SortOrder | undefined) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const RELEVANCE = 'relevance';
+
+/**
+ * Choose the order results are shown in
+ */
+export function SortSelect({ value, onChange, disabled = false, className }: SortSelectProps) {
+  return (
+    <Select
+      value={value ?? RELEVANCE}
+      onValueChange={(next) => onChange(next === RELEVANCE ? undefined : (next as SortOrder))}
+      disabled={disabled}
+    >
+      <SelectTrigger aria-label="Sort results" className={cn('h-8 w-48', className)}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={RELEVANCE}>Best match</SelectItem>
+        {SORT_OPTIONS.map((sort) => (
+          <SelectItem key={sort} value={sort}>
+            {SORT_ORDERS[sort].label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -1,24 +1,113 @@
 'use client';
 
 import { useState } from 'react';
+import { matchContributions } from '@/lib/api/explain';
+import type { ParseQueryResponse } from '@/lib/api/generated';
 import { VehicleResult } from '@/lib/api/types';
+import { useMatchExplanation } from '@/lib/hooks/useMatchExplanation';
+import { ConceptFit } from './ConceptFit';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
-import { ChevronDown, ChevronUp, Info } from 'lucide-react';
+import { ChevronDown, ChevronUp, Info, Loader2 } from 'lucide-react';
 import { useComparison } from '@/lib/context/ComparisonContext';
 import Link from 'next/link';
 
 interface VehicleCardProps {
   result: VehicleResult;
-  rank: number;
+  // Where the card is shown in the list, from 1
+  position: number;
+  // The search as understood, to explain the match against
+  query?: ParseQueryResponse;
+  // The concepts the search asked for, to show how well the vehicle fits each
+  concepts?: string[];
 }
 
-export function VehicleCard({ result, rank }: VehicleCardProps) {
+const percent = (value: number) => Math.round(value * 100);
+
+interface MatchExplanationProps {
+  result: VehicleResult;
+  query?: ParseQueryResponse;
+}
+
+// Fetched when first opened; falls back to the result's own scores without a query or when it fails
+function MatchExplanation({ result, query }: MatchExplanationProps) {
+  const { explanation, isLoading, error } = useMatchExplanation(result.vehicle.id, query);
+  const contributions = explanation ? matchContributions(explanation) : [];
+  const { scoreBreakdown } = result;
+
+  return (
+    <div className="mt-4 p-3 bg-muted rounded-md">
+      <h4 className="font-semibold text-sm mb-2">Match Explanation</h4>
+      {isLoading ? (
+        <p role="status" className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Working out why this matched…
+        </p>
+      ) : explanation ? (
+        <div className="text-sm space-y-3">
+          <p>{explanation.explanation}</p>
+          {contributions.length > 0 && (
+            <>
+              <p className="text-xs text-muted-foreground">
+                What each factor added to a {percent(explanation.score)}% match, out of what it could add
+              </p>
+              <ul aria-label="Match factors" className="space-y-2">
+                {contributions.map((contribution) => (
+                  <li key={`${contribution.factor}:${contribution.reason}`} className="space-y-1">
+                    <div className="flex items-baseline justify-between gap-2">
+                      <span className="font-medium">{contribution.factor}</span>
+                      <span className="tabular-nums text-muted-foreground">
+                        {percent(contribution.contribution)}% of {percent(contribution.share)}%
+                      </span>
+                    </div>
+                    {/* The lighter bar is the factor's weight, the darker how much of it the vehicle earned */}
+                    <div className="h-2 w-full rounded-full bg-background" aria-hidden="true">
+                      <div
+                        className="h-full rounded-full bg-primary/20"
+                        style={{ width: `${contribution.share * 100}%` }}
+                      >
+                        <div
+                          className="h-full rounded-full bg-primary"
+                          style={{ width: `${contribution.score * 100}%` }}
+                        />
+                      </div>
+                    </div>
+                    <p className="text-xs text-muted-foreground">{contribution.reason}</p>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      ) : (
+        <div className="text-sm space-y-1">
+          {error && <p>We couldn&apos;t explain this match in detail right now.</p>}
+          <ul className="list-disc list-inside space-y-1 text-muted-foreground">
+            <li>
+              <strong>Overall relevance:</strong> {percent(result.score)}% match
+            </li>
+            {scoreBreakdown && (
+              <>
+                <li>Similarity to your search: {percent(scoreBreakdown.semanticScore)}%</li>
+                <li>Exact matches on your criteria: {percent(scoreBreakdown.exactMatchScore)}%</li>
+                {scoreBreakdown.keywordScore !== undefined && (
+                  <li>Keyword matches: {percent(scoreBreakdown.keywordScore)}%</li>
+                )}
+              </>
+            )}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function VehicleCard({ result, position, query, concepts = [] }: VehicleCardProps) {
   const [showExplanation, setShowExplanation] = useState(false);
-  const { vehicle, score, scoreBreakdown } = result;
+  const { vehicle, rank, score, scoreBreakdown } = result;
   const { isSelected, toggleVehicle } = useComparison();
 
   const formatPrice = (price: number) => {
@@ -59,8 +148,14 @@ export function VehicleCard({ result, rank }: VehicleCardProps) {
             <div className="flex-1">
               <div className="flex items-center gap-2 mb-2">
               <Badge variant="secondary" className="font-bold">
-                #{rank}
+                #{position}
               </Badge>
+              {/* Sorted by something else, so relevance rank and position part ways */}
+              {rank !== undefined && rank !== position && (
+                <Badge variant="outline" title="Position in relevance order">
+                  Relevance #{rank}
+                </Badge>
+              )}
               <TooltipProvider>
                 <Tooltip>
                   <TooltipTrigger asChild>
@@ -152,6 +247,8 @@ export function VehicleCard({ result, rank }: VehicleCardProps) {
           </div>
         )}
 
+        <ConceptFit vehicleId={vehicle.id} concepts={concepts} className="mb-4" />
+
         {vehicle.description && (
           <p className="text-sm text-muted-foreground line-clamp-2 mb-4">
             {vehicle.description}
@@ -159,33 +256,7 @@ export function VehicleCard({ result, rank }: VehicleCardProps) {
         )}
 
         {showExplanation && (
-          <div className="mt-4 p-3 bg-muted rounded-md">
-            <h4 className="font-semibold text-sm mb-2">Match Explanation</h4>
-            <div className="text-sm space-y-1">
-              <p>This vehicle matched your search criteria based on:</p>
-              <ul className="list-disc list-inside space-y-1 text-muted-foreground">
-                <li>
-                  <strong>Overall relevance:</strong> {relevancePercentage}% match
-                </li>
-                {scoreBreakdown && (
-                  <>
-                    {scoreBreakdown.semanticScore > 0.3 && (
-                      <li>Strong semantic similarity to your query</li>
-                    )}
-                    {scoreBreakdown.exactMatchScore > 0.3 && (
-                      <li>Exact matches on key criteria</li>
-                    )}
-                  </>
-                )}
-                {vehicle.serviceHistoryPresent && (
-                  <li>Full service history available</li>
-                )}
-                {vehicle.mileage < 50000 && (
-                  <li>Low mileage ({formatMileage(vehicle.mileage)} miles)</li>
-                )}
-              </ul>
-            </div>
-          </div>
+          <MatchExplanation result={result} query={query} />
         )}
       </CardContent>
 
@@ -207,7 +278,14 @@ export function VehicleCard({ result, rank }: VehicleCardProps) {
             </>
           )}
         </Button>
-        <Link href={`/vehicles/${vehicle.id}`}>
+        {/* The details page shows the same concept fit */}
+        <Link
+          href={
+            concepts.length > 0
+              ? `/vehicles/${vehicle.id}?${new URLSearchParams({ concepts: concepts.join(',') })}`
+              : `/vehicles/${vehicle.id}`
+          }
+        >
           <Button size="sm">View Details</Button>
         </Link>
       </CardFooter>
@@ -1,8 +1,6 @@
 'use client';
 
-import { useEffect, useState } from 'react';
-import { VehicleDocument } from '@/lib/api/types';
-import { getSimilarVehicles } from '@/lib/api/search';
+import { useSimilarVehicles } from '@/lib/hooks/useVehicle';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -15,25 +13,7 @@ interface SimilarVehiclesProps {
 }
 
 export function SimilarVehicles({ vehicleId, limit = 3 }: SimilarVehiclesProps) {
-  const [vehicles, setVehicles] = useState<VehicleDocument[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    const fetchSimilar = async () => {
-      try {
-        setIsLoading(true);
-        const similar = await getSimilarVehicles(vehicleId, limit);
-        setVehicles(similar);
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to load similar vehicles');
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    fetchSimilar();
-  }, [vehicleId, limit]);
+  const { vehicles, isLoading, error } = useSimilarVehicles(vehicleId, limit);
 
   const formatPrice = (price: number) => {
     return new Intl.NumberFormat('en-GB', {
@@ -4,12 +4,15 @@ import { VehicleDocument } from '@/lib/api/types';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { CheckCircle, XCircle } from 'lucide-react';
+import { ConceptFit } from '@/components/search/ConceptFit';
 
 interface VehicleDetailsProps {
   vehicle: VehicleDocument;
+  // The concepts of the search the vehicle was found by, to show how well it fits each
+  concepts?: string[];
 }
 
-export function VehicleDetails({ vehicle }: VehicleDetailsProps) {
+export function VehicleDetails({ vehicle, concepts = [] }: VehicleDetailsProps) {
   const formatPrice = (price: number) => {
     return new Intl.NumberFormat('en-GB', {
       style: 'currency',
@@ -103,6 +106,9 @@ export function VehicleDetails({ vehicle }: VehicleDetailsProps) {
           </div>
         )}
 
+        {/* How well it fits the search's concepts */}
+        <ConceptFit vehicleId={vehicle.id} concepts={concepts} />
+
         {/* Features */}
         {vehicle.features && vehicle.features.length > 0 && (
           <div>
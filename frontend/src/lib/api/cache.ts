@@ -0,0 +1,77 @@
+import type { SWRConfiguration } from 'swr';
+import { serializeQueryKeyValue } from './generated/client';
+import type { JsonValue } from './generated/core/queryKeySerializer.gen';
+import type { ComposedQuery, ComposeQueryResponse, ParseQueryResponse } from './generated';
+import { SearchApiError } from './errors';
+import { SearchRequest } from './types';
+
+/**
+ * SWR cache key: the route template plus its serialised request options
+ */
+export type ApiKey = readonly [url: string, options: JsonValue | undefined];
+
+interface KeyOptions {
+  path?: Record<string, unknown>;
+  query?: Record<string, unknown>;
+  body?: unknown;
+}
+
+/**
+ * Build a cache key for a route using the generated query key serializer,
+ * so equal requests always produce equal keys
+ */
+export function apiKey(url: string, options?: KeyOptions): ApiKey {
+  return [url, serializeQueryKeyValue(options)];
+}
+
+export const vehicleKey = (id: string) => apiKey('/api/v1/vehicles/{id}', { path: { id } });
+
+export const similarVehiclesKey = (id: string, limit: number) =>
+  apiKey('/api/v1/vehicles/{id}/similar', { path: { id }, query: { limit } });
+
+export const inventoryCountKey = () => apiKey('/api/v1/vehicles');
+
+export const conversationHistoryKey = (sessionId: string) =>
+  apiKey('/api/v1/conversation/{sessionId}/history', { path: { sessionId } });
+
+export const sessionKey = (sessionId: string) =>
+  apiKey('/api/v1/conversation/{sessionId}', { path: { sessionId } });
+
+export const searchResultsKey = ({ maxResults = 10, ...request }: SearchRequest) =>
+  apiKey('/api/v1/search', { body: { ...request, maxResults } });
+
+// Pages after the first; `page` starts at 1
+export const searchResultsPageKey = ({ maxResults = 10, ...request }: SearchRequest, page: number) =>
+  apiKey('/api/v1/search', { body: { ...request, maxResults, offset: (page - 1) * maxResults } });
+
+export const referencesKey = (query: string, sessionId: string) =>
+  apiKey('/api/v1/query/resolve', { body: { query, sessionId } });
+
+export const explanationKey = (vehicleId: string, query: ParseQueryResponse) =>
+  apiKey('/api/v1/search/explain', { body: { vehicleId, query } });
+
+export const conceptFitKey = (vehicleId: string, concept: string) =>
+  apiKey('/api/v1/search/similarity', { body: { vehicleId, concept } });
+
+// The results by vehicle ID, since reordering doesn't depend on anything else about them
+export const rerankKey = (vehicleIds: string[], query: ComposeQueryResponse, priorities: Record<string, number>) =>
+  apiKey('/api/v1/search/rerank', { body: { vehicleIds, query, priorities } });
+
+export const facetsKey = (query: ComposedQuery | null) => apiKey('/api/v1/search/facets', { body: { composedQuery: query } });
+
+// Every relaxation of a query is counted together, so they share one entry
+export const relaxationsKey = (query: ComposeQueryResponse) =>
+  apiKey('/api/v1/search/facets', { body: { relaxing: query } });
+
+/**
+ * Defaults shared by every data hook (see SWRProvider)
+ */
+export const swrConfig: SWRConfiguration = {
+  dedupingInterval: 5000,
+  revalidateOnFocus: true,
+  focusThrottleInterval: 10000,
+  errorRetryCount: 3,
+  // Client errors such as 404 won't go away by asking again
+  shouldRetryOnError: (error) =>
+    !(error instanceof SearchApiError && error.status !== undefined && error.status < 500),
+};
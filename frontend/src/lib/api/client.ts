@@ -1,10 +1,13 @@
 import { client } from './generated/client.gen'
+import { createRetryingFetch } from './retry'
 
 // Configure the API client
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5001'
 
 client.setConfig({
   baseUrl: API_BASE_URL,
+  // Idempotent GETs retry with jittered backoff; other methods go through once
+  fetch: createRetryingFetch(),
 })
 
 // Export the configured client
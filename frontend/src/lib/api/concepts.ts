@@ -0,0 +1,64 @@
+import './client';
+import { computeSimilarity } from './generated';
+import type { SimilarityScore } from './generated';
+import { zComputeSimilarityResponse } from './generated/zod.gen';
+import { unwrap } from './errors';
+
+/**
+ * What pushed a concept score up and what held it back
+ */
+export interface ConceptIndicators {
+  positive: string[];
+  negative: string[];
+}
+
+// The vehicle attributes ConceptMappings weighs, as a reader would name them
+const ATTRIBUTE_LABELS: Record<string, string> = {
+  mileage: 'mileage',
+  price: 'price',
+  engineSize: 'engine size',
+  numberOfDoors: 'doors',
+  fuelType: 'fuel type',
+  bodyType: 'body type',
+  transmissionType: 'transmission',
+  make: 'make',
+  features: 'features',
+  serviceHistoryPresent: 'service history',
+  motExpiryDate: 'MOT',
+};
+
+const attributeLabel = (attribute: string) => ATTRIBUTE_LABELS[attribute] ?? attribute;
+
+/**
+ * Score a vehicle against a concept from ConceptMappings, such as "reliable"
+ * or "family car"
+ */
+export async function scoreConcept(
+  vehicleId: string,
+  concept: string,
+  signal?: AbortSignal
+): Promise<SimilarityScore> {
+  return unwrap(
+    await computeSimilarity({ body: { vehicleId, concept }, signal }),
+    'Failed to score concept',
+    zComputeSimilarityResponse
+  );
+}
+
+/**
+ * The indicators behind a concept score: the concept's attributes the vehicle
+ * meets or misses, then the phrases for or against it found in its
+ * description, quoted
+ */
+export function conceptIndicators(score: SimilarityScore): ConceptIndicators {
+  return {
+    positive: [
+      ...score.matchingAttributes.map(attributeLabel),
+      ...score.matchedPositiveIndicators.map((indicator) => `"${indicator}"`),
+    ],
+    negative: [
+      ...score.mismatchingAttributes.map(attributeLabel),
+      ...score.matchedNegativeIndicators.map((indicator) => `"${indicator}"`),
+    ],
+  };
+}
@@ -1,91 +1,74 @@
-import { ConversationHistory } from './types';
+import './client';
+import {
+  clearConversationSession,
+  createConversationSession,
+  getConversationHistory as fetchConversationHistory,
+  getConversationSession,
+} from './generated';
+import {
+  zClearSessionResponse,
+  zConversationHistory,
+  zCreateSessionResponse,
+  zGetSessionResponse,
+} from './generated/zod.gen';
+import { unwrap } from './errors';
+import { ConversationHistory, SessionDetails, SessionResponse } from './types';
 
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5001';
+/**
+ * Create a new conversation session
+ */
+export async function createSession(): Promise<SessionResponse> {
+  return unwrap(await createConversationSession(), 'Failed to create session', zCreateSessionResponse);
+}
 
-class ConversationApiError extends Error {
-  status?: number;
-  details?: unknown;
+/**
+ * Get session details, including message count and current search state
+ */
+export async function getSession(sessionId: string, signal?: AbortSignal): Promise<SessionDetails> {
+  const data = unwrap(
+    await getConversationSession({ path: { sessionId }, signal }),
+    'Failed to fetch session',
+    zGetSessionResponse
+  );
 
-  constructor(message: string, status?: number, details?: unknown) {
-    super(message);
-    this.name = 'ConversationApiError';
-    this.status = status;
-    this.details = details;
-  }
+  return {
+    ...data,
+    currentSearchState: data.currentSearchState ?? undefined,
+  };
 }
 
 /**
- * Get conversation history for a session
+ * Get conversation history for a session, newest `maxMessages` messages (1-100)
  */
-export async function getConversationHistory(sessionId: string): Promise<ConversationHistory> {
-  try {
-    const response = await fetch(`${API_BASE_URL}/api/v1/sessions/${sessionId}/history`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
-
-    if (!response.ok) {
-      // If endpoint doesn't exist yet, return empty history
-      if (response.status === 404) {
-        return {
-          sessionId,
-          messages: [],
-          totalMessages: 0,
-        };
-      }
-      const errorData = await response.json().catch(() => ({}));
-      throw new ConversationApiError(
-        errorData.message || `Failed to fetch conversation history: ${response.statusText}`,
-        response.status,
-        errorData
-      );
-    }
+export async function getConversationHistory(
+  sessionId: string,
+  maxMessages?: number
+): Promise<ConversationHistory> {
+  const data = unwrap(
+    await fetchConversationHistory({ path: { sessionId }, query: { maxMessages } }),
+    'Failed to fetch conversation history',
+    zConversationHistory
+  );
 
-    return await response.json();
-  } catch (error) {
-    if (error instanceof ConversationApiError) {
-      throw error;
-    }
-    // Return empty history on error
-    console.warn('Failed to fetch conversation history:', error);
-    return {
-      sessionId,
-      messages: [],
-      totalMessages: 0,
-    };
-  }
+  return {
+    ...data,
+    messages: data.messages.map((message) => ({
+      messageId: message.messageId,
+      role: message.role,
+      content: message.content,
+      timestamp: message.timestamp,
+      results: message.results ?? undefined,
+    })),
+  };
 }
 
 /**
- * Clear conversation history for a session
+ * Delete a conversation session and all of its history
  */
 export async function clearConversation(sessionId: string): Promise<void> {
-  try {
-    const response = await fetch(`${API_BASE_URL}/api/v1/sessions/${sessionId}/history`, {
-      method: 'DELETE',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new ConversationApiError(
-        errorData.message || `Failed to clear conversation: ${response.statusText}`,
-        response.status,
-        errorData
-      );
-    }
-  } catch (error) {
-    if (error instanceof ConversationApiError) {
-      throw error;
-    }
-    throw new ConversationApiError(
-      error instanceof Error ? error.message : 'An unknown error occurred',
-      undefined,
-      error
-    );
-  }
+  unwrap(
+    await clearConversationSession({ path: { sessionId } }),
+    'Failed to clear conversation',
+    zClearSessionResponse
+  );
 }
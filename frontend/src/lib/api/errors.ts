@@ -0,0 +1,172 @@
+import type { z } from 'zod';
+import { ApiError } from './types';
+import { validateResponse } from './validation';
+
+/**
+ * Rate-limit information sent with a response
+ */
+export interface RateLimitInfo {
+  // Seconds to wait before trying again
+  retryAfter?: number;
+  // Requests left in the current window
+  remainingRequests?: number;
+}
+
+export class SearchApiError extends Error implements ApiError {
+  status?: number;
+  details?: unknown;
+  retryAfter?: number;
+  remainingRequests?: number;
+
+  constructor(message: string, status?: number, details?: unknown, rateLimit: RateLimitInfo = {}) {
+    super(message);
+    this.name = 'SearchApiError';
+    this.status = status;
+    this.details = details;
+    this.retryAfter = rateLimit.retryAfter;
+    this.remainingRequests = rateLimit.remainingRequests;
+  }
+}
+
+/**
+ * A response body that did not match its generated schema
+ */
+export class ResponseValidationError extends SearchApiError {
+  endpoint: string;
+  path: string;
+
+  constructor(endpoint: string, path: string, message: string, issues: z.ZodError['issues']) {
+    super(`Unexpected response from ${endpoint}: ${path} ${message}`, undefined, issues);
+    this.name = 'ResponseValidationError';
+    this.endpoint = endpoint;
+    this.path = path;
+  }
+}
+
+/**
+ * Result shape returned by the generated SDK functions
+ */
+export interface SdkResult<T> {
+  data?: T;
+  error?: unknown;
+  request?: Request;
+  response?: Response;
+}
+
+/**
+ * Extract a human-readable message from any of the backend error bodies:
+ * `{ error: "..." }`, `{ error: { code, message } }`, ProblemDetails, or plain text
+ */
+export function getErrorMessage(body: unknown): string | undefined {
+  if (typeof body === 'string') {
+    return body || undefined;
+  }
+
+  if (!body || typeof body !== 'object') {
+    return undefined;
+  }
+
+  const { error, message, detail, title } = body as Record<string, unknown>;
+
+  if (typeof error === 'string') {
+    return error;
+  }
+  if (error && typeof error === 'object' && typeof (error as { message?: unknown }).message === 'string') {
+    return (error as { message: string }).message;
+  }
+  if (typeof message === 'string') {
+    return message;
+  }
+  if (typeof detail === 'string') {
+    return detail;
+  }
+  if (typeof title === 'string') {
+    return title;
+  }
+
+  return undefined;
+}
+
+/**
+ * Parse a Retry-After header value, given either as delta-seconds or an HTTP date, into seconds
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value.trim());
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - now) / 1000));
+}
+
+/**
+ * Read rate-limit information from the response headers, falling back to the
+ * `retryAfterSeconds` the safety middleware puts in its error body
+ */
+export function getRateLimitInfo(response: Response, body?: unknown): RateLimitInfo {
+  const remaining = response.headers.get('X-RateLimit-Remaining');
+  const bodyError = (body as { error?: { retryAfterSeconds?: unknown } } | null)?.error;
+  const bodyRetryAfter =
+    bodyError && typeof bodyError === 'object' && typeof bodyError.retryAfterSeconds === 'number'
+      ? bodyError.retryAfterSeconds
+      : undefined;
+
+  return {
+    retryAfter: parseRetryAfter(response.headers.get('Retry-After')) ?? bodyRetryAfter,
+    remainingRequests: remaining !== null && /^\d+$/.test(remaining) ? Number(remaining) : undefined,
+  };
+}
+
+/**
+ * Whether an error is a 429 rejection from the backend's rate limiter
+ */
+export function isRateLimitError(error: unknown): error is SearchApiError & { status: 429 } {
+  return error instanceof SearchApiError && error.status === 429;
+}
+
+/**
+ * Whether an error comes from an aborted request
+ */
+export function isAbortError(error: unknown): boolean {
+  return (error as { name?: unknown } | null)?.name === 'AbortError';
+}
+
+/**
+ * Return the data of an SDK call or throw a SearchApiError describing the failure.
+ * When a schema is given the data is validated against it (see validation.ts).
+ */
+export function unwrap<T>(result: SdkResult<T>, failureMessage: string, schema?: z.ZodType): T {
+  const { data, error, request, response } = result;
+
+  if (!response) {
+    // Let cancellations through untouched so callers can tell them apart from failures
+    if (isAbortError(error)) {
+      throw error;
+    }
+    throw new SearchApiError(
+      error instanceof Error ? error.message : 'An unknown error occurred',
+      undefined,
+      error
+    );
+  }
+
+  if (error !== undefined || !response.ok) {
+    throw new SearchApiError(
+      getErrorMessage(error) || `${failureMessage}: ${response.statusText}`,
+      response.status,
+      error,
+      getRateLimitInfo(response, error)
+    );
+  }
+
+  if (schema) {
+    const endpoint = request ? `${request.method} ${new URL(request.url).pathname}` : failureMessage;
+    return validateResponse(schema, data as T, endpoint);
+  }
+
+  return data as T;
+}
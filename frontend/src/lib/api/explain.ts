@@ -0,0 +1,56 @@
+import './client';
+import { explainRelevance } from './generated';
+import type { ExplainedScore, ParseQueryResponse } from './generated';
+import { zExplainRelevanceResponse } from './generated/zod.gen';
+import { unwrap } from './errors';
+import { toParsedQuery } from './pipeline';
+
+/**
+ * One factor of a match, with how much it added to the overall score
+ */
+export interface MatchContribution {
+  factor: string;
+  reason: string;
+  // How well the vehicle did on the factor, from 0 to 1
+  score: number;
+  // The most the factor could add to the overall score, and what it did add
+  share: number;
+  contribution: number;
+}
+
+/**
+ * Explain how well a vehicle matches a parsed query, factor by factor
+ */
+export async function explainMatch(
+  vehicleId: string,
+  parsed: ParseQueryResponse,
+  signal?: AbortSignal
+): Promise<ExplainedScore> {
+  return unwrap(
+    await explainRelevance({ body: { vehicleId, query: toParsedQuery(parsed) }, signal }),
+    'Failed to explain match',
+    zExplainRelevanceResponse
+  );
+}
+
+/**
+ * The factors of an explanation by what each added to the overall score, most
+ * first. The overall score is their weighted average, so a factor's share is
+ * its weight over the total and its contribution that share times its score.
+ */
+export function matchContributions({ components }: ExplainedScore): MatchContribution[] {
+  const totalWeight = components.reduce((total, component) => total + component.weight, 0);
+  if (totalWeight <= 0) {
+    return [];
+  }
+
+  return components
+    .map(({ factor, reason, score, weight }) => ({
+      factor,
+      reason,
+      score,
+      share: weight / totalWeight,
+      contribution: (score * weight) / totalWeight,
+    }))
+    .sort((a, b) => b.contribution - a.contribution);
+}
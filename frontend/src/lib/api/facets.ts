@@ -0,0 +1,66 @@
+import { getSearchFacets } from './generated';
+import type { ComposedQuery, ComposeQueryResponse, ConstraintGroup, FacetResults } from './generated';
+import { zGetSearchFacetsResponse } from './generated/zod.gen';
+import { unwrap } from './errors';
+import { mergeFilterConstraints, removeFilterConstraints, toFilterConstraints } from './filters';
+import { toComposedQuery } from './pipeline';
+import { RefinementFilters } from './types';
+
+/**
+ * Get the distinct values of each facet, with counts, and the numeric ranges
+ * of the vehicles matching a composed query; the whole inventory when there's
+ * no query. Each facet is counted as if nothing were selected in it, so the
+ * counts say what choosing another value would add.
+ */
+export async function getFacets(query: ComposedQuery | null, signal?: AbortSignal): Promise<FacetResults> {
+  return unwrap(
+    await getSearchFacets({ body: { composedQuery: query }, signal }),
+    'Failed to load filters',
+    zGetSearchFacetsResponse
+  );
+}
+
+/**
+ * The query to count facets over while filters are being chosen: the current
+ * search without the filters it was run with, plus the ones now chosen
+ */
+export function facetsQuery(
+  composed: ComposeQueryResponse | undefined,
+  applied: RefinementFilters,
+  draft: RefinementFilters
+): ComposedQuery | null {
+  if (!composed) {
+    return null;
+  }
+
+  const query = toComposedQuery(composed);
+  const understood = query.constraintGroups
+    .map((group) => ({ ...group, constraints: removeFilterConstraints(group.constraints, applied) }))
+    .filter((group) => group.constraints.length > 0);
+
+  // Any group may match under Or, so each one needs the filters; under And a group of their own will do
+  let constraintGroups: ConstraintGroup[];
+  if (query.groupOperator === 'Or' && understood.length > 0) {
+    constraintGroups = understood.map((group) => ({
+      ...group,
+      constraints: mergeFilterConstraints(group.constraints, draft),
+    }));
+  } else {
+    const filterConstraints = toFilterConstraints(draft);
+    const filtered = new Set(filterConstraints.map((constraint) => constraint.fieldName));
+    constraintGroups = [
+      ...understood.map((group) => ({
+        ...group,
+        constraints: group.constraints.filter((constraint) => !filtered.has(constraint.fieldName)),
+      })),
+      { constraints: filterConstraints, operator: 'And', priority: 0 },
+    ];
+  }
+
+  return {
+    ...query,
+    constraintGroups: constraintGroups.filter((group) => group.constraints.length > 0),
+    // Translated again server-side from the groups above
+    oDataFilter: null,
+  };
+}
@@ -0,0 +1,331 @@
+import type {
+  AttributeWeight,
+  ConstraintChange,
+  ConstraintChangeResponse,
+  ConstraintOperator,
+  SearchConstraint,
+} from './generated';
+import { FacetKey, FilterRange, RefinementFilters } from './types';
+
+/**
+ * Index field behind each facet, as /query/map names it for the same entity
+ */
+export const FACET_FIELDS: Record<FacetKey, string> = {
+  make: 'make',
+  model: 'model',
+  bodyType: 'bodyType',
+  colour: 'colour',
+  fuelType: 'fuelType',
+  transmission: 'transmissionType',
+  location: 'saleLocation',
+  grade: 'grade',
+};
+
+/**
+ * Facets in the order the refinement panel lists them
+ */
+export const FACET_KEYS = Object.keys(FACET_FIELDS) as FacetKey[];
+
+export interface FilterChip {
+  key: keyof RefinementFilters;
+  label: string;
+}
+
+const formatPrice = (value: number) =>
+  new Intl.NumberFormat('en-GB', {
+    style: 'currency',
+    currency: 'GBP',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(value);
+
+const formatMileage = (value: number) => `${new Intl.NumberFormat('en-GB').format(value)} miles`;
+
+// Names for the index fields constraints are placed on, as a buyer would say them
+const FIELD_LABELS: Record<string, string> = {
+  price: 'Price',
+  mileage: 'Mileage',
+  registrationDate: 'Registered',
+  motExpiryDate: 'MOT expiry',
+  make: 'Make',
+  model: 'Model',
+  derivative: 'Derivative',
+  bodyType: 'Body type',
+  colour: 'Colour',
+  fuelType: 'Fuel',
+  transmissionType: 'Transmission',
+  saleLocation: 'Location',
+  grade: 'Grade',
+  engineSize: 'Engine size',
+  numberOfDoors: 'Doors',
+  features: 'Features',
+};
+
+const OPERATOR_SYMBOLS: Record<string, string> = {
+  Equals: '=',
+  NotEquals: '≠',
+  GreaterThan: '>',
+  GreaterThanOrEqual: '≥',
+  LessThan: '<',
+  LessThanOrEqual: '≤',
+  Between: '',
+  Contains: 'includes',
+  In: '=',
+} satisfies Record<ConstraintOperator, string>;
+
+// The comparisons concept attribute weights make, as constraint operators
+const COMPARISON_OPERATORS: Record<string, ConstraintOperator> = {
+  equals: 'Equals',
+  less: 'LessThan',
+  lessOrEqual: 'LessThanOrEqual',
+  greater: 'GreaterThan',
+  greaterOrEqual: 'GreaterThanOrEqual',
+  in: 'In',
+  contains: 'Contains',
+  containsAny: 'Contains',
+};
+
+// Between when both ends are set, otherwise >= or <= on the end that is
+function rangeConstraint(fieldName: string, { min, max }: FilterRange): SearchConstraint | null {
+  if (min !== undefined && max !== undefined) {
+    return { fieldName, operator: 'Between', value: [min, max], type: 'Range' };
+  }
+  if (min !== undefined) {
+    return { fieldName, operator: 'GreaterThanOrEqual', value: min, type: 'Range' };
+  }
+  if (max !== undefined) {
+    return { fieldName, operator: 'LessThanOrEqual', value: max, type: 'Range' };
+  }
+  return null;
+}
+
+// Equals for a single value, In for any of several
+function valuesConstraint(fieldName: string, values: string[] | undefined): SearchConstraint | null {
+  if (!values?.length) {
+    return null;
+  }
+  return values.length === 1
+    ? { fieldName, operator: 'Equals', value: values[0], type: 'Exact' }
+    : { fieldName, operator: 'In', value: values, type: 'Exact' };
+}
+
+function rangeLabel({ min, max }: FilterRange, format: (value: number) => string): string | null {
+  if (min !== undefined && max !== undefined) {
+    return `${format(min)} – ${format(max)}`;
+  }
+  if (min !== undefined) {
+    return `From ${format(min)}`;
+  }
+  if (max !== undefined) {
+    return `Up to ${format(max)}`;
+  }
+  return null;
+}
+
+/**
+ * Translate refinement filters to search constraints on the index fields that
+ * /query/map produces for the same entities
+ */
+export function toFilterConstraints(filters: RefinementFilters): SearchConstraint[] {
+  const constraints: (SearchConstraint | null)[] = [
+    filters.priceRange ? rangeConstraint('price', filters.priceRange) : null,
+    filters.mileageRange ? rangeConstraint('mileage', filters.mileageRange) : null,
+    ...FACET_KEYS.map((key) => valuesConstraint(FACET_FIELDS[key], filters[key])),
+    // Registered on or after 1 January of that year, as /query/map reads "from 2018"
+    filters.yearMin
+      ? {
+          fieldName: 'registrationDate',
+          operator: 'GreaterThanOrEqual',
+          value: `${filters.yearMin}-01-01T00:00:00+00:00`,
+          type: 'Range',
+        }
+      : null,
+  ];
+
+  return constraints.filter((constraint): constraint is SearchConstraint => constraint !== null);
+}
+
+/**
+ * Add the filters' constraints to those understood from the query. A filter
+ * replaces whatever the query said about the same field, since it was chosen
+ * explicitly.
+ */
+export function mergeFilterConstraints(
+  constraints: SearchConstraint[],
+  filters: RefinementFilters
+): SearchConstraint[] {
+  const filterConstraints = toFilterConstraints(filters);
+  const filtered = new Set(filterConstraints.map((constraint) => constraint.fieldName));
+
+  return [...constraints.filter((constraint) => !filtered.has(constraint.fieldName)), ...filterConstraints];
+}
+
+/**
+ * The constraints left once those added for `filters` are taken out again
+ */
+export function removeFilterConstraints<T extends { fieldName: string; operator: string; value: unknown }>(
+  constraints: T[],
+  filters: RefinementFilters
+): T[] {
+  const added = new Set(toFilterConstraints(filters).map(constraintId));
+  return constraints.filter((constraint) => !added.has(constraintId(constraint)));
+}
+
+const constraintId = ({ fieldName, operator, value }: { fieldName: string; operator: string; value: unknown }) =>
+  JSON.stringify([fieldName, operator, value]);
+
+/**
+ * Short labels for the filters that constrain the search, in the order the
+ * refinement panel lists them
+ */
+export function describeFilters(filters: RefinementFilters): FilterChip[] {
+  const chips: (FilterChip | null)[] = [
+    filters.priceRange ? { key: 'priceRange', label: rangeLabel(filters.priceRange, formatPrice) ?? '' } : null,
+    filters.mileageRange
+      ? { key: 'mileageRange', label: rangeLabel(filters.mileageRange, formatMileage) ?? '' }
+      : null,
+    filters.yearMin ? { key: 'yearMin', label: `${filters.yearMin} or newer` } : null,
+    ...FACET_KEYS.map((key) => (filters[key]?.length ? { key, label: filters[key].join(' or ') } : null)),
+  ];
+
+  // An open-ended range at both ends doesn't constrain anything
+  return chips.filter((chip): chip is FilterChip => !!chip?.label);
+}
+
+// "registrationDate" reads as "Registration date" when it has no label of its own
+const fieldLabel = (fieldName: string) => {
+  const words = fieldName.replace(/([A-Z])/g, ' $1').toLowerCase();
+  return FIELD_LABELS[fieldName] ?? words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+function formatConstraintValue(fieldName: string, value: unknown): string {
+  if (Array.isArray(value)) {
+    return value.map((item) => formatConstraintValue(fieldName, item)).join(' or ');
+  }
+  if (typeof value === 'number') {
+    switch (fieldName) {
+      case 'price':
+        return formatPrice(value);
+      case 'mileage':
+        return formatMileage(value);
+      case 'engineSize':
+        return `${value.toFixed(1)}L`;
+      // Concepts judge the MOT by the days it has left
+      case 'motExpiryDate':
+        return `${value} days away`;
+      default:
+        return new Intl.NumberFormat('en-GB').format(value);
+    }
+  }
+  if (typeof value === 'string' && (fieldName === 'registrationDate' || fieldName === 'motExpiryDate')) {
+    const date = new Date(value);
+    if (!Number.isNaN(date.getTime())) {
+      // Registrations are constrained by year, as the query put it
+      return fieldName === 'registrationDate'
+        ? String(date.getUTCFullYear())
+        : date.toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric', timeZone: 'UTC' });
+    }
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'Yes' : 'No';
+  }
+  return String(value);
+}
+
+// The comparison without its field, e.g. "≤ £20,000" or "£5,000 – £20,000"
+function describeCondition(fieldName: string, operator: string, value: unknown): string {
+  if (operator === 'Between' && Array.isArray(value) && value.length === 2) {
+    return `${formatConstraintValue(fieldName, value[0])} – ${formatConstraintValue(fieldName, value[1])}`;
+  }
+  return `${OPERATOR_SYMBOLS[operator] || '='} ${formatConstraintValue(fieldName, value)}`;
+}
+
+/**
+ * A search constraint as a short phrase, e.g. "Price ≤ £20,000" or "Fuel = Diesel"
+ */
+export function describeConstraint({
+  fieldName,
+  operator,
+  value,
+}: {
+  fieldName: string;
+  operator: string;
+  value: unknown;
+}): string {
+  return `${fieldLabel(fieldName)} ${describeCondition(fieldName, operator, value)}`;
+}
+
+/**
+ * A change to the search's constraints between two turns, e.g. "Fuel = Diesel"
+ * when added or removed and "Price ≤ £20,000 → ≤ £15,000" when updated
+ */
+export function describeConstraintChange({
+  fieldName,
+  previous,
+  current,
+}: ConstraintChange | ConstraintChangeResponse): string {
+  if (previous && current) {
+    const before = describeCondition(fieldName, previous.operator, previous.value);
+    const after = describeCondition(fieldName, current.operator, current.value);
+    return `${fieldLabel(fieldName)} ${before} → ${after}`;
+  }
+  const constraint = current ?? previous;
+  return constraint ? describeConstraint(constraint) : fieldLabel(fieldName);
+}
+
+/**
+ * What a concept looks for in an attribute, e.g. "Mileage < 60,000 miles"
+ */
+export function describeAttributeWeight({ attribute, comparisonType, targetValue }: AttributeWeight): string {
+  return describeConstraint({
+    fieldName: attribute,
+    operator: COMPARISON_OPERATORS[comparisonType] ?? 'Equals',
+    value: targetValue,
+  });
+}
+
+/**
+ * The filters left once any filter on `fieldName` is taken out, so a constraint
+ * removed from the search isn't merged back in by the filter that added it
+ */
+export function removeFilterField(filters: RefinementFilters, fieldName: string): RefinementFilters {
+  const remaining = { ...filters };
+  if (fieldName === 'price') {
+    delete remaining.priceRange;
+  } else if (fieldName === 'mileage') {
+    delete remaining.mileageRange;
+  } else if (fieldName === 'registrationDate') {
+    delete remaining.yearMin;
+  }
+  for (const key of FACET_KEYS) {
+    if (FACET_FIELDS[key] === fieldName) {
+      delete remaining[key];
+    }
+  }
+  return remaining;
+}
+
+/**
+ * Leave out empty selections and open ranges, so equal filters compare equal
+ */
+export function compactFilters(filters: RefinementFilters): RefinementFilters {
+  const compact: RefinementFilters = {};
+  for (const key of ['priceRange', 'mileageRange'] as const) {
+    const range = filters[key];
+    if (range && (range.min !== undefined || range.max !== undefined)) {
+      compact[key] = {
+        ...(range.min !== undefined && { min: range.min }),
+        ...(range.max !== undefined && { max: range.max }),
+      };
+    }
+  }
+  if (filters.yearMin !== undefined) {
+    compact.yearMin = filters.yearMin;
+  }
+  for (const key of FACET_KEYS) {
+    if (filters[key]?.length) {
+      compact[key] = filters[key];
+    }
+  }
+  return compact;
+}
@@ -1,4 +1,4 @@
 // This file is auto-generated by @hey-api/openapi-ts
 
-export { getHealth, type Options } from './sdk.gen';
-export type { ClientOptions, GetHealthData, GetHealthResponses } from './types.gen';
+export { classifyIntent, clearConversationSession, composeQuery, computeSimilarity, createConversationSession, createSearchIndex, deleteSearchIndex, explainRelevance, extractEntities, getConversationHistory, getConversationSession, getHealth, getKnowledgeBaseStatus, getSearchFacets, getSearchIndexStatus, getVehicleById, getVehicleCount, indexVehicles, ingestVehicleData, mapQuery, type Options, orchestrationSearch, parseQuery, refineQuery, rerankResults, resolveReferences, semanticSearch, streamSearch } from './sdk.gen';
+export type { AttributeWeight, ClassifyIntentData, ClassifyIntentResponse, ClassifyIntentResponse2, ClassifyIntentResponses, ClearConversationSessionData, ClearConversationSessionResponse, ClearConversationSessionResponses, ClearSessionResponse, ClientOptions, ComposedQuery, ComposeQueryData, ComposeQueryRequest, ComposeQueryResponse, ComposeQueryResponse2, ComposeQueryResponses, ComputeSimilarityData, ComputeSimilarityResponse, ComputeSimilarityResponses, ConceptualMapping, ConstraintChange, ConstraintChangeResponse, ConstraintChangeType, ConstraintGroup, ConstraintGroupResponse, ConstraintOperator, ConstraintResponse, ConstraintType, ConversationHistory, ConversationMessage, CreateConversationSessionData, CreateConversationSessionResponse, CreateConversationSessionResponses, CreateIndexResponse, CreateSearchIndexData, CreateSearchIndexResponse, CreateSearchIndexResponses, CreateSessionResponse, DeleteIndexResponse, DeleteSearchIndexData, DeleteSearchIndexResponse, DeleteSearchIndexResponses, EntityResponse, EntityType, ExplainedScore, ExplainRelevanceData, ExplainRelevanceResponse, ExplainRelevanceResponses, ExplainRequest, ExtractedEntity, ExtractEntitiesData, ExtractEntitiesResponse, ExtractEntitiesResponses, FacetResults, FacetsRequest, FacetValue, FilterRequest, GetConversationHistoryData, GetConversationHistoryResponse, GetConversationHistoryResponses, GetConversationSessionData, GetConversationSessionResponse, GetConversationSessionResponses, GetHealthData, GetHealthResponse, GetHealthResponses, GetKnowledgeBaseStatusData, GetKnowledgeBaseStatusResponse, GetKnowledgeBaseStatusResponses, GetSearchFacetsData, GetSearchFacetsResponse, GetSearchFacetsResponses, GetSearchIndexStatusData, GetSearchIndexStatusResponse, GetSearchIndexStatusResponses, GetSessionResponse, GetVehicleByIdData, GetVehicleByIdResponse, GetVehicleByIdResponses, GetVehicleCountData, GetVehicleCountResponse, GetVehicleCountResponses, HealthDependenciesResponse, HealthResponse, IndexingErrorResponse, IndexStatus, IndexVehiclesData, IndexVehiclesRequest, IndexVehiclesResponse, IndexVehiclesResponse2, IndexVehiclesResponses, IngestErrorResponse, IngestRequest, IngestResponse, IngestVehicleDataData, IngestVehicleDataResponse, IngestVehicleDataResponses, KnowledgeBaseStatusResponse, LogicalOperator, MappedQuery, MapQueryData, MapQueryRequest, MapQueryResponse, MapQueryResponse2, MapQueryResponses, MessageRole, NumericRange, OrchestratedSearchRequest, OrchestratedSearchResponse, OrchestrationSearchData, OrchestrationSearchResponse, OrchestrationSearchResponses, ParsedQuery, ParseQueryData, ParseQueryRequest, ParseQueryResponse, ParseQueryResponse2, ParseQueryResponses, QueryIntent, QueryType, ReferenceResponse, RefineQueryData, RefineQueryRequest, RefineQueryResponse, RefineQueryResponse2, RefineQueryResponses, RerankRequest, RerankResponse, RerankResultsData, RerankResultsResponse, RerankResultsResponses, RerankStrategyRequest, RerankVehicleData, RerankVehicleResult, ResolveReferencesData, ResolveReferencesRequest, ResolveReferencesResponse, ResolveReferencesResponse2, ResolveReferencesResponses, ScoreBreakdownResponse, ScoreComponent, SearchConstraint, SearchResultsMetadata, SearchStageResponse, SearchState, SearchStrategyResponse, SemanticSearchApiRequest, SemanticSearchApiResponse, SemanticSearchData, SemanticSearchResponse, SemanticSearchResponses, SimilarityRequest, SimilarityScore, StreamSearchData, StreamSearchResponse, StreamSearchResponses, VehicleCountResponse, VehicleDetailResponse, VehicleMatchResponse, VehicleResponse, VehicleSearchResult } from './types.gen';
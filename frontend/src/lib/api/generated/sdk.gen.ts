@@ -2,7 +2,7 @@
 
 import type { Client, Options as Options2, TDataShape } from './client';
 import { client } from './client.gen';
-import type { GetHealthData, GetHealthResponses } from './types.gen';
+import type { ClassifyIntentData, ClassifyIntentResponses, ClearConversationSessionData, ClearConversationSessionResponses, ComposeQueryData, ComposeQueryResponses, ComputeSimilarityData, ComputeSimilarityResponses, CreateConversationSessionData, CreateConversationSessionResponses, CreateSearchIndexData, CreateSearchIndexResponses, DeleteSearchIndexData, DeleteSearchIndexResponses, ExplainRelevanceData, ExplainRelevanceResponses, ExtractEntitiesData, ExtractEntitiesResponses, GetConversationHistoryData, GetConversationHistoryResponses, GetConversationSessionData, GetConversationSessionResponses, GetHealthData, GetHealthResponses, GetKnowledgeBaseStatusData, GetKnowledgeBaseStatusResponses, GetSearchFacetsData, GetSearchFacetsResponses, GetSearchIndexStatusData, GetSearchIndexStatusResponses, GetVehicleByIdData, GetVehicleByIdResponses, GetVehicleCountData, GetVehicleCountResponses, IndexVehiclesData, IndexVehiclesResponses, IngestVehicleDataData, IngestVehicleDataResponses, MapQueryData, MapQueryResponses, OrchestrationSearchData, OrchestrationSearchResponses, ParseQueryData, ParseQueryResponses, RefineQueryData, RefineQueryResponses, RerankResultsData, RerankResultsResponses, ResolveReferencesData, ResolveReferencesResponses, SemanticSearchData, SemanticSearchResponses, StreamSearchData, StreamSearchResponses } from './types.gen';
 
 export type Options<TData extends TDataShape = TDataShape, ThrowOnError extends boolean = boolean> = Options2<TData, ThrowOnError> & {
     /**
@@ -19,3 +19,297 @@ export type Options<TData extends TDataShape = TDataShape, ThrowOnError extends
 };
 
 export const getHealth = <ThrowOnError extends boolean = false>(options?: Options<GetHealthData, ThrowOnError>) => (options?.client ?? client).get<GetHealthResponses, unknown, ThrowOnError>({ url: '/api/health', ...options });
+
+/**
+ * Ingest vehicle data from a CSV file
+ *
+ * Parses, validates, and normalizes vehicle data from a CSV file
+ */
+export const ingestVehicleData = <ThrowOnError extends boolean = false>(options: Options<IngestVehicleDataData, ThrowOnError>) => (options.client ?? client).post<IngestVehicleDataResponses, unknown, ThrowOnError>({
+    url: '/api/v1/knowledge-base/ingest',
+    ...options,
+    headers: {
+        'Content-Type': 'application/json',
+        ...options.headers
+    }
+});
+
+/**
+ * Get knowledge base status
+ *
+ * Returns the current status of the knowledge base including total vehicles and last ingestion date
+ */
+export const getKnowledgeBaseStatus = <ThrowOnError extends boolean = false>(options?: Options<GetKnowledgeBaseStatusData, ThrowOnError>) => (options?.client ?? client).get<GetKnowledgeBaseStatusResponses, unknown, ThrowOnError>({ url: '/api/v1/knowledge-base/status', ...options });
+
+/**
+ * Create the Azure AI Search index
+ *
+ * Creates the search index with the full schema including vector fields for hybrid search
+ */
+export const createSearchIndex = <ThrowOnError extends boolean = false>(options?: Options<CreateSearchIndexData, ThrowOnError>) => (options?.client ?? client).post<CreateSearchIndexResponses, unknown, ThrowOnError>({ url: '/api/v1/knowledge-base/index/create', ...options });
+
+/**
+ * Delete the Azure AI Search index
+ *
+ * Deletes the search index and all its documents
+ */
+export const deleteSearchIndex = <ThrowOnError extends boolean = false>(options?: Options<DeleteSearchIndexData, ThrowOnError>) => (options?.client ?? client).delete<DeleteSearchIndexResponses, unknown, ThrowOnError>({ url: '/api/v1/knowledge-base/index', ...options });
+
+/**
+ * Get search index status
+ *
+ * Returns the current status of the search index including document count and storage size
+ */
+export const getSearchIndexStatus = <ThrowOnError extends boolean = false>(options?: Options<GetSearchIndexStatusData, ThrowOnError>) => (options?.client ?? client).get<GetSearchIndexStatusResponses, unknown, ThrowOnError>({ url: '/api/v1/knowledge-base/index/status', ...options });
+
+/**
+ * Index vehicles with embeddings
+ *
+ * Loads vehicles from CSV, generates embeddings, and indexes them in Azure AI Search
+ */
+export const indexVehicles = <ThrowOnError extends boolean = false>(options?: Options<IndexVehiclesData, ThrowOnError>) => (options?.client ?? client).post<IndexVehiclesResponses, unknown, ThrowOnError>({
+    url: '/api/v1/knowledge-base/index-vehicles',
+    ...options,
+    headers: {
+        'Content-Type': 'application/json',
+        ...options?.headers
+    }
+});
+
+/**
+ * Get vehicle by ID
+ *
+ * Retrieves a vehicle by its registration number from the search index
+ */
+export const getVehicleById = <ThrowOnError extends boolean = false>(options: Options<GetVehicleByIdData, ThrowOnError>) => (options.client ?? client).get<GetVehicleByIdResponses, unknown, ThrowOnError>({ url: '/api/v1/vehicles/{id}', ...options });
+
+/**
+ * Get total vehicle count
+ *
+ * Returns the total number of vehicles in the search index
+ */
+export const getVehicleCount = <ThrowOnError extends boolean = false>(options?: Options<GetVehicleCountData, ThrowOnError>) => (options?.client ?? client).get<GetVehicleCountResponses, unknown, ThrowOnError>({ url: '/api/v1/vehicles', ...options });
+
+/**
+ * Parse natural language query
+ *
+ * Classifies intent and extracts entities from a user query
+ */
+export const parseQuery = <ThrowOnError extends boolean = false>(options: Options<ParseQueryData, ThrowOnError>) => (options.client ?? client).post<ParseQueryResponses, unknown, ThrowOnError>({
+    url: '/api/v1/query/parse',
+    ...options,
+    headers: {
+        'Content-Type': 'application/json',
+        ...options.headers
+    }
+});
+
+/**
+ * Classify query intent
+ *
+ * Classifies the intent of a user query
+ */
+export const classifyIntent = <ThrowOnError extends boolean = false>(options: Options<ClassifyIntentData, ThrowOnError>) => (options.client ?? client).post<ClassifyIntentResponses, unknown, ThrowOnError>({
+    url: '/api/v1/query/intent',
+    ...options,
+    headers: {
+        'Content-Type': 'application/json',
+        ...options.headers
+    }
+});
+
+/**
+ * Extract entities from query
+ *
+ * Extracts vehicle-related entities from a user query
+ */
+export const extractEntities = <ThrowOnError extends boolean = false>(options: Options<ExtractEntitiesData, ThrowOnError>) => (options.client ?? client).post<ExtractEntitiesResponses, unknown, ThrowOnError>({
+    url: '/api/v1/query/entities',
+    ...options,
+    headers: {
+        'Content-Type': 'application/json',
+        ...options.headers
+    }
+});
+
+/**
+ * Map parsed query to search constraints
+ *
+ * Maps extracted entities from a parsed query into structured search constraints
+ */
+export const mapQuery = <ThrowOnError extends boolean = false>(options: Options<MapQueryData, ThrowOnError>) => (options.client ?? client).post<MapQueryResponses, unknown, ThrowOnError>({
+    url: '/api/v1/query/map',
+    ...options,
+    headers: {
+        'Content-Type': 'application/json',
+        ...options.headers
+    }
+});
+
+/**
+ * Compose complex search query
+ *
+ * Composes a complex search query from mapped constraints with logical operators and conflict resolution
+ */
+export const composeQuery = <ThrowOnError extends boolean = false>(options: Options<ComposeQueryData, ThrowOnError>) => (options.client ?? client).post<ComposeQueryResponses, unknown, ThrowOnError>({
+    url: '/api/v1/query/compose',
+    ...options,
+    headers: {
+        'Content-Type': 'application/json',
+        ...options.headers
+    }
+});
+
+/**
+ * Resolve references in query
+ *
+ * Resolves pronouns and references in a query using conversation context
+ */
+export const resolveReferences = <ThrowOnError extends boolean = false>(options: Options<ResolveReferencesData, ThrowOnError>) => (options.client ?? client).post<ResolveReferencesResponses, unknown, ThrowOnError>({
+    url: '/api/v1/query/resolve',
+    ...options,
+    headers: {
+        'Content-Type': 'application/json',
+        ...options.headers
+    }
+});
+
+/**
+ * Refine query with previous context
+ *
+ * Refines a query by combining new constraints with previous search state
+ */
+export const refineQuery = <ThrowOnError extends boolean = false>(options: Options<RefineQueryData, ThrowOnError>) => (options.client ?? client).post<RefineQueryResponses, unknown, ThrowOnError>({
+    url: '/api/v1/query/refine',
+    ...options,
+    headers: {
+        'Content-Type': 'application/json',
+        ...options.headers
+    }
+});
+
+/**
+ * Execute an orchestrated search with automatic strategy selection
+ *
+ * Executes a search using the optimal combination of exact match, semantic search, and filtering based on query characteristics
+ */
+export const orchestrationSearch = <ThrowOnError extends boolean = false>(options: Options<OrchestrationSearchData, ThrowOnError>) => (options.client ?? client).post<OrchestrationSearchResponses, unknown, ThrowOnError>({
+    url: '/api/v1/search',
+    ...options,
+    headers: {
+        'Content-Type': 'application/json',
+        ...options.headers
+    }
+});
+
+/**
+ * Stream an orchestrated search as Server-Sent Events
+ *
+ * Executes the same search as POST /api/v1/search, sending exact, semantic and reranked results as they become available
+ */
+export const streamSearch = <ThrowOnError extends boolean = false>(options: Options<StreamSearchData, ThrowOnError>) => (options.client ?? client).sse.post<StreamSearchResponses, unknown, ThrowOnError>({
+    url: '/api/v1/search/stream',
+    ...options,
+    headers: {
+        'Content-Type': 'application/json',
+        ...options.headers
+    }
+});
+
+/**
+ * Get facet values and counts for a result set
+ *
+ * Returns the distinct values of make, model, body type, colour, fuel, transmission, location and grade with vehicle counts, and the price, mileage and year bounds, for the vehicles matching a composed query
+ */
+export const getSearchFacets = <ThrowOnError extends boolean = false>(options: Options<GetSearchFacetsData, ThrowOnError>) => (options.client ?? client).post<GetSearchFacetsResponses, unknown, ThrowOnError>({
+    url: '/api/v1/search/facets',
+    ...options,
+    headers: {
+        'Content-Type': 'application/json',
+        ...options.headers
+    }
+});
+
+/**
+ * Perform semantic search using vector embeddings
+ *
+ * Searches for vehicles using natural language queries and vector similarity matching
+ */
+export const semanticSearch = <ThrowOnError extends boolean = false>(options: Options<SemanticSearchData, ThrowOnError>) => (options.client ?? client).post<SemanticSearchResponses, unknown, ThrowOnError>({
+    url: '/api/v1/search/semantic',
+    ...options,
+    headers: {
+        'Content-Type': 'application/json',
+        ...options.headers
+    }
+});
+
+/**
+ * Compute similarity score for a vehicle against a concept
+ *
+ * Computes multi-factor similarity between a vehicle and a qualitative concept
+ */
+export const computeSimilarity = <ThrowOnError extends boolean = false>(options: Options<ComputeSimilarityData, ThrowOnError>) => (options.client ?? client).post<ComputeSimilarityResponses, unknown, ThrowOnError>({
+    url: '/api/v1/search/similarity',
+    ...options,
+    headers: {
+        'Content-Type': 'application/json',
+        ...options.headers
+    }
+});
+
+/**
+ * Generate explanation for why a vehicle matched a query
+ *
+ * Provides an explainable relevance score with detailed breakdown
+ */
+export const explainRelevance = <ThrowOnError extends boolean = false>(options: Options<ExplainRelevanceData, ThrowOnError>) => (options.client ?? client).post<ExplainRelevanceResponses, unknown, ThrowOnError>({
+    url: '/api/v1/search/explain',
+    ...options,
+    headers: {
+        'Content-Type': 'application/json',
+        ...options.headers
+    }
+});
+
+/**
+ * Re-rank search results using advanced ranking algorithms
+ *
+ * Applies weighted scoring, business rules, and diversity enhancement to improve result relevance
+ */
+export const rerankResults = <ThrowOnError extends boolean = false>(options: Options<RerankResultsData, ThrowOnError>) => (options.client ?? client).post<RerankResultsResponses, unknown, ThrowOnError>({
+    url: '/api/v1/search/rerank',
+    ...options,
+    headers: {
+        'Content-Type': 'application/json',
+        ...options.headers
+    }
+});
+
+/**
+ * Create new conversation session
+ *
+ * Creates a new conversation session with a unique ID
+ */
+export const createConversationSession = <ThrowOnError extends boolean = false>(options?: Options<CreateConversationSessionData, ThrowOnError>) => (options?.client ?? client).post<CreateConversationSessionResponses, unknown, ThrowOnError>({ url: '/api/v1/conversation', ...options });
+
+/**
+ * Clear/delete session
+ *
+ * Deletes a conversation session and all its data
+ */
+export const clearConversationSession = <ThrowOnError extends boolean = false>(options: Options<ClearConversationSessionData, ThrowOnError>) => (options.client ?? client).delete<ClearConversationSessionResponses, unknown, ThrowOnError>({ url: '/api/v1/conversation/{sessionId}', ...options });
+
+/**
+ * Get session details
+ *
+ * Retrieves details of an existing conversation session
+ */
+export const getConversationSession = <ThrowOnError extends boolean = false>(options: Options<GetConversationSessionData, ThrowOnError>) => (options.client ?? client).get<GetConversationSessionResponses, unknown, ThrowOnError>({ url: '/api/v1/conversation/{sessionId}', ...options });
+
+/**
+ * Get conversation history
+ *
+ * Retrieves the conversation history for a session
+ */
+export const getConversationHistory = <ThrowOnError extends boolean = false>(options: Options<GetConversationHistoryData, ThrowOnError>) => (options.client ?? client).get<GetConversationHistoryResponses, unknown, ThrowOnError>({ url: '/api/v1/conversation/{sessionId}/history', ...options });
@@ -4,6 +4,554 @@ export type ClientOptions = {
     baseUrl: `${string}://openapi.json` | (string & {});
 };
 
+export type AttributeWeight = {
+    attribute: string;
+    weight: number;
+    targetValue?: unknown;
+    comparisonType: string;
+};
+
+export type ClassifyIntentResponse = {
+    intent: string;
+};
+
+export type ClearSessionResponse = {
+    success: boolean;
+    message: string;
+};
+
+export type ComposeQueryRequest = {
+    mappedQuery: MappedQuery;
+};
+
+export type ComposeQueryResponse = {
+    type: string;
+    constraintGroups: Array<ConstraintGroupResponse>;
+    groupOperator: string;
+    warnings: Array<string>;
+    hasConflicts: boolean;
+    oDataFilter?: string | null;
+};
+
+export type ComposedQuery = {
+    type: QueryType;
+    constraintGroups: Array<ConstraintGroup>;
+    groupOperator: LogicalOperator;
+    warnings: Array<string>;
+    hasConflicts: boolean;
+    oDataFilter?: string | null;
+    orderBy?: string | null;
+};
+
+export type ConceptualMapping = {
+    concept: string;
+    attributeWeights: Array<AttributeWeight>;
+    positiveIndicators: Array<string>;
+    negativeIndicators: Array<string>;
+};
+
+export type ConstraintChange = {
+    fieldName: string;
+    changeType: ConstraintChangeType;
+    previous?: SearchConstraint | null;
+    current?: SearchConstraint | null;
+};
+
+export type ConstraintChangeResponse = {
+    fieldName: string;
+    changeType: string;
+    previous?: ConstraintResponse | null;
+    current?: ConstraintResponse | null;
+};
+
+export type ConstraintChangeType = 'Added' | 'Updated' | 'Removed';
+
+export type ConstraintGroup = {
+    constraints: Array<SearchConstraint>;
+    operator: LogicalOperator;
+    priority: number;
+};
+
+export type ConstraintGroupResponse = {
+    constraints: Array<ConstraintResponse>;
+    operator: string;
+    priority: number;
+};
+
+export type ConstraintOperator = 'Equals' | 'NotEquals' | 'GreaterThan' | 'GreaterThanOrEqual' | 'LessThan' | 'LessThanOrEqual' | 'Between' | 'Contains' | 'In';
+
+export type ConstraintResponse = {
+    fieldName: string;
+    operator: string;
+    value: unknown;
+    type: string;
+};
+
+export type ConstraintType = 'Exact' | 'Range' | 'Semantic' | 'Composite';
+
+export type ConversationHistory = {
+    sessionId: string;
+    messages: Array<ConversationMessage>;
+    totalMessages: number;
+};
+
+export type ConversationMessage = {
+    messageId: string;
+    timestamp: string;
+    role: MessageRole;
+    content: string;
+    parsedQuery?: ParsedQuery | null;
+    results?: SearchResultsMetadata | null;
+};
+
+export type CreateIndexResponse = {
+    indexName: string;
+    fieldsCount: number;
+    vectorFieldsCount: number;
+    created: boolean;
+    timestamp: string;
+};
+
+export type CreateSessionResponse = {
+    sessionId: string;
+    createdAt: string;
+};
+
+export type DeleteIndexResponse = {
+    deleted: boolean;
+    timestamp: string;
+};
+
+export type EntityResponse = {
+    type: string;
+    value: string;
+    confidence: number;
+    startPosition: number;
+    endPosition: number;
+};
+
+export type EntityType = 'Make' | 'Model' | 'Derivative' | 'Price' | 'PriceRange' | 'Mileage' | 'EngineSize' | 'FuelType' | 'Transmission' | 'BodyType' | 'Colour' | 'Feature' | 'Location' | 'Year' | 'QualitativeTerm';
+
+export type ExplainRequest = {
+    vehicleId: string;
+    query: ParsedQuery;
+};
+
+export type ExplainedScore = {
+    score: number;
+    explanation: string;
+    components: Array<ScoreComponent>;
+};
+
+export type ExtractedEntity = {
+    type: EntityType;
+    value: string;
+    confidence: number;
+    startPosition: number;
+    endPosition: number;
+};
+
+export type FacetResults = {
+    facets: {
+        [key: string]: Array<FacetValue>;
+    };
+    ranges: {
+        [key: string]: NumericRange;
+    };
+    totalCount: number;
+};
+
+export type FacetValue = {
+    value: string;
+    count: number;
+};
+
+export type FacetsRequest = {
+    composedQuery?: ComposedQuery | null;
+};
+
+export type FilterRequest = {
+    fieldName: string;
+    operator: string;
+    value: unknown;
+};
+
+export type GetSessionResponse = {
+    sessionId: string;
+    createdAt: string;
+    lastAccessedAt: string;
+    messageCount: number;
+    currentSearchState?: SearchState | null;
+};
+
+export type HealthDependenciesResponse = {
+    database: string;
+    aiService: string;
+    searchService: string;
+};
+
+export type HealthResponse = {
+    status: string;
+    timestamp: string;
+    version: string;
+    dependencies: HealthDependenciesResponse;
+};
+
+export type IndexStatus = {
+    exists: boolean;
+    indexName: string;
+    documentCount: number;
+    storageSize: string;
+};
+
+export type IndexVehiclesRequest = {
+    filePath: string;
+    generateEmbeddings: boolean;
+    batchSize: number;
+};
+
+export type IndexVehiclesResponse = {
+    totalVehicles: number;
+    succeeded: number;
+    failed: number;
+    embeddingsGenerated: number;
+    indexingTime: number;
+    errors: Array<IndexingErrorResponse>;
+};
+
+export type IndexingErrorResponse = {
+    vehicleId: string;
+    message: string;
+    timestamp: string;
+};
+
+export type IngestErrorResponse = {
+    rowNumber: number;
+    fieldName: string;
+    message: string;
+    value?: string | null;
+};
+
+export type IngestRequest = {
+    source: string;
+    filePath: string;
+};
+
+export type IngestResponse = {
+    success: boolean;
+    totalRows: number;
+    validRows: number;
+    invalidRows: number;
+    processingTimeMs: number;
+    completedAt: string;
+    errors: Array<IngestErrorResponse>;
+};
+
+export type KnowledgeBaseStatusResponse = {
+    totalVehicles: number;
+    lastIngestionDate?: string | null;
+    dataSource: string;
+    status: string;
+};
+
+export type LogicalOperator = 'And' | 'Or';
+
+export type MapQueryRequest = {
+    parsedQuery: ParsedQuery;
+};
+
+export type MapQueryResponse = {
+    constraints: Array<ConstraintResponse>;
+    unmappableTerms: Array<string>;
+    metadata: {
+        [key: string]: unknown;
+    };
+    concepts: Array<ConceptualMapping>;
+};
+
+export type MappedQuery = {
+    constraints: Array<SearchConstraint>;
+    unmappableTerms: Array<string>;
+    metadata: {
+        [key: string]: unknown;
+    };
+};
+
+export type MessageRole = 'User' | 'Assistant' | 'System';
+
+export type NumericRange = {
+    min: number;
+    max: number;
+};
+
+export type OrchestratedSearchRequest = {
+    composedQuery: ComposedQuery;
+    maxResults: number;
+    offset: number;
+    sessionId?: string | null;
+    query?: string | null;
+    strategy?: string | null;
+};
+
+export type OrchestratedSearchResponse = {
+    results: Array<VehicleSearchResult>;
+    totalCount: number;
+    strategy: SearchStrategyResponse;
+    searchDuration: string;
+    stages: Array<SearchStageResponse>;
+};
+
+export type ParseQueryRequest = {
+    query: string;
+    conversationId?: string | null;
+};
+
+export type ParseQueryResponse = {
+    originalQuery: string;
+    intent: string;
+    confidence: number;
+    entities: Array<EntityResponse>;
+    unmappedTerms: Array<string>;
+};
+
+export type ParsedQuery = {
+    originalQuery: string;
+    intent: QueryIntent;
+    entities: Array<ExtractedEntity>;
+    confidenceScore: number;
+    unmappedTerms: Array<string>;
+};
+
+export type QueryIntent = 'Search' | 'Refine' | 'Compare' | 'Information' | 'OffTopic';
+
+export type QueryType = 'Simple' | 'Filtered' | 'Complex' | 'MultiModal';
+
+export type ReferenceResponse = {
+    referenceText: string;
+    type: string;
+    resolvedValue: string;
+    position: number;
+    vehicleIds: Array<string>;
+    constraint?: ConstraintResponse | null;
+};
+
+export type RefineQueryRequest = {
+    query: string;
+    sessionId: string;
+};
+
+export type RefineQueryResponse = {
+    composedQuery: ComposeQueryResponse;
+    addedConstraints: Array<string>;
+    updatedConstraints: Array<string>;
+    removedConstraints: Array<string>;
+    changes: Array<ConstraintChangeResponse>;
+    previousCount?: number | null;
+};
+
+export type RerankRequest = {
+    results: Array<RerankVehicleResult>;
+    query: ComposedQuery;
+    strategy?: RerankStrategyRequest | null;
+};
+
+export type RerankResponse = {
+    results: Array<VehicleSearchResult>;
+};
+
+export type RerankStrategyRequest = {
+    approach: string;
+    factorWeights?: {
+        [key: string]: number;
+    } | null;
+    applyDiversity?: boolean | null;
+    maxPerMake?: number | null;
+    maxPerModel?: number | null;
+};
+
+export type RerankVehicleData = {
+    make: string;
+    model: string;
+    derivative: string;
+    price: number;
+    mileage: number;
+    bodyType: string;
+    engineSize: number;
+    fuelType: string;
+    transmissionType: string;
+    colour: string;
+    numberOfDoors?: number | null;
+    registrationDate?: string | null;
+    features: Array<string>;
+    serviceHistoryPresent?: boolean | null;
+    numberOfServices?: number | null;
+    lastServiceDate?: string | null;
+    motExpiryDate?: string | null;
+    declarations?: Array<string> | null;
+};
+
+export type RerankVehicleResult = {
+    vehicleId: string;
+    vehicle: RerankVehicleData;
+    relevanceScore: number;
+    scoreBreakdown?: ScoreBreakdownResponse | null;
+};
+
+export type ResolveReferencesRequest = {
+    query: string;
+    sessionId: string;
+};
+
+export type ResolveReferencesResponse = {
+    originalQuery: string;
+    resolvedQuery: string;
+    resolvedReferences: Array<ReferenceResponse>;
+    resolvedValues: {
+        [key: string]: unknown;
+    };
+    hasUnresolvedReferences: boolean;
+    unresolvedMessage?: string | null;
+};
+
+export type ScoreBreakdownResponse = {
+    exactMatchScore: number;
+    semanticScore: number;
+    keywordScore: number;
+    finalScore: number;
+};
+
+export type ScoreComponent = {
+    factor: string;
+    score: number;
+    weight: number;
+    reason: string;
+};
+
+export type SearchConstraint = {
+    fieldName: string;
+    operator: ConstraintOperator;
+    value: unknown;
+    type: ConstraintType;
+};
+
+export type SearchResultsMetadata = {
+    count: number;
+    resultIds: Array<string>;
+    previousCount?: number | null;
+    changes: Array<ConstraintChange>;
+};
+
+export type SearchStageResponse = {
+    name: string;
+    durationMs: number;
+};
+
+export type SearchState = {
+    lastQuery?: string | null;
+    lastResultIds: Array<string>;
+    activeFilters: {
+        [key: string]: SearchConstraint;
+    };
+    viewedVehicleIds: Array<string>;
+    lastSearchTime?: string | null;
+};
+
+export type SearchStrategyResponse = {
+    type: string;
+    approaches: Array<string>;
+    weights: {
+        [key: string]: number;
+    };
+    shouldRerank: boolean;
+};
+
+export type SemanticSearchApiRequest = {
+    query: string;
+    maxResults: number;
+    filters?: Array<FilterRequest> | null;
+};
+
+export type SemanticSearchApiResponse = {
+    matches: Array<VehicleMatchResponse>;
+    averageScore: number;
+    searchDuration: string;
+};
+
+export type SimilarityRequest = {
+    vehicleId: string;
+    concept: string;
+};
+
+export type SimilarityScore = {
+    overallScore: number;
+    componentScores: {
+        [key: string]: number;
+    };
+    matchingAttributes: Array<string>;
+    mismatchingAttributes: Array<string>;
+    descriptionBoost: number;
+    matchedPositiveIndicators: Array<string>;
+    matchedNegativeIndicators: Array<string>;
+};
+
+export type VehicleCountResponse = {
+    totalVehicles: number;
+    timestamp: string;
+};
+
+export type VehicleDetailResponse = {
+    id: string;
+    make: string;
+    model: string;
+    derivative: string;
+    price: number;
+    mileage: number;
+    bodyType: string;
+    engineSize: number;
+    fuelType: string;
+    transmissionType: string;
+    colour: string;
+    numberOfDoors?: number | null;
+    registrationDate?: string | null;
+    saleLocation: string;
+    channel: string;
+    features: Array<string>;
+    description: string;
+};
+
+export type VehicleMatchResponse = {
+    vehicleId: string;
+    vehicle: VehicleResponse;
+    similarityScore: number;
+    normalizedScore: number;
+};
+
+export type VehicleResponse = {
+    id: string;
+    make: string;
+    model: string;
+    derivative: string;
+    price: number;
+    mileage: number;
+    bodyType: string;
+    engineSize: number;
+    fuelType: string;
+    transmissionType: string;
+    colour: string;
+    numberOfDoors?: number | null;
+    registrationDate?: string | null;
+    motExpiryDate?: string | null;
+    processedDate?: string | null;
+    saleLocation: string;
+    features: Array<string>;
+};
+
+export type VehicleSearchResult = {
+    vehicle: VehicleResponse;
+    relevanceScore: number;
+    scoreBreakdown?: ScoreBreakdownResponse | null;
+};
+
 export type GetHealthData = {
     body?: never;
     path?: never;
@@ -15,5 +563,433 @@ export type GetHealthResponses = {
     /**
      * OK
      */
-    200: unknown;
+    200: HealthResponse;
+};
+
+export type GetHealthResponse = GetHealthResponses[keyof GetHealthResponses];
+
+export type IngestVehicleDataData = {
+    body: IngestRequest;
+    path?: never;
+    query?: never;
+    url: '/api/v1/knowledge-base/ingest';
+};
+
+export type IngestVehicleDataResponses = {
+    /**
+     * OK
+     */
+    200: IngestResponse;
+};
+
+export type IngestVehicleDataResponse = IngestVehicleDataResponses[keyof IngestVehicleDataResponses];
+
+export type GetKnowledgeBaseStatusData = {
+    body?: never;
+    path?: never;
+    query?: never;
+    url: '/api/v1/knowledge-base/status';
+};
+
+export type GetKnowledgeBaseStatusResponses = {
+    /**
+     * OK
+     */
+    200: KnowledgeBaseStatusResponse;
+};
+
+export type GetKnowledgeBaseStatusResponse = GetKnowledgeBaseStatusResponses[keyof GetKnowledgeBaseStatusResponses];
+
+export type CreateSearchIndexData = {
+    body?: never;
+    path?: never;
+    query?: never;
+    url: '/api/v1/knowledge-base/index/create';
+};
+
+export type CreateSearchIndexResponses = {
+    /**
+     * OK
+     */
+    200: CreateIndexResponse;
+};
+
+export type CreateSearchIndexResponse = CreateSearchIndexResponses[keyof CreateSearchIndexResponses];
+
+export type DeleteSearchIndexData = {
+    body?: never;
+    path?: never;
+    query?: never;
+    url: '/api/v1/knowledge-base/index';
+};
+
+export type DeleteSearchIndexResponses = {
+    /**
+     * OK
+     */
+    200: DeleteIndexResponse;
+};
+
+export type DeleteSearchIndexResponse = DeleteSearchIndexResponses[keyof DeleteSearchIndexResponses];
+
+export type GetSearchIndexStatusData = {
+    body?: never;
+    path?: never;
+    query?: never;
+    url: '/api/v1/knowledge-base/index/status';
+};
+
+export type GetSearchIndexStatusResponses = {
+    /**
+     * OK
+     */
+    200: IndexStatus;
+};
+
+export type GetSearchIndexStatusResponse = GetSearchIndexStatusResponses[keyof GetSearchIndexStatusResponses];
+
+export type IndexVehiclesData = {
+    body?: IndexVehiclesRequest;
+    path?: never;
+    query?: never;
+    url: '/api/v1/knowledge-base/index-vehicles';
+};
+
+export type IndexVehiclesResponses = {
+    /**
+     * OK
+     */
+    200: IndexVehiclesResponse;
+};
+
+export type IndexVehiclesResponse2 = IndexVehiclesResponses[keyof IndexVehiclesResponses];
+
+export type GetVehicleByIdData = {
+    body?: never;
+    path: {
+        id: string;
+    };
+    query?: never;
+    url: '/api/v1/vehicles/{id}';
+};
+
+export type GetVehicleByIdResponses = {
+    /**
+     * OK
+     */
+    200: VehicleDetailResponse;
+};
+
+export type GetVehicleByIdResponse = GetVehicleByIdResponses[keyof GetVehicleByIdResponses];
+
+export type GetVehicleCountData = {
+    body?: never;
+    path?: never;
+    query?: never;
+    url: '/api/v1/vehicles';
+};
+
+export type GetVehicleCountResponses = {
+    /**
+     * OK
+     */
+    200: VehicleCountResponse;
+};
+
+export type GetVehicleCountResponse = GetVehicleCountResponses[keyof GetVehicleCountResponses];
+
+export type ParseQueryData = {
+    body: ParseQueryRequest;
+    path?: never;
+    query?: never;
+    url: '/api/v1/query/parse';
+};
+
+export type ParseQueryResponses = {
+    /**
+     * OK
+     */
+    200: ParseQueryResponse;
+};
+
+export type ParseQueryResponse2 = ParseQueryResponses[keyof ParseQueryResponses];
+
+export type ClassifyIntentData = {
+    body: ParseQueryRequest;
+    path?: never;
+    query?: never;
+    url: '/api/v1/query/intent';
+};
+
+export type ClassifyIntentResponses = {
+    /**
+     * OK
+     */
+    200: ClassifyIntentResponse;
+};
+
+export type ClassifyIntentResponse2 = ClassifyIntentResponses[keyof ClassifyIntentResponses];
+
+export type ExtractEntitiesData = {
+    body: ParseQueryRequest;
+    path?: never;
+    query?: never;
+    url: '/api/v1/query/entities';
+};
+
+export type ExtractEntitiesResponses = {
+    /**
+     * OK
+     */
+    200: Array<EntityResponse>;
+};
+
+export type ExtractEntitiesResponse = ExtractEntitiesResponses[keyof ExtractEntitiesResponses];
+
+export type MapQueryData = {
+    body: MapQueryRequest;
+    path?: never;
+    query?: never;
+    url: '/api/v1/query/map';
+};
+
+export type MapQueryResponses = {
+    /**
+     * OK
+     */
+    200: MapQueryResponse;
+};
+
+export type MapQueryResponse2 = MapQueryResponses[keyof MapQueryResponses];
+
+export type ComposeQueryData = {
+    body: ComposeQueryRequest;
+    path?: never;
+    query?: never;
+    url: '/api/v1/query/compose';
+};
+
+export type ComposeQueryResponses = {
+    /**
+     * OK
+     */
+    200: ComposeQueryResponse;
+};
+
+export type ComposeQueryResponse2 = ComposeQueryResponses[keyof ComposeQueryResponses];
+
+export type ResolveReferencesData = {
+    body: ResolveReferencesRequest;
+    path?: never;
+    query?: never;
+    url: '/api/v1/query/resolve';
+};
+
+export type ResolveReferencesResponses = {
+    /**
+     * OK
+     */
+    200: ResolveReferencesResponse;
+};
+
+export type ResolveReferencesResponse2 = ResolveReferencesResponses[keyof ResolveReferencesResponses];
+
+export type RefineQueryData = {
+    body: RefineQueryRequest;
+    path?: never;
+    query?: never;
+    url: '/api/v1/query/refine';
+};
+
+export type RefineQueryResponses = {
+    /**
+     * OK
+     */
+    200: RefineQueryResponse;
+};
+
+export type RefineQueryResponse2 = RefineQueryResponses[keyof RefineQueryResponses];
+
+export type OrchestrationSearchData = {
+    body: OrchestratedSearchRequest;
+    path?: never;
+    query?: never;
+    url: '/api/v1/search';
+};
+
+export type OrchestrationSearchResponses = {
+    /**
+     * OK
+     */
+    200: OrchestratedSearchResponse;
+};
+
+export type OrchestrationSearchResponse = OrchestrationSearchResponses[keyof OrchestrationSearchResponses];
+
+export type StreamSearchData = {
+    body: OrchestratedSearchRequest;
+    path?: never;
+    query?: never;
+    url: '/api/v1/search/stream';
+};
+
+export type StreamSearchResponses = {
+    /**
+     * OK
+     */
+    200: OrchestratedSearchResponse;
+};
+
+export type StreamSearchResponse = StreamSearchResponses[keyof StreamSearchResponses];
+
+export type GetSearchFacetsData = {
+    body: FacetsRequest;
+    path?: never;
+    query?: never;
+    url: '/api/v1/search/facets';
+};
+
+export type GetSearchFacetsResponses = {
+    /**
+     * OK
+     */
+    200: FacetResults;
+};
+
+export type GetSearchFacetsResponse = GetSearchFacetsResponses[keyof GetSearchFacetsResponses];
+
+export type SemanticSearchData = {
+    body: SemanticSearchApiRequest;
+    path?: never;
+    query?: never;
+    url: '/api/v1/search/semantic';
+};
+
+export type SemanticSearchResponses = {
+    /**
+     * OK
+     */
+    200: SemanticSearchApiResponse;
+};
+
+export type SemanticSearchResponse = SemanticSearchResponses[keyof SemanticSearchResponses];
+
+export type ComputeSimilarityData = {
+    body: SimilarityRequest;
+    path?: never;
+    query?: never;
+    url: '/api/v1/search/similarity';
+};
+
+export type ComputeSimilarityResponses = {
+    /**
+     * OK
+     */
+    200: SimilarityScore;
+};
+
+export type ComputeSimilarityResponse = ComputeSimilarityResponses[keyof ComputeSimilarityResponses];
+
+export type ExplainRelevanceData = {
+    body: ExplainRequest;
+    path?: never;
+    query?: never;
+    url: '/api/v1/search/explain';
+};
+
+export type ExplainRelevanceResponses = {
+    /**
+     * OK
+     */
+    200: ExplainedScore;
+};
+
+export type ExplainRelevanceResponse = ExplainRelevanceResponses[keyof ExplainRelevanceResponses];
+
+export type RerankResultsData = {
+    body: RerankRequest;
+    path?: never;
+    query?: never;
+    url: '/api/v1/search/rerank';
+};
+
+export type RerankResultsResponses = {
+    /**
+     * OK
+     */
+    200: RerankResponse;
+};
+
+export type RerankResultsResponse = RerankResultsResponses[keyof RerankResultsResponses];
+
+export type CreateConversationSessionData = {
+    body?: never;
+    path?: never;
+    query?: never;
+    url: '/api/v1/conversation';
+};
+
+export type CreateConversationSessionResponses = {
+    /**
+     * OK
+     */
+    200: CreateSessionResponse;
+};
+
+export type CreateConversationSessionResponse = CreateConversationSessionResponses[keyof CreateConversationSessionResponses];
+
+export type ClearConversationSessionData = {
+    body?: never;
+    path: {
+        sessionId: string;
+    };
+    query?: never;
+    url: '/api/v1/conversation/{sessionId}';
+};
+
+export type ClearConversationSessionResponses = {
+    /**
+     * OK
+     */
+    200: ClearSessionResponse;
+};
+
+export type ClearConversationSessionResponse = ClearConversationSessionResponses[keyof ClearConversationSessionResponses];
+
+export type GetConversationSessionData = {
+    body?: never;
+    path: {
+        sessionId: string;
+    };
+    query?: never;
+    url: '/api/v1/conversation/{sessionId}';
+};
+
+export type GetConversationSessionResponses = {
+    /**
+     * OK
+     */
+    200: GetSessionResponse;
+};
+
+export type GetConversationSessionResponse = GetConversationSessionResponses[keyof GetConversationSessionResponses];
+
+export type GetConversationHistoryData = {
+    body?: never;
+    path: {
+        sessionId: string;
+    };
+    query?: {
+        maxMessages?: number | null;
+    };
+    url: '/api/v1/conversation/{sessionId}/history';
 };
+
+export type GetConversationHistoryResponses = {
+    /**
+     * OK
+     */
+    200: ConversationHistory;
+};
+
+export type GetConversationHistoryResponse = GetConversationHistoryResponses[keyof GetConversationHistoryResponses];
@@ -0,0 +1,1025 @@
+// This file is auto-generated by @hey-api/openapi-ts
+
+import { z } from 'zod';
+
+export const zAttributeWeight = z.object({
+    attribute: z.string(),
+    weight: z.number(),
+    targetValue: z.optional(z.unknown()),
+    comparisonType: z.string()
+});
+
+export const zClassifyIntentResponse = z.object({
+    intent: z.string()
+});
+
+export const zClearSessionResponse = z.object({
+    success: z.boolean(),
+    message: z.string()
+});
+
+export const zConceptualMapping = z.object({
+    concept: z.string(),
+    attributeWeights: z.array(zAttributeWeight),
+    positiveIndicators: z.array(z.string()),
+    negativeIndicators: z.array(z.string())
+});
+
+export const zConstraintChangeType = z.enum([
+    'Added',
+    'Updated',
+    'Removed'
+]);
+
+export const zConstraintOperator = z.enum([
+    'Equals',
+    'NotEquals',
+    'GreaterThan',
+    'GreaterThanOrEqual',
+    'LessThan',
+    'LessThanOrEqual',
+    'Between',
+    'Contains',
+    'In'
+]);
+
+export const zConstraintResponse = z.object({
+    fieldName: z.string(),
+    operator: z.string(),
+    value: z.unknown(),
+    type: z.string()
+});
+
+export const zConstraintChangeResponse = z.object({
+    fieldName: z.string(),
+    changeType: z.string(),
+    previous: z.optional(z.union([
+        zConstraintResponse,
+        z.null()
+    ])),
+    current: z.optional(z.union([
+        zConstraintResponse,
+        z.null()
+    ]))
+});
+
+export const zConstraintGroupResponse = z.object({
+    constraints: z.array(zConstraintResponse),
+    operator: z.string(),
+    priority: z.number()
+});
+
+export const zComposeQueryResponse = z.object({
+    type: z.string(),
+    constraintGroups: z.array(zConstraintGroupResponse),
+    groupOperator: z.string(),
+    warnings: z.array(z.string()),
+    hasConflicts: z.boolean(),
+    oDataFilter: z.optional(z.union([
+        z.string(),
+        z.null()
+    ]))
+});
+
+export const zConstraintType = z.enum([
+    'Exact',
+    'Range',
+    'Semantic',
+    'Composite'
+]);
+
+export const zCreateIndexResponse = z.object({
+    indexName: z.string(),
+    fieldsCount: z.int().min(-2147483648, { error: 'Invalid value: Expected int32 to be >= -2147483648' }).max(2147483647, { error: 'Invalid value: Expected int32 to be <= 2147483647' }),
+    vectorFieldsCount: z.int().min(-2147483648, { error: 'Invalid value: Expected int32 to be >= -2147483648' }).max(2147483647, { error: 'Invalid value: Expected int32 to be <= 2147483647' }),
+    created: z.boolean(),
+    timestamp: z.iso.datetime({ offset: true, local: true })
+});
+
+export const zCreateSessionResponse = z.object({
+    sessionId: z.string(),
+    createdAt: z.iso.datetime({ offset: true, local: true })
+});
+
+export const zDeleteIndexResponse = z.object({
+    deleted: z.boolean(),
+    timestamp: z.iso.datetime({ offset: true, local: true })
+});
+
+export const zEntityResponse = z.object({
+    type: z.string(),
+    value: z.string(),
+    confidence: z.number(),
+    startPosition: z.int().min(-2147483648, { error: 'Invalid value: Expected int32 to be >= -2147483648' }).max(2147483647, { error: 'Invalid value: Expected int32 to be <= 2147483647' }),
+    endPosition: z.int().min(-2147483648, { error: 'Invalid value: Expected int32 to be >= -2147483648' }).max(2147483647, { error: 'Invalid value: Expected int32 to be <= 2147483647' })
+});
+
+export const zEntityType = z.enum([
+    'Make',
+    'Model',
+    'Derivative',
+    'Price',
+    'PriceRange',
+    'Mileage',
+    'EngineSize',
+    'FuelType',
+    'Transmission',
+    'BodyType',
+    'Colour',
+    'Feature',
+    'Location',
+    'Year',
+    'QualitativeTerm'
+]);
+
+export const zExtractedEntity = z.object({
+    type: zEntityType,
+    value: z.string(),
+    confidence: z.number(),
+    startPosition: z.int().min(-2147483648, { error: 'Invalid value: Expected int32 to be >= -2147483648' }).max(2147483647, { error: 'Invalid value: Expected int32 to be <= 2147483647' }),
+    endPosition: z.int().min(-2147483648, { error: 'Invalid value: Expected int32 to be >= -2147483648' }).max(2147483647, { error: 'Invalid value: Expected int32 to be <= 2147483647' })
+});
+
+export const zFacetValue = z.object({
+    value: z.string(),
+    count: z.coerce.bigint().min(BigInt('-9223372036854775808'), { error: 'Invalid value: Expected int64 to be >= -9223372036854775808' }).max(BigInt('9223372036854775807'), { error: 'Invalid value: Expected int64 to be <= 9223372036854775807' })
+});
+
+export const zFilterRequest = z.object({
+    fieldName: z.string(),
+    operator: z.string(),
+    value: z.unknown()
+});
+
+export const zHealthDependenciesResponse = z.object({
+    database: z.string(),
+    aiService: z.string(),
+    searchService: z.string()
+});
+
+export const zHealthResponse = z.object({
+    status: z.string(),
+    timestamp: z.string(),
+    version: z.string(),
+    dependencies: zHealthDependenciesResponse
+});
+
+export const zIndexStatus = z.object({
+    exists: z.boolean(),
+    indexName: z.string(),
+    documentCount: z.coerce.bigint().min(BigInt('-9223372036854775808'), { error: 'Invalid value: Expected int64 to be >= -9223372036854775808' }).max(BigInt('9223372036854775807'), { error: 'Invalid value: Expected int64 to be <= 9223372036854775807' }),
+    storageSize: z.string()
+});
+
+export const zIndexVehiclesRequest = z.object({
+    filePath: z.string(),
+    generateEmbeddings: z.boolean(),
+    batchSize: z.int().min(-2147483648, { error: 'Invalid value: Expected int32 to be >= -2147483648' }).max(2147483647, { error: 'Invalid value: Expected int32 to be <= 2147483647' })
+});
+
+export const zIndexingErrorResponse = z.object({
+    vehicleId: z.string(),
+    message: z.string(),
+    timestamp: z.iso.datetime({ offset: true, local: true })
+});
+
+export const zIndexVehiclesResponse = z.object({
+    totalVehicles: z.int().min(-2147483648, { error: 'Invalid value: Expected int32 to be >= -2147483648' }).max(2147483647, { error: 'Invalid value: Expected int32 to be <= 2147483647' }),
+    succeeded: z.int().min(-2147483648, { error: 'Invalid value: Expected int32 to be >= -2147483648' }).max(2147483647, { error: 'Invalid value: Expected int32 to be <= 2147483647' }),
+    failed: z.int().min(-2147483648, { error: 'Invalid value: Expected int32 to be >= -2147483648' }).max(2147483647, { error: 'Invalid value: Expected int32 to be <= 2147483647' }),
+    embeddingsGenerated: z.int().min(-2147483648, { error: 'Invalid value: Expected int32 to be >= -2147483648' }).max(2147483647, { error: 'Invalid value: Expected int32 to be <= 2147483647' }),
+    indexingTime: z.int().min(-2147483648, { error: 'Invalid value: Expected int32 to be >= -2147483648' }).max(2147483647, { error: 'Invalid value: Expected int32 to be <= 2147483647' }),
+    errors: z.array(zIndexingErrorResponse)
+});
+
+export const zIngestErrorResponse = z.object({
+    rowNumber: z.int().min(-2147483648, { error: 'Invalid value: Expected int32 to be >= -2147483648' }).max(2147483647, { error: 'Invalid value: Expected int32 to be <= 2147483647' }),
+    fieldName: z.string(),
+    message: z.string(),
+    value: z.optional(z.union([
+        z.string(),
+        z.null()
+    ]))
+});
+
+export const zIngestRequest = z.object({
+    source: z.string(),
+    filePath: z.string()
+});
+
+export const zIngestResponse = z.object({
+    success: z.boolean(),
+    totalRows: z.int().min(-2147483648, { error: 'Invalid value: Expected int32 to be >= -2147483648' }).max(2147483647, { error: 'Invalid value: Expected int32 to be <= 2147483647' }),
+    validRows: z.int().min(-2147483648, { error: 'Invalid value: Expected int32 to be >= -2147483648' }).max(2147483647, { error: 'Invalid value: Expected int32 to be <= 2147483647' }),
+    invalidRows: z.int().min(-2147483648, { error: 'Invalid value: Expected int32 to be >= -2147483648' }).max(2147483647, { error: 'Invalid value: Expected int32 to be <= 2147483647' }),
+    processingTimeMs: z.coerce.bigint().min(BigInt('-9223372036854775808'), { error: 'Invalid value: Expected int64 to be >= -9223372036854775808' }).max(BigInt('9223372036854775807'), { error: 'Invalid value: Expected int64 to be <= 9223372036854775807' }),
+    completedAt: z.iso.datetime({ offset: true, local: true }),
+    errors: z.array(zIngestErrorResponse)
+});
+
+export const zKnowledgeBaseStatusResponse = z.object({
+    totalVehicles: z.int().min(-2147483648, { error: 'Invalid value: Expected int32 to be >= -2147483648' }).max(2147483647, { error: 'Invalid value: Expected int32 to be <= 2147483647' }),
+    lastIngestionDate: z.optional(z.union([
+        z.iso.datetime({ offset: true, local: true }),
+        z.null()
+    ])),
+    dataSource: z.string(),
+    status: z.string()
+});
+
+export const zLogicalOperator = z.enum(['And', 'Or']);
+
+export const zMapQueryResponse = z.object({
+    constraints: z.array(zConstraintResponse),
+    unmappableTerms: z.array(z.string()),
+    metadata: z.record(z.string(), z.unknown()),
+    concepts: z.array(zConceptualMapping)
+});
+
+export const zMessageRole = z.enum([
+    'User',
+    'Assistant',
+    'System'
+]);
+
+export const zNumericRange = z.object({
+    min: z.number(),
+    max: z.number()
+});
+
+export const zFacetResults = z.object({
+    facets: z.record(z.string(), z.array(zFacetValue)),
+    ranges: z.record(z.string(), zNumericRange),
+    totalCount: z.int().min(-2147483648, { error: 'Invalid value: Expected int32 to be >= -2147483648' }).max(2147483647, { error: 'Invalid value: Expected int32 to be <= 2147483647' })
+});
+
+export const zParseQueryRequest = z.object({
+    query: z.string(),
+    conversationId: z.optional(z.union([
+        z.string(),
+        z.null()
+    ]))
+});
+
+export const zParseQueryResponse = z.object({
+    originalQuery: z.string(),
+    intent: z.string(),
+    confidence: z.number(),
+    entities: z.array(zEntityResponse),
+    unmappedTerms: z.array(z.string())
+});
+
+export const zQueryIntent = z.enum([
+    'Search',
+    'Refine',
+    'Compare',
+    'Information',
+    'OffTopic'
+]);
+
+export const zParsedQuery = z.object({
+    originalQuery: z.string(),
+    intent: zQueryIntent,
+    entities: z.array(zExtractedEntity),
+    confidenceScore: z.number(),
+    unmappedTerms: z.array(z.string())
+});
+
+export const zExplainRequest = z.object({
+    vehicleId: z.string(),
+    query: zParsedQuery
+});
+
+export const zMapQueryRequest = z.object({
+    parsedQuery: zParsedQuery
+});
+
+export const zQueryType = z.enum([
+    'Simple',
+    'Filtered',
+    'Complex',
+    'MultiModal'
+]);
+
+export const zReferenceResponse = z.object({
+    referenceText: z.string(),
+    type: z.string(),
+    resolvedValue: z.string(),
+    position: z.int().min(-2147483648, { error: 'Invalid value: Expected int32 to be >= -2147483648' }).max(2147483647, { error: 'Invalid value: Expected int32 to be <= 2147483647' }),
+    vehicleIds: z.array(z.string()),
+    constraint: z.optional(z.union([
+        zConstraintResponse,
+        z.null()
+    ]))
+});
+
+export const zRefineQueryRequest = z.object({
+    query: z.string(),
+    sessionId: z.string()
+});
+
+export const zRefineQueryResponse = z.object({
+    composedQuery: zComposeQueryResponse,
+    addedConstraints: z.array(z.string()),
+    updatedConstraints: z.array(z.string()),
+    removedConstraints: z.array(z.string()),
+    changes: z.array(zConstraintChangeResponse),
+    previousCount: z.optional(z.union([
+        z.int().min(-2147483648, { error: 'Invalid value: Expected int32 to be >= -2147483648' }).max(2147483647, { error: 'Invalid value: Expected int32 to be <= 2147483647' }),
+        z.null()
+    ]))
+});
+
+export const zRerankStrategyRequest = z.object({
+    approach: z.string(),
+    factorWeights: z.optional(z.union([
+        z.record(z.string(), z.number()),
+        z.null()
+    ])),
+    applyDiversity: z.optional(z.union([
+        z.boolean(),
+        z.null()
+    ])),
+    maxPerMake: z.optional(z.union([
+        z.int().min(-2147483648, { error: 'Invalid value: Expected int32 to be >= -2147483648' }).max(2147483647, { error: 'Invalid value: Expected int32 to be <= 2147483647' }),
+        z.null()
+    ])),
+    maxPerModel: z.optional(z.union([
+        z.int().min(-2147483648, { error: 'Invalid value: Expected int32 to be >= -2147483648' }).max(2147483647, { error: 'Invalid value: Expected int32 to be <= 2147483647' }),
+        z.null()
+    ]))
+});
+
+export const zRerankVehicleData = z.object({
+    make: z.string(),
+    model: z.string(),
+    derivative: z.string(),
+    price: z.number(),
+    mileage: z.int().min(-2147483648, { error: 'Invalid value: Expected int32 to be >= -2147483648' }).max(2147483647, { error: 'Invalid value: Expected int32 to be <= 2147483647' }),
+    bodyType: z.string(),
+    engineSize: z.number(),
+    fuelType: z.string(),
+    transmissionType: z.string(),
+    colour: z.string(),
+    numberOfDoors: z.optional(z.union([
+        z.int().min(-2147483648, { error: 'Invalid value: Expected int32 to be >= -2147483648' }).max(2147483647, { error: 'Invalid value: Expected int32 to be <= 2147483647' }),
+        z.null()
+    ])),
+    registrationDate: z.optional(z.union([
+        z.iso.datetime({ offset: true, local: true }),
+        z.null()
+    ])),
+    features: z.array(z.string()),
+    serviceHistoryPresent: z.optional(z.union([
+        z.boolean(),
+        z.null()
+    ])),
+    numberOfServices: z.optional(z.union([
+        z.int().min(-2147483648, { error: 'Invalid value: Expected int32 to be >= -2147483648' }).max(2147483647, { error: 'Invalid value: Expected int32 to be <= 2147483647' }),
+        z.null()
+    ])),
+    lastServiceDate: z.optional(z.union([
+        z.iso.datetime({ offset: true, local: true }),
+        z.null()
+    ])),
+    motExpiryDate: z.optional(z.union([
+        z.iso.datetime({ offset: true, local: true }),
+        z.null()
+    ])),
+    declarations: z.optional(z.union([
+        z.array(z.string()),
+        z.null()
+    ]))
+});
+
+export const zResolveReferencesRequest = z.object({
+    query: z.string(),
+    sessionId: z.string()
+});
+
+export const zResolveReferencesResponse = z.object({
+    originalQuery: z.string(),
+    resolvedQuery: z.string(),
+    resolvedReferences: z.array(zReferenceResponse),
+    resolvedValues: z.record(z.string(), z.unknown()),
+    hasUnresolvedReferences: z.boolean(),
+    unresolvedMessage: z.optional(z.union([
+        z.string(),
+        z.null()
+    ]))
+});
+
+export const zScoreBreakdownResponse = z.object({
+    exactMatchScore: z.number(),
+    semanticScore: z.number(),
+    keywordScore: z.number(),
+    finalScore: z.number()
+});
+
+export const zRerankVehicleResult = z.object({
+    vehicleId: z.string(),
+    vehicle: zRerankVehicleData,
+    relevanceScore: z.number(),
+    scoreBreakdown: z.optional(z.union([
+        zScoreBreakdownResponse,
+        z.null()
+    ]))
+});
+
+export const zScoreComponent = z.object({
+    factor: z.string(),
+    score: z.number(),
+    weight: z.number(),
+    reason: z.string()
+});
+
+export const zExplainedScore = z.object({
+    score: z.number(),
+    explanation: z.string(),
+    components: z.array(zScoreComponent)
+});
+
+export const zSearchConstraint = z.object({
+    fieldName: z.string(),
+    operator: zConstraintOperator,
+    value: z.unknown(),
+    type: zConstraintType
+});
+
+export const zConstraintChange = z.object({
+    fieldName: z.string(),
+    changeType: zConstraintChangeType,
+    previous: z.optional(z.union([
+        zSearchConstraint,
+        z.null()
+    ])),
+    current: z.optional(z.union([
+        zSearchConstraint,
+        z.null()
+    ]))
+});
+
+export const zConstraintGroup = z.object({
+    constraints: z.array(zSearchConstraint),
+    operator: zLogicalOperator,
+    priority: z.number()
+});
+
+export const zComposedQuery = z.object({
+    type: zQueryType,
+    constraintGroups: z.array(zConstraintGroup),
+    groupOperator: zLogicalOperator,
+    warnings: z.array(z.string()),
+    hasConflicts: z.boolean(),
+    oDataFilter: z.optional(z.union([
+        z.string(),
+        z.null()
+    ])),
+    orderBy: z.optional(z.union([
+        z.string(),
+        z.null()
+    ]))
+});
+
+export const zFacetsRequest = z.object({
+    composedQuery: z.optional(z.union([
+        zComposedQuery,
+        z.null()
+    ]))
+});
+
+export const zMappedQuery = z.object({
+    constraints: z.array(zSearchConstraint),
+    unmappableTerms: z.array(z.string()),
+    metadata: z.record(z.string(), z.unknown())
+});
+
+export const zComposeQueryRequest = z.object({
+    mappedQuery: zMappedQuery
+});
+
+export const zOrchestratedSearchRequest = z.object({
+    composedQuery: zComposedQuery,
+    maxResults: z.int().min(-2147483648, { error: 'Invalid value: Expected int32 to be >= -2147483648' }).max(2147483647, { error: 'Invalid value: Expected int32 to be <= 2147483647' }),
+    offset: z.int().min(-2147483648, { error: 'Invalid value: Expected int32 to be >= -2147483648' }).max(2147483647, { error: 'Invalid value: Expected int32 to be <= 2147483647' }),
+    sessionId: z.optional(z.union([
+        z.string(),
+        z.null()
+    ])),
+    query: z.optional(z.union([
+        z.string(),
+        z.null()
+    ])),
+    strategy: z.optional(z.union([
+        z.string(),
+        z.null()
+    ]))
+});
+
+export const zRerankRequest = z.object({
+    results: z.array(zRerankVehicleResult),
+    query: zComposedQuery,
+    strategy: z.optional(z.union([
+        zRerankStrategyRequest,
+        z.null()
+    ]))
+});
+
+export const zSearchResultsMetadata = z.object({
+    count: z.int().min(-2147483648, { error: 'Invalid value: Expected int32 to be >= -2147483648' }).max(2147483647, { error: 'Invalid value: Expected int32 to be <= 2147483647' }),
+    resultIds: z.array(z.string()),
+    previousCount: z.optional(z.union([
+        z.int().min(-2147483648, { error: 'Invalid value: Expected int32 to be >= -2147483648' }).max(2147483647, { error: 'Invalid value: Expected int32 to be <= 2147483647' }),
+        z.null()
+    ])),
+    changes: z.array(zConstraintChange)
+});
+
+export const zConversationMessage = z.object({
+    messageId: z.string(),
+    timestamp: z.iso.datetime({ offset: true, local: true }),
+    role: zMessageRole,
+    content: z.string(),
+    parsedQuery: z.optional(z.union([
+        zParsedQuery,
+        z.null()
+    ])),
+    results: z.optional(z.union([
+        zSearchResultsMetadata,
+        z.null()
+    ]))
+});
+
+export const zConversationHistory = z.object({
+    sessionId: z.string(),
+    messages: z.array(zConversationMessage),
+    totalMessages: z.int().min(-2147483648, { error: 'Invalid value: Expected int32 to be >= -2147483648' }).max(2147483647, { error: 'Invalid value: Expected int32 to be <= 2147483647' })
+});
+
+export const zSearchStageResponse = z.object({
+    name: z.string(),
+    durationMs: z.number()
+});
+
+export const zSearchState = z.object({
+    lastQuery: z.optional(z.union([
+        z.string(),
+        z.null()
+    ])),
+    lastResultIds: z.array(z.string()),
+    activeFilters: z.record(z.string(), zSearchConstraint),
+    viewedVehicleIds: z.array(z.string()),
+    lastSearchTime: z.optional(z.union([
+        z.iso.datetime({ offset: true, local: true }),
+        z.null()
+    ]))
+});
+
+export const zGetSessionResponse = z.object({
+    sessionId: z.string(),
+    createdAt: z.iso.datetime({ offset: true, local: true }),
+    lastAccessedAt: z.iso.datetime({ offset: true, local: true }),
+    messageCount: z.int().min(-2147483648, { error: 'Invalid value: Expected int32 to be >= -2147483648' }).max(2147483647, { error: 'Invalid value: Expected int32 to be <= 2147483647' }),
+    currentSearchState: z.optional(z.union([
+        zSearchState,
+        z.null()
+    ]))
+});
+
+export const zSearchStrategyResponse = z.object({
+    type: z.string(),
+    approaches: z.array(z.string()),
+    weights: z.record(z.string(), z.number()),
+    shouldRerank: z.boolean()
+});
+
+export const zSemanticSearchApiRequest = z.object({
+    query: z.string(),
+    maxResults: z.int().min(-2147483648, { error: 'Invalid value: Expected int32 to be >= -2147483648' }).max(2147483647, { error: 'Invalid value: Expected int32 to be <= 2147483647' }),
+    filters: z.optional(z.union([
+        z.array(zFilterRequest),
+        z.null()
+    ]))
+});
+
+export const zSimilarityRequest = z.object({
+    vehicleId: z.string(),
+    concept: z.string()
+});
+
+export const zSimilarityScore = z.object({
+    overallScore: z.number(),
+    componentScores: z.record(z.string(), z.number()),
+    matchingAttributes: z.array(z.string()),
+    mismatchingAttributes: z.array(z.string()),
+    descriptionBoost: z.number(),
+    matchedPositiveIndicators: z.array(z.string()),
+    matchedNegativeIndicators: z.array(z.string())
+});
+
+export const zVehicleCountResponse = z.object({
+    totalVehicles: z.int().min(-2147483648, { error: 'Invalid value: Expected int32 to be >= -2147483648' }).max(2147483647, { error: 'Invalid value: Expected int32 to be <= 2147483647' }),
+    timestamp: z.iso.datetime({ offset: true, local: true })
+});
+
+export const zVehicleDetailResponse = z.object({
+    id: z.string(),
+    make: z.string(),
+    model: z.string(),
+    derivative: z.string(),
+    price: z.number(),
+    mileage: z.int().min(-2147483648, { error: 'Invalid value: Expected int32 to be >= -2147483648' }).max(2147483647, { error: 'Invalid value: Expected int32 to be <= 2147483647' }),
+    bodyType: z.string(),
+    engineSize: z.number(),
+    fuelType: z.string(),
+    transmissionType: z.string(),
+    colour: z.string(),
+    numberOfDoors: z.optional(z.union([
+        z.int().min(-2147483648, { error: 'Invalid value: Expected int32 to be >= -2147483648' }).max(2147483647, { error: 'Invalid value: Expected int32 to be <= 2147483647' }),
+        z.null()
+    ])),
+    registrationDate: z.optional(z.union([
+        z.iso.datetime({ offset: true, local: true }),
+        z.null()
+    ])),
+    saleLocation: z.string(),
+    channel: z.string(),
+    features: z.array(z.string()),
+    description: z.string()
+});
+
+export const zVehicleResponse = z.object({
+    id: z.string(),
+    make: z.string(),
+    model: z.string(),
+    derivative: z.string(),
+    price: z.number(),
+    mileage: z.int().min(-2147483648, { error: 'Invalid value: Expected int32 to be >= -2147483648' }).max(2147483647, { error: 'Invalid value: Expected int32 to be <= 2147483647' }),
+    bodyType: z.string(),
+    engineSize: z.number(),
+    fuelType: z.string(),
+    transmissionType: z.string(),
+    colour: z.string(),
+    numberOfDoors: z.optional(z.union([
+        z.int().min(-2147483648, { error: 'Invalid value: Expected int32 to be >= -2147483648' }).max(2147483647, { error: 'Invalid value: Expected int32 to be <= 2147483647' }),
+        z.null()
+    ])),
+    registrationDate: z.optional(z.union([
+        z.iso.datetime({ offset: true, local: true }),
+        z.null()
+    ])),
+    motExpiryDate: z.optional(z.union([
+        z.iso.datetime({ offset: true, local: true }),
+        z.null()
+    ])),
+    processedDate: z.optional(z.union([
+        z.iso.datetime({ offset: true, local: true }),
+        z.null()
+    ])),
+    saleLocation: z.string(),
+    features: z.array(z.string())
+});
+
+export const zVehicleMatchResponse = z.object({
+    vehicleId: z.string(),
+    vehicle: zVehicleResponse,
+    similarityScore: z.number(),
+    normalizedScore: z.int().min(-2147483648, { error: 'Invalid value: Expected int32 to be >= -2147483648' }).max(2147483647, { error: 'Invalid value: Expected int32 to be <= 2147483647' })
+});
+
+export const zSemanticSearchApiResponse = z.object({
+    matches: z.array(zVehicleMatchResponse),
+    averageScore: z.number(),
+    searchDuration: z.string()
+});
+
+export const zVehicleSearchResult = z.object({
+    vehicle: zVehicleResponse,
+    relevanceScore: z.number(),
+    scoreBreakdown: z.optional(z.union([
+        zScoreBreakdownResponse,
+        z.null()
+    ]))
+});
+
+export const zOrchestratedSearchResponse = z.object({
+    results: z.array(zVehicleSearchResult),
+    totalCount: z.int().min(-2147483648, { error: 'Invalid value: Expected int32 to be >= -2147483648' }).max(2147483647, { error: 'Invalid value: Expected int32 to be <= 2147483647' }),
+    strategy: zSearchStrategyResponse,
+    searchDuration: z.string(),
+    stages: z.array(zSearchStageResponse)
+});
+
+export const zRerankResponse = z.object({
+    results: z.array(zVehicleSearchResult)
+});
+
+export const zGetHealthData = z.object({
+    body: z.optional(z.never()),
+    path: z.optional(z.never()),
+    query: z.optional(z.never())
+});
+
+/**
+ * OK
+ */
+export const zGetHealthResponse = zHealthResponse;
+
+export const zIngestVehicleDataData = z.object({
+    body: zIngestRequest,
+    path: z.optional(z.never()),
+    query: z.optional(z.never())
+});
+
+/**
+ * OK
+ */
+export const zIngestVehicleDataResponse = zIngestResponse;
+
+export const zGetKnowledgeBaseStatusData = z.object({
+    body: z.optional(z.never()),
+    path: z.optional(z.never()),
+    query: z.optional(z.never())
+});
+
+/**
+ * OK
+ */
+export const zGetKnowledgeBaseStatusResponse = zKnowledgeBaseStatusResponse;
+
+export const zCreateSearchIndexData = z.object({
+    body: z.optional(z.never()),
+    path: z.optional(z.never()),
+    query: z.optional(z.never())
+});
+
+/**
+ * OK
+ */
+export const zCreateSearchIndexResponse = zCreateIndexResponse;
+
+export const zDeleteSearchIndexData = z.object({
+    body: z.optional(z.never()),
+    path: z.optional(z.never()),
+    query: z.optional(z.never())
+});
+
+/**
+ * OK
+ */
+export const zDeleteSearchIndexResponse = zDeleteIndexResponse;
+
+export const zGetSearchIndexStatusData = z.object({
+    body: z.optional(z.never()),
+    path: z.optional(z.never()),
+    query: z.optional(z.never())
+});
+
+/**
+ * OK
+ */
+export const zGetSearchIndexStatusResponse = zIndexStatus;
+
+export const zIndexVehiclesData = z.object({
+    body: z.optional(zIndexVehiclesRequest),
+    path: z.optional(z.never()),
+    query: z.optional(z.never())
+});
+
+/**
+ * OK
+ */
+export const zIndexVehiclesResponse2 = zIndexVehiclesResponse;
+
+export const zGetVehicleByIdData = z.object({
+    body: z.optional(z.never()),
+    path: z.object({
+        id: z.string()
+    }),
+    query: z.optional(z.never())
+});
+
+/**
+ * OK
+ */
+export const zGetVehicleByIdResponse = zVehicleDetailResponse;
+
+export const zGetVehicleCountData = z.object({
+    body: z.optional(z.never()),
+    path: z.optional(z.never()),
+    query: z.optional(z.never())
+});
+
+/**
+ * OK
+ */
+export const zGetVehicleCountResponse = zVehicleCountResponse;
+
+export const zParseQueryData = z.object({
+    body: zParseQueryRequest,
+    path: z.optional(z.never()),
+    query: z.optional(z.never())
+});
+
+/**
+ * OK
+ */
+export const zParseQueryResponse2 = zParseQueryResponse;
+
+export const zClassifyIntentData = z.object({
+    body: zParseQueryRequest,
+    path: z.optional(z.never()),
+    query: z.optional(z.never())
+});
+
+/**
+ * OK
+ */
+export const zClassifyIntentResponse2 = zClassifyIntentResponse;
+
+export const zExtractEntitiesData = z.object({
+    body: zParseQueryRequest,
+    path: z.optional(z.never()),
+    query: z.optional(z.never())
+});
+
+/**
+ * OK
+ */
+export const zExtractEntitiesResponse = z.array(zEntityResponse);
+
+export const zMapQueryData = z.object({
+    body: zMapQueryRequest,
+    path: z.optional(z.never()),
+    query: z.optional(z.never())
+});
+
+/**
+ * OK
+ */
+export const zMapQueryResponse2 = zMapQueryResponse;
+
+export const zComposeQueryData = z.object({
+    body: zComposeQueryRequest,
+    path: z.optional(z.never()),
+    query: z.optional(z.never())
+});
+
+/**
+ * OK
+ */
+export const zComposeQueryResponse2 = zComposeQueryResponse;
+
+export const zResolveReferencesData = z.object({
+    body: zResolveReferencesRequest,
+    path: z.optional(z.never()),
+    query: z.optional(z.never())
+});
+
+/**
+ * OK
+ */
+export const zResolveReferencesResponse2 = zResolveReferencesResponse;
+
+export const zRefineQueryData = z.object({
+    body: zRefineQueryRequest,
+    path: z.optional(z.never()),
+    query: z.optional(z.never())
+});
+
+/**
+ * OK
+ */
+export const zRefineQueryResponse2 = zRefineQueryResponse;
+
+export const zOrchestrationSearchData = z.object({
+    body: zOrchestratedSearchRequest,
+    path: z.optional(z.never()),
+    query: z.optional(z.never())
+});
+
+/**
+ * OK
+ */
+export const zOrchestrationSearchResponse = zOrchestratedSearchResponse;
+
+export const zStreamSearchData = z.object({
+    body: zOrchestratedSearchRequest,
+    path: z.optional(z.never()),
+    query: z.optional(z.never())
+});
+
+/**
+ * OK
+ */
+export const zStreamSearchResponse = zOrchestratedSearchResponse;
+
+export const zGetSearchFacetsData = z.object({
+    body: zFacetsRequest,
+    path: z.optional(z.never()),
+    query: z.optional(z.never())
+});
+
+/**
+ * OK
+ */
+export const zGetSearchFacetsResponse = zFacetResults;
+
+export const zSemanticSearchData = z.object({
+    body: zSemanticSearchApiRequest,
+    path: z.optional(z.never()),
+    query: z.optional(z.never())
+});
+
+/**
+ * OK
+ */
+export const zSemanticSearchResponse = zSemanticSearchApiResponse;
+
+export const zComputeSimilarityData = z.object({
+    body: zSimilarityRequest,
+    path: z.optional(z.never()),
+    query: z.optional(z.never())
+});
+
+/**
+ * OK
+ */
+export const zComputeSimilarityResponse = zSimilarityScore;
+
+export const zExplainRelevanceData = z.object({
+    body: zExplainRequest,
+    path: z.optional(z.never()),
+    query: z.optional(z.never())
+});
+
+/**
+ * OK
+ */
+export const zExplainRelevanceResponse = zExplainedScore;
+
+export const zRerankResultsData = z.object({
+    body: zRerankRequest,
+    path: z.optional(z.never()),
+    query: z.optional(z.never())
+});
+
+/**
+ * OK
+ */
+export const zRerankResultsResponse = zRerankResponse;
+
+export const zCreateConversationSessionData = z.object({
+    body: z.optional(z.never()),
+    path: z.optional(z.never()),
+    query: z.optional(z.never())
+});
+
+/**
+ * OK
+ */
+export const zCreateConversationSessionResponse = zCreateSessionResponse;
+
+export const zClearConversationSessionData = z.object({
+    body: z.optional(z.never()),
+    path: z.object({
+        sessionId: z.string()
+    }),
+    query: z.optional(z.never())
+});
+
+/**
+ * OK
+ */
+export const zClearConversationSessionResponse = zClearSessionResponse;
+
+export const zGetConversationSessionData = z.object({
+    body: z.optional(z.never()),
+    path: z.object({
+        sessionId: z.string()
+    }),
+    query: z.optional(z.never())
+});
+
+/**
+ * OK
+ */
+export const zGetConversationSessionResponse = zGetSessionResponse;
+
+export const zGetConversationHistoryData = z.object({
+    body: z.optional(z.never()),
+    path: z.object({
+        sessionId: z.string()
+    }),
+    query: z.optional(z.object({
+        maxMessages: z.optional(z.union([
+            z.int().min(-2147483648, { error: 'Invalid value: Expected int32 to be >= -2147483648' }).max(2147483647, { error: 'Invalid value: Expected int32 to be <= 2147483647' }),
+            z.null()
+        ]))
+    }))
+});
+
+/**
+ * OK
+ */
+export const zGetConversationHistoryResponse = zConversationHistory;
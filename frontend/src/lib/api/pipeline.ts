@@ -0,0 +1,467 @@
+import './client';
+import {
+  composeQuery,
+  mapQuery,
+  orchestrationSearch,
+  parseQuery,
+  refineQuery,
+  semanticSearch,
+  streamSearch,
+} from './generated';
+import type {
+  ComposedQuery,
+  ComposeQueryResponse,
+  ConstraintOperator,
+  ConstraintResponse,
+  ConstraintType,
+  EntityType,
+  LogicalOperator,
+  MappedQuery,
+  MapQueryResponse,
+  OrchestratedSearchResponse,
+  ParsedQuery,
+  ParseQueryResponse,
+  QueryIntent,
+  QueryType,
+  RefineQueryResponse,
+  SearchConstraint,
+} from './generated';
+import {
+  zComposeQueryResponse,
+  zMapQueryResponse,
+  zOrchestratedSearchResponse,
+  zParseQueryResponse,
+  zRefineQueryResponse,
+  zSemanticSearchApiResponse,
+  zStreamSearchResponse,
+} from './generated/zod.gen';
+import { getSession } from './conversation';
+import { getErrorMessage, getRateLimitInfo, SearchApiError, unwrap } from './errors';
+import { mergeFilterConstraints } from './filters';
+import { toVehicleDocument } from './search';
+import { validateResponse } from './validation';
+import {
+  QueryUnderstanding,
+  SearchPipelineResult,
+  SearchProgressEvent,
+  SearchRequest,
+  SearchResults,
+  SortOrder,
+  StrategyType,
+} from './types';
+import { SORT_ORDERS } from '../sorting';
+
+// /query/parse lower-cases the intent name; /query/map expects the enum name
+const INTENTS: Record<string, QueryIntent> = {
+  search: 'Search',
+  refine: 'Refine',
+  compare: 'Compare',
+  information: 'Information',
+  offtopic: 'OffTopic',
+};
+
+// Responses meaning the backend cannot stream, so the single-shot search is used instead
+const STREAM_UNAVAILABLE_STATUSES = new Set([404, 405, 501]);
+
+const STREAM_ENDPOINT = 'POST /api/v1/search/stream';
+
+/**
+ * Run a natural language query through parse → map → compose (or refine) → search,
+ * returning the results together with every intermediate artifact.
+ * Aborting the signal cancels whichever stage is in flight.
+ *
+ * The request's refinement filters are merged into the constraints understood
+ * from the query before composing, so the composed query and its filter carry both.
+ * A request that names its constraints skips parse and map and composes those;
+ * one that brings its own parsed query skips parse, and is mapped as it stands
+ * rather than refined.
+ *
+ * With `onProgress` the search is streamed: each stage is reported as it completes,
+ * including the exact and semantic results that precede the final ranking.
+ */
+export async function runSearchPipeline(
+  request: SearchRequest,
+  signal?: AbortSignal,
+  onProgress?: (event: SearchProgressEvent) => void
+): Promise<SearchPipelineResult> {
+  const { query, sessionId, filters } = request;
+  const maxResults = request.maxResults || 10;
+
+  if (request.constraints) {
+    const composed = await compose(
+      {
+        constraints: filters ? mergeFilterConstraints(request.constraints, filters) : request.constraints,
+        unmappableTerms: [],
+        metadata: {},
+      },
+      sessionId,
+      signal
+    );
+    onProgress?.({ stage: 'composed', composed });
+    return searchUnderstood({ composed }, request, maxResults, signal, onProgress);
+  }
+
+  const parsed =
+    request.parsed ??
+    unwrap(
+      await parseQuery({ body: { query, conversationId: sessionId }, headers: sessionHeaders(sessionId), signal }),
+      'Failed to parse query',
+      zParseQueryResponse
+    );
+  onProgress?.({ stage: 'parsed', parsed });
+
+  let mapped: MapQueryResponse | undefined;
+  let refined: RefineQueryResponse | undefined;
+  let composed: ComposeQueryResponse;
+
+  if (!request.parsed && sessionId && parsed.intent === 'refine' && (await hasSearchState(sessionId, signal))) {
+    refined = unwrap(
+      await refineQuery({ body: { query, sessionId }, headers: sessionHeaders(sessionId), signal }),
+      'Failed to refine query',
+      zRefineQueryResponse
+    );
+    composed = refined.composedQuery;
+
+    if (filters) {
+      // Compose again, so the refined query's filter covers the filters too
+      const refinedConstraints = composed.constraintGroups.flatMap((group) =>
+        group.constraints.map(toSearchConstraint)
+      );
+      composed = await compose(
+        { constraints: mergeFilterConstraints(refinedConstraints, filters), unmappableTerms: [], metadata: {} },
+        sessionId,
+        signal
+      );
+    }
+  } else {
+    mapped = unwrap(
+      await mapQuery({
+        body: { parsedQuery: toParsedQuery(parsed) },
+        headers: sessionHeaders(sessionId),
+        signal,
+      }),
+      'Failed to map query',
+      zMapQueryResponse
+    );
+    const mappedQuery = toMappedQuery(mapped);
+    if (filters) {
+      mappedQuery.constraints = mergeFilterConstraints(mappedQuery.constraints, filters);
+    }
+    composed = await compose(mappedQuery, sessionId, signal);
+  }
+
+  onProgress?.({ stage: 'composed', composed });
+
+  return searchUnderstood({ parsed, mapped, refined, composed }, request, maxResults, signal, onProgress);
+}
+
+// The search stage of the pipeline, once the query has been composed
+async function searchUnderstood(
+  understood: Omit<QueryUnderstanding, 'endpoint'>,
+  { query, sessionId, sort, strategy }: SearchRequest,
+  maxResults: number,
+  signal?: AbortSignal,
+  onProgress?: (event: SearchProgressEvent) => void
+): Promise<SearchPipelineResult> {
+  const { composed } = understood;
+
+  // Nothing structured was understood, so fall back to a pure vector search,
+  // unless the search was told which strategy to use
+  const hasConstraints = composed.constraintGroups.some((group) => group.constraints.length > 0);
+  const orchestrated = hasConstraints || strategy !== undefined;
+
+  const results = !orchestrated
+    ? await searchSemantic(query, maxResults, sessionId, signal)
+    : onProgress
+      ? await streamComposed(composed, query, maxResults, sort, strategy, onProgress, sessionId, signal)
+      : await searchComposed(composed, query, maxResults, 0, sort, strategy, sessionId, signal);
+
+  return { results, understanding: { ...understood, endpoint: orchestrated ? 'search' : 'semantic' } };
+}
+
+/**
+ * Fetch a page of a search the pipeline has already run, repeating only the search
+ * stage: a later page, or the first again in another order. The search was recorded
+ * in the session history when it ran, so isn't recorded again.
+ */
+export async function fetchResultsPage(
+  understanding: QueryUnderstanding,
+  request: SearchRequest,
+  offset: number,
+  signal?: AbortSignal
+): Promise<SearchResults> {
+  if (understanding.endpoint !== 'search') {
+    // /search/semantic cannot skip results, so vector-only searches are a single page
+    throw new SearchApiError('This search has no further pages');
+  }
+
+  const maxResults = request.maxResults || 10;
+  return searchComposed(
+    understanding.composed,
+    request.query,
+    maxResults,
+    offset,
+    request.sort,
+    request.strategy,
+    request.sessionId,
+    signal,
+    // The search is already recorded, and without its query a page isn't rate-limited
+    false
+  );
+}
+
+/**
+ * Identify the session to the backend's rate limiting and session blocking middleware
+ */
+export function sessionHeaders(sessionId?: string): Record<string, string> | undefined {
+  return sessionId ? { 'X-Session-Id': sessionId } : undefined;
+}
+
+async function compose(
+  mappedQuery: MappedQuery,
+  sessionId?: string,
+  signal?: AbortSignal
+): Promise<ComposeQueryResponse> {
+  return unwrap(
+    await composeQuery({ body: { mappedQuery }, headers: sessionHeaders(sessionId), signal }),
+    'Failed to compose query',
+    zComposeQueryResponse
+  );
+}
+
+async function searchComposed(
+  composed: ComposeQueryResponse,
+  query: string,
+  maxResults: number,
+  offset: number,
+  sort: SortOrder | undefined,
+  strategy: StrategyType | undefined,
+  sessionId?: string,
+  signal?: AbortSignal,
+  // Whether the body names the session and query, so a first page is recorded in its
+  // history. The safety middleware checks, and rate-limits, any body with a query.
+  record = true
+): Promise<SearchResults> {
+  const data = unwrap(
+    await orchestrationSearch({
+      body: {
+        composedQuery: orderedQuery(composed, sort),
+        maxResults,
+        offset,
+        sessionId: record ? sessionId : undefined,
+        query: record ? query : undefined,
+        strategy,
+      },
+      headers: sessionHeaders(sessionId),
+      signal,
+    }),
+    'Search failed',
+    zOrchestratedSearchResponse
+  );
+
+  return toSearchResults(data, offset);
+}
+
+/**
+ * Run the composed search over POST /search/stream, reporting each stage's results as
+ * they arrive. Falls back to the single-shot search when the backend cannot stream or
+ * the stream ends before the final ranking.
+ */
+async function streamComposed(
+  composed: ComposeQueryResponse,
+  query: string,
+  maxResults: number,
+  sort: SortOrder | undefined,
+  strategy: StrategyType | undefined,
+  onProgress: (event: SearchProgressEvent) => void,
+  sessionId?: string,
+  signal?: AbortSignal
+): Promise<SearchResults> {
+  let eventName: string | undefined;
+  let failure: unknown;
+
+  const { stream } = await streamSearch({
+    body: { composedQuery: orderedQuery(composed, sort), maxResults, offset: 0, sessionId, query, strategy },
+    headers: { ...sessionHeaders(sessionId), Accept: 'text/event-stream' },
+    signal,
+    fetch: rejectErrorResponses,
+    // Reconnecting would repeat the whole search; the single-shot fallback is cheaper
+    sseMaxRetryAttempts: 1,
+    onSseEvent: (event) => {
+      eventName = event.event;
+    },
+    onSseError: (error) => {
+      failure = error;
+    },
+  });
+
+  for await (const data of stream) {
+    if (eventName === 'error') {
+      throw new SearchApiError(getErrorMessage(data) || 'Search failed', 500, data);
+    }
+    if (eventName !== 'exact' && eventName !== 'semantic' && eventName !== 'reranked') {
+      continue;
+    }
+
+    const results = toSearchResults(
+      validateResponse(zStreamSearchResponse, data as OrchestratedSearchResponse, STREAM_ENDPOINT)
+    );
+    onProgress({ stage: eventName, results });
+
+    if (eventName === 'reranked') {
+      return results;
+    }
+  }
+
+  if (signal?.aborted) {
+    throw signal.reason;
+  }
+  // Rate limits, guardrail rejections and server errors would fail the single-shot search too
+  if (
+    failure instanceof SearchApiError &&
+    failure.status !== undefined &&
+    !STREAM_UNAVAILABLE_STATUSES.has(failure.status)
+  ) {
+    throw failure;
+  }
+
+  return searchComposed(composed, query, maxResults, 0, sort, strategy, sessionId, signal);
+}
+
+/**
+ * Fetch for the SSE client that throws error responses as a SearchApiError, the way
+ * unwrap() does, so rate limits and guardrail rejections keep their status and body
+ */
+const rejectErrorResponses: typeof fetch = async (input, init) => {
+  const response = await fetch(input, init);
+  if (response.ok) {
+    return response;
+  }
+
+  const text = await response.text();
+  let body: unknown = text;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    // Plain-text error body
+  }
+
+  throw new SearchApiError(
+    getErrorMessage(body) || `Search failed: ${response.statusText}`,
+    response.status,
+    body,
+    getRateLimitInfo(response, body)
+  );
+};
+
+// The composed query, asking the backend for `sort` where it can order by a field
+function orderedQuery(composed: ComposeQueryResponse, sort: SortOrder | undefined): ComposedQuery {
+  return { ...toComposedQuery(composed), orderBy: sort ? SORT_ORDERS[sort].orderBy : null };
+}
+
+// `offset` is the number of results before this page, so ranks continue across pages
+function toSearchResults(data: OrchestratedSearchResponse, offset = 0): SearchResults {
+  return {
+    results: data.results.map((result, index) => ({
+      vehicle: toVehicleDocument(result.vehicle),
+      rank: offset + index + 1,
+      score: result.relevanceScore,
+      scoreBreakdown: result.scoreBreakdown ?? undefined,
+    })),
+    totalCount: data.totalCount,
+    searchDuration: data.searchDuration,
+    strategy: {
+      name: data.strategy.type,
+      approaches: data.strategy.approaches,
+      weights: data.strategy.weights,
+      shouldRerank: data.strategy.shouldRerank,
+    },
+    stages: data.stages,
+  };
+}
+
+async function searchSemantic(
+  query: string,
+  maxResults: number,
+  sessionId?: string,
+  signal?: AbortSignal
+): Promise<SearchResults> {
+  const data = unwrap(
+    await semanticSearch({ body: { query, maxResults }, headers: sessionHeaders(sessionId), signal }),
+    'Search failed',
+    zSemanticSearchApiResponse
+  );
+
+  return {
+    results: data.matches.map((match, index) => ({
+      vehicle: toVehicleDocument(match.vehicle),
+      rank: index + 1,
+      score: match.similarityScore,
+    })),
+    totalCount: data.matches.length,
+    searchDuration: data.searchDuration,
+    // What the orchestrator would have chosen for a query without constraints
+    strategy: {
+      name: 'SemanticOnly',
+      approaches: ['SemanticSearch'],
+      weights: { SemanticSearch: 1 },
+      shouldRerank: false,
+    },
+  };
+}
+
+async function hasSearchState(sessionId: string, signal?: AbortSignal): Promise<boolean> {
+  const session = await getSession(sessionId, signal);
+  return session.currentSearchState !== undefined;
+}
+
+/**
+ * Convert a /query/parse response to the ParsedQuery model accepted by /query/map and /search/explain
+ */
+export function toParsedQuery(parsed: ParseQueryResponse): ParsedQuery {
+  return {
+    originalQuery: parsed.originalQuery,
+    intent: INTENTS[parsed.intent.toLowerCase()] ?? 'Search',
+    entities: parsed.entities.map((entity) => ({ ...entity, type: entity.type as EntityType })),
+    confidenceScore: parsed.confidence,
+    unmappedTerms: parsed.unmappedTerms,
+  };
+}
+
+/**
+ * Convert a /query/map response to the MappedQuery model accepted by /query/compose
+ */
+export function toMappedQuery(mapped: MapQueryResponse): MappedQuery {
+  return {
+    constraints: mapped.constraints.map(toSearchConstraint),
+    unmappableTerms: mapped.unmappableTerms,
+    metadata: mapped.metadata,
+  };
+}
+
+/**
+ * Convert a /query/compose response to the ComposedQuery model accepted by /search and /search/rerank
+ */
+export function toComposedQuery(composed: ComposeQueryResponse): ComposedQuery {
+  return {
+    type: composed.type as QueryType,
+    constraintGroups: composed.constraintGroups.map((group) => ({
+      constraints: group.constraints.map(toSearchConstraint),
+      operator: group.operator as LogicalOperator,
+      priority: group.priority,
+    })),
+    groupOperator: composed.groupOperator as LogicalOperator,
+    warnings: composed.warnings,
+    hasConflicts: composed.hasConflicts,
+    oDataFilter: composed.oDataFilter,
+  };
+}
+
+function toSearchConstraint(constraint: ConstraintResponse): SearchConstraint {
+  return {
+    fieldName: constraint.fieldName,
+    operator: constraint.operator as ConstraintOperator,
+    value: constraint.value,
+    type: constraint.type as ConstraintType,
+  };
+}
@@ -0,0 +1,88 @@
+import './client';
+import { resolveReferences as fetchResolveReferences } from './generated';
+import type { ReferenceResponse, ResolveReferencesResponse } from './generated';
+import { zResolveReferencesResponse } from './generated/zod.gen';
+import { unwrap } from './errors';
+import { sessionHeaders } from './pipeline';
+import { VehicleDocument } from './types';
+
+// The phrasing ReferenceResolverService looks for: pronouns and demonstratives,
+// positions in the last results and comparatives
+const REFERENCE_PATTERN = new RegExp(
+  [
+    '\\b(it|that|this|them|those|these)\\b',
+    '\\b(first|second|third|fourth|fifth|last|previous)\\s+(one|vehicle|car)\\b',
+    '\\b(cheaper|less expensive|more expensive|pricier|lower mileage|less mileage|higher mileage|more mileage|newer|older|bigger|larger|smaller)\\b',
+  ].join('|'),
+  'i'
+);
+
+const PLURAL_PRONOUNS = ['them', 'those', 'these'];
+
+/**
+ * Whether a query may refer back to the last results, so is worth resolving
+ * before it is searched
+ */
+export function mayReferToResults(query: string): boolean {
+  return REFERENCE_PATTERN.test(query);
+}
+
+/**
+ * Resolve the pronouns, positions and comparatives in a query against the
+ * session's last results and active filters. The backend's guardrails leave
+ * this endpoint out, so previews don't use up the session's search limit.
+ */
+export async function resolveReferences(
+  query: string,
+  sessionId: string,
+  signal?: AbortSignal
+): Promise<ResolveReferencesResponse> {
+  return unwrap(
+    await fetchResolveReferences({ body: { query, sessionId }, headers: sessionHeaders(sessionId), signal }),
+    'Failed to resolve references',
+    zResolveReferencesResponse
+  );
+}
+
+/**
+ * Whether a reference points at one vehicle ("it", "that BMW", "the second
+ * one"), so another from the last results can be chosen in its place
+ */
+export function isVehicleReference({ type, referenceText }: ReferenceResponse): boolean {
+  return (
+    type === 'Demonstrative' ||
+    type === 'Anaphoric' ||
+    (type === 'Pronoun' && !PLURAL_PRONOUNS.includes(referenceText.toLowerCase()))
+  );
+}
+
+/**
+ * A vehicle as a reference preview names it, e.g. "Ford Focus (£8,995)"
+ */
+export function describeReferent({ make, model, price }: VehicleDocument): string {
+  const formatted = new Intl.NumberFormat('en-GB', {
+    style: 'currency',
+    currency: 'GBP',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(price);
+  return `${make} ${model} (${formatted})`;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * The query with a reference replaced by the vehicle it should point at, so
+ * "something like the second one" becomes "something like the Ford Focus".
+ * The query is unchanged when the reference isn't in it.
+ */
+export function nameReferent(query: string, referenceText: string, { make, model }: VehicleDocument): string {
+  const match = new RegExp(`\\b${escapeRegExp(referenceText)}\\b`, 'i').exec(query);
+  if (!match) {
+    return query;
+  }
+
+  const before = query.slice(0, match.index);
+  const article = /\bthe\s+$/i.test(before) ? '' : 'the ';
+  return `${before}${article}${make} ${model}${query.slice(match.index + match[0].length)}`;
+}
@@ -0,0 +1,143 @@
+import type { ComposedQuery, ComposeQueryResponse, SearchConstraint } from './generated';
+import { getFacets } from './facets';
+import { describeConstraint } from './filters';
+import { toComposedQuery } from './pipeline';
+
+/**
+ * One constraint of a search with no results dropped or loosened, and how many
+ * vehicles the search would then find
+ */
+export interface Relaxation {
+  label: string;
+  // The field relaxed, so a refinement filter on it can be taken out too
+  fieldName: string;
+  // Every constraint of the search, with this one relaxed, to search with
+  constraints: SearchConstraint[];
+  count: number;
+}
+
+type Candidate = Omit<Relaxation, 'count'> & { query: ComposedQuery };
+
+const formatPrice = (value: number) =>
+  new Intl.NumberFormat('en-GB', {
+    style: 'currency',
+    currency: 'GBP',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(value);
+
+// How far an upper limit is raised: price by a fifth, mileage by half
+const LOOSENING: Record<string, { factor: number; step: number; label: (max: number) => string }> = {
+  price: { factor: 1.2, step: 500, label: (max) => `Raise the price to ${formatPrice(max)}` },
+  mileage: {
+    factor: 1.5,
+    step: 5000,
+    label: (max) => `Widen the mileage to ${new Intl.NumberFormat('en-GB').format(max)} miles`,
+  },
+};
+
+// At most this many suggestions are shown, those finding the most first
+const MAX_RELAXATIONS = 3;
+
+const roundUp = (value: number, step: number) => Math.ceil(value / step) * step;
+
+// The constraint with its upper limit raised, or null when it has no numeric upper limit to raise
+function loosen(constraint: SearchConstraint): SearchConstraint | null {
+  const loosening = LOOSENING[constraint.fieldName];
+  if (!loosening) {
+    return null;
+  }
+
+  const { operator, value } = constraint;
+  if ((operator === 'LessThan' || operator === 'LessThanOrEqual') && typeof value === 'number') {
+    return { ...constraint, operator: 'LessThanOrEqual', value: roundUp(value * loosening.factor, loosening.step) };
+  }
+  if (operator === 'Between' && Array.isArray(value) && typeof value[1] === 'number') {
+    return { ...constraint, value: [value[0], roundUp(value[1] * loosening.factor, loosening.step)] };
+  }
+  return null;
+}
+
+// The upper limit of a loosened constraint, for its label
+const upperLimit = ({ value }: SearchConstraint) => (Array.isArray(value) ? value[1] : value) as number;
+
+/**
+ * The ways a composed query could be relaxed: loosening its price or mileage
+ * limit, then dropping each of its exact and range constraints. Semantic
+ * constraints are left alone, since they rank results rather than rule any out.
+ */
+export function relaxationCandidates(composed: ComposeQueryResponse): Candidate[] {
+  const query = toComposedQuery(composed);
+  const all = query.constraintGroups.flatMap((group) => group.constraints);
+
+  // The query with the constraint at `index` of group `groupIndex` replaced, or dropped when null
+  const replacing = (groupIndex: number, index: number, replacement: SearchConstraint | null) => {
+    const constraintGroups = query.constraintGroups
+      .map((group, g) => ({
+        ...group,
+        constraints: group.constraints.flatMap((constraint, c) =>
+          g === groupIndex && c === index ? (replacement ? [replacement] : []) : [constraint]
+        ),
+      }))
+      .filter((group) => group.constraints.length > 0);
+    return {
+      query: { ...query, constraintGroups, oDataFilter: null },
+      constraints: constraintGroups.flatMap((group) => group.constraints),
+    };
+  };
+
+  const loosened: Candidate[] = [];
+  const removed: Candidate[] = [];
+  query.constraintGroups.forEach((group, groupIndex) =>
+    group.constraints.forEach((constraint, index) => {
+      if (constraint.type === 'Semantic') {
+        return;
+      }
+
+      const looser = loosen(constraint);
+      if (looser) {
+        loosened.push({
+          label: LOOSENING[constraint.fieldName].label(upperLimit(looser)),
+          fieldName: constraint.fieldName,
+          ...replacing(groupIndex, index, looser),
+        });
+      }
+      // Dropping the only constraint would search for everything
+      if (all.length > 1) {
+        removed.push({
+          label: `Remove '${describeConstraint(constraint)}'`,
+          fieldName: constraint.fieldName,
+          ...replacing(groupIndex, index, null),
+        });
+      }
+    })
+  );
+
+  return [...loosened, ...removed];
+}
+
+/**
+ * The relaxations of a search with no results that would find some, those
+ * finding the most first. Each is counted with POST /search/facets; one that
+ * can't be counted is left out.
+ */
+export async function findRelaxations(composed: ComposeQueryResponse, signal?: AbortSignal): Promise<Relaxation[]> {
+  const counted = await Promise.all(
+    relaxationCandidates(composed).map(async ({ query, ...candidate }) => {
+      try {
+        const { totalCount } = await getFacets(query, signal);
+        return { ...candidate, count: totalCount };
+      } catch (err) {
+        if (signal?.aborted) {
+          throw err;
+        }
+        return null;
+      }
+    })
+  );
+
+  return counted
+    .filter((relaxation): relaxation is Relaxation => relaxation !== null && relaxation.count > 0)
+    .sort((a, b) => b.count - a.count)
+    .slice(0, MAX_RELAXATIONS);
+}
@@ -0,0 +1,133 @@
+import './client';
+import { rerankResults as fetchRerankResults } from './generated';
+import type { ComposeQueryResponse, RerankVehicleResult } from './generated';
+import { zRerankResultsResponse } from './generated/zod.gen';
+import { unwrap } from './errors';
+import { toComposedQuery } from './pipeline';
+import { VehicleResult } from './types';
+
+/**
+ * What the results can be prioritised by
+ */
+export type PriorityFactor = 'price' | 'mileage' | 'age' | 'serviceHistory' | 'relevance';
+
+/**
+ * How much each factor counts, from 0 to MAX_PRIORITY; only their proportions matter
+ */
+export type Priorities = Record<PriorityFactor, number>;
+
+export const MAX_PRIORITY = 100;
+
+// Each factor with the RankingFactor the backend scores it by
+export const PRIORITY_FACTORS: { factor: PriorityFactor; label: string; rankingFactor: string }[] = [
+  { factor: 'price', label: 'Lower price', rankingFactor: 'PriceCompetitiveness' },
+  { factor: 'mileage', label: 'Lower mileage', rankingFactor: 'Mileage' },
+  { factor: 'age', label: 'Newer', rankingFactor: 'Recency' },
+  { factor: 'serviceHistory', label: 'Service history', rankingFactor: 'ServiceHistory' },
+  { factor: 'relevance', label: 'Relevance to search', rankingFactor: 'SemanticRelevance' },
+];
+
+/**
+ * Where the sliders start: relevance alone, the order the search returned
+ */
+export const RELEVANCE_PRIORITIES: Priorities = {
+  price: 0,
+  mileage: 0,
+  age: 0,
+  serviceHistory: 0,
+  relevance: MAX_PRIORITY,
+};
+
+/**
+ * Whether priorities leave the results in relevance order: nothing but
+ * relevance counts, or nothing does
+ */
+export function isRelevanceOrder(priorities: Priorities): boolean {
+  return PRIORITY_FACTORS.every(({ factor }) => factor === 'relevance' || priorities[factor] === 0);
+}
+
+/**
+ * Each factor's share of the ordering, from 0 to 1
+ */
+export function priorityShares(priorities: Priorities): Priorities {
+  const total = PRIORITY_FACTORS.reduce((sum, { factor }) => sum + priorities[factor], 0);
+  const shares = { ...RELEVANCE_PRIORITIES };
+  for (const { factor } of PRIORITY_FACTORS) {
+    shares[factor] = total > 0 ? priorities[factor] / total : 0;
+  }
+  return shares;
+}
+
+const toRerankResult = ({ vehicle, score, scoreBreakdown }: VehicleResult): RerankVehicleResult => ({
+  vehicleId: vehicle.id,
+  vehicle: {
+    make: vehicle.make,
+    model: vehicle.model,
+    derivative: vehicle.derivative ?? '',
+    price: vehicle.price,
+    mileage: vehicle.mileage,
+    bodyType: vehicle.bodyType ?? '',
+    engineSize: vehicle.engineSize ?? 0,
+    fuelType: vehicle.fuelType,
+    transmissionType: vehicle.transmissionType,
+    colour: vehicle.colour ?? '',
+    numberOfDoors: vehicle.numberOfDoors,
+    registrationDate: vehicle.registrationDate,
+    features: vehicle.features ?? [],
+    serviceHistoryPresent: vehicle.serviceHistoryPresent,
+    numberOfServices: vehicle.numberOfServices,
+    lastServiceDate: vehicle.lastServiceDate,
+    motExpiryDate: vehicle.motExpiryDate,
+    declarations: vehicle.declarations,
+  },
+  relevanceScore: score,
+  scoreBreakdown: scoreBreakdown && { ...scoreBreakdown, keywordScore: scoreBreakdown.keywordScore ?? 0 },
+});
+
+/**
+ * Results in the order of `ids`; any not among them keep their place after those that are
+ */
+export function reorderResults(results: VehicleResult[], ids: string[]): VehicleResult[] {
+  const position = new Map(ids.map((id, index) => [id, index]));
+  const placeOf = (result: VehicleResult, index: number) => position.get(result.vehicle.id) ?? ids.length + index;
+  return results
+    .map((result, index) => ({ result, place: placeOf(result, index) }))
+    .sort((a, b) => a.place - b.place)
+    .map(({ result }) => result);
+}
+
+/**
+ * Put results in order of the user's priorities with /search/rerank, without
+ * searching again. The results come back as they were, only reordered: the
+ * backend's copy of each vehicle has fewer fields, and its score is the
+ * priority score rather than relevance.
+ */
+export async function rerankResults(
+  results: VehicleResult[],
+  composed: ComposeQueryResponse,
+  priorities: Priorities,
+  signal?: AbortSignal
+): Promise<VehicleResult[]> {
+  const factorWeights = Object.fromEntries(
+    PRIORITY_FACTORS.filter(({ factor }) => priorities[factor] > 0).map(({ factor, rankingFactor }) => [
+      rankingFactor,
+      priorities[factor] / MAX_PRIORITY,
+    ])
+  );
+
+  const reranked = unwrap(
+    await fetchRerankResults({
+      body: {
+        results: results.map(toRerankResult),
+        query: toComposedQuery(composed),
+        // Diversity would move vehicles for reasons the sliders don't show
+        strategy: { approach: 'WeightedScore', factorWeights, applyDiversity: false },
+      },
+      signal,
+    }),
+    'Failed to reorder results',
+    zRerankResultsResponse
+  );
+
+  return reorderResults(results, reranked.results.map((result) => result.vehicle.id));
+}
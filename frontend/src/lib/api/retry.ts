@@ -0,0 +1,87 @@
+import { isAbortError, parseRetryAfter } from './errors';
+
+export interface RetryOptions {
+  // Retries after the first attempt
+  retries: number;
+  // Upper bound of the first backoff window in milliseconds, doubled per attempt
+  baseDelay: number;
+  // Longest we are prepared to wait between attempts
+  maxDelay: number;
+}
+
+export const defaultRetryOptions: RetryOptions = {
+  retries: 3,
+  baseDelay: 300,
+  maxDelay: 10000,
+};
+
+// Only requests that are safe to repeat are retried
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+
+/**
+ * Exponential backoff with full jitter: a random delay up to the attempt's window
+ */
+export function backoffDelay(
+  attempt: number,
+  { baseDelay, maxDelay }: RetryOptions,
+  random: () => number = Math.random
+): number {
+  return Math.floor(random() * Math.min(maxDelay, baseDelay * 2 ** attempt));
+}
+
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Wrap fetch so idempotent requests are retried on network errors and on
+ * 429/502/503/504 responses. A Retry-After header is honoured when it fits
+ * within `maxDelay`; a longer wait is handed back to the caller as the response.
+ */
+export function createRetryingFetch(options: RetryOptions = defaultRetryOptions): typeof fetch {
+  return async (input, init) => {
+    const request = new Request(input, init);
+
+    if (!IDEMPOTENT_METHODS.has(request.method)) {
+      return fetch(request);
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      let response: Response | undefined;
+      try {
+        response = await fetch(request.clone());
+      } catch (error) {
+        if (isAbortError(error) || attempt >= options.retries) {
+          throw error;
+        }
+      }
+
+      if (response && (!RETRYABLE_STATUSES.has(response.status) || attempt >= options.retries)) {
+        return response;
+      }
+
+      const retryAfter = response ? parseRetryAfter(response.headers.get('Retry-After')) : undefined;
+      if (response && retryAfter !== undefined && retryAfter * 1000 > options.maxDelay) {
+        return response;
+      }
+
+      await wait(retryAfter !== undefined ? retryAfter * 1000 : backoffDelay(attempt, options), request.signal);
+    }
+  };
+}
@@ -0,0 +1,167 @@
+import { SearchApiError, isRateLimitError } from './errors';
+
+/**
+ * Violation types reported by the backend's SafetyGuardrailService
+ */
+export const SAFETY_VIOLATION_TYPES = [
+  'OffTopic',
+  'PromptInjection',
+  'InappropriateContent',
+  'ExcessiveLength',
+  'InvalidCharacters',
+  'RateLimitExceeded',
+  'BulkExtraction',
+] as const;
+
+export type SafetyViolationType = (typeof SAFETY_VIOLATION_TYPES)[number];
+
+// Mirrors SafetyGuardrailService.MaxLength
+export const MAX_QUERY_LENGTH = 500;
+
+/**
+ * A single entry of the guardrail's `ValidationError` list
+ */
+export interface FieldError {
+  fieldName: string;
+  message: string;
+  value?: string;
+}
+
+interface SearchErrorBase {
+  message: string;
+  // The query that was rejected, when known
+  query?: string;
+}
+
+/**
+ * Why a search failed, in a form the UI can tailor its message and recovery to
+ */
+export type SearchError =
+  | (SearchErrorBase & {
+      kind: 'safety';
+      violation: Exclude<SafetyViolationType, 'RateLimitExceeded'>;
+      errors: FieldError[];
+    })
+  | (SearchErrorBase & {
+      kind: 'rateLimited';
+      // Seconds until searching is allowed again
+      retryAfter?: number;
+      remainingRequests?: number;
+    })
+  | (SearchErrorBase & {
+      kind: 'sessionBlocked';
+      // ISO timestamp at which the block is lifted
+      blockedUntil?: string;
+    })
+  | (SearchErrorBase & {
+      kind: 'validation';
+      errors: FieldError[];
+    })
+  | (SearchErrorBase & {
+      kind: 'network';
+    })
+  | (SearchErrorBase & {
+      kind: 'unknown';
+      status?: number;
+    });
+
+interface ErrorEnvelope {
+  code?: unknown;
+  message?: unknown;
+  details?: unknown;
+}
+
+function getEnvelope(body: unknown): ErrorEnvelope | undefined {
+  const error = (body as { error?: unknown } | null)?.error;
+  return error && typeof error === 'object' ? (error as ErrorEnvelope) : undefined;
+}
+
+function isViolationType(code: unknown): code is SafetyViolationType {
+  return typeof code === 'string' && (SAFETY_VIOLATION_TYPES as readonly string[]).includes(code);
+}
+
+function toFieldErrors(details: unknown): FieldError[] {
+  // Guardrail rejections: a list of ValidationError
+  if (Array.isArray(details)) {
+    return details
+      .filter((item): item is Record<string, unknown> => !!item && typeof item === 'object')
+      .map((item) => ({
+        fieldName: String(item.fieldName ?? ''),
+        message: String(item.message ?? ''),
+        value: typeof item.value === 'string' ? item.value : undefined,
+      }));
+  }
+
+  // ValidationProblemDetails: { errors: { field: [messages] } }
+  const errors = (details as { errors?: unknown } | null)?.errors;
+  if (errors && typeof errors === 'object') {
+    return Object.entries(errors as Record<string, unknown>).flatMap(([fieldName, messages]) =>
+      (Array.isArray(messages) ? messages : [messages]).map((message) => ({
+        fieldName,
+        message: String(message),
+      }))
+    );
+  }
+
+  return [];
+}
+
+/**
+ * Classify any error thrown by the search pipeline
+ */
+export function toSearchError(error: unknown, query?: string): SearchError {
+  const message = error instanceof Error ? error.message : 'Search failed';
+
+  if (!(error instanceof SearchApiError)) {
+    return { kind: 'unknown', message, query };
+  }
+
+  if (isRateLimitError(error)) {
+    return {
+      kind: 'rateLimited',
+      message,
+      query,
+      retryAfter: error.retryAfter,
+      remainingRequests: error.remainingRequests,
+    };
+  }
+
+  if (error.status === undefined) {
+    return { kind: 'network', message, query };
+  }
+
+  const envelope = getEnvelope(error.details);
+  const code = envelope?.code;
+
+  if (error.status === 403 && code === 'SESSION_BLOCKED') {
+    const details = (envelope?.details ?? {}) as { expiresAt?: unknown; blockedUntil?: unknown };
+    const blockedUntil = details.expiresAt ?? details.blockedUntil;
+    return {
+      kind: 'sessionBlocked',
+      message,
+      query,
+      blockedUntil: typeof blockedUntil === 'string' ? blockedUntil : undefined,
+    };
+  }
+
+  if (isViolationType(code) && code !== 'RateLimitExceeded') {
+    return {
+      kind: 'safety',
+      violation: code,
+      message,
+      query,
+      errors: toFieldErrors(envelope?.details),
+    };
+  }
+
+  if (error.status === 400) {
+    return {
+      kind: 'validation',
+      message,
+      query,
+      errors: toFieldErrors(envelope ? envelope.details : error.details),
+    };
+  }
+
+  return { kind: 'unknown', message, query, status: error.status };
+}
@@ -1,195 +1,64 @@
-import { SearchRequest, SearchResults, VehicleDocument, SessionResponse, ApiError } from './types';
-
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5001';
-
-class SearchApiError extends Error implements ApiError {
-  status?: number;
-  details?: unknown;
-
-  constructor(message: string, status?: number, details?: unknown) {
-    super(message);
-    this.name = 'SearchApiError';
-    this.status = status;
-    this.details = details;
-  }
-}
-
-/**
- * Search for vehicles using natural language query
- */
-export async function searchVehicles(request: SearchRequest): Promise<SearchResults> {
-  try {
-    const requestBody: Record<string, unknown> = {
-      query: request.query,
-      maxResults: request.maxResults || 10,
-      filters: {},
-    };
-
-    // Include sessionId if provided
-    if (request.sessionId) {
-      requestBody.sessionId = request.sessionId;
-    }
-
-    const response = await fetch(`${API_BASE_URL}/api/v1/search`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(requestBody),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new SearchApiError(
-        errorData.message || `Search failed: ${response.statusText}`,
-        response.status,
-        errorData
-      );
-    }
-
-    const data = await response.json();
-    
-    // Transform the response to match our interface
-    return {
-      results: data.results || [],
-      totalCount: data.totalCount || 0,
-      searchDuration: formatDuration(data.searchDuration),
-      strategy: data.strategy || { name: 'unknown' },
-    };
-  } catch (error) {
-    if (error instanceof SearchApiError) {
-      throw error;
-    }
-    throw new SearchApiError(
-      error instanceof Error ? error.message : 'An unknown error occurred',
-      undefined,
-      error
-    );
-  }
-}
+import { z } from 'zod';
+import { client } from './client';
+import { getVehicleById as fetchVehicleById, getVehicleCount } from './generated';
+import type { VehicleCountResponse, VehicleDetailResponse, VehicleResponse } from './generated';
+import { zVehicleCountResponse, zVehicleDetailResponse } from './generated/zod.gen';
+import { SearchApiError, unwrap } from './errors';
+import { VehicleDocument } from './types';
 
 /**
  * Get a vehicle by ID
  */
 export async function getVehicleById(id: string): Promise<VehicleDocument> {
-  try {
-    const response = await fetch(`${API_BASE_URL}/api/v1/vehicles/${id}`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new SearchApiError(
-        errorData.message || `Failed to fetch vehicle: ${response.statusText}`,
-        response.status,
-        errorData
-      );
-    }
-
-    return await response.json();
-  } catch (error) {
-    if (error instanceof SearchApiError) {
-      throw error;
-    }
-    throw new SearchApiError(
-      error instanceof Error ? error.message : 'An unknown error occurred',
-      undefined,
-      error
-    );
-  }
+  const data = unwrap(
+    await fetchVehicleById({ path: { id } }),
+    'Failed to fetch vehicle',
+    zVehicleDetailResponse
+  );
+  return toVehicleDocument(data);
 }
 
 /**
- * Create a new session
+ * Get similar vehicles based on make, model, and price range
  */
-export async function createSession(): Promise<SessionResponse> {
+export async function getSimilarVehicles(id: string, limit: number = 4): Promise<VehicleDocument[]> {
   try {
-    const response = await fetch(`${API_BASE_URL}/api/v1/sessions`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({}),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new SearchApiError(
-        errorData.message || `Failed to create session: ${response.statusText}`,
-        response.status,
-        errorData
-      );
-    }
-
-    return await response.json();
+    const data = unwrap(
+      await client.get<{ 200: VehicleDetailResponse[] }>({
+        url: '/api/v1/vehicles/{id}/similar',
+        path: { id },
+        query: { limit },
+      }),
+      'Failed to fetch similar vehicles',
+      z.array(zVehicleDetailResponse)
+    );
+    return data.map(toVehicleDocument);
   } catch (error) {
-    if (error instanceof SearchApiError) {
-      throw error;
+    // If endpoint doesn't exist, return empty array
+    if (error instanceof SearchApiError && error.status === 404) {
+      return [];
     }
-    throw new SearchApiError(
-      error instanceof Error ? error.message : 'An unknown error occurred',
-      undefined,
-      error
-    );
+    throw error;
   }
 }
 
 /**
- * Get similar vehicles based on make, model, and price range
+ * Get the number of vehicles currently in the search index
  */
-export async function getSimilarVehicles(id: string, limit: number = 4): Promise<VehicleDocument[]> {
-  try {
-    const response = await fetch(`${API_BASE_URL}/api/v1/vehicles/${id}/similar?limit=${limit}`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
-
-    if (!response.ok) {
-      // If endpoint doesn't exist, return empty array
-      if (response.status === 404) {
-        return [];
-      }
-      const errorData = await response.json().catch(() => ({}));
-      throw new SearchApiError(
-        errorData.message || `Failed to fetch similar vehicles: ${response.statusText}`,
-        response.status,
-        errorData
-      );
-    }
-
-    return await response.json();
-  } catch (error) {
-    if (error instanceof SearchApiError) {
-      throw error;
-    }
-    throw new SearchApiError(
-      error instanceof Error ? error.message : 'An unknown error occurred',
-      undefined,
-      error
-    );
-  }
+export async function getInventoryCount(): Promise<VehicleCountResponse> {
+  return unwrap(await getVehicleCount(), 'Failed to fetch vehicle count', zVehicleCountResponse);
 }
 
 /**
- * Format a TimeSpan duration to a readable string
+ * Convert a generated vehicle model (nullable optionals) to a VehicleDocument
  */
-function formatDuration(duration: string | { totalMilliseconds?: number }): string {
-  if (typeof duration === 'string') {
-    return duration;
-  }
-  
-  if (duration && typeof duration === 'object' && 'totalMilliseconds' in duration) {
-    const ms = duration.totalMilliseconds || 0;
-    if (ms < 1000) {
-      return `${ms.toFixed(0)}ms`;
-    }
-    return `${(ms / 1000).toFixed(2)}s`;
-  }
-  
-  return '0ms';
+export function toVehicleDocument(vehicle: VehicleResponse | VehicleDetailResponse): VehicleDocument {
+  return {
+    ...vehicle,
+    numberOfDoors: vehicle.numberOfDoors ?? undefined,
+    registrationDate: vehicle.registrationDate ?? undefined,
+    // Only search results carry these
+    motExpiryDate: ('motExpiryDate' in vehicle && vehicle.motExpiryDate) || undefined,
+    processedDate: ('processedDate' in vehicle && vehicle.processedDate) || undefined,
+  };
 }
@@ -1,20 +1,82 @@
 // API Types for Vehicle Search
 
+import type {
+  ComposeQueryResponse,
+  ConstraintChange,
+  MapQueryResponse,
+  ParseQueryResponse,
+  RefineQueryResponse,
+  SearchConstraint,
+  SearchState,
+} from './generated';
+
 export interface SearchRequest {
   query: string;
   sessionId?: string;
   maxResults?: number;
+  // Chosen in the refinement sheet; sent as constraints alongside those understood from the query
+  filters?: RefinementFilters;
+  // Absent for relevance order
+  sort?: SortOrder;
+  // Search with these constraints in place of those understood from the query,
+  // e.g. the session's active filters with one removed
+  constraints?: SearchConstraint[];
+  // Search with this understanding of the query instead of parsing it, e.g. with
+  // an entity the user removed or corrected (see lib/api/understanding.ts)
+  parsed?: ParseQueryResponse;
+  // Search this way instead of the way the backend would choose from the constraints
+  strategy?: StrategyType;
 }
 
+/**
+ * Strategies a search can be made to use; the backend cannot run MultiStage
+ */
+export type StrategyType = 'ExactOnly' | 'SemanticOnly' | 'Hybrid';
+
+/**
+ * Orders results can be shown in besides relevance (see lib/sorting.ts)
+ */
+export type SortOrder = 'price-asc' | 'price-desc' | 'mileage-asc' | 'year-desc' | 'year-asc' | 'mot-desc' | 'newest';
+
 export interface SearchResults {
   results: VehicleResult[];
   totalCount: number;
   searchDuration: string;
   strategy: SearchStrategy;
+  // How long each stage took on the backend; /search/semantic doesn't report them
+  stages?: SearchStageTiming[];
+}
+
+export interface QueryUnderstanding {
+  // Absent when the search was given its constraints instead of understanding the query
+  parsed?: ParseQueryResponse;
+  // Present for new searches; refinements are mapped server-side
+  mapped?: MapQueryResponse;
+  refined?: RefineQueryResponse;
+  composed: ComposeQueryResponse;
+  endpoint: 'search' | 'semantic';
 }
 
+export interface SearchPipelineResult {
+  results: SearchResults;
+  understanding: QueryUnderstanding;
+}
+
+/**
+ * Stages of a streamed search: the pipeline's own parse and compose steps,
+ * then the stages sent by POST /api/v1/search/stream
+ */
+export type SearchStage = 'parsed' | 'composed' | 'exact' | 'semantic' | 'reranked';
+
+export type SearchProgressEvent =
+  | { stage: 'parsed'; parsed: ParseQueryResponse }
+  | { stage: 'composed'; composed: ComposeQueryResponse }
+  | { stage: 'exact' | 'semantic' | 'reranked'; results: SearchResults };
+
 export interface VehicleResult {
   vehicle: VehicleDocument;
+  // Position in relevance order, from 1, whatever order the results are shown in
+  rank?: number;
   score: number;
   scoreBreakdown?: SearchScoreBreakdown;
   highlights?: string[];
@@ -62,6 +124,17 @@ export interface SearchScoreBreakdown {
 export interface SearchStrategy {
   name: string;
   description?: string;
+  // The approaches that ran, e.g. ExactMatch and SemanticSearch, and each one's weight from 0 to 1
+  approaches: string[];
+  weights: Record<string, number>;
+  // Whether the combined results were reranked
+  shouldRerank: boolean;
+}
+
+export interface SearchStageTiming {
+  // strategy and search, or for a streamed search strategy, exact, semantic and reranked
+  name: string;
+  durationMs: number;
 }
 
 export interface SessionResponse {
@@ -69,6 +142,12 @@ export interface SessionResponse {
   createdAt: string;
 }
 
+export interface SessionDetails extends SessionResponse {
+  lastAccessedAt: string;
+  messageCount: number;
+  currentSearchState?: SearchState;
+}
+
 export interface ApiError {
   message: string;
   status?: number;
@@ -83,20 +162,40 @@ export interface ConversationHistory {
 
 export interface ConversationMessage {
   messageId: string;
-  role: 'User' | 'Assistant';
+  role: 'User' | 'Assistant' | 'System';
   content: string;
   timestamp: string;
   results?: {
     count: number;
-    strategy: string;
+    resultIds: string[];
+    // The session's previous result count and how the constraints changed since, for follow-ups
+    previousCount?: number | null;
+    changes?: ConstraintChange[];
   };
 }
 
+// Either end may be open
+export interface FilterRange {
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Refinement filters chosen in the refinement panel. Each facet holds the values
+ * selected, any of which may match.
+ */
 export interface RefinementFilters {
-  priceRange?: [number, number];
-  mileageRange?: [number, number];
-  make?: string;
-  fuelType?: string;
-  transmission?: string;
+  priceRange?: FilterRange;
+  mileageRange?: FilterRange;
   yearMin?: number;
+  make?: string[];
+  model?: string[];
+  bodyType?: string[];
+  colour?: string[];
+  fuelType?: string[];
+  transmission?: string[];
+  location?: string[];
+  grade?: string[];
 }
+
+export type FacetKey = 'make' | 'model' | 'bodyType' | 'colour' | 'fuelType' | 'transmission' | 'location' | 'grade';
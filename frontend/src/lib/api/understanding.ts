@@ -0,0 +1,42 @@
+import type { ParseQueryResponse } from './generated';
+
+/**
+ * The parsed query with one entity corrected to `value`, or removed when `value`
+ * is null. The query text is rewritten to match, so the search is shown, recorded
+ * and linked as what it now looks for; entities after the edit keep their places
+ * in it.
+ */
+export function editEntity(parsed: ParseQueryResponse, index: number, value: string | null): ParseQueryResponse {
+  const entity = parsed.entities[index];
+  if (!entity) {
+    return parsed;
+  }
+
+  const { startPosition: start, endPosition: end } = entity;
+  const inText = start >= 0 && start < end && end <= parsed.originalQuery.length;
+  const replacement = value ?? '';
+
+  // Removing a term shouldn't leave a double space behind
+  let removedEnd = end;
+  if (value === null && inText) {
+    while (parsed.originalQuery[removedEnd] === ' ') {
+      removedEnd++;
+    }
+  }
+
+  const originalQuery = inText
+    ? (parsed.originalQuery.slice(0, start) + replacement + parsed.originalQuery.slice(removedEnd)).trim()
+    : parsed.originalQuery;
+  const shift = inText ? replacement.length - (removedEnd - start) : 0;
+
+  const entities = parsed.entities.flatMap((other, i) => {
+    if (i === index) {
+      return value === null ? [] : [{ ...other, value, endPosition: inText ? start + value.length : other.endPosition }];
+    }
+    return other.startPosition >= end
+      ? [{ ...other, startPosition: other.startPosition + shift, endPosition: other.endPosition + shift }]
+      : [other];
+  });
+
+  return { ...parsed, originalQuery, entities };
+}
@@ -0,0 +1,90 @@
+import type { z } from 'zod';
+import { ResponseValidationError } from './errors';
+
+/**
+ * strict: throw on a schema mismatch (development and tests)
+ * lenient: report the mismatch and pass the data through (production)
+ */
+export type ValidationMode = 'strict' | 'lenient';
+
+type ValidationReporter = (error: ResponseValidationError) => void;
+
+let mode: ValidationMode = process.env.NODE_ENV === 'production' ? 'lenient' : 'strict';
+
+let reporter: ValidationReporter = (error) => {
+  console.warn(error.message, error.details);
+};
+
+/**
+ * Override the validation mode (defaults to strict outside production)
+ */
+export function setValidationMode(next: ValidationMode): void {
+  mode = next;
+}
+
+/**
+ * Replace how lenient-mode mismatches are reported, e.g. to send them to telemetry
+ */
+export function setValidationReporter(next: ValidationReporter): void {
+  reporter = next;
+}
+
+/**
+ * Check a response body against its generated schema, returning the body unchanged
+ */
+export function validateResponse<T>(schema: z.ZodType, data: T, endpoint: string): T {
+  const result = schema.safeParse(data);
+  if (result.success) {
+    return data;
+  }
+
+  const issue = mostSpecificIssue(result.error.issues[0]);
+  const error = new ResponseValidationError(endpoint, formatPath(issue.path), issue.message, result.error.issues);
+
+  if (mode === 'strict') {
+    throw error;
+  }
+
+  reporter(error);
+  return data;
+}
+
+type Issue = z.ZodError['issues'][number];
+
+/**
+ * Nullable fields are unions with null; descend into the branch that got furthest
+ * so the reported path points at the actual mismatch
+ */
+function mostSpecificIssue(issue: Issue): { path: PropertyKey[]; message: string } {
+  if (issue.code !== 'invalid_union' || issue.errors.length === 0) {
+    return issue;
+  }
+
+  const deepest = issue.errors
+    .flat()
+    .map(mostSpecificIssue)
+    .reduce((best, candidate) => (candidate.path.length > best.path.length ? candidate : best));
+
+  if (deepest.path.length === 0) {
+    return issue;
+  }
+  return { path: [...issue.path, ...deepest.path], message: deepest.message };
+}
+
+/**
+ * Format a schema issue path as `results[0].vehicle.price`
+ */
+function formatPath(path: PropertyKey[]): string {
+  if (path.length === 0) {
+    return '(root)';
+  }
+
+  return path
+    .map((segment, index) => {
+      if (typeof segment === 'number') {
+        return `[${segment}]`;
+      }
+      return index === 0 ? String(segment) : `.${String(segment)}`;
+    })
+    .join('');
+}
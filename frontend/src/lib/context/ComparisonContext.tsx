@@ -6,6 +6,8 @@ import { VehicleDocument } from '@/lib/api/types';
 interface ComparisonContextType {
   selectedVehicles: VehicleDocument[];
   toggleVehicle: (vehicle: VehicleDocument) => void;
+  // Replace the selection, e.g. when restoring it from the URL
+  setComparison: (vehicles: VehicleDocument[]) => void;
   clearComparison: () => void;
   isSelected: (vehicleId: string) => boolean;
   canAddMore: boolean;
@@ -33,6 +35,10 @@ export function ComparisonProvider({ children }: { children: ReactNode }) {
     });
   };
 
+  const setComparison = (vehicles: VehicleDocument[]) => {
+    setSelectedVehicles(vehicles.slice(0, 3));
+  };
+
   const clearComparison = () => {
     setSelectedVehicles([]);
   };
@@ -45,7 +51,7 @@ export function ComparisonProvider({ children }: { children: ReactNode }) {
 
   return (
     <ComparisonContext.Provider
-      value={{ selectedVehicles, toggleVehicle, clearComparison, isSelected, canAddMore }}
+      value={{ selectedVehicles, toggleVehicle, setComparison, clearComparison, isSelected, canAddMore }}
     >
       {children}
     </ComparisonContext.Provider>
@@ -0,0 +1,9 @@
+'use client';
+
+import { ReactNode } from 'react';
+import { SWRConfig } from 'swr';
+import { swrConfig } from '@/lib/api/cache';
+
+export function SWRProvider({ children }: { children: ReactNode }) {
+  return <SWRConfig value={swrConfig}>{children}</SWRConfig>;
+}
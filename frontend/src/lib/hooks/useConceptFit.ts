@@ -0,0 +1,32 @@
+'use client';
+
+import useSWR from 'swr';
+import { conceptFitKey } from '../api/cache';
+import { scoreConcept } from '../api/concepts';
+import type { SimilarityScore } from '../api/generated';
+
+interface UseConceptFitReturn {
+  fit: SimilarityScore | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * How well a vehicle fits a concept such as "reliable", from
+ * /search/similarity. Cached per vehicle and concept, so every card and the
+ * details page share one score; a vehicle's attributes don't change while it
+ * is on screen, so it isn't revalidated on focus.
+ */
+export function useConceptFit(vehicleId: string, concept: string): UseConceptFitReturn {
+  const { data, error, isLoading } = useSWR<SimilarityScore, Error>(
+    conceptFitKey(vehicleId, concept),
+    () => scoreConcept(vehicleId, concept),
+    { revalidateOnFocus: false }
+  );
+
+  return {
+    fit: data ?? null,
+    isLoading,
+    error: error ? error.message || 'Failed to score concept' : null,
+  };
+}
@@ -0,0 +1,54 @@
+'use client';
+
+import { useCallback } from 'react';
+import useSWR from 'swr';
+import { conversationHistoryKey } from '../api/cache';
+import { clearConversation, getConversationHistory } from '../api/conversation';
+import { ConversationHistory, ConversationMessage } from '../api/types';
+
+const NO_MESSAGES: ConversationMessage[] = [];
+
+interface UseConversationHistoryReturn {
+  messages: ConversationMessage[];
+  isLoading: boolean;
+  error: string | null;
+  // Empties the history immediately and restores it if the delete fails
+  clearHistory: () => Promise<void>;
+}
+
+/**
+ * Cached conversation history for a session
+ */
+export function useConversationHistory(sessionId: string | null): UseConversationHistoryReturn {
+  const { data, error, isLoading, mutate } = useSWR<ConversationHistory, Error>(
+    sessionId ? conversationHistoryKey(sessionId) : null,
+    () => getConversationHistory(sessionId!)
+  );
+
+  const clearHistory = useCallback(async () => {
+    if (!sessionId) {
+      return;
+    }
+
+    const empty: ConversationHistory = { sessionId, messages: [], totalMessages: 0 };
+    await mutate(
+      async () => {
+        await clearConversation(sessionId);
+        return empty;
+      },
+      {
+        optimisticData: empty,
+        rollbackOnError: true,
+        populateCache: true,
+        revalidate: false,
+      }
+    );
+  }, [sessionId, mutate]);
+
+  return {
+    messages: data?.messages ?? NO_MESSAGES,
+    isLoading,
+    error: error ? error.message || 'Failed to load conversation history' : null,
+    clearHistory,
+  };
+}
@@ -0,0 +1,31 @@
+'use client';
+
+import useSWR from 'swr';
+import { facetsKey } from '../api/cache';
+import { getFacets } from '../api/facets';
+import type { ComposedQuery, FacetResults } from '../api/generated';
+
+interface UseFacetsReturn {
+  facets: FacetResults | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * Cached facet values, counts and ranges for a query. The previous query's
+ * facets stay in place while the next ones load, so the panel doesn't flicker
+ * as filters are chosen.
+ */
+export function useFacets(query: ComposedQuery | null, enabled = true): UseFacetsReturn {
+  const { data, error, isLoading } = useSWR<FacetResults, Error>(
+    enabled ? facetsKey(query) : null,
+    () => getFacets(query),
+    { keepPreviousData: true }
+  );
+
+  return {
+    facets: data ?? null,
+    isLoading,
+    error: error ? error.message || 'Failed to load filters' : null,
+  };
+}
@@ -0,0 +1,24 @@
+'use client';
+
+import useSWR from 'swr';
+import { inventoryCountKey } from '../api/cache';
+import { getInventoryCount } from '../api/search';
+
+interface UseInventoryCountReturn {
+  count: number | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * Number of vehicles in the search index, revalidated on focus
+ */
+export function useInventoryCount(): UseInventoryCountReturn {
+  const { data, error, isLoading } = useSWR(inventoryCountKey(), getInventoryCount);
+
+  return {
+    count: data?.totalVehicles ?? null,
+    isLoading,
+    error: error instanceof Error ? error.message : null,
+  };
+}
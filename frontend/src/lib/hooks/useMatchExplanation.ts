@@ -0,0 +1,37 @@
+'use client';
+
+import useSWR from 'swr';
+import { explanationKey } from '../api/cache';
+import { explainMatch } from '../api/explain';
+import type { ExplainedScore, ParseQueryResponse } from '../api/generated';
+
+interface UseMatchExplanationReturn {
+  explanation: ExplainedScore | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * Why a vehicle matched a query, from /search/explain. Nothing is fetched
+ * without a query or until `enabled`, and each vehicle's explanation for a
+ * query is cached, so closing and reopening it, or meeting the same vehicle
+ * again, doesn't ask twice. A failure isn't retried: the card falls back to
+ * the scores it already has.
+ */
+export function useMatchExplanation(
+  vehicleId: string,
+  query: ParseQueryResponse | undefined,
+  enabled = true
+): UseMatchExplanationReturn {
+  const { data, error, isLoading } = useSWR<ExplainedScore, Error>(
+    enabled && query ? explanationKey(vehicleId, query) : null,
+    () => explainMatch(vehicleId, query!),
+    { revalidateOnFocus: false, shouldRetryOnError: false }
+  );
+
+  return {
+    explanation: data ?? null,
+    isLoading,
+    error: error ? error.message || 'Failed to explain match' : null,
+  };
+}
@@ -0,0 +1,50 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import useSWR from 'swr';
+import { referencesKey } from '../api/cache';
+import type { ResolveReferencesResponse } from '../api/generated';
+import { mayReferToResults, resolveReferences } from '../api/references';
+
+// Wait for a pause in typing before resolving
+const RESOLVE_DELAY_MS = 400;
+
+interface UseReferencePreviewReturn {
+  // Null until a query that refers back has been resolved, and whenever it doesn't
+  resolution: ResolveReferencesResponse | null;
+  isResolving: boolean;
+}
+
+/**
+ * What the references in a query being typed resolve to in the session, such
+ * as "the second one" or "cheaper". Only queries that look like they refer
+ * back are resolved, once typing pauses; the last resolution stays in place
+ * while the next loads. A failed resolution just leaves the preview out.
+ */
+export function useReferencePreview(
+  query: string,
+  sessionId: string | null | undefined,
+  enabled = true
+): UseReferencePreviewReturn {
+  const [settled, setSettled] = useState(query);
+  const refersBack = enabled && !!sessionId && mayReferToResults(query);
+
+  useEffect(() => {
+    if (!refersBack) {
+      return;
+    }
+    const timer = setTimeout(() => setSettled(query), RESOLVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [query, refersBack]);
+
+  const { data, isLoading } = useSWR<ResolveReferencesResponse, Error>(
+    refersBack && settled === query ? referencesKey(query, sessionId) : null,
+    () => resolveReferences(query, sessionId!),
+    { keepPreviousData: true, shouldRetryOnError: false }
+  );
+
+  return {
+    resolution: refersBack && data ? data : null,
+    isResolving: isLoading,
+  };
+}
@@ -0,0 +1,31 @@
+'use client';
+
+import useSWR from 'swr';
+import { relaxationsKey } from '../api/cache';
+import type { ComposeQueryResponse } from '../api/generated';
+import { findRelaxations, Relaxation } from '../api/relaxation';
+
+interface UseRelaxationsReturn {
+  relaxations: Relaxation[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * Ways to relax a search that found nothing, each with the number of results
+ * it would find. Counted once per query; the inventory changes too slowly for
+ * the counts to need revalidating while they are on screen.
+ */
+export function useRelaxations(query: ComposeQueryResponse | undefined, enabled = true): UseRelaxationsReturn {
+  const { data, error, isLoading } = useSWR<Relaxation[], Error>(
+    enabled && query ? relaxationsKey(query) : null,
+    () => findRelaxations(query!),
+    { revalidateOnFocus: false }
+  );
+
+  return {
+    relaxations: data ?? [],
+    isLoading,
+    error: error ? error.message || 'Failed to find other searches' : null,
+  };
+}
@@ -0,0 +1,49 @@
+'use client';
+
+import { useLayoutEffect, useRef } from 'react';
+
+const DURATION_MS = 300;
+
+/**
+ * Slide the children of a container from where they were to where they are
+ * whenever their order changes. Children are matched across renders by their
+ * `data-reorder-key` attribute; new ones simply appear. Nothing moves for
+ * users who prefer reduced motion, or where the Web Animations API is missing.
+ */
+export function useReorderAnimation<T extends HTMLElement>(order: string[]) {
+  const containerRef = useRef<T>(null);
+  // Offsets within the container's offset parent, so scrolling between renders doesn't count as moving
+  const positions = useRef(new Map<string, { left: number; top: number }>());
+  const orderKey = order.join('\n');
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) {
+      return;
+    }
+
+    const reduceMotion = window.matchMedia?.('(prefers-reduced-motion: reduce)').matches ?? false;
+    const next = new Map<string, { left: number; top: number }>();
+    for (const child of Array.from(container.children)) {
+      if (!(child instanceof HTMLElement) || !child.dataset.reorderKey) {
+        continue;
+      }
+      const key = child.dataset.reorderKey;
+      const rect = { left: child.offsetLeft, top: child.offsetTop };
+      next.set(key, rect);
+
+      const previous = positions.current.get(key);
+      const dx = previous ? previous.left - rect.left : 0;
+      const dy = previous ? previous.top - rect.top : 0;
+      if ((dx !== 0 || dy !== 0) && !reduceMotion && typeof child.animate === 'function') {
+        child.animate([{ transform: `translate(${dx}px, ${dy}px)` }, { transform: 'none' }], {
+          duration: DURATION_MS,
+          easing: 'ease-in-out',
+        });
+      }
+    }
+    positions.current = next;
+  }, [orderKey]);
+
+  return containerRef;
+}
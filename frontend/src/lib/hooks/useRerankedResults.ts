@@ -0,0 +1,39 @@
+'use client';
+
+import useSWR from 'swr';
+import { rerankKey } from '../api/cache';
+import type { ComposeQueryResponse } from '../api/generated';
+import { Priorities, rerankResults, reorderResults } from '../api/rerank';
+import { VehicleResult } from '../api/types';
+
+interface UseRerankedResultsReturn {
+  // The results in order of the priorities; as given without them, or when reordering fails
+  results: VehicleResult[];
+  isReranking: boolean;
+  error: string | null;
+}
+
+/**
+ * Results reordered by the user's priorities through /search/rerank. Without
+ * priorities or a composed query they stay as given. The last order stays in
+ * place while the next loads, applied to whatever results are now shown, so
+ * moving a slider doesn't flash back to relevance order.
+ */
+export function useRerankedResults(
+  results: VehicleResult[],
+  composed: ComposeQueryResponse | undefined,
+  priorities: Priorities | null
+): UseRerankedResultsReturn {
+  const active = !!priorities && !!composed && results.length > 1;
+  const { data, error, isLoading } = useSWR<VehicleResult[], Error>(
+    active ? rerankKey(results.map((result) => result.vehicle.id), composed, priorities) : null,
+    () => rerankResults(results, composed!, priorities!),
+    { keepPreviousData: true, revalidateOnFocus: false, shouldRetryOnError: false }
+  );
+
+  return {
+    results: active && data && !error ? reorderResults(results, data.map((result) => result.vehicle.id)) : results,
+    isReranking: active && isLoading,
+    error: active && error ? error.message || 'Failed to reorder results' : null,
+  };
+}
@@ -0,0 +1,47 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+
+const storageKey = (key: string) => `scroll:${key}`;
+
+/**
+ * Remember the window's scroll position under `key` (e.g. the page URL) and,
+ * when the page is shown again, return to it once `ready`: when the content it
+ * belongs to has rendered
+ */
+export function useScrollRestoration(key: string, ready: boolean) {
+  // Only the first time the content is ready; later changes are the user's doing
+  const restoredRef = useRef(false);
+
+  useEffect(() => {
+    let frame: number | null = null;
+    const save = () => {
+      if (frame !== null) {
+        return;
+      }
+      frame = requestAnimationFrame(() => {
+        frame = null;
+        sessionStorage.setItem(storageKey(key), String(window.scrollY));
+      });
+    };
+
+    window.addEventListener('scroll', save, { passive: true });
+    return () => {
+      window.removeEventListener('scroll', save);
+      if (frame !== null) {
+        cancelAnimationFrame(frame);
+      }
+    };
+  }, [key]);
+
+  useEffect(() => {
+    if (!ready || restoredRef.current) {
+      return;
+    }
+    restoredRef.current = true;
+    const saved = Number(sessionStorage.getItem(storageKey(key)));
+    if (saved > 0) {
+      window.scrollTo(0, saved);
+    }
+  }, [key, ready]);
+}
@@ -1,61 +1,482 @@
 'use client';
 
-import { useState, useCallback } from 'react';
-import { searchVehicles } from '../api/search';
-import { SearchResults } from '../api/types';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { unstable_serialize, useSWRConfig } from 'swr';
+import { conversationHistoryKey, searchResultsKey, searchResultsPageKey, sessionKey } from '../api/cache';
+import { fetchResultsPage, runSearchPipeline } from '../api/pipeline';
+import { isAbortError } from '../api/errors';
+import { compactFilters } from '../api/filters';
+import type { ParseQueryResponse, SearchConstraint } from '../api/generated';
+import { SearchError, toSearchError } from '../api/safety';
+import {
+  QueryUnderstanding,
+  RefinementFilters,
+  SearchPipelineResult,
+  SearchProgressEvent,
+  SearchRequest,
+  SearchResults,
+  SearchStage,
+  SortOrder,
+  StrategyType,
+  VehicleResult,
+} from '../api/types';
+import { isServerSorted, sortResults } from '../sorting';
+
+interface UseSearchOptions {
+  // Stream the search so results appear stage by stage (default true); the hook
+  // falls back to a single request when the backend cannot stream
+  streaming?: boolean;
+}
+
+interface SearchOptions {
+  maxResults?: number;
+  // Refinement filters to apply on top of the query
+  filters?: RefinementFilters;
+  // Absent for relevance order
+  sort?: SortOrder;
+  // Search with these in place of the constraints understood from the query
+  constraints?: SearchConstraint[];
+  // Search with this understanding of the query instead of parsing it again
+  parsed?: ParseQueryResponse;
+  // Search with this strategy instead of the one the backend would choose
+  strategy?: StrategyType;
+}
+
+interface RestoreOptions extends SearchOptions {
+  // Page to show once the first page is back
+  page?: number;
+}
+
+interface SearchRun {
+  id: number;
+  query: string;
+}
 
 interface UseSearchReturn {
+  // Every result loaded so far from the first page on, in `sort` order
   results: SearchResults | null;
+  understanding: QueryUnderstanding | null;
   isLoading: boolean;
-  error: string | null;
-  search: (query: string, maxResults?: number) => Promise<void>;
+  // Latest stage the search in flight has reached, or null
+  progress: SearchStage | null;
+  // True while the displayed results belong to an earlier query than the latest search
+  isStale: boolean;
+  error: SearchError | null;
+  // Epoch milliseconds until which the backend refuses searches (rate limit or
+  // session block), or null
+  blockedUntil: number | null;
+  // Current page, starting at 1, and its results
+  page: number;
+  pageResults: VehicleResult[];
+  pageSize: number;
+  pageCount: number;
+  // True while more results exist beyond those in `results`
+  hasMore: boolean;
+  isLoadingMore: boolean;
+  // The query most recently searched for or restored
+  query: string | null;
+  sort: SortOrder | undefined;
+  search: (query: string, options?: SearchOptions) => Promise<void>;
+  // Show a search again, from the cache when this tab has already run it (e.g. after
+  // navigating back to the results) and by searching otherwise
+  restore: (query: string, options?: RestoreOptions) => Promise<void>;
+  // Fetch the page after the last one in `results`, for infinite scrolling
+  loadMore: () => Promise<void>;
+  goToPage: (page: number) => Promise<void>;
+  // Show the current results in another order, fetching them again only when the
+  // backend does the ordering (see lib/sorting.ts)
+  sortBy: (sort?: SortOrder) => Promise<void>;
+  cancel: () => void;
   clearResults: () => void;
 }
 
+// The pages loaded without a gap from page 1, joined in rank order
+function leadingResults(pages: (VehicleResult[] | undefined)[]): VehicleResult[] {
+  const results: VehicleResult[] = [];
+  for (const page of pages) {
+    if (!page) {
+      break;
+    }
+    results.push(...page);
+  }
+  return results;
+}
+
+// No filters and an empty set are the same search, and should share a cache entry
+function activeFilters(filters?: RefinementFilters): RefinementFilters | undefined {
+  const compact = filters && compactFilters(filters);
+  return compact && Object.keys(compact).length > 0 ? compact : undefined;
+}
+
 /**
  * Hook to manage search state and operations
  */
-export function useSearch(sessionId?: string): UseSearchReturn {
+export function useSearch(sessionId?: string, { streaming = true }: UseSearchOptions = {}): UseSearchReturn {
   const [results, setResults] = useState<SearchResults | null>(null);
+  const [understanding, setUnderstanding] = useState<QueryUnderstanding | null>(null);
   const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<SearchStage | null>(null);
+  const [error, setError] = useState<SearchError | null>(null);
+  // The latest search asked for, and the one behind the results shown
+  const [requested, setRequested] = useState<SearchRun | null>(null);
+  const [shown, setShown] = useState<SearchRun | null>(null);
+  const [blockedUntil, setBlockedUntil] = useState<number | null>(null);
+  // Results of each page fetched so far, indexed from 0; pages may be skipped
+  const [pages, setPages] = useState<(VehicleResult[] | undefined)[]>([]);
+  const [page, setPage] = useState(1);
+  const [pageSize, setPageSize] = useState(10);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [sort, setSort] = useState<SortOrder | undefined>();
+  const controllerRef = useRef<AbortController | null>(null);
+  const pageControllerRef = useRef<AbortController | null>(null);
+  // The request behind the current results, repeated with an offset for later pages
+  const requestRef = useRef<SearchRequest | null>(null);
+  const runCountRef = useRef(0);
+  const { cache, mutate } = useSWRConfig();
 
-  const search = useCallback(async (query: string, maxResults = 10) => {
-    if (!query.trim()) {
-      setError('Please enter a search query');
+  // Abort any in-flight search when the component using the hook unmounts
+  useEffect(
+    () => () => {
+      controllerRef.current?.abort();
+      pageControllerRef.current?.abort();
+    },
+    []
+  );
+
+  // Lift the rate limit or session block once the backend lets searches through again
+  useEffect(() => {
+    if (blockedUntil === null) {
       return;
     }
+    const timer = setTimeout(() => {
+      setBlockedUntil(null);
+      setError((current) =>
+        current?.kind === 'rateLimited' || current?.kind === 'sessionBlocked' ? null : current
+      );
+    }, Math.max(0, blockedUntil - Date.now()));
+    return () => clearTimeout(timer);
+  }, [blockedUntil]);
+
+  const fail = useCallback((err: unknown, query: string) => {
+    const searchError = toSearchError(err, query);
+    setError(searchError);
+
+    if (searchError.kind === 'rateLimited') {
+      // Without a Retry-After the backend's per-minute window is the best guess
+      setBlockedUntil(Date.now() + (searchError.retryAfter ?? 60) * 1000);
+    } else if (searchError.kind === 'sessionBlocked') {
+      const until = searchError.blockedUntil ? Date.parse(searchError.blockedUntil) : NaN;
+      setBlockedUntil(Number.isNaN(until) ? null : until);
+    } else {
+      console.error('Search error:', err);
+    }
+  }, []);
+
+  // Replace the results with the first page of a new search
+  const showFirstPage = useCallback((firstPage: SearchResults) => {
+    setResults(firstPage);
+    setPages([firstPage.results]);
+    setPage(1);
+  }, []);
+
+  // Abort whatever search or page load is still running
+  const supersede = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    pageControllerRef.current?.abort();
+    pageControllerRef.current = null;
+    setIsLoadingMore(false);
+  }, []);
 
+  // Run the pipeline for a request, resolving with its result unless it fails or is superseded
+  const runSearch = useCallback(async (request: SearchRequest): Promise<SearchPipelineResult | null> => {
+    const { query } = request;
+    // Numbered, since the same query may be searched again with other filters or order
+    const run = { id: ++runCountRef.current, query };
+
+    supersede();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    setRequested(run);
+    setPageSize(request.maxResults ?? 10);
+    setSort(request.sort);
+    setBlockedUntil(null);
     setIsLoading(true);
+    setProgress(null);
     setError(null);
 
+    // Show each stage's results as soon as they arrive
+    const onProgress = (event: SearchProgressEvent) => {
+      if (controllerRef.current !== controller) {
+        return;
+      }
+      setProgress(event.stage);
+      if ('results' in event) {
+        showFirstPage(event.results);
+        setShown(run);
+      }
+    };
+
     try {
-      const searchResults = await searchVehicles({
-        query,
-        sessionId,
-        maxResults,
+      const pipelineResult = await runSearchPipeline(
+        request,
+        controller.signal,
+        streaming ? onProgress : undefined
+      );
+
+      // Only the latest search may update state
+      if (controllerRef.current !== controller) {
+        return null;
+      }
+
+      showFirstPage(pipelineResult.results);
+      setUnderstanding(pipelineResult.understanding);
+      setShown(run);
+      requestRef.current = request;
+
+      // Seed the cache for useSearchResults and restore(), and pick up the new history
+      // messages and search state
+      mutate(searchResultsKey(request), pipelineResult, { revalidate: false });
+      if (sessionId) {
+        mutate(conversationHistoryKey(sessionId));
+        mutate(sessionKey(sessionId));
+      }
+      return pipelineResult;
+    } catch (err) {
+      if (controllerRef.current !== controller || isAbortError(err)) {
+        return null;
+      }
+      fail(err, query);
+      return null;
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setIsLoading(false);
+        setProgress(null);
+      }
+    }
+  }, [sessionId, streaming, mutate, fail, showFirstPage, supersede]);
+
+  const search = useCallback(async (
+    query: string,
+    { maxResults = 10, filters, ...options }: SearchOptions = {}
+  ) => {
+    if (!query.trim()) {
+      setError({ kind: 'validation', message: 'Please enter a search query', errors: [] });
+      return;
+    }
+
+    await runSearch({ query, sessionId, maxResults, filters: activeFilters(filters), ...options });
+  }, [sessionId, runSearch]);
+
+  // Show a later page of the current search, from the cache when it has been fetched before
+  const fetchPage = useCallback(async (
+    target: number,
+    request: SearchRequest,
+    searchUnderstanding: QueryUnderstanding
+  ) => {
+    const key = searchResultsPageKey(request, target);
+    const showPage = (nextPage: SearchResults) => {
+      setPages((current) => {
+        const updated = [...current];
+        updated[target - 1] = nextPage.results;
+        return updated;
       });
-      
-      setResults(searchResults);
+      // Vector searches estimate their total, and later pages estimate it better
+      setResults((current) => current && { ...current, totalCount: nextPage.totalCount });
+      setPage(target);
+    };
+
+    const cached = cache.get(unstable_serialize(key))?.data as SearchResults | undefined;
+    if (cached) {
+      showPage(cached);
+      return;
+    }
+
+    pageControllerRef.current?.abort();
+    const controller = new AbortController();
+    pageControllerRef.current = controller;
+    setIsLoadingMore(true);
+    setError(null);
+
+    try {
+      const nextPage = await fetchResultsPage(
+        searchUnderstanding,
+        request,
+        (target - 1) * (request.maxResults ?? 10),
+        controller.signal
+      );
+      if (pageControllerRef.current !== controller) {
+        return;
+      }
+      showPage(nextPage);
+      mutate(key, nextPage, { revalidate: false });
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Search failed';
-      setError(errorMessage);
-      console.error('Search error:', err);
+      if (pageControllerRef.current !== controller || isAbortError(err)) {
+        return;
+      }
+      fail(err, request.query);
     } finally {
+      if (pageControllerRef.current === controller) {
+        pageControllerRef.current = null;
+        setIsLoadingMore(false);
+      }
+    }
+  }, [cache, mutate, fail]);
+
+  const goToPage = useCallback(async (target: number) => {
+    const request = requestRef.current;
+    // Pages belong to the finished search; one still running has nothing to page through
+    if (!request || !understanding || controllerRef.current || target < 1) {
+      return;
+    }
+    if (pages[target - 1]) {
+      setPage(target);
+      return;
+    }
+
+    await fetchPage(target, request, understanding);
+  }, [understanding, pages, fetchPage]);
+
+  const restore = useCallback(async (
+    query: string,
+    { maxResults = 10, filters, sort, page: target = 1 }: RestoreOptions = {}
+  ) => {
+    const request: SearchRequest = { query, sessionId, maxResults, filters: activeFilters(filters), sort };
+    let restored = cache.get(unstable_serialize(searchResultsKey(request)))?.data as
+      | SearchPipelineResult
+      | undefined;
+
+    if (restored) {
+      supersede();
       setIsLoading(false);
+      setProgress(null);
+      setError(null);
+      const run = { id: ++runCountRef.current, query };
+      setRequested(run);
+      setShown(run);
+      setPageSize(maxResults);
+      setSort(sort);
+      showFirstPage(restored.results);
+      setUnderstanding(restored.understanding);
+      requestRef.current = request;
+    } else {
+      restored = (await runSearch(request)) ?? undefined;
+    }
+
+    // Unless another search has taken over in the meantime
+    if (restored && target > 1 && requestRef.current === request) {
+      await fetchPage(target, request, restored.understanding);
+    }
+  }, [sessionId, cache, supersede, showFirstPage, runSearch, fetchPage]);
+
+  const sortBy = useCallback(async (nextSort?: SortOrder) => {
+    setSort(nextSort);
+    const request = requestRef.current;
+    // A search still running shows its results in the order it was asked for
+    if (!request || !understanding || !results || controllerRef.current) {
+      return;
+    }
+
+    const sorted: SearchRequest = { ...request, sort: nextSort };
+    requestRef.current = sorted;
+    if (!isServerSorted(results, nextSort) || understanding.endpoint !== 'search') {
+      // Sorted here, so the results already loaded serve the new order too
+      if (pages[0]) {
+        mutate(searchResultsKey(sorted), { results: { ...results, results: pages[0] }, understanding }, {
+          revalidate: false,
+        });
+      }
+      return;
     }
-  }, [sessionId]);
+
+    // The backend ordered these, so the first page is fetched again in the new order
+    pageControllerRef.current?.abort();
+    const controller = new AbortController();
+    pageControllerRef.current = controller;
+    setIsLoadingMore(true);
+    setError(null);
+
+    try {
+      const firstPage = await fetchResultsPage(understanding, sorted, 0, controller.signal);
+      if (pageControllerRef.current !== controller) {
+        return;
+      }
+      showFirstPage(firstPage);
+      mutate(searchResultsKey(sorted), { results: firstPage, understanding }, { revalidate: false });
+    } catch (err) {
+      if (pageControllerRef.current !== controller || isAbortError(err)) {
+        return;
+      }
+      fail(err, request.query);
+    } finally {
+      if (pageControllerRef.current === controller) {
+        pageControllerRef.current = null;
+        setIsLoadingMore(false);
+      }
+    }
+  }, [understanding, results, pages, mutate, fail, showFirstPage]);
+
+  // The backend orders exact matches itself; other results arrive in relevance order
+  const clientSort = results && !isServerSorted(results, sort) ? sort : undefined;
+  const loadedResults = useMemo(() => sortResults(leadingResults(pages), clientSort), [pages, clientSort]);
+  const currentPage = pages[page - 1];
+  const pageResults = useMemo(() => sortResults(currentPage ?? [], clientSort), [currentPage, clientSort]);
+
+  const loadMore = useCallback(() => {
+    const firstMissing = pages.findIndex((loaded) => !loaded);
+    return goToPage((firstMissing === -1 ? pages.length : firstMissing) + 1);
+  }, [goToPage, pages]);
+
+  const cancel = useCallback(() => {
+    supersede();
+    setIsLoading(false);
+    setProgress(null);
+    // The search never ran, so the latest is the one behind the results still shown
+    setRequested(shown);
+  }, [supersede, shown]);
 
   const clearResults = useCallback(() => {
+    cancel();
     setResults(null);
+    setPages([]);
+    setPage(1);
+    requestRef.current = null;
+    setUnderstanding(null);
+    setRequested(null);
+    setShown(null);
     setError(null);
-  }, []);
+    setBlockedUntil(null);
+  }, [cancel]);
+
+  const allResults = useMemo(
+    () => results && { ...results, results: loadedResults },
+    [results, loadedResults]
+  );
 
   return {
-    results,
+    results: allResults,
+    understanding,
     isLoading,
+    progress,
+    isStale: results !== null && requested?.id !== shown?.id,
     error,
+    blockedUntil,
+    query: requested?.query ?? null,
+    sort,
+    page,
+    pageResults,
+    pageSize,
+    pageCount: results ? Math.ceil(results.totalCount / pageSize) : 0,
+    hasMore: results !== null && loadedResults.length < results.totalCount,
+    isLoadingMore,
     search,
+    restore,
+    loadMore,
+    goToPage,
+    sortBy,
+    cancel,
     clearResults,
   };
 }
@@ -0,0 +1,36 @@
+'use client';
+
+import useSWR from 'swr';
+import { searchResultsKey } from '../api/cache';
+import { runSearchPipeline } from '../api/pipeline';
+import { SearchPipelineResult, SearchRequest } from '../api/types';
+
+interface UseSearchResultsReturn {
+  data: SearchPipelineResult | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * Results for a search request, served from the cache that useSearch fills.
+ * Only a cache miss runs the pipeline; running a search records it in the
+ * session, so cached results are never revalidated behind the user's back.
+ */
+export function useSearchResults(request: SearchRequest | null): UseSearchResultsReturn {
+  const { data, error, isLoading } = useSWR<SearchPipelineResult, Error>(
+    request ? searchResultsKey(request) : null,
+    () => runSearchPipeline(request!),
+    {
+      revalidateOnFocus: false,
+      revalidateOnReconnect: false,
+      revalidateIfStale: false,
+      shouldRetryOnError: false,
+    }
+  );
+
+  return {
+    data: data ?? null,
+    isLoading,
+    error: error ? error.message || 'Search failed' : null,
+  };
+}
@@ -0,0 +1,37 @@
+'use client';
+
+import useSWR from 'swr';
+import { sessionKey } from '../api/cache';
+import { getSession } from '../api/conversation';
+import type { SearchConstraint, SearchState } from '../api/generated';
+import { SessionDetails } from '../api/types';
+
+const NO_FILTERS: SearchConstraint[] = [];
+
+interface UseSearchStateReturn {
+  searchState: SearchState | null;
+  // The constraints in effect for the session's last search, one per field
+  activeFilters: SearchConstraint[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * Cached search state the backend keeps for a session, revalidated after each
+ * search (see useSearch)
+ */
+export function useSearchState(sessionId: string | null | undefined): UseSearchStateReturn {
+  const { data, error, isLoading } = useSWR<SessionDetails, Error>(
+    sessionId ? sessionKey(sessionId) : null,
+    () => getSession(sessionId!)
+  );
+
+  const searchState = data?.currentSearchState ?? null;
+
+  return {
+    searchState,
+    activeFilters: searchState ? Object.values(searchState.activeFilters) : NO_FILTERS,
+    isLoading,
+    error: error ? error.message || 'Failed to load search state' : null,
+  };
+}
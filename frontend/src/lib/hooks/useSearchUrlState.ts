@@ -0,0 +1,75 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { parseSearchParams, SearchUrlState, toSearchParams } from '../searchParams';
+
+interface UseSearchUrlStateOptions {
+  // Called with the URL's state when the page loads and after back/forward
+  // navigation, but not for changes made through update()
+  onNavigate: (state: SearchUrlState) => void;
+  // Hold onNavigate back until the page can act on it (e.g. has a session)
+  enabled?: boolean;
+}
+
+interface UpdateOptions {
+  // Add a history entry, so Back returns to the previous search; otherwise the
+  // current entry is replaced
+  push?: boolean;
+}
+
+interface UseSearchUrlStateReturn {
+  state: SearchUrlState;
+  update: (changes: Partial<SearchUrlState>, options?: UpdateOptions) => void;
+}
+
+/**
+ * Keep the search page state in the URL's query string
+ */
+export function useSearchUrlState({ onNavigate, enabled = true }: UseSearchUrlStateOptions): UseSearchUrlStateReturn {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const queryString = searchParams.toString();
+  const state = useMemo(() => parseSearchParams(new URLSearchParams(queryString)), [queryString]);
+
+  // The state most recently written or navigated to; updates merge into it so that
+  // several in one render don't overwrite each other
+  const latestRef = useRef(state);
+  // The query string this hook last wrote or handed to onNavigate
+  const appliedRef = useRef<string | null>(null);
+  const onNavigateRef = useRef(onNavigate);
+
+  useEffect(() => {
+    onNavigateRef.current = onNavigate;
+  });
+
+  useEffect(() => {
+    if (!enabled || queryString === appliedRef.current) {
+      return;
+    }
+    appliedRef.current = queryString;
+    latestRef.current = state;
+    onNavigateRef.current(state);
+  }, [enabled, queryString, state]);
+
+  const update = useCallback((changes: Partial<SearchUrlState>, { push = false }: UpdateOptions = {}) => {
+    const next = { ...latestRef.current, ...changes };
+    const nextQueryString = toSearchParams(next).toString();
+    latestRef.current = next;
+    if (nextQueryString === appliedRef.current) {
+      return;
+    }
+
+    appliedRef.current = nextQueryString;
+    const href = nextQueryString ? `${pathname}?${nextQueryString}` : pathname;
+    // The page restores its own scroll position
+    if (push) {
+      router.push(href, { scroll: false });
+    } else {
+      router.replace(href, { scroll: false });
+    }
+  }, [pathname, router]);
+
+  return { state, update };
+}
@@ -1,14 +1,17 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import { createSession } from '../api/search';
-import { SessionResponse } from '../api/types';
+import { createSession, getSession } from '../api/conversation';
+import { SearchApiError } from '../api/errors';
+import { SessionDetails, SessionResponse } from '../api/types';
 
 interface UseSessionReturn {
   session: SessionResponse | null;
+  details: SessionDetails | null;
   isLoading: boolean;
   error: string | null;
   createNewSession: () => Promise<void>;
+  refreshSession: () => Promise<void>;
 }
 
 /**
@@ -16,12 +19,14 @@ interface UseSessionReturn {
  */
 export function useSession(): UseSessionReturn {
   const [session, setSession] = useState<SessionResponse | null>(null);
+  const [details, setDetails] = useState<SessionDetails | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   const createNewSession = useCallback(async () => {
     setIsLoading(true);
     setError(null);
+    setDetails(null);
     try {
       const newSession = await createSession();
       setSession(newSession);
@@ -38,15 +43,45 @@ export function useSession(): UseSessionReturn {
     }
   }, []);
 
+  const refreshSession = useCallback(async () => {
+    if (!session) {
+      return;
+    }
+    try {
+      setDetails(await getSession(session.sessionId));
+    } catch (err) {
+      console.error('Failed to refresh session:', err);
+    }
+  }, [session]);
+
   useEffect(() => {
     // Try to restore session from localStorage
     if (typeof window !== 'undefined') {
       const stored = localStorage.getItem('searchSession');
       if (stored) {
         try {
-          const parsed = JSON.parse(stored);
-          setSession(parsed);
-          setIsLoading(false);
+          const parsed: SessionResponse = JSON.parse(stored);
+          // Sessions expire server-side, so confirm it still exists before reusing it
+          getSession(parsed.sessionId)
+            .then((restored) => {
+              setSession(parsed);
+              setDetails(restored);
+              setIsLoading(false);
+            })
+            .catch((err) => {
+              // The backend answers 404 for a session that has expired or never existed
+              if (err instanceof SearchApiError && err.status === 404) {
+                localStorage.removeItem('searchSession');
+                createNewSession();
+                return;
+              }
+
+              // Anything else may pass, so keep the session and its conversation
+              console.error('Failed to restore session:', err);
+              setSession(parsed);
+              setError(err instanceof Error ? err.message : 'Failed to restore session');
+              setIsLoading(false);
+            });
           return;
         } catch (err) {
           console.error('Failed to parse stored session:', err);
@@ -60,8 +95,10 @@ export function useSession(): UseSessionReturn {
 
   return {
     session,
+    details,
     isLoading,
     error,
     createNewSession,
+    refreshSession,
   };
 }
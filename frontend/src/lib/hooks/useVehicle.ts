@@ -0,0 +1,52 @@
+'use client';
+
+import useSWR from 'swr';
+import { vehicleKey, similarVehiclesKey } from '../api/cache';
+import { getSimilarVehicles, getVehicleById } from '../api/search';
+import { VehicleDocument } from '../api/types';
+
+const NO_VEHICLES: VehicleDocument[] = [];
+
+interface UseVehicleReturn {
+  vehicle: VehicleDocument | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+interface UseSimilarVehiclesReturn {
+  vehicles: VehicleDocument[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * Cached vehicle details, shared by every component showing the same vehicle
+ */
+export function useVehicle(id: string | null): UseVehicleReturn {
+  const { data, error, isLoading } = useSWR<VehicleDocument, Error>(
+    id ? vehicleKey(id) : null,
+    () => getVehicleById(id!)
+  );
+
+  return {
+    vehicle: data ?? null,
+    isLoading,
+    error: error ? error.message || 'Failed to load vehicle' : null,
+  };
+}
+
+/**
+ * Cached list of vehicles similar to the given one
+ */
+export function useSimilarVehicles(id: string | null, limit = 4): UseSimilarVehiclesReturn {
+  const { data, error, isLoading } = useSWR<VehicleDocument[], Error>(
+    id ? similarVehiclesKey(id, limit) : null,
+    () => getSimilarVehicles(id!, limit)
+  );
+
+  return {
+    vehicles: data ?? NO_VEHICLES,
+    isLoading,
+    error: error ? error.message || 'Failed to load similar vehicles' : null,
+  };
+}
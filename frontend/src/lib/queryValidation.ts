@@ -0,0 +1,112 @@
+import { MAX_QUERY_LENGTH, SafetyViolationType } from './api/safety';
+
+// Mirrors SafetyGuardrailService.MinLength
+export const MIN_QUERY_LENGTH = 2;
+
+// Share of characters that may be neither letters, digits nor whitespace
+const MAX_SPECIAL_CHARACTER_RATIO = 0.3;
+
+/**
+ * A rule the query breaks. `violation` is the SafetyViolationType the backend
+ * would reject it with; empty and too-short queries have none.
+ */
+export interface QueryIssue {
+  violation?: Exclude<SafetyViolationType, 'OffTopic' | 'InappropriateContent' | 'RateLimitExceeded'>;
+  message: string;
+}
+
+// The patterns below are copied from SafetyGuardrailService; keep them in sync
+
+const SQL_PATTERNS = [
+  /(\bOR\b|\bAND\b)\s*\d+\s*=\s*\d+/i,
+  /';\s*--/i,
+  /\bUNION\s+SELECT\b/i,
+  /\bDROP\s+TABLE\b/i,
+  /\bINSERT\s+INTO\b/i,
+  /\bDELETE\s+FROM\b/i,
+  /\bEXEC\s*\(/i,
+];
+
+const INJECTION_PATTERNS = [
+  /ignore\s+.*\s*instructions?/i,
+  /ignore\s+.*\s*prompts?/i,
+  /you\s+are\s+now/i,
+  /new\s+instructions?/i,
+  /disregard.*instructions?/i,
+  /\bact\s+as\b/i,
+  /pretend\s+(you\s+are|to\s+be)/i,
+  /\broleplay\b/i,
+  /show\s+me\s+(your|the)\s+(system\s+prompt|instructions?)/i,
+  /what\s+are\s+your\s+(rules?|guidelines?|instructions?)/i,
+  /reveal.*prompt/i,
+  /\bDAN\s+mode\b/i,
+  /developer\s+mode/i,
+  /\bjailbreak\b/i,
+  /dump\s+(database|index)/i,
+];
+
+const BULK_PATTERNS = [
+  /(list|show(\s+me)?|give\s+me)\s+all\s+(vehicles?|cars?|data)/i,
+  /(list|show(\s+me)?)\s+all\b/i,
+  /give\s+me\s+(everything|all(\s+the)?\s+data)/i,
+  /every\s+(car|vehicle)/i,
+  /\d{2,}\s+(cars?|vehicles?|results?)/i,
+];
+
+function countSpecialCharacters(query: string): number {
+  let count = 0;
+  // Index by UTF-16 unit to count the way .NET's string enumeration does
+  for (let i = 0; i < query.length; i++) {
+    if (!/[\p{L}\p{N}\s]/u.test(query[i])) {
+      count++;
+    }
+  }
+  return count;
+}
+
+/**
+ * Check a query against the deterministic SafetyGuardrailService rules, in the
+ * same order, returning the first one it breaks or null. Off-topic detection and
+ * rate limiting stay server-side.
+ */
+export function validateQuery(query: string): QueryIssue | null {
+  if (!query.trim()) {
+    return { message: 'Query cannot be empty or contain only whitespace' };
+  }
+
+  if (query.length > MAX_QUERY_LENGTH) {
+    return {
+      violation: 'ExcessiveLength',
+      message: `Query exceeds maximum length of ${MAX_QUERY_LENGTH} characters`,
+    };
+  }
+
+  if (query.length < MIN_QUERY_LENGTH) {
+    return { message: `Query must be at least ${MIN_QUERY_LENGTH} characters` };
+  }
+
+  if (SQL_PATTERNS.some((pattern) => pattern.test(query))) {
+    return { violation: 'InvalidCharacters', message: 'Query contains potentially malicious patterns' };
+  }
+
+  if (countSpecialCharacters(query) > query.length * MAX_SPECIAL_CHARACTER_RATIO) {
+    return { violation: 'InvalidCharacters', message: 'Query contains excessive special characters' };
+  }
+
+  if (BULK_PATTERNS.some((pattern) => pattern.test(query))) {
+    return {
+      violation: 'BulkExtraction',
+      message:
+        'This query appears to be attempting bulk data extraction. Please refine your search criteria.',
+    };
+  }
+
+  if (INJECTION_PATTERNS.some((pattern) => pattern.test(query))) {
+    return {
+      violation: 'PromptInjection',
+      message: 'Query contains potentially malicious content and cannot be processed.',
+    };
+  }
+
+  return null;
+}
@@ -0,0 +1,124 @@
+import { compactFilters, FACET_KEYS } from './api/filters';
+import { FilterRange, RefinementFilters, SortOrder } from './api/types';
+import { isSortOrder } from './sorting';
+
+/**
+ * The search page state kept in the URL, so a search survives a refresh,
+ * back/forward navigation and being shared as a link
+ */
+export interface SearchUrlState {
+  query: string;
+  filters: RefinementFilters;
+  // Sort order; absent for relevance
+  sort?: SortOrder;
+  // Starting at 1
+  page: number;
+  // IDs of the vehicles selected for comparison
+  compare: string[];
+}
+
+// Short parameter names keep shared links readable
+const PARAMS = {
+  query: 'q',
+  priceRange: 'price',
+  mileageRange: 'mileage',
+  yearMin: 'year',
+  make: 'make',
+  model: 'model',
+  bodyType: 'body',
+  colour: 'colour',
+  fuelType: 'fuel',
+  transmission: 'transmission',
+  location: 'location',
+  grade: 'grade',
+  sort: 'sort',
+  page: 'page',
+  compare: 'compare',
+} as const;
+
+type ReadableParams = Pick<URLSearchParams, 'get'>;
+
+function parseCount(value: string | null): number | undefined {
+  return value !== null && /^\d+$/.test(value) ? Number(value) : undefined;
+}
+
+// "min-max" with either end left open, e.g. "5000-20000", "5000-" or "-20000"
+function parseRange(value: string | null): FilterRange | undefined {
+  const match = value?.match(/^(\d*)-(\d*)$/);
+  if (!match || (!match[1] && !match[2])) {
+    return undefined;
+  }
+  const min = match[1] ? Number(match[1]) : undefined;
+  const max = match[2] ? Number(match[2]) : undefined;
+  if (min !== undefined && max !== undefined && min > max) {
+    return undefined;
+  }
+  return { ...(min !== undefined && { min }), ...(max !== undefined && { max }) };
+}
+
+function formatRange(range: FilterRange | undefined): string | undefined {
+  return range && (range.min !== undefined || range.max !== undefined)
+    ? `${range.min ?? ''}-${range.max ?? ''}`
+    : undefined;
+}
+
+// Comma-separated; values are make, model and colour names, which don't contain commas
+function parseValues(value: string | null): string[] {
+  return (value ?? '').split(',').map((item) => item.trim()).filter(Boolean);
+}
+
+function parseFilters(params: ReadableParams): RefinementFilters {
+  const filters: RefinementFilters = {
+    priceRange: parseRange(params.get(PARAMS.priceRange)),
+    mileageRange: parseRange(params.get(PARAMS.mileageRange)),
+    yearMin: parseCount(params.get(PARAMS.yearMin)),
+  };
+  for (const key of FACET_KEYS) {
+    filters[key] = parseValues(params.get(PARAMS[key]));
+  }
+
+  // Leave out what the URL doesn't set, so equal filters compare equal
+  return compactFilters(filters);
+}
+
+/**
+ * Read the search state from the URL. Missing or malformed parameters fall back
+ * to their defaults rather than failing, since links may be hand-edited.
+ */
+export function parseSearchParams(params: ReadableParams): SearchUrlState {
+  const page = parseCount(params.get(PARAMS.page));
+  const sort = params.get(PARAMS.sort);
+
+  return {
+    query: params.get(PARAMS.query)?.trim() ?? '',
+    filters: parseFilters(params),
+    sort: isSortOrder(sort) ? sort : undefined,
+    page: page && page > 0 ? page : 1,
+    compare: (params.get(PARAMS.compare) ?? '').split(',').filter(Boolean),
+  };
+}
+
+/**
+ * Write the search state as URL parameters, leaving out anything at its default
+ */
+export function toSearchParams({ query, filters, sort, page, compare }: SearchUrlState): URLSearchParams {
+  const params = new URLSearchParams();
+  const set = (name: string, value: string | number | undefined) => {
+    if (value !== undefined && value !== '') {
+      params.set(name, String(value));
+    }
+  };
+
+  set(PARAMS.query, query);
+  set(PARAMS.priceRange, formatRange(filters.priceRange));
+  set(PARAMS.mileageRange, formatRange(filters.mileageRange));
+  set(PARAMS.yearMin, filters.yearMin);
+  for (const key of FACET_KEYS) {
+    set(PARAMS[key], filters[key]?.join(','));
+  }
+  set(PARAMS.sort, sort);
+  set(PARAMS.page, page > 1 ? page : undefined);
+  set(PARAMS.compare, compare.join(','));
+
+  return params;
+}
@@ -0,0 +1,118 @@
+import { SearchResults, SortOrder, VehicleDocument, VehicleResult } from './api/types';
+
+interface SortDefinition {
+  label: string;
+  // OData order-by for exact-match searches, which the backend orders itself;
+  // null where the index can't order by the field, so results are sorted here
+  orderBy: string | null;
+  value: (vehicle: VehicleDocument) => number | undefined;
+  descending: boolean;
+}
+
+const date = (value: string | undefined) => {
+  const time = value ? Date.parse(value) : NaN;
+  return Number.isNaN(time) ? undefined : time;
+};
+
+export const SORT_ORDERS: Record<SortOrder, SortDefinition> = {
+  'price-asc': {
+    label: 'Price: low to high',
+    orderBy: 'price asc',
+    value: (vehicle) => vehicle.price,
+    descending: false,
+  },
+  'price-desc': {
+    label: 'Price: high to low',
+    orderBy: 'price desc',
+    value: (vehicle) => vehicle.price,
+    descending: true,
+  },
+  'mileage-asc': {
+    label: 'Lowest mileage',
+    orderBy: 'mileage asc',
+    value: (vehicle) => vehicle.mileage,
+    descending: false,
+  },
+  'year-desc': {
+    label: 'Newest registration',
+    orderBy: 'registrationDate desc',
+    value: (vehicle) => date(vehicle.registrationDate),
+    descending: true,
+  },
+  'year-asc': {
+    label: 'Oldest registration',
+    orderBy: 'registrationDate asc',
+    value: (vehicle) => date(vehicle.registrationDate),
+    descending: false,
+  },
+  'mot-desc': {
+    label: 'Longest MOT',
+    orderBy: null,
+    value: (vehicle) => date(vehicle.motExpiryDate),
+    descending: true,
+  },
+  newest: {
+    // When the vehicle was loaded into the inventory, the nearest there is to a listing date
+    label: 'Recently added',
+    orderBy: 'processedDate desc',
+    value: (vehicle) => date(vehicle.processedDate),
+    descending: true,
+  },
+};
+
+export const SORT_OPTIONS = Object.keys(SORT_ORDERS) as SortOrder[];
+
+export function isSortOrder(value: unknown): value is SortOrder {
+  return SORT_OPTIONS.includes(value as SortOrder);
+}
+
+/**
+ * Whether the backend has already put results in the requested order. Only
+ * exact-match searches can be ordered by a field, and only by one the index
+ * can sort; the others come back in relevance order and are sorted here.
+ */
+export function isServerSorted(results: SearchResults, sort: SortOrder | undefined): boolean {
+  return results.strategy.name === 'ExactOnly' && (!sort || SORT_ORDERS[sort].orderBy !== null);
+}
+
+/**
+ * Sort results by a vehicle field, keeping relevance order between equal values.
+ * Vehicles without the value go last either way.
+ */
+export function sortResults(results: VehicleResult[], sort: SortOrder | undefined): VehicleResult[] {
+  if (!sort) {
+    return results;
+  }
+
+  const { value, descending } = SORT_ORDERS[sort];
+  return [...results].sort((a, b) => {
+    const left = value(a.vehicle);
+    const right = value(b.vehicle);
+    if (left === undefined || right === undefined) {
+      return left === right ? 0 : left === undefined ? 1 : -1;
+    }
+    return descending ? right - left : left - right;
+  });
+}
+
+const storageKey = (sessionId: string) => `sort:${sessionId}`;
+
+/**
+ * The order last chosen in this conversation session, for searches that don't
+ * name one
+ */
+export function rememberedSort(sessionId: string | undefined): SortOrder | undefined {
+  if (!sessionId || typeof window === 'undefined') {
+    return undefined;
+  }
+  const stored = localStorage.getItem(storageKey(sessionId));
+  return isSortOrder(stored) ? stored : undefined;
+}
+
+export function rememberSort(sessionId: string, sort: SortOrder | undefined) {
+  if (sort) {
+    localStorage.setItem(storageKey(sessionId), sort);
+  } else {
+    localStorage.removeItem(storageKey(sessionId));
+  }
+}
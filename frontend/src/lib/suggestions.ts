@@ -0,0 +1,147 @@
+import { RefinementFilters, VehicleDocument, VehicleResult } from './api/types';
+
+export interface RefinementSuggestion {
+  label: string;
+  // The filters to search with, or for what filters can't express, a follow-up query
+  filters?: RefinementFilters;
+  query?: string;
+  // Predicted results; estimated from the loaded ones when they are only some of them
+  count: number;
+  estimated: boolean;
+}
+
+interface Candidate {
+  label: string;
+  filters?: RefinementFilters;
+  query?: string;
+  matches: (vehicle: VehicleDocument) => boolean;
+}
+
+// A make, fuel type or location needs this share of the results to be suggested
+const MIN_SHARE = 0.1;
+// A feature needs this share, so "with" it is a real choice rather than a rarity
+const MIN_FEATURE_SHARE = 0.25;
+
+const formatPrice = (value: number) =>
+  new Intl.NumberFormat('en-GB', {
+    style: 'currency',
+    currency: 'GBP',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(value);
+
+const formatNumber = (value: number) => new Intl.NumberFormat('en-GB').format(value);
+
+// The value a share `p` of the sorted values are at or below
+const quantile = (sorted: number[], p: number) => sorted[Math.floor(p * (sorted.length - 1))];
+
+const roundTo = (value: number, step: number) => Math.max(step, Math.round(value / step) * step);
+
+// Values in order of how many results have them, most first, with their counts
+function tally(values: string[]): [string, number][] {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  return [...counts].sort((a, b) => b[1] - a[1]);
+}
+
+// The most common values, when the results have more than one
+function commonValues(values: string[], total: number, limit: number): string[] {
+  const counts = tally(values);
+  if (counts.length < 2) {
+    return [];
+  }
+  return counts
+    .filter(([, count]) => count / total >= MIN_SHARE)
+    .slice(0, limit)
+    .map(([value]) => value);
+}
+
+function priceCandidates(vehicles: VehicleDocument[], filters: RefinementFilters): Candidate[] {
+  const prices = vehicles.map((vehicle) => vehicle.price).sort((a, b) => a - b);
+  const limits = [...new Set([0.5, 0.25].map((p) => roundTo(quantile(prices, p), prices[0] < 10000 ? 500 : 1000)))];
+
+  return limits.map((max) => ({
+    label: `Under ${formatPrice(max)}`,
+    filters: { ...filters, priceRange: { ...filters.priceRange, max } },
+    matches: (vehicle) => vehicle.price <= max,
+  }));
+}
+
+function mileageCandidates(vehicles: VehicleDocument[], filters: RefinementFilters): Candidate[] {
+  const mileages = vehicles.map((vehicle) => vehicle.mileage).sort((a, b) => a - b);
+  const max = roundTo(quantile(mileages, 0.5), 5000);
+
+  return [
+    {
+      label: `Under ${formatNumber(max)} miles`,
+      filters: { ...filters, mileageRange: { ...filters.mileageRange, max } },
+      matches: (vehicle) => vehicle.mileage <= max,
+    },
+  ];
+}
+
+function featureCandidates(vehicles: VehicleDocument[]): Candidate[] {
+  return tally(vehicles.flatMap((vehicle) => [...new Set(vehicle.features ?? [])]))
+    .filter(([, count]) => count / vehicles.length >= MIN_FEATURE_SHARE)
+    .slice(0, 2)
+    .map(([feature]) => ({
+      label: `With ${feature.toLowerCase()}`,
+      query: `with ${feature.toLowerCase()}`,
+      matches: (vehicle) => !!vehicle.features?.includes(feature),
+    }));
+}
+
+/**
+ * Refinements worth offering for the current results: price and mileage limits
+ * at their quantiles, the dominant makes, the fuel types and locations present
+ * and common features. Each is offered only if it would narrow the results
+ * without emptying them, with the number of results it would leave: exact
+ * when every result is loaded, otherwise scaled up from the loaded ones.
+ */
+export function suggestRefinements(
+  results: VehicleResult[],
+  totalCount: number,
+  filters: RefinementFilters = {}
+): RefinementSuggestion[] {
+  const vehicles = results.map((result) => result.vehicle);
+  if (vehicles.length === 0) {
+    return [];
+  }
+
+  const candidates: Candidate[] = [
+    ...priceCandidates(vehicles, filters),
+    ...mileageCandidates(vehicles, filters),
+    ...commonValues(vehicles.map((vehicle) => vehicle.make), vehicles.length, 2).map((make) => ({
+      label: `Only ${make}`,
+      filters: { ...filters, make: [make] },
+      matches: (vehicle: VehicleDocument) => vehicle.make === make,
+    })),
+    ...commonValues(vehicles.map((vehicle) => vehicle.fuelType), vehicles.length, 2).map((fuelType) => ({
+      label: `${fuelType} only`,
+      filters: { ...filters, fuelType: [fuelType] },
+      matches: (vehicle: VehicleDocument) => vehicle.fuelType === fuelType,
+    })),
+    ...commonValues(vehicles.map((vehicle) => vehicle.saleLocation), vehicles.length, 2).map((location) => ({
+      label: `In ${location}`,
+      filters: { ...filters, location: [location] },
+      matches: (vehicle: VehicleDocument) => vehicle.saleLocation === location,
+    })),
+    ...featureCandidates(vehicles),
+  ];
+
+  const estimated = vehicles.length < totalCount;
+  const seen = new Set<string>();
+
+  return candidates.flatMap(({ matches, ...candidate }) => {
+    const matching = vehicles.filter(matches).length;
+    // A refinement that keeps every result changes nothing, and one that keeps none empties them
+    if (matching === 0 || matching === vehicles.length || seen.has(candidate.label)) {
+      return [];
+    }
+    seen.add(candidate.label);
+    const count = estimated ? Math.max(1, Math.round((matching / vehicles.length) * totalCount)) : matching;
+    return [{ ...candidate, count, estimated }];
+  });
+}
@@ -1,13 +1,15 @@
-import { render, screen, waitFor } from '@testing-library/react';
+import { act, screen, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import VehicleDetailPage from '@/app/vehicles/[id]/page';
 import * as searchApi from '@/lib/api/search';
 import { useRouter } from 'next/navigation';
+import { renderWithSWR } from '../../utils/swr';
 
 // Mock the API and router
 jest.mock('@/lib/api/search');
 jest.mock('next/navigation', () => ({
   useRouter: jest.fn(),
+  useSearchParams: jest.fn(() => new URLSearchParams()),
 }));
 
 const mockVehicle = {
@@ -27,6 +29,12 @@ const mockVehicle = {
   features: ['Leather Seats', 'Navigation'],
 };
 
+// The page reads its params with use(), so it suspends until they resolve
+const renderPage = (id: string) =>
+  act(async () => {
+    renderWithSWR(<VehicleDetailPage params={Promise.resolve({ id })} />);
+  });
+
 const mockRouter = {
   push: jest.fn(),
   back: jest.fn(),
@@ -41,7 +49,7 @@ describe('VehicleDetailPage', () => {
   it('fetches vehicle on mount', async () => {
     (searchApi.getVehicleById as jest.Mock).mockResolvedValue(mockVehicle);
 
-    render(<VehicleDetailPage params={Promise.resolve({ id: 'test-vehicle-123' })} />);
+    await renderPage('test-vehicle-123');
 
     await waitFor(() => {
       expect(searchApi.getVehicleById).toHaveBeenCalledWith('test-vehicle-123');
@@ -51,7 +59,7 @@ describe('VehicleDetailPage', () => {
   it('shows vehicle when loaded', async () => {
     (searchApi.getVehicleById as jest.Mock).mockResolvedValue(mockVehicle);
 
-    render(<VehicleDetailPage params={Promise.resolve({ id: 'test-vehicle-123' })} />);
+    await renderPage('test-vehicle-123');
 
     await waitFor(() => {
       expect(screen.getByText('BMW 3 Series')).toBeInTheDocument();
@@ -63,17 +71,18 @@ describe('VehicleDetailPage', () => {
       new Error('Vehicle not found')
     );
 
-    render(<VehicleDetailPage params={Promise.resolve({ id: 'invalid-id' })} />);
+    await renderPage('invalid-id');
 
     await waitFor(() => {
-      expect(screen.getByText(/Vehicle Not Found/i)).toBeInTheDocument();
+      expect(screen.getByRole('heading', { name: 'Vehicle Not Found' })).toBeInTheDocument();
     });
+    expect(screen.getByText('Vehicle not found')).toBeInTheDocument();
   });
 
   it('back button navigates', async () => {
     (searchApi.getVehicleById as jest.Mock).mockResolvedValue(mockVehicle);
 
-    render(<VehicleDetailPage params={Promise.resolve({ id: 'test-vehicle-123' })} />);
+    await renderPage('test-vehicle-123');
 
     await waitFor(() => {
       expect(screen.getByText('BMW 3 Series')).toBeInTheDocument();
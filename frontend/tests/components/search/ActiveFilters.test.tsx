@@ -0,0 +1,58 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { ActiveFilters } from '@/components/search/ActiveFilters';
+import type { SearchConstraint } from '@/lib/api/generated';
+
+const constraints: SearchConstraint[] = [
+  { fieldName: 'price', operator: 'LessThanOrEqual', value: 20000, type: 'Range' },
+  { fieldName: 'fuelType', operator: 'Equals', value: 'Diesel', type: 'Exact' },
+];
+
+describe('ActiveFilters', () => {
+  it('shows each constraint as a readable chip', () => {
+    render(<ActiveFilters constraints={constraints} onRemove={jest.fn()} onClearAll={jest.fn()} />);
+
+    const chips = screen.getAllByRole('listitem').map((chip) => chip.textContent);
+    expect(chips).toEqual(['Price ≤ £20,000', 'Fuel = Diesel']);
+  });
+
+  it('renders nothing without constraints', () => {
+    const { container } = render(<ActiveFilters constraints={[]} onRemove={jest.fn()} onClearAll={jest.fn()} />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('removes a constraint from its chip', async () => {
+    const user = userEvent.setup();
+    const onRemove = jest.fn();
+    render(<ActiveFilters constraints={constraints} onRemove={onRemove} onClearAll={jest.fn()} />);
+
+    await user.click(screen.getByRole('button', { name: 'Remove Fuel = Diesel' }));
+
+    expect(onRemove).toHaveBeenCalledWith(constraints[1]);
+  });
+
+  it('clears every constraint at once', async () => {
+    const user = userEvent.setup();
+    const onClearAll = jest.fn();
+    render(<ActiveFilters constraints={constraints} onRemove={jest.fn()} onClearAll={onClearAll} />);
+
+    await user.click(screen.getByRole('button', { name: 'Clear all' }));
+
+    expect(onClearAll).toHaveBeenCalled();
+  });
+
+  it('offers clear all only for several constraints', () => {
+    render(<ActiveFilters constraints={constraints.slice(0, 1)} onRemove={jest.fn()} onClearAll={jest.fn()} />);
+
+    expect(screen.queryByRole('button', { name: 'Clear all' })).not.toBeInTheDocument();
+  });
+
+  it('disables removal while a search is running', () => {
+    render(<ActiveFilters constraints={constraints} onRemove={jest.fn()} onClearAll={jest.fn()} disabled />);
+
+    for (const button of screen.getAllByRole('button')) {
+      expect(button).toBeDisabled();
+    }
+  });
+});
@@ -0,0 +1,72 @@
+import { render, screen } from '@testing-library/react';
+import { SWRConfig } from 'swr';
+import { ConceptFit } from '@/components/search/ConceptFit';
+import * as conceptsApi from '@/lib/api/concepts';
+
+// Mock the API, keeping the indicator naming
+jest.mock('@/lib/api/concepts', () => ({
+  ...jest.requireActual('@/lib/api/concepts'),
+  scoreConcept: jest.fn(),
+}));
+
+const renderFit = (concepts: string[]) =>
+  render(
+    <SWRConfig value={{ provider: () => new Map(), dedupingInterval: 0 }}>
+      <ConceptFit vehicleId="TEST123" concepts={concepts} />
+    </SWRConfig>
+  );
+
+describe('ConceptFit', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('shows a meter per concept with what drove it', async () => {
+    (conceptsApi.scoreConcept as jest.Mock).mockResolvedValue({
+      overallScore: 0.82,
+      componentScores: { mileage: 1, motExpiryDate: 0 },
+      matchingAttributes: ['mileage'],
+      mismatchingAttributes: ['motExpiryDate'],
+      descriptionBoost: 0.05,
+      matchedPositiveIndicators: ['full service history'],
+      matchedNegativeIndicators: [],
+    });
+
+    renderFit(['reliable']);
+
+    const meter = await screen.findByRole('meter', { name: 'reliable fit' });
+    expect(meter).toHaveAttribute('aria-valuenow', '82');
+    expect(screen.getByText('82%')).toBeInTheDocument();
+    expect(screen.getByText(/For:/).parentElement).toHaveTextContent('mileage, "full service history"');
+    expect(screen.getByText(/Against:/).parentElement).toHaveTextContent('MOT');
+    expect(conceptsApi.scoreConcept).toHaveBeenCalledWith('TEST123', 'reliable');
+  });
+
+  it('leaves out a concept that could not be scored', async () => {
+    (conceptsApi.scoreConcept as jest.Mock).mockImplementation(async (_vehicleId: string, concept: string) => {
+      if (concept === 'quirky') {
+        throw new Error("Unknown concept 'quirky'");
+      }
+      return {
+        overallScore: 0.4,
+        componentScores: {},
+        matchingAttributes: [],
+        mismatchingAttributes: [],
+        descriptionBoost: 0,
+        matchedPositiveIndicators: [],
+        matchedNegativeIndicators: [],
+      };
+    });
+
+    renderFit(['economical', 'quirky']);
+
+    expect(await screen.findByRole('meter', { name: 'economical fit' })).toBeInTheDocument();
+    expect(screen.queryByRole('meter', { name: 'quirky fit' })).not.toBeInTheDocument();
+  });
+
+  it('renders nothing without concepts', () => {
+    const { container } = renderFit([]);
+    expect(container).toBeEmptyDOMElement();
+    expect(conceptsApi.scoreConcept).not.toHaveBeenCalled();
+  });
+});
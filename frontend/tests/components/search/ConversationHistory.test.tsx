@@ -1,7 +1,8 @@
-import { render, screen, waitFor } from '@testing-library/react';
+import { screen, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { ConversationHistory } from '@/components/search/ConversationHistory';
 import * as conversationApi from '@/lib/api/conversation';
+import { renderWithSWR } from '../../utils/swr';
 
 // Mock the API
 jest.mock('@/lib/api/conversation');
@@ -22,7 +23,7 @@ const mockHistory = {
       timestamp: '2024-01-28T10:00:05Z',
       results: {
         count: 5,
-        strategy: 'Hybrid',
+        resultIds: ['v1', 'v2', 'v3', 'v4', 'v5'],
       },
     },
     {
@@ -47,7 +48,7 @@ describe('ConversationHistory', () => {
       totalMessages: 0,
     });
 
-    render(<ConversationHistory sessionId="test-session-123" />);
+    renderWithSWR(<ConversationHistory sessionId="test-session-123" />);
 
     await waitFor(() => {
       expect(screen.getByText(/Your search history will appear here/i)).toBeInTheDocument();
@@ -57,7 +58,7 @@ describe('ConversationHistory', () => {
   it('renders messages in correct order', async () => {
     (conversationApi.getConversationHistory as jest.Mock).mockResolvedValue(mockHistory);
 
-    render(<ConversationHistory sessionId="test-session-123" />);
+    renderWithSWR(<ConversationHistory sessionId="test-session-123" />);
 
     await waitFor(() => {
       expect(screen.getByText('BMW under £20k')).toBeInTheDocument();
@@ -69,7 +70,7 @@ describe('ConversationHistory', () => {
   it('distinguishes user vs assistant messages', async () => {
     (conversationApi.getConversationHistory as jest.Mock).mockResolvedValue(mockHistory);
 
-    const { container } = render(<ConversationHistory sessionId="test-session-123" />);
+    const { container } = renderWithSWR(<ConversationHistory sessionId="test-session-123" />);
 
     await waitFor(() => {
       const userMessages = container.querySelectorAll('.bg-primary');
@@ -83,18 +84,52 @@ describe('ConversationHistory', () => {
   it('shows result counts', async () => {
     (conversationApi.getConversationHistory as jest.Mock).mockResolvedValue(mockHistory);
 
-    render(<ConversationHistory sessionId="test-session-123" />);
+    renderWithSWR(<ConversationHistory sessionId="test-session-123" />);
 
     await waitFor(() => {
       expect(screen.getByText(/5 results/i)).toBeInTheDocument();
     });
   });
 
+  it('shows how a follow-up changed the search and its result count', async () => {
+    (conversationApi.getConversationHistory as jest.Mock).mockResolvedValue({
+      ...mockHistory,
+      messages: [
+        ...mockHistory.messages,
+        {
+          messageId: '4',
+          role: 'Assistant' as const,
+          content: 'Found 2 vehicles',
+          timestamp: '2024-01-28T10:01:05Z',
+          results: {
+            count: 2,
+            resultIds: ['v1', 'v2'],
+            previousCount: 5,
+            changes: [
+              {
+                fieldName: 'price',
+                changeType: 'Updated',
+                previous: { fieldName: 'price', operator: 'LessThanOrEqual', value: 20000, type: 'Range' },
+                current: { fieldName: 'price', operator: 'LessThanOrEqual', value: 15000, type: 'Range' },
+              },
+            ],
+          },
+        },
+      ],
+    });
+
+    renderWithSWR(<ConversationHistory sessionId="test-session-123" />);
+
+    const diff = await screen.findByRole('group', { name: 'What changed' });
+    expect(diff).toHaveTextContent('Changed: Price ≤ £20,000 → ≤ £15,000');
+    expect(diff).toHaveTextContent('5 → 2 results');
+  });
+
   it('clears history on button click', async () => {
     (conversationApi.getConversationHistory as jest.Mock).mockResolvedValue(mockHistory);
     (conversationApi.clearConversation as jest.Mock).mockResolvedValue(undefined);
 
-    render(<ConversationHistory sessionId="test-session-123" />);
+    renderWithSWR(<ConversationHistory sessionId="test-session-123" />);
 
     await waitFor(() => {
       expect(screen.getByText('BMW under £20k')).toBeInTheDocument();
@@ -112,10 +147,57 @@ describe('ConversationHistory', () => {
     });
   });
 
+  it('clears optimistically and restores the history when the delete fails', async () => {
+    (conversationApi.getConversationHistory as jest.Mock).mockResolvedValue(mockHistory);
+    let rejectClear: (error: Error) => void = () => {};
+    (conversationApi.clearConversation as jest.Mock).mockReturnValue(
+      new Promise((_resolve, reject) => {
+        rejectClear = reject;
+      })
+    );
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+    const onClear = jest.fn();
+
+    renderWithSWR(<ConversationHistory sessionId="test-session-123" onClear={onClear} />);
+
+    await waitFor(() => {
+      expect(screen.getByText('BMW under £20k')).toBeInTheDocument();
+    });
+
+    await userEvent.click(screen.getByRole('button', { name: /clear/i }));
+    await userEvent.click(screen.getByRole('button', { name: /clear history/i }));
+
+    // Emptied before the server has answered
+    expect(screen.getByText(/Your search history will appear here/i)).toBeInTheDocument();
+
+    rejectClear(new Error('Failed to clear conversation'));
+
+    await waitFor(() => {
+      expect(screen.getByText('BMW under £20k')).toBeInTheDocument();
+    });
+    expect(onClear).not.toHaveBeenCalled();
+    consoleSpy.mockRestore();
+  });
+
+  it('shows an error when history fails to load', async () => {
+    (conversationApi.getConversationHistory as jest.Mock).mockRejectedValue(
+      new Error('Session test-session-123 not found')
+    );
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+
+    renderWithSWR(<ConversationHistory sessionId="test-session-123" />);
+
+    await waitFor(() => {
+      expect(screen.getByRole('alert')).toHaveTextContent(/not found/i);
+    });
+    expect(screen.queryByText(/Your search history will appear here/i)).not.toBeInTheDocument();
+    consoleSpy.mockRestore();
+  });
+
   it('displays session ID', async () => {
     (conversationApi.getConversationHistory as jest.Mock).mockResolvedValue(mockHistory);
 
-    render(<ConversationHistory sessionId="test-session-123" />);
+    renderWithSWR(<ConversationHistory sessionId="test-session-123" />);
 
     await waitFor(() => {
       expect(screen.getByText(/test-sess/i)).toBeInTheDocument();
@@ -0,0 +1,123 @@
+import { fireEvent, render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { FacetPanel } from '@/components/search/FacetPanel';
+import type { FacetResults } from '@/lib/api/generated';
+
+// Radix sliders and checkboxes measure themselves, which jsdom can't do
+global.ResizeObserver = class {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+};
+
+const facets: FacetResults = {
+  facets: {
+    make: [
+      { value: 'BMW', count: 12 },
+      { value: 'Audi', count: 8 },
+    ],
+    model: [{ value: '3 Series', count: 7 }],
+    fuelType: [
+      { value: 'Diesel', count: 15 },
+      { value: 'Petrol', count: 5 },
+    ],
+    colour: ['Black', 'White', 'Grey', 'Blue', 'Red', 'Silver', 'Green'].map((value, i) => ({
+      value,
+      count: 10 - i,
+    })),
+  },
+  ranges: {
+    price: { min: 4200, max: 38900 },
+    mileage: { min: 1500, max: 92000 },
+    year: { min: 2015, max: 2023 },
+  },
+  totalCount: 20,
+};
+
+describe('FacetPanel', () => {
+  it('lists the values in the results with their counts', () => {
+    render(<FacetPanel filters={{}} onChange={jest.fn()} facets={facets} />);
+
+    const make = screen.getByRole('group', { name: 'Make' });
+    expect(within(make).getAllByRole('listitem').map((item) => item.textContent)).toEqual(['BMW12', 'Audi8']);
+    expect(screen.getByText('20 vehicles match')).toBeInTheDocument();
+  });
+
+  it('selects several values of a facet', async () => {
+    const onChange = jest.fn();
+    render(<FacetPanel filters={{ make: ['BMW'] }} onChange={onChange} facets={facets} />);
+
+    await userEvent.click(screen.getByRole('checkbox', { name: /audi/i }));
+
+    expect(onChange).toHaveBeenCalledWith({ make: ['BMW', 'Audi'] });
+  });
+
+  it('offers models only once a make is chosen', () => {
+    const { rerender } = render(<FacetPanel filters={{}} onChange={jest.fn()} facets={facets} />);
+    expect(screen.queryByRole('group', { name: 'Model' })).not.toBeInTheDocument();
+
+    rerender(<FacetPanel filters={{ make: ['BMW'] }} onChange={jest.fn()} facets={facets} />);
+    expect(screen.getByRole('checkbox', { name: /3 series/i })).toBeInTheDocument();
+  });
+
+  it('drops the models when the last make is deselected', async () => {
+    const onChange = jest.fn();
+    render(<FacetPanel filters={{ make: ['BMW'], model: ['3 Series'] }} onChange={onChange} facets={facets} />);
+
+    await userEvent.click(screen.getByRole('checkbox', { name: /bmw/i }));
+
+    expect(onChange).toHaveBeenCalledWith({ make: [], model: [] });
+  });
+
+  it('keeps a selected value the results no longer have', () => {
+    render(<FacetPanel filters={{ fuelType: ['Electric'] }} onChange={jest.fn()} facets={facets} />);
+
+    const electric = screen.getByRole('checkbox', { name: /electric/i });
+    expect(electric).toBeChecked();
+    expect(electric).toBeEnabled();
+    expect(electric.closest('li')).toHaveTextContent('Electric0');
+  });
+
+  it('shows the first few values until asked for all of them', async () => {
+    render(<FacetPanel filters={{}} onChange={jest.fn()} facets={facets} />);
+
+    const colour = screen.getByRole('group', { name: 'Colour' });
+    expect(within(colour).getAllByRole('checkbox')).toHaveLength(6);
+
+    await userEvent.click(within(colour).getByRole('button', { name: 'Show all 7' }));
+
+    expect(within(colour).getAllByRole('checkbox')).toHaveLength(7);
+  });
+
+  it('bounds the sliders by the prices and mileages in the results', () => {
+    render(<FacetPanel filters={{}} onChange={jest.fn()} facets={facets} />);
+
+    expect(screen.getByText('Price: £4,000 – £39,000')).toBeInTheDocument();
+    expect(screen.getByText('Mileage: 1,000 miles – 92,000 miles')).toBeInTheDocument();
+    const [price] = screen.getAllByRole('slider');
+    expect(price).toHaveAttribute('aria-valuemin', '4000');
+    expect(price).toHaveAttribute('aria-valuemax', '39000');
+  });
+
+  it('leaves the end of a range at its bound open', () => {
+    const onChange = jest.fn();
+    render(<FacetPanel filters={{}} onChange={onChange} facets={facets} />);
+
+    const [priceMin] = screen.getAllByRole('slider');
+    fireEvent.keyDown(priceMin, { key: 'ArrowRight' });
+
+    expect(onChange).toHaveBeenCalledWith({ priceRange: { min: 4500 } });
+  });
+
+  it('shows a skeleton until the facets load', () => {
+    render(<FacetPanel filters={{}} onChange={jest.fn()} facets={null} isLoading />);
+
+    expect(screen.getByLabelText('Loading filters')).toBeInTheDocument();
+  });
+
+  it('shows why the facets could not load', () => {
+    render(<FacetPanel filters={{}} onChange={jest.fn()} facets={null} error="Failed to load filters" />);
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Failed to load filters');
+  });
+});
@@ -0,0 +1,108 @@
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { SWRConfig } from 'swr';
+import { NoResultsRecovery } from '@/components/search/NoResultsRecovery';
+import type { ComposeQueryResponse } from '@/lib/api/generated';
+import * as relaxationApi from '@/lib/api/relaxation';
+
+// Mock the counting, keeping the candidates
+jest.mock('@/lib/api/relaxation', () => ({
+  ...jest.requireActual('@/lib/api/relaxation'),
+  findRelaxations: jest.fn(),
+}));
+
+const composed: ComposeQueryResponse = {
+  type: 'Filtered',
+  constraintGroups: [
+    {
+      constraints: [
+        { fieldName: 'colour', operator: 'Equals', value: 'Red', type: 'Exact' },
+        { fieldName: 'price', operator: 'LessThanOrEqual', value: 5000, type: 'Range' },
+      ],
+      operator: 'And',
+      priority: 1,
+    },
+  ],
+  groupOperator: 'And',
+  warnings: [],
+  hasConflicts: false,
+  oDataFilter: "colour eq 'Red' and price le 5000",
+};
+
+const removeColour = {
+  label: "Remove 'Colour = Red'",
+  fieldName: 'colour',
+  constraints: [{ fieldName: 'price', operator: 'LessThanOrEqual', value: 5000, type: 'Range' }],
+  count: 14,
+} as relaxationApi.Relaxation;
+
+const raisePrice = {
+  label: 'Raise the price to £6,000',
+  fieldName: 'price',
+  constraints: [
+    { fieldName: 'colour', operator: 'Equals', value: 'Red', type: 'Exact' },
+    { fieldName: 'price', operator: 'LessThanOrEqual', value: 6000, type: 'Range' },
+  ],
+  count: 1,
+} as relaxationApi.Relaxation;
+
+const renderRecovery = (query: ComposeQueryResponse, onRelax = jest.fn()) =>
+  render(
+    <SWRConfig value={{ provider: () => new Map(), dedupingInterval: 0 }}>
+      <NoResultsRecovery composedQuery={query} onRelax={onRelax} />
+    </SWRConfig>
+  );
+
+describe('NoResultsRecovery', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('suggests relaxed searches with the results each would find', async () => {
+    (relaxationApi.findRelaxations as jest.Mock).mockResolvedValue([removeColour, raisePrice]);
+
+    renderRecovery(composed);
+
+    expect(screen.getByRole('status')).toHaveTextContent('Looking for a search that finds something');
+    expect(await screen.findByText('Did you mean…?')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: "Remove 'Colour = Red' → 14 results" })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Raise the price to £6,000 → 1 result' })).toBeInTheDocument();
+    expect(relaxationApi.findRelaxations).toHaveBeenCalledWith(composed);
+  });
+
+  it('searches with the relaxation chosen', async () => {
+    const user = userEvent.setup();
+    const onRelax = jest.fn();
+    (relaxationApi.findRelaxations as jest.Mock).mockResolvedValue([removeColour]);
+
+    renderRecovery(composed, onRelax);
+    await user.click(await screen.findByRole('button', { name: /Remove 'Colour = Red'/ }));
+
+    expect(onRelax).toHaveBeenCalledWith(removeColour);
+  });
+
+  it('explains a request that contradicts itself', async () => {
+    (relaxationApi.findRelaxations as jest.Mock).mockResolvedValue([]);
+
+    renderRecovery({
+      ...composed,
+      hasConflicts: true,
+      warnings: ['Range inversion detected for price: 10000 > 5000'],
+    });
+
+    expect(screen.getByText(/contradicts itself/)).toBeInTheDocument();
+    expect(screen.getByText('Range inversion detected for price: 10000 > 5000')).toBeInTheDocument();
+    await waitFor(() => expect(screen.queryByRole('status')).not.toBeInTheDocument());
+    expect(screen.queryByText('Did you mean…?')).not.toBeInTheDocument();
+  });
+
+  it('shows only warnings when nothing conflicts', async () => {
+    (relaxationApi.findRelaxations as jest.Mock).mockResolvedValue([]);
+
+    renderRecovery({ ...composed, warnings: ['Unknown colour: Reddish'] });
+
+    expect(screen.queryByText(/contradicts itself/)).not.toBeInTheDocument();
+    expect(screen.getByText('Unknown colour: Reddish')).toBeInTheDocument();
+    await waitFor(() => expect(screen.queryByRole('status')).not.toBeInTheDocument());
+  });
+});
@@ -0,0 +1,73 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { PrioritisePanel } from '@/components/search/PrioritisePanel';
+import { RELEVANCE_PRIORITIES } from '@/lib/api/rerank';
+
+// Radix sliders measure themselves, which jsdom can't do
+global.ResizeObserver = class {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+};
+
+describe('PrioritisePanel', () => {
+  it('starts at relevance alone', () => {
+    render(<PrioritisePanel priorities={null} onChange={jest.fn()} />);
+
+    const sliders = screen.getAllByRole('slider');
+    expect(sliders).toHaveLength(5);
+    expect(sliders[0]).toHaveAttribute('aria-valuenow', '0');
+    expect(sliders[4]).toHaveAttribute('aria-valuenow', '100');
+    expect(screen.getByText('Lower price').nextSibling).toHaveTextContent('0%');
+    expect(screen.getByText('Relevance to search').nextSibling).toHaveTextContent('100%');
+    expect(screen.getByRole('button', { name: /Reset to relevance/ })).toBeDisabled();
+  });
+
+  it('applies a slider once it is let go', () => {
+    const onChange = jest.fn();
+    render(<PrioritisePanel priorities={null} onChange={onChange} />);
+
+    const [price] = screen.getAllByRole('slider');
+    fireEvent.keyDown(price, { key: 'ArrowRight' });
+
+    expect(onChange).toHaveBeenCalledWith({ ...RELEVANCE_PRIORITIES, price: 10 });
+  });
+
+  it('shows each factor as its share of the order', () => {
+    render(<PrioritisePanel priorities={{ ...RELEVANCE_PRIORITIES, mileage: 100 }} onChange={jest.fn()} />);
+
+    expect(screen.getByText('Lower mileage').nextSibling).toHaveTextContent('50%');
+    expect(screen.getByText('Relevance to search').nextSibling).toHaveTextContent('50%');
+  });
+
+  it('goes back to relevance order when nothing else counts', () => {
+    const onChange = jest.fn();
+    render(<PrioritisePanel priorities={{ ...RELEVANCE_PRIORITIES, age: 10 }} onChange={onChange} />);
+
+    const [, , age] = screen.getAllByRole('slider');
+    fireEvent.keyDown(age, { key: 'ArrowLeft' });
+
+    expect(onChange).toHaveBeenCalledWith(null);
+  });
+
+  it('resets to relevance', async () => {
+    const onChange = jest.fn();
+    render(<PrioritisePanel priorities={{ ...RELEVANCE_PRIORITIES, price: 60 }} onChange={onChange} />);
+
+    await userEvent.click(screen.getByRole('button', { name: /Reset to relevance/ }));
+
+    expect(onChange).toHaveBeenCalledWith(null);
+  });
+
+  it('says when reordering fails', () => {
+    render(
+      <PrioritisePanel
+        priorities={{ ...RELEVANCE_PRIORITIES, price: 60 }}
+        onChange={jest.fn()}
+        error="Failed to reorder results"
+      />
+    );
+
+    expect(screen.getByRole('alert')).toHaveTextContent(/Couldn't reorder the results/);
+  });
+});
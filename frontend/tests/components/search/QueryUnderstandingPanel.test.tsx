@@ -0,0 +1,158 @@
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { QueryUnderstandingPanel } from '@/components/search/QueryUnderstandingPanel';
+import { QueryUnderstanding } from '@/lib/api/types';
+
+const understanding: QueryUnderstanding = {
+  parsed: {
+    originalQuery: 'reliable BMW under 20k',
+    intent: 'search',
+    confidence: 0.87,
+    entities: [
+      { type: 'QualitativeTerm', value: 'reliable', confidence: 0.8, startPosition: 0, endPosition: 8 },
+      { type: 'Make', value: 'BMW', confidence: 0.95, startPosition: 9, endPosition: 12 },
+    ],
+    unmappedTerms: ['shiny'],
+  },
+  mapped: {
+    constraints: [],
+    unmappableTerms: [],
+    metadata: {},
+    concepts: [
+      {
+        concept: 'reliable',
+        attributeWeights: [
+          { attribute: 'mileage', weight: 0.4, targetValue: 60000, comparisonType: 'less' },
+          { attribute: 'serviceHistoryPresent', weight: 0.4, targetValue: true, comparisonType: 'equals' },
+        ],
+        positiveIndicators: [],
+        negativeIndicators: [],
+      },
+    ],
+  },
+  composed: {
+    type: 'Filtered',
+    constraintGroups: [
+      {
+        constraints: [
+          { fieldName: 'make', operator: 'Equals', value: 'BMW', type: 'Exact' },
+          { fieldName: 'price', operator: 'LessThanOrEqual', value: 20000, type: 'Range' },
+        ],
+        operator: 'And',
+        priority: 1,
+      },
+    ],
+    groupOperator: 'And',
+    warnings: [],
+    hasConflicts: false,
+    oDataFilter: "make eq 'BMW' and price le 20000",
+  },
+  endpoint: 'search',
+};
+
+const expand = async (user: ReturnType<typeof userEvent.setup>) =>
+  user.click(screen.getByRole('button', { name: /how we understood your search/i }));
+
+describe('QueryUnderstandingPanel', () => {
+  it('starts collapsed', () => {
+    render(<QueryUnderstandingPanel understanding={understanding} />);
+
+    expect(screen.getByRole('button', { name: /how we understood your search/i })).toHaveAttribute(
+      'aria-expanded',
+      'false'
+    );
+    expect(screen.queryByText('Intent')).not.toBeInTheDocument();
+  });
+
+  it('shows the intent, confidence, entities and unmapped terms', async () => {
+    const user = userEvent.setup();
+    render(<QueryUnderstandingPanel understanding={understanding} />);
+
+    await expand(user);
+
+    expect(screen.getByText('New search')).toBeInTheDocument();
+    expect(screen.getByText('87%')).toBeInTheDocument();
+    const entities = within(screen.getByRole('list', { name: 'Entities' })).getAllByRole('listitem');
+    expect(entities.map((entity) => entity.textContent)).toEqual(['Quality: reliable 80%', 'Make: BMW 95%']);
+    expect(screen.getByText(/not understood/i).parentElement).toHaveTextContent('shiny');
+  });
+
+  it('shows concepts with their attribute weights', async () => {
+    const user = userEvent.setup();
+    render(<QueryUnderstandingPanel understanding={understanding} />);
+
+    await expand(user);
+
+    const attributes = within(screen.getByRole('list', { name: 'reliable attributes' })).getAllByRole('listitem');
+    expect(attributes.map((attribute) => attribute.textContent)).toEqual([
+      'Mileage < 60,000 miles40%',
+      'Service history present = Yes40%',
+    ]);
+  });
+
+  it('shows the constraint groups and OData filter', async () => {
+    const user = userEvent.setup();
+    render(<QueryUnderstandingPanel understanding={understanding} />);
+
+    await expand(user);
+
+    expect(screen.getByText('Make = BMW')).toBeInTheDocument();
+    expect(screen.getByText('Price ≤ £20,000')).toBeInTheDocument();
+    expect(screen.getByText("make eq 'BMW' and price le 20000")).toBeInTheDocument();
+  });
+
+  it('explains conflicts and warnings', async () => {
+    const user = userEvent.setup();
+    render(
+      <QueryUnderstandingPanel
+        understanding={{
+          ...understanding,
+          composed: { ...understanding.composed, hasConflicts: true, warnings: ['Price range is empty'] },
+        }}
+      />
+    );
+
+    await expand(user);
+
+    const alert = screen.getByRole('alert');
+    expect(alert).toHaveTextContent(/conflicts/i);
+    expect(alert).toHaveTextContent('Price range is empty');
+  });
+
+  it('corrects an entity', async () => {
+    const user = userEvent.setup();
+    const onEditEntity = jest.fn();
+    render(<QueryUnderstandingPanel understanding={understanding} onEditEntity={onEditEntity} defaultOpen />);
+
+    await user.click(screen.getByRole('button', { name: /make: bmw/i }));
+    const input = screen.getByRole('textbox', { name: 'Edit make' });
+    await user.clear(input);
+    await user.type(input, 'Audi');
+    await user.click(screen.getByRole('button', { name: 'Search again' }));
+
+    expect(onEditEntity).toHaveBeenCalledWith(1, 'Audi');
+  });
+
+  it('removes an entity', async () => {
+    const user = userEvent.setup();
+    const onEditEntity = jest.fn();
+    render(<QueryUnderstandingPanel understanding={understanding} onEditEntity={onEditEntity} defaultOpen />);
+
+    await user.click(screen.getByRole('button', { name: /quality: reliable/i }));
+    await user.click(screen.getByRole('button', { name: 'Remove' }));
+
+    expect(onEditEntity).toHaveBeenCalledWith(0, null);
+  });
+
+  it('shows only the composed query for a search given its constraints', () => {
+    render(
+      <QueryUnderstandingPanel
+        understanding={{ composed: understanding.composed, endpoint: 'search' }}
+        defaultOpen
+      />
+    );
+
+    expect(screen.queryByText('Intent')).not.toBeInTheDocument();
+    expect(screen.getByText('Make = BMW')).toBeInTheDocument();
+  });
+});
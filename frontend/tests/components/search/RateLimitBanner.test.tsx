@@ -0,0 +1,49 @@
+import { render, screen, act } from '@testing-library/react';
+import { RateLimitBanner } from '@/components/search/RateLimitBanner';
+
+describe('RateLimitBanner', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2024-01-28T10:00:00Z') });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('explains the wait without quoting the limits', () => {
+    render(<RateLimitBanner retryAt={Date.now() + 30000} />);
+
+    expect(screen.getByRole('alert')).toHaveTextContent(
+      'Too many searches in a short time. You can search again in 30s.'
+    );
+  });
+
+  it('counts down to the end of the window', () => {
+    render(<RateLimitBanner retryAt={Date.now() + 5000} />);
+
+    expect(screen.getByText('5s')).toBeInTheDocument();
+
+    act(() => {
+      jest.advanceTimersByTime(3000);
+    });
+
+    expect(screen.getByText('2s')).toBeInTheDocument();
+  });
+
+  it('stops counting once the window has reopened', () => {
+    render(<RateLimitBanner retryAt={Date.now() + 2000} />);
+
+    act(() => {
+      jest.advanceTimersByTime(2000);
+    });
+
+    expect(screen.getByText('0s')).toBeInTheDocument();
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('shows minutes for long waits', () => {
+    render(<RateLimitBanner retryAt={Date.now() + 3600 * 1000} />);
+
+    expect(screen.getByText('60m 00s')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,107 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { ReferencePreview } from '@/components/search/ReferencePreview';
+import type { ReferenceResponse, ResolveReferencesResponse } from '@/lib/api/generated';
+import { VehicleDocument } from '@/lib/api/types';
+
+// Radix Select relies on browser APIs jsdom leaves out
+Element.prototype.hasPointerCapture = () => false;
+Element.prototype.releasePointerCapture = () => {};
+Element.prototype.scrollIntoView = () => {};
+
+const vehicle = (id: string, make: string, model: string, price: number) =>
+  ({ id, make, model, price, mileage: 40000, fuelType: 'Petrol', transmissionType: 'Manual', saleLocation: 'Leeds' }) as VehicleDocument;
+
+const vehicles = [vehicle('V1', 'BMW', '3 Series', 18500), vehicle('V2', 'Ford', 'Focus', 8995)];
+
+const reference = (overrides: Partial<ReferenceResponse>): ReferenceResponse => ({
+  referenceText: 'second one',
+  type: 'Anaphoric',
+  resolvedValue: '',
+  position: 20,
+  vehicleIds: [],
+  ...overrides,
+});
+
+const resolution = (references: ReferenceResponse[], unresolvedMessage?: string): ResolveReferencesResponse => ({
+  originalQuery: 'something like the second one',
+  resolvedQuery: 'something like the second one',
+  resolvedReferences: references,
+  resolvedValues: {},
+  hasUnresolvedReferences: !!unresolvedMessage,
+  unresolvedMessage,
+});
+
+describe('ReferencePreview', () => {
+  it('names the vehicle a reference resolved to', () => {
+    render(
+      <ReferencePreview
+        resolution={resolution([reference({ vehicleIds: ['V2'] })])}
+        vehicles={vehicles}
+        onPick={jest.fn()}
+      />
+    );
+
+    expect(screen.getByRole('listitem')).toHaveTextContent('second one');
+    expect(screen.getByRole('listitem')).toHaveTextContent('Ford Focus (£8,995)');
+  });
+
+  it('describes the constraint a comparative resolved to', () => {
+    render(
+      <ReferencePreview
+        resolution={resolution([
+          reference({
+            referenceText: 'cheaper',
+            type: 'Comparative',
+            constraint: { fieldName: 'price', operator: 'LessThan', value: 18000, type: 'Range' },
+          }),
+        ])}
+        vehicles={vehicles}
+        onPick={jest.fn()}
+      />
+    );
+
+    expect(screen.getByRole('listitem')).toHaveTextContent('Price < £18,000');
+    expect(screen.queryByRole('combobox')).not.toBeInTheDocument();
+  });
+
+  it('explains a reference it could not resolve', () => {
+    render(
+      <ReferencePreview
+        resolution={resolution(
+          [reference({ referenceText: 'that BMW', type: 'Demonstrative' })],
+          "I don't have a specific vehicle to refer to."
+        )}
+        vehicles={vehicles}
+        onPick={jest.fn()}
+      />
+    );
+
+    expect(screen.getByRole('listitem')).toHaveTextContent('not sure which one');
+    expect(screen.getByText("I don't have a specific vehicle to refer to.")).toBeInTheDocument();
+  });
+
+  it('leaves out comparatives with nothing to compare against', () => {
+    const { container } = render(
+      <ReferencePreview
+        resolution={resolution([reference({ referenceText: 'cheaper', type: 'Comparative' })])}
+        vehicles={vehicles}
+        onPick={jest.fn()}
+      />
+    );
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('picks a different vehicle from the last results', async () => {
+    const user = userEvent.setup();
+    const onPick = jest.fn();
+    const second = reference({ vehicleIds: ['V2'] });
+    render(<ReferencePreview resolution={resolution([second])} vehicles={vehicles} onPick={onPick} />);
+
+    await user.click(screen.getByRole('combobox', { name: 'Choose what "second one" refers to' }));
+    await user.click(screen.getByRole('option', { name: '1. BMW 3 Series (£18,500)' }));
+
+    expect(onPick).toHaveBeenCalledWith(second, vehicles[0]);
+  });
+});
@@ -1,74 +1,126 @@
-import { render, screen } from '@testing-library/react';
+import { screen, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { RefinementControls } from '@/components/search/RefinementControls';
+import * as facetsApi from '@/lib/api/facets';
+import type { ComposeQueryResponse } from '@/lib/api/generated';
+import { renderWithSWR } from '../../utils/swr';
+
+// Mock the API, keeping the query building
+jest.mock('@/lib/api/facets', () => ({
+  ...jest.requireActual('@/lib/api/facets'),
+  getFacets: jest.fn(),
+}));
+
+// Radix sliders and checkboxes measure themselves, which jsdom can't do
+global.ResizeObserver = class {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+};
+
+const mockFacets = {
+  facets: {
+    make: [
+      { value: 'BMW', count: 12 },
+      { value: 'Audi', count: 8 },
+    ],
+    fuelType: [{ value: 'Diesel', count: 20 }],
+  },
+  ranges: { price: { min: 4000, max: 38000 } },
+  totalCount: 20,
+};
+
+const composedQuery: ComposeQueryResponse = {
+  type: 'Filtered',
+  constraintGroups: [
+    {
+      constraints: [{ fieldName: 'mileage', operator: 'LessThanOrEqual', value: 60000, type: 'Range' }],
+      operator: 'And',
+      priority: 1,
+    },
+  ],
+  groupOperator: 'And',
+  warnings: [],
+  hasConflicts: false,
+  oDataFilter: 'mileage le 60000',
+};
 
 describe('RefinementControls', () => {
   const mockOnRefine = jest.fn();
 
   beforeEach(() => {
     jest.clearAllMocks();
+    (facetsApi.getFacets as jest.Mock).mockResolvedValue(mockFacets);
   });
 
-  it('renders all filter controls', async () => {
-    render(<RefinementControls onRefine={mockOnRefine} />);
+  const openSheet = async () => {
+    await userEvent.click(screen.getByRole('button', { name: /refine results/i }));
+    await screen.findByRole('group', { name: 'Make' });
+  };
 
-    const triggerButton = screen.getByRole('button', { name: /refine results/i });
-    await userEvent.click(triggerButton);
+  it('loads the facets for the current search when opened', async () => {
+    renderWithSWR(<RefinementControls onRefine={mockOnRefine} composedQuery={composedQuery} />);
+    expect(facetsApi.getFacets).not.toHaveBeenCalled();
 
-    expect(screen.getByText(/price range/i)).toBeInTheDocument();
-    expect(screen.getByText(/mileage range/i)).toBeInTheDocument();
-    expect(screen.getByTestId('make-select')).toBeInTheDocument();
-    expect(screen.getByTestId('fuel-type-select')).toBeInTheDocument();
-    expect(screen.getByTestId('transmission-select')).toBeInTheDocument();
-  });
+    await openSheet();
 
-  it('calls onRefine with correct values', async () => {
-    render(<RefinementControls onRefine={mockOnRefine} />);
+    expect(facetsApi.getFacets).toHaveBeenCalledWith(
+      expect.objectContaining({ constraintGroups: composedQuery.constraintGroups, oDataFilter: null })
+    );
+    expect(screen.getByRole('checkbox', { name: /bmw/i })).toBeInTheDocument();
+    expect(screen.getByText('Price: £4,000 – £38,000')).toBeInTheDocument();
+  });
 
-    const triggerButton = screen.getByRole('button', { name: /refine results/i });
-    await userEvent.click(triggerButton);
+  it('counts the facets again as filters are chosen', async () => {
+    renderWithSWR(<RefinementControls onRefine={mockOnRefine} composedQuery={composedQuery} />);
+    await openSheet();
 
-    const applyButton = screen.getByRole('button', { name: /apply filters/i });
-    await userEvent.click(applyButton);
+    await userEvent.click(screen.getByRole('checkbox', { name: /audi/i }));
 
-    expect(mockOnRefine).toHaveBeenCalled();
-    const [filters, query] = mockOnRefine.mock.calls[0];
-    
-    expect(filters).toHaveProperty('priceRange');
-    expect(filters).toHaveProperty('mileageRange');
-    expect(typeof query).toBe('string');
+    await waitFor(() => expect(facetsApi.getFacets).toHaveBeenCalledTimes(2));
+    expect((facetsApi.getFacets as jest.Mock).mock.calls[1][0].constraintGroups).toContainEqual(
+      expect.objectContaining({
+        constraints: [{ fieldName: 'make', operator: 'Equals', value: 'Audi', type: 'Exact' }],
+      })
+    );
   });
 
-  it('resets filters on reset button click', async () => {
-    render(<RefinementControls onRefine={mockOnRefine} />);
+  it('applies the chosen filters', async () => {
+    renderWithSWR(<RefinementControls onRefine={mockOnRefine} filters={{ fuelType: ['Diesel'] }} />);
+    await openSheet();
+
+    await userEvent.click(screen.getByRole('checkbox', { name: /bmw/i }));
+    await userEvent.click(screen.getByRole('checkbox', { name: /audi/i }));
+    await userEvent.click(screen.getByRole('button', { name: /apply filters/i }));
 
-    const triggerButton = screen.getByRole('button', { name: /refine results/i });
-    await userEvent.click(triggerButton);
+    expect(mockOnRefine).toHaveBeenCalledWith({ make: ['BMW', 'Audi'], fuelType: ['Diesel'] });
+  });
+
+  it('applies no filters when nothing is chosen', async () => {
+    renderWithSWR(<RefinementControls onRefine={mockOnRefine} />);
+    await openSheet();
 
-    const resetButton = screen.getByRole('button', { name: /reset/i });
-    await userEvent.click(resetButton);
+    await userEvent.click(screen.getByRole('button', { name: /apply filters/i }));
 
-    // Verify reset happened (filters should be back to defaults)
-    expect(screen.getByText(/£0 - £50,000/i)).toBeInTheDocument();
+    // Untouched controls constrain nothing, and no query text is built from them
+    expect(mockOnRefine).toHaveBeenCalledWith({});
   });
 
-  it('displays current values', async () => {
-    render(<RefinementControls onRefine={mockOnRefine} />);
+  it('resets filters on reset button click', async () => {
+    renderWithSWR(<RefinementControls onRefine={mockOnRefine} filters={{ make: ['BMW'] }} />);
+    await openSheet();
+    expect(screen.getByRole('checkbox', { name: /bmw/i })).toBeChecked();
 
-    const triggerButton = screen.getByRole('button', { name: /refine results/i });
-    await userEvent.click(triggerButton);
+    await userEvent.click(screen.getByRole('button', { name: /reset/i }));
 
-    expect(screen.getByText(/£0 - £50,000/i)).toBeInTheDocument();
-    expect(screen.getByText(/0 - 150,000 miles/i)).toBeInTheDocument();
+    expect(screen.getByRole('checkbox', { name: /bmw/i })).not.toBeChecked();
   });
 
   it('disables controls when loading', async () => {
-    render(<RefinementControls onRefine={mockOnRefine} isLoading={true} />);
-
-    const triggerButton = screen.getByRole('button', { name: /refine results/i });
-    await userEvent.click(triggerButton);
+    renderWithSWR(<RefinementControls onRefine={mockOnRefine} isLoading={true} />);
+    await openSheet();
 
-    const applyButton = screen.getByRole('button', { name: /apply filters/i });
-    expect(applyButton).toBeDisabled();
+    expect(screen.getByRole('button', { name: /apply filters/i })).toBeDisabled();
+    expect(screen.getByRole('checkbox', { name: /bmw/i })).toBeDisabled();
   });
 });
@@ -0,0 +1,53 @@
+import { render, screen } from '@testing-library/react';
+import { RefinementDiff } from '@/components/search/RefinementDiff';
+import type { ConstraintChange } from '@/lib/api/generated';
+
+const changes: ConstraintChange[] = [
+  {
+    fieldName: 'colour',
+    changeType: 'Removed',
+    previous: { fieldName: 'colour', operator: 'Equals', value: 'Red', type: 'Exact' },
+  },
+  {
+    fieldName: 'price',
+    changeType: 'Updated',
+    previous: { fieldName: 'price', operator: 'LessThanOrEqual', value: 20000, type: 'Range' },
+    current: { fieldName: 'price', operator: 'LessThanOrEqual', value: 15000, type: 'Range' },
+  },
+  {
+    fieldName: 'fuelType',
+    changeType: 'Added',
+    current: { fieldName: 'fuelType', operator: 'Equals', value: 'Diesel', type: 'Exact' },
+  },
+];
+
+describe('RefinementDiff', () => {
+  it('lists added, changed and removed constraints in that order', () => {
+    render(<RefinementDiff changes={changes} />);
+
+    const items = screen.getAllByRole('listitem').map((item) => item.textContent);
+    expect(items).toEqual([
+      '+Added: Fuel = Diesel',
+      '~Changed: Price ≤ £20,000 → ≤ £15,000',
+      '−Removed: Colour = Red',
+    ]);
+  });
+
+  it('shows the result count before and after', () => {
+    render(<RefinementDiff changes={changes} previousCount={1240} count={310} />);
+
+    expect(screen.getByText('1,240 → 310 results')).toBeInTheDocument();
+  });
+
+  it('leaves out the counts when the previous one is unknown', () => {
+    render(<RefinementDiff changes={changes} previousCount={null} count={310} />);
+
+    expect(screen.queryByText(/results/)).not.toBeInTheDocument();
+  });
+
+  it('renders nothing when nothing changed and there are no counts', () => {
+    const { container } = render(<RefinementDiff changes={[]} />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+});
@@ -1,6 +1,28 @@
 import { render, screen } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { RefinementSuggestions } from '@/components/search/RefinementSuggestions';
+import { VehicleResult } from '@/lib/api/types';
+
+const result = (id: string, make: string, price: number, saleLocation: string): VehicleResult => ({
+  vehicle: {
+    id,
+    make,
+    model: 'Hatchback',
+    price,
+    mileage: 30000,
+    fuelType: 'Petrol',
+    transmissionType: 'Manual',
+    saleLocation,
+  },
+  score: 1,
+});
+
+const results = [
+  result('V1', 'Ford', 8000, 'Leeds'),
+  result('V2', 'Ford', 9000, 'Leeds'),
+  result('V3', 'Vauxhall', 12000, 'Leeds'),
+  result('V4', 'Vauxhall', 14000, 'Leeds'),
+];
 
 describe('RefinementSuggestions', () => {
   const mockOnSuggest = jest.fn();
@@ -9,40 +31,47 @@ describe('RefinementSuggestions', () => {
     jest.clearAllMocks();
   });
 
-  it('renders all suggestions', () => {
-    render(<RefinementSuggestions onSuggest={mockOnSuggest} />);
+  it('suggests refinements from the results with their predicted counts', () => {
+    render(<RefinementSuggestions results={results} totalCount={4} onSuggest={mockOnSuggest} />);
+
+    expect(screen.getByRole('button', { name: 'Only Ford, 2 results' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Under £9,000, 2 results' })).toBeInTheDocument();
+  });
+
+  it('does not suggest what the results have no choice in', () => {
+    render(<RefinementSuggestions results={results} totalCount={4} onSuggest={mockOnSuggest} />);
 
-    expect(screen.getByText('Show me cheaper ones')).toBeInTheDocument();
-    expect(screen.getByText('With lower mileage')).toBeInTheDocument();
-    expect(screen.getByText('Only automatic')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /In Leeds/ })).not.toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /Electric/ })).not.toBeInTheDocument();
   });
 
-  it('calls onSuggest with correct text on click', async () => {
-    render(<RefinementSuggestions onSuggest={mockOnSuggest} />);
+  it('marks counts estimated from some of the results', () => {
+    render(<RefinementSuggestions results={results} totalCount={40} onSuggest={mockOnSuggest} />);
+
+    expect(screen.getByRole('button', { name: 'Only Ford, about 20 results' })).toHaveTextContent('~20');
+  });
 
-    const suggestion = screen.getByText('Show me cheaper ones');
-    await userEvent.click(suggestion);
+  it('calls onSuggest with the suggestion on click', async () => {
+    render(<RefinementSuggestions results={results} totalCount={4} filters={{ yearMin: 2018 }} onSuggest={mockOnSuggest} />);
 
-    expect(mockOnSuggest).toHaveBeenCalledWith('Show me cheaper ones');
+    await userEvent.click(screen.getByRole('button', { name: /Only Vauxhall/ }));
+
+    expect(mockOnSuggest).toHaveBeenCalledWith(
+      expect.objectContaining({ label: 'Only Vauxhall', filters: { yearMin: 2018, make: ['Vauxhall'] } })
+    );
   });
 
   it('does not call onSuggest when loading', async () => {
-    render(<RefinementSuggestions onSuggest={mockOnSuggest} isLoading={true} />);
+    render(<RefinementSuggestions results={results} totalCount={4} onSuggest={mockOnSuggest} isLoading={true} />);
 
-    const suggestion = screen.getByText('Show me cheaper ones');
-    await userEvent.click(suggestion);
+    await userEvent.click(screen.getByRole('button', { name: /Only Ford/ }));
 
     expect(mockOnSuggest).not.toHaveBeenCalled();
   });
 
-  it('handles multiple suggestion clicks', async () => {
-    render(<RefinementSuggestions onSuggest={mockOnSuggest} />);
-
-    await userEvent.click(screen.getByText('Show me cheaper ones'));
-    await userEvent.click(screen.getByText('With lower mileage'));
+  it('renders nothing without results', () => {
+    const { container } = render(<RefinementSuggestions results={[]} totalCount={0} onSuggest={mockOnSuggest} />);
 
-    expect(mockOnSuggest).toHaveBeenCalledTimes(2);
-    expect(mockOnSuggest).toHaveBeenNthCalledWith(1, 'Show me cheaper ones');
-    expect(mockOnSuggest).toHaveBeenNthCalledWith(2, 'With lower mileage');
+    expect(container).toBeEmptyDOMElement();
   });
 });
@@ -1,7 +1,13 @@
-import { render, screen } from '@testing-library/react';
+import { fireEvent, render, screen } from '@testing-library/react';
 import { ResultsList } from '@/components/search/ResultsList';
+import type { ComposeQueryResponse } from '@/lib/api/generated';
 import { VehicleResult } from '@/lib/api/types';
 import { ComparisonProvider } from '@/lib/context/ComparisonContext';
+import { useRelaxations } from '@/lib/hooks/useRelaxations';
+
+jest.mock('@/lib/hooks/useRelaxations', () => ({
+  useRelaxations: jest.fn(() => ({ relaxations: [], isLoading: false, error: null })),
+}));
 
 const mockResults: VehicleResult[] = [
   {
@@ -65,6 +71,28 @@ describe('ResultsList', () => {
     expect(screen.getByText(/Try adjusting your search criteria/i)).toBeInTheDocument();
   });
 
+  it('suggests ways to relax a composed search that found nothing', () => {
+    const composed: ComposeQueryResponse = {
+      type: 'Filtered',
+      constraintGroups: [],
+      groupOperator: 'And',
+      warnings: [],
+      hasConflicts: false,
+      oDataFilter: null,
+    };
+    const relaxation = { label: "Remove 'Colour = Red'", fieldName: 'colour', constraints: [], count: 14 };
+    (useRelaxations as jest.Mock).mockReturnValue({ relaxations: [relaxation], isLoading: false, error: null });
+    const onRelax = jest.fn();
+
+    renderWithProvider(
+      <ResultsList results={[]} totalCount={0} searchDuration="50ms" composedQuery={composed} onRelax={onRelax} />
+    );
+    fireEvent.click(screen.getByRole('button', { name: "Remove 'Colour = Red' → 14 results" }));
+
+    expect(useRelaxations).toHaveBeenCalledWith(composed);
+    expect(onRelax).toHaveBeenCalledWith(relaxation);
+  });
+
   it('displays search metadata', () => {
     renderWithProvider(
       <ResultsList
@@ -104,4 +132,271 @@ describe('ResultsList', () => {
     // Should show total count, not just results array length
     expect(screen.getByText(/100 results found/i)).toBeInTheDocument();
   });
+
+  it('shows that more results are on the way while streaming', () => {
+    renderWithProvider(
+      <ResultsList
+        results={mockResults.slice(0, 1)}
+        totalCount={1}
+        searchDuration="40ms"
+        isStreaming
+      />
+    );
+
+    expect(screen.getByText('BMW 3 Series')).toBeInTheDocument();
+    expect(screen.getByRole('status')).toHaveTextContent(/finding more matches/i);
+  });
+
+  it('offers sorting and holds it while results are streaming', () => {
+    const { rerender } = renderWithProvider(
+      <ResultsList results={mockResults} totalCount={2} searchDuration="40ms" sort="price-asc" onSortChange={jest.fn()} />
+    );
+
+    expect(screen.getByRole('combobox', { name: 'Sort results' })).toHaveTextContent('Price: low to high');
+
+    rerender(
+      <ComparisonProvider>
+        <ResultsList
+          results={mockResults}
+          totalCount={2}
+          searchDuration="40ms"
+          onSortChange={jest.fn()}
+          isStreaming
+        />
+      </ComparisonProvider>
+    );
+
+    expect(screen.getByRole('combobox', { name: 'Sort results' })).toBeDisabled();
+  });
+
+  it('does not report an empty result while results are still streaming', () => {
+    renderWithProvider(
+      <ResultsList results={[]} totalCount={0} searchDuration="0ms" isStreaming />
+    );
+
+    expect(screen.queryByText(/No vehicles found/i)).not.toBeInTheDocument();
+    expect(screen.getByRole('status')).toHaveTextContent(/looking for more matches/i);
+  });
+
+  describe('numbered pages', () => {
+    it('continues position numbers from earlier pages', () => {
+      renderWithProvider(
+        <ResultsList results={mockResults} totalCount={12} searchDuration="120ms" firstPosition={11} />
+      );
+
+      expect(screen.getByText('#11')).toBeInTheDocument();
+      expect(screen.getByText('#12')).toBeInTheDocument();
+    });
+
+    it('navigates between pages', () => {
+      const onPageChange = jest.fn();
+      renderWithProvider(
+        <ResultsList
+          results={mockResults}
+          totalCount={100}
+          searchDuration="120ms"
+          page={5}
+          pageCount={10}
+          onPageChange={onPageChange}
+        />
+      );
+
+      expect(screen.getByRole('button', { name: 'Page 5' })).toHaveAttribute('aria-current', 'page');
+      expect(screen.getAllByText('…')).toHaveLength(2);
+      expect(screen.queryByRole('button', { name: 'Page 3' })).not.toBeInTheDocument();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Next page' }));
+      fireEvent.click(screen.getByRole('button', { name: 'Page 10' }));
+
+      expect(onPageChange.mock.calls).toEqual([[6], [10]]);
+    });
+
+    it('hides the navigation for a single page', () => {
+      renderWithProvider(
+        <ResultsList
+          results={mockResults}
+          totalCount={2}
+          searchDuration="120ms"
+          pageCount={1}
+          onPageChange={jest.fn()}
+        />
+      );
+
+      expect(screen.queryByRole('navigation', { name: 'Result pages' })).not.toBeInTheDocument();
+    });
+
+    it('switches to infinite scrolling', () => {
+      const onModeChange = jest.fn();
+      renderWithProvider(
+        <ResultsList
+          results={mockResults}
+          totalCount={2}
+          searchDuration="120ms"
+          onModeChange={onModeChange}
+        />
+      );
+
+      expect(screen.getByRole('button', { name: 'Pages' })).toHaveAttribute('aria-pressed', 'true');
+      fireEvent.click(screen.getByRole('button', { name: 'Scroll' }));
+
+      expect(onModeChange).toHaveBeenCalledWith('infinite');
+    });
+  });
+
+  describe('infinite scrolling', () => {
+    let observerCallback: IntersectionObserverCallback | undefined;
+    const observe = jest.fn();
+    const disconnect = jest.fn();
+
+    beforeEach(() => {
+      observerCallback = undefined;
+      observe.mockClear();
+      disconnect.mockClear();
+      global.IntersectionObserver = jest.fn((callback: IntersectionObserverCallback) => {
+        observerCallback = callback;
+        return { observe, disconnect } as unknown as IntersectionObserver;
+      }) as unknown as typeof IntersectionObserver;
+    });
+
+    afterEach(() => {
+      delete (global as { IntersectionObserver?: unknown }).IntersectionObserver;
+    });
+
+    const reachEnd = () =>
+      observerCallback!([{ isIntersecting: true } as IntersectionObserverEntry], {} as IntersectionObserver);
+
+    it('loads more when the end of the list comes into view', () => {
+      const onLoadMore = jest.fn();
+      renderWithProvider(
+        <ResultsList
+          results={mockResults}
+          totalCount={20}
+          searchDuration="120ms"
+          mode="infinite"
+          hasMore
+          onLoadMore={onLoadMore}
+        />
+      );
+
+      expect(observe).toHaveBeenCalledWith(screen.getByTestId('load-more-sentinel'));
+      reachEnd();
+
+      expect(onLoadMore).toHaveBeenCalledTimes(1);
+    });
+
+    it('pauses observing while a page is loading', () => {
+      renderWithProvider(
+        <ResultsList
+          results={mockResults}
+          totalCount={20}
+          searchDuration="120ms"
+          mode="infinite"
+          hasMore
+          onLoadMore={jest.fn()}
+          isLoadingMore
+        />
+      );
+
+      expect(observe).not.toHaveBeenCalled();
+      expect(screen.getByRole('status')).toHaveTextContent(/loading more vehicles/i);
+      expect(screen.queryByRole('button', { name: /show more/i })).not.toBeInTheDocument();
+    });
+
+    it('offers a button to load more', () => {
+      const onLoadMore = jest.fn();
+      renderWithProvider(
+        <ResultsList
+          results={mockResults}
+          totalCount={20}
+          searchDuration="120ms"
+          mode="infinite"
+          hasMore
+          onLoadMore={onLoadMore}
+        />
+      );
+
+      fireEvent.click(screen.getByRole('button', { name: /show more vehicles/i }));
+
+      expect(onLoadMore).toHaveBeenCalledTimes(1);
+    });
+
+    it('leaves loading more to the button after a page fails', () => {
+      const onLoadMore = jest.fn();
+      renderWithProvider(
+        <ResultsList
+          results={mockResults}
+          totalCount={20}
+          searchDuration="120ms"
+          mode="infinite"
+          hasMore
+          onLoadMore={onLoadMore}
+          loadMoreFailed
+        />
+      );
+
+      expect(screen.queryByTestId('load-more-sentinel')).not.toBeInTheDocument();
+      expect(observe).not.toHaveBeenCalled();
+
+      fireEvent.click(screen.getByRole('button', { name: /show more vehicles/i }));
+
+      expect(onLoadMore).toHaveBeenCalledTimes(1);
+    });
+
+    it('stops once every result is loaded', () => {
+      renderWithProvider(
+        <ResultsList
+          results={mockResults}
+          totalCount={2}
+          searchDuration="120ms"
+          mode="infinite"
+          hasMore={false}
+          onLoadMore={jest.fn()}
+        />
+      );
+
+      expect(screen.queryByTestId('load-more-sentinel')).not.toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: /show more/i })).not.toBeInTheDocument();
+    });
+  });
+
+  describe('reordering', () => {
+    const offsetTop = Object.getOwnPropertyDescriptor(HTMLElement.prototype, 'offsetTop')!;
+    let animate: jest.Mock;
+
+    beforeEach(() => {
+      // jsdom has no layout, so each card sits 100px below the one before it
+      Object.defineProperty(HTMLElement.prototype, 'offsetTop', {
+        configurable: true,
+        get(this: HTMLElement) {
+          return this.parentElement ? Array.from(this.parentElement.children).indexOf(this) * 100 : 0;
+        },
+      });
+      animate = jest.fn();
+      HTMLElement.prototype.animate = animate;
+    });
+
+    afterEach(() => {
+      Object.defineProperty(HTMLElement.prototype, 'offsetTop', offsetTop);
+      delete (HTMLElement.prototype as Partial<HTMLElement>).animate;
+    });
+
+    it('slides cards from their old places when the order changes', () => {
+      const { rerender } = renderWithProvider(
+        <ResultsList results={mockResults} totalCount={2} searchDuration="120ms" />
+      );
+      expect(animate).not.toHaveBeenCalled();
+
+      rerender(
+        <ComparisonProvider>
+          <ResultsList results={[mockResults[1], mockResults[0]]} totalCount={2} searchDuration="120ms" />
+        </ComparisonProvider>
+      );
+
+      expect(animate).toHaveBeenCalledTimes(2);
+      expect(animate).toHaveBeenCalledWith(
+        [{ transform: 'translate(0px, 100px)' }, { transform: 'none' }],
+        expect.objectContaining({ duration: 300 })
+      );
+    });
+  });
 });
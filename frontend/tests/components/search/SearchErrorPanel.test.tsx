@@ -0,0 +1,82 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { SearchErrorPanel } from '@/components/search/SearchErrorPanel';
+import { SearchError } from '@/lib/api/safety';
+
+const safetyError = (
+  violation: Extract<SearchError, { kind: 'safety' }>['violation'],
+  query = 'query'
+): SearchError => ({ kind: 'safety', violation, message: 'Rejected', query, errors: [] });
+
+describe('SearchErrorPanel', () => {
+  it('offers example vehicle searches for off-topic queries', async () => {
+    const onSearch = jest.fn();
+    render(<SearchErrorPanel error={safetyError('OffTopic', 'What is the weather?')} onSearch={onSearch} />);
+
+    expect(screen.getByRole('alert')).toHaveTextContent(/doesn't look like a vehicle search/i);
+
+    await userEvent.click(screen.getByRole('button', { name: 'Reliable BMW under £20k' }));
+    expect(onSearch).toHaveBeenCalledWith('Reliable BMW under £20k');
+  });
+
+  it('trims over-long queries to the length limit', async () => {
+    const onSearch = jest.fn();
+    const longQuery = 'I am looking for a car '.repeat(50);
+    render(<SearchErrorPanel error={safetyError('ExcessiveLength', longQuery)} onSearch={onSearch} />);
+
+    expect(screen.getByRole('alert')).toHaveTextContent(`yours has ${longQuery.length}`);
+
+    await userEvent.click(screen.getByRole('button', { name: /search the first 500 characters/i }));
+    const trimmed = onSearch.mock.calls[0][0] as string;
+    expect(trimmed.length).toBeLessThanOrEqual(500);
+    expect(longQuery.startsWith(trimmed)).toBe(true);
+  });
+
+  it('strips special characters for invalid-character rejections', async () => {
+    const onSearch = jest.fn();
+    render(
+      <SearchErrorPanel error={safetyError('InvalidCharacters', 'BMW <<<>>> {{{}}} £20k')} onSearch={onSearch} />
+    );
+
+    await userEvent.click(screen.getByRole('button', { name: /without special characters/i }));
+    expect(onSearch).toHaveBeenCalledWith('BMW £20k');
+  });
+
+  it('asks for narrower criteria on bulk extraction', () => {
+    render(<SearchErrorPanel error={safetyError('BulkExtraction')} onSearch={jest.fn()} />);
+
+    expect(screen.getByRole('alert')).toHaveTextContent(/narrow your search/i);
+  });
+
+  it('shows when a blocked session can search again without offering a retry', () => {
+    render(
+      <SearchErrorPanel
+        error={{ kind: 'sessionBlocked', message: 'Blocked', blockedUntil: '2024-01-28T11:00:00Z' }}
+        onSearch={jest.fn()}
+      />
+    );
+
+    expect(screen.getByRole('alert')).toHaveTextContent(/temporarily blocked/i);
+    expect(screen.queryByRole('button')).not.toBeInTheDocument();
+  });
+
+  it('shows the countdown banner while rate limited', () => {
+    render(
+      <SearchErrorPanel
+        error={{ kind: 'rateLimited', message: 'Rate limit exceeded', retryAfter: 30 }}
+        blockedUntil={Date.now() + 30000}
+        onSearch={jest.fn()}
+      />
+    );
+
+    expect(screen.getByRole('alert')).toHaveTextContent(/search again in/i);
+  });
+
+  it('retries the same query after a network failure', async () => {
+    const onSearch = jest.fn();
+    render(<SearchErrorPanel error={{ kind: 'network', message: 'fetch failed', query: 'BMW' }} onSearch={onSearch} />);
+
+    await userEvent.click(screen.getByRole('button', { name: /try again/i }));
+    expect(onSearch).toHaveBeenCalledWith('BMW');
+  });
+});
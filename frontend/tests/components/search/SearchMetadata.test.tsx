@@ -0,0 +1,114 @@
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { SearchMetadata } from '@/components/search/SearchMetadata';
+import { SearchStrategy } from '@/lib/api/types';
+
+// Radix Select relies on browser APIs jsdom leaves out
+Element.prototype.hasPointerCapture = () => false;
+Element.prototype.releasePointerCapture = () => {};
+Element.prototype.scrollIntoView = () => {};
+
+const hybrid: SearchStrategy = {
+  name: 'Hybrid',
+  approaches: ['ExactMatch', 'SemanticSearch'],
+  weights: { ExactMatch: 0.3, SemanticSearch: 0.7 },
+  shouldRerank: true,
+};
+
+const stages = [
+  { name: 'strategy', durationMs: 0.42 },
+  { name: 'exact', durationMs: 38.6 },
+  { name: 'semantic', durationMs: 95.2 },
+  { name: 'reranked', durationMs: 120.7 },
+];
+
+describe('SearchMetadata', () => {
+  it('shows the result count and duration', () => {
+    render(<SearchMetadata totalCount={1} searchDuration="120.50ms" />);
+
+    expect(screen.getByText('1 result found')).toBeInTheDocument();
+    expect(screen.getByText('120.50ms')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'How we searched' })).not.toBeInTheDocument();
+  });
+
+  it('shows how the search ran when opened', async () => {
+    const user = userEvent.setup();
+    render(<SearchMetadata totalCount={12} searchDuration="254.90ms" strategy={hybrid} stages={stages} />);
+
+    const toggle = screen.getByRole('button', { name: 'How we searched' });
+    expect(toggle).toHaveAttribute('aria-expanded', 'false');
+    await user.click(toggle);
+
+    const details = screen.getByRole('dialog', { name: 'How we searched' });
+    expect(toggle).toHaveAttribute('aria-expanded', 'true');
+    expect(within(details).getByText('Hybrid')).toBeInTheDocument();
+    expect(within(details).getByText('Yes')).toBeInTheDocument();
+
+    const approaches = within(screen.getByRole('list', { name: 'Approaches' })).getAllByRole('listitem');
+    expect(approaches.map((item) => item.textContent)).toEqual(['Exact match30%', 'Semantic search70%']);
+
+    const timings = within(screen.getByRole('list', { name: 'Stage timings' })).getAllByRole('listitem');
+    expect(timings.map((item) => item.textContent)).toEqual([
+      'Choosing the strategy0.4 ms',
+      'Exact matches39 ms',
+      'Semantic matches95 ms',
+      'Final ranking121 ms',
+    ]);
+  });
+
+  it('closes the details on Escape', async () => {
+    const user = userEvent.setup();
+    render(<SearchMetadata totalCount={12} searchDuration="254.90ms" strategy={hybrid} />);
+
+    await user.click(screen.getByRole('button', { name: 'How we searched' }));
+    await user.keyboard('{Escape}');
+
+    expect(screen.queryByRole('dialog', { name: 'How we searched' })).not.toBeInTheDocument();
+  });
+
+  it('lets the next search use a chosen strategy', async () => {
+    const user = userEvent.setup();
+    const onNextStrategyChange = jest.fn();
+    render(
+      <SearchMetadata
+        totalCount={12}
+        searchDuration="254.90ms"
+        strategy={hybrid}
+        onNextStrategyChange={onNextStrategyChange}
+      />
+    );
+
+    await user.click(screen.getByRole('button', { name: 'How we searched' }));
+    const select = screen.getByRole('combobox', { name: 'Next search' });
+    expect(select).toHaveTextContent('Automatic');
+
+    await user.click(select);
+    await user.click(screen.getByRole('option', { name: 'Exact match only' }));
+
+    expect(onNextStrategyChange).toHaveBeenCalledWith('ExactOnly');
+    // Choosing closes the select, leaving the details open
+    expect(screen.getByRole('dialog', { name: 'How we searched' })).toBeInTheDocument();
+  });
+
+  it('shows the strategy the next search will use', async () => {
+    const user = userEvent.setup();
+    const onNextStrategyChange = jest.fn();
+    render(
+      <SearchMetadata
+        totalCount={12}
+        searchDuration="254.90ms"
+        strategy={hybrid}
+        nextStrategy="SemanticOnly"
+        onNextStrategyChange={onNextStrategyChange}
+      />
+    );
+
+    expect(screen.getByText('Next search: Semantic only')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'How we searched' }));
+    await user.click(screen.getByRole('combobox', { name: 'Next search' }));
+    await user.click(screen.getByRole('option', { name: 'Automatic' }));
+
+    expect(onNextStrategyChange).toHaveBeenCalledWith(null);
+  });
+});
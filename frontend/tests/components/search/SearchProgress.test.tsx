@@ -0,0 +1,28 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { SearchProgress } from '@/components/search/SearchProgress';
+
+describe('SearchProgress', () => {
+  it('starts by understanding the query', () => {
+    render(<SearchProgress stage={null} onCancel={jest.fn()} />);
+
+    expect(screen.getByRole('status')).toHaveTextContent('Understanding your search…');
+  });
+
+  it('marks the stages reached so far', () => {
+    render(<SearchProgress stage="exact" onCancel={jest.fn()} />);
+
+    expect(screen.getByRole('status')).toHaveTextContent('Looking for similar vehicles…');
+    expect(screen.getByText('Exact matches').closest('li')).toHaveAttribute('aria-current', 'step');
+    expect(screen.getByText('Understood').closest('li')).toHaveClass('text-foreground');
+    expect(screen.getByText('Ranked').closest('li')).not.toHaveClass('text-foreground');
+  });
+
+  it('cancels the search', () => {
+    const onCancel = jest.fn();
+    render(<SearchProgress stage="composed" onCancel={onCancel} />);
+
+    fireEvent.click(screen.getByRole('button', { name: /cancel/i }));
+
+    expect(onCancel).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,47 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { SearchQuerySummary } from '@/components/search/SearchQuerySummary';
+
+describe('SearchQuerySummary', () => {
+  it('shows the query with each filter as a chip', () => {
+    render(
+      <SearchQuerySummary
+        query="family estate"
+        filters={{ priceRange: { min: 5000, max: 20000 }, make: ['Volvo'], transmission: ['Automatic'] }}
+      />
+    );
+
+    expect(screen.getByText('family estate')).toBeInTheDocument();
+    const chips = screen.getAllByRole('listitem').map((chip) => chip.textContent);
+    expect(chips).toEqual(['£5,000 – £20,000', 'Volvo', 'Automatic']);
+  });
+
+  it('shows no chips without filters', () => {
+    render(<SearchQuerySummary query="family estate" filters={{}} />);
+
+    expect(screen.queryByRole('list', { name: /applied filters/i })).not.toBeInTheDocument();
+  });
+
+  it('removes a filter from its chip', async () => {
+    const onRemoveFilter = jest.fn();
+    render(
+      <SearchQuerySummary
+        query="family estate"
+        filters={{ mileageRange: { max: 60000 }, yearMin: 2018 }}
+        onRemoveFilter={onRemoveFilter}
+      />
+    );
+
+    await userEvent.click(screen.getByRole('button', { name: 'Remove filter 2018 or newer' }));
+
+    expect(onRemoveFilter).toHaveBeenCalledWith('yearMin');
+  });
+
+  it('disables removal while a search is running', () => {
+    render(
+      <SearchQuerySummary query="family estate" filters={{ make: ['BMW'] }} onRemoveFilter={jest.fn()} disabled />
+    );
+
+    expect(screen.getByRole('button', { name: 'Remove filter BMW' })).toBeDisabled();
+  });
+});
@@ -0,0 +1,50 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { SortSelect } from '@/components/search/SortSelect';
+
+// Radix Select relies on browser APIs jsdom leaves out
+Element.prototype.hasPointerCapture = () => false;
+Element.prototype.releasePointerCapture = () => {};
+Element.prototype.scrollIntoView = () => {};
+
+describe('SortSelect', () => {
+  it('shows best match when no sort is chosen', () => {
+    render(<SortSelect onChange={jest.fn()} />);
+
+    expect(screen.getByRole('combobox', { name: 'Sort results' })).toHaveTextContent('Best match');
+  });
+
+  it('shows the chosen sort', () => {
+    render(<SortSelect value="mot-desc" onChange={jest.fn()} />);
+
+    expect(screen.getByRole('combobox', { name: 'Sort results' })).toHaveTextContent('Longest MOT');
+  });
+
+  it('reports the sort chosen', async () => {
+    const user = userEvent.setup();
+    const onChange = jest.fn();
+    render(<SortSelect onChange={onChange} />);
+
+    await user.click(screen.getByRole('combobox', { name: 'Sort results' }));
+    await user.click(screen.getByRole('option', { name: 'Lowest mileage' }));
+
+    expect(onChange).toHaveBeenCalledWith('mileage-asc');
+  });
+
+  it('reports relevance as no sort', async () => {
+    const user = userEvent.setup();
+    const onChange = jest.fn();
+    render(<SortSelect value="price-asc" onChange={onChange} />);
+
+    await user.click(screen.getByRole('combobox', { name: 'Sort results' }));
+    await user.click(screen.getByRole('option', { name: 'Best match' }));
+
+    expect(onChange).toHaveBeenCalledWith(undefined);
+  });
+
+  it('can be disabled', () => {
+    render(<SortSelect onChange={jest.fn()} disabled />);
+
+    expect(screen.getByRole('combobox', { name: 'Sort results' })).toBeDisabled();
+  });
+});
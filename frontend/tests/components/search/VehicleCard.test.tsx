@@ -1,9 +1,23 @@
 import { render, screen } from '@testing-library/react';
+import { SWRConfig } from 'swr';
 import { VehicleCard } from '@/components/search/VehicleCard';
+import * as conceptsApi from '@/lib/api/concepts';
+import * as explainApi from '@/lib/api/explain';
+import type { ParseQueryResponse } from '@/lib/api/generated';
 import { VehicleResult } from '@/lib/api/types';
 import { ComparisonProvider } from '@/lib/context/ComparisonContext';
 import userEvent from '@testing-library/user-event';
 
+// Mock the APIs, keeping the contribution maths and indicator naming
+jest.mock('@/lib/api/concepts', () => ({
+  ...jest.requireActual('@/lib/api/concepts'),
+  scoreConcept: jest.fn(),
+}));
+jest.mock('@/lib/api/explain', () => ({
+  ...jest.requireActual('@/lib/api/explain'),
+  explainMatch: jest.fn(),
+}));
+
 const mockResult: VehicleResult = {
   vehicle: {
     id: 'TEST123',
@@ -29,13 +43,29 @@ const mockResult: VehicleResult = {
   },
 };
 
+const query: ParseQueryResponse = {
+  originalQuery: 'BMW under 20k',
+  intent: 'search',
+  confidence: 0.9,
+  entities: [{ type: 'Make', value: 'BMW', confidence: 0.95, startPosition: 0, endPosition: 3 }],
+  unmappedTerms: [],
+};
+
 const renderWithProvider = (ui: React.ReactElement) => {
-  return render(<ComparisonProvider>{ui}</ComparisonProvider>);
+  return render(
+    <SWRConfig value={{ provider: () => new Map(), dedupingInterval: 0 }}>
+      <ComparisonProvider>{ui}</ComparisonProvider>
+    </SWRConfig>
+  );
 };
 
 describe('VehicleCard', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
   it('renders all vehicle details', () => {
-    renderWithProvider(<VehicleCard result={mockResult} rank={1} />);
+    renderWithProvider(<VehicleCard result={mockResult} position={1} />);
 
     expect(screen.getByText('BMW 3 Series')).toBeInTheDocument();
     expect(screen.getByText('320d M Sport')).toBeInTheDocument();
@@ -48,17 +78,17 @@ describe('VehicleCard', () => {
   });
 
   it('formats price correctly', () => {
-    renderWithProvider(<VehicleCard result={mockResult} rank={1} />);
+    renderWithProvider(<VehicleCard result={mockResult} position={1} />);
     expect(screen.getByText('£18,500')).toBeInTheDocument();
   });
 
   it('shows relevance score', () => {
-    renderWithProvider(<VehicleCard result={mockResult} rank={1} />);
+    renderWithProvider(<VehicleCard result={mockResult} position={1} />);
     expect(screen.getByText(/Match: 85%/)).toBeInTheDocument();
   });
 
   it('toggles explanation', async () => {
-    renderWithProvider(<VehicleCard result={mockResult} rank={1} />);
+    renderWithProvider(<VehicleCard result={mockResult} position={1} />);
 
     const toggleButton = screen.getByRole('button', { name: /Why this match?/i });
     await userEvent.click(toggleButton);
@@ -67,8 +97,83 @@ describe('VehicleCard', () => {
     expect(screen.getByRole('button', { name: /Hide explanation/i })).toBeInTheDocument();
   });
 
+  it('explains the match factor by factor when opened', async () => {
+    (explainApi.explainMatch as jest.Mock).mockResolvedValue({
+      score: 0.8,
+      explanation: 'This BMW 3 Series is a strong match.',
+      components: [
+        { factor: 'Price Match', score: 0.5, weight: 0.4, reason: 'Slightly over budget' },
+        { factor: 'Make Match', score: 1, weight: 0.4, reason: 'Exact match for BMW' },
+      ],
+    });
+    renderWithProvider(<VehicleCard result={mockResult} position={1} query={query} />);
+    expect(explainApi.explainMatch).not.toHaveBeenCalled();
+
+    await userEvent.click(screen.getByRole('button', { name: /Why this match?/i }));
+
+    expect(await screen.findByText('This BMW 3 Series is a strong match.')).toBeInTheDocument();
+    expect(explainApi.explainMatch).toHaveBeenCalledWith('TEST123', query);
+    const factors = screen.getAllByRole('listitem');
+    expect(factors[0]).toHaveTextContent('Make Match');
+    expect(factors[0]).toHaveTextContent('50% of 50%');
+    expect(factors[0]).toHaveTextContent('Exact match for BMW');
+    expect(factors[1]).toHaveTextContent('Price Match');
+    expect(factors[1]).toHaveTextContent('25% of 50%');
+  });
+
+  it('keeps the explanation when reopened', async () => {
+    (explainApi.explainMatch as jest.Mock).mockResolvedValue({
+      score: 1,
+      explanation: 'An exact match.',
+      components: [{ factor: 'Make Match', score: 1, weight: 0.4, reason: 'Exact match for BMW' }],
+    });
+    renderWithProvider(<VehicleCard result={mockResult} position={1} query={query} />);
+
+    await userEvent.click(screen.getByRole('button', { name: /Why this match?/i }));
+    await screen.findByText('An exact match.');
+    await userEvent.click(screen.getByRole('button', { name: /Hide explanation/i }));
+    await userEvent.click(screen.getByRole('button', { name: /Why this match?/i }));
+
+    expect(screen.getByText('An exact match.')).toBeInTheDocument();
+    expect(explainApi.explainMatch).toHaveBeenCalledTimes(1);
+  });
+
+  it('falls back to the scores when the explanation fails', async () => {
+    (explainApi.explainMatch as jest.Mock).mockRejectedValue(new Error('Failed to explain match'));
+    renderWithProvider(<VehicleCard result={mockResult} position={1} query={query} />);
+
+    await userEvent.click(screen.getByRole('button', { name: /Why this match?/i }));
+
+    expect(await screen.findByText(/couldn't explain this match/i)).toBeInTheDocument();
+    expect(screen.getByText(/85% match/)).toBeInTheDocument();
+    expect(screen.getByText(/Similarity to your search: 90%/)).toBeInTheDocument();
+  });
+
+  it('shows how well the vehicle fits the concepts searched for', async () => {
+    (conceptsApi.scoreConcept as jest.Mock).mockResolvedValue({
+      overallScore: 0.9,
+      componentScores: { mileage: 1 },
+      matchingAttributes: ['mileage'],
+      mismatchingAttributes: [],
+      descriptionBoost: 0,
+      matchedPositiveIndicators: [],
+      matchedNegativeIndicators: [],
+    });
+    renderWithProvider(<VehicleCard result={mockResult} position={1} concepts={['reliable']} />);
+
+    expect(await screen.findByRole('meter', { name: 'reliable fit' })).toHaveAttribute('aria-valuenow', '90');
+    expect(screen.getByRole('link')).toHaveAttribute('href', '/vehicles/TEST123?concepts=reliable');
+  });
+
+  it('leaves out the concept fit when the search named no concepts', () => {
+    renderWithProvider(<VehicleCard result={mockResult} position={1} />);
+
+    expect(screen.queryByRole('region', { name: 'Concept fit' })).not.toBeInTheDocument();
+    expect(screen.getByRole('link')).toHaveAttribute('href', '/vehicles/TEST123');
+  });
+
   it('displays features badges', () => {
-    renderWithProvider(<VehicleCard result={mockResult} rank={1} />);
+    renderWithProvider(<VehicleCard result={mockResult} position={1} />);
 
     // Should show first 5 features
     expect(screen.getByText('Leather Seats')).toBeInTheDocument();
@@ -82,19 +187,29 @@ describe('VehicleCard', () => {
   });
 
   it('clamps description to 2 lines', () => {
-    renderWithProvider(<VehicleCard result={mockResult} rank={1} />);
+    renderWithProvider(<VehicleCard result={mockResult} position={1} />);
 
     const description = screen.getByText(/Excellent condition BMW/);
     expect(description).toHaveClass('line-clamp-2');
   });
 
   it('shows rank badge', () => {
-    renderWithProvider(<VehicleCard result={mockResult} rank={1} />);
+    renderWithProvider(<VehicleCard result={mockResult} position={1} />);
     expect(screen.getByText('#1')).toBeInTheDocument();
   });
 
+  it('shows the relevance rank when sorted into another position', () => {
+    renderWithProvider(<VehicleCard result={{ ...mockResult, rank: 4 }} position={1} />);
+    expect(screen.getByText('Relevance #4')).toBeInTheDocument();
+  });
+
+  it('leaves out the relevance rank when it matches the position', () => {
+    renderWithProvider(<VehicleCard result={{ ...mockResult, rank: 1 }} position={1} />);
+    expect(screen.queryByText(/Relevance #/)).not.toBeInTheDocument();
+  });
+
   it('shows service history badge', () => {
-    renderWithProvider(<VehicleCard result={mockResult} rank={1} />);
+    renderWithProvider(<VehicleCard result={mockResult} position={1} />);
     const badges = screen.getAllByText(/Full Service History/i);
     expect(badges.length).toBeGreaterThan(0);
   });
@@ -114,7 +229,7 @@ describe('VehicleCard', () => {
       score: 0.6,
     };
 
-    renderWithProvider(<VehicleCard result={minimalResult} rank={2} />);
+    renderWithProvider(<VehicleCard result={minimalResult} position={2} />);
 
     expect(screen.getByText('Ford Focus')).toBeInTheDocument();
     expect(screen.getByText('£12,000')).toBeInTheDocument();
@@ -1,27 +1,89 @@
+import { createElement, ReactNode } from 'react';
 import { renderHook, act, waitFor } from '@testing-library/react';
+import { SWRConfig } from 'swr';
 import { useSearch } from '@/lib/hooks/useSearch';
-import * as searchApi from '@/lib/api/search';
+import * as pipelineApi from '@/lib/api/pipeline';
+import { SearchApiError } from '@/lib/api/errors';
+import { QueryUnderstanding, SearchResults } from '@/lib/api/types';
 
-// Mock the search API
-jest.mock('@/lib/api/search');
+// Mock the search pipeline
+jest.mock('@/lib/api/pipeline');
 
-const mockSearchVehicles = searchApi.searchVehicles as jest.MockedFunction<
-  typeof searchApi.searchVehicles
+const mockRunSearchPipeline = pipelineApi.runSearchPipeline as jest.MockedFunction<
+  typeof pipelineApi.runSearchPipeline
+>;
+const mockFetchResultsPage = pipelineApi.fetchResultsPage as jest.MockedFunction<
+  typeof pipelineApi.fetchResultsPage
 >;
 
+const mockUnderstanding: QueryUnderstanding = {
+  parsed: {
+    originalQuery: 'BMW under £20k',
+    intent: 'search',
+    confidence: 0.9,
+    entities: [{ type: 'Make', value: 'BMW', confidence: 0.95, startPosition: 0, endPosition: 3 }],
+    unmappedTerms: [],
+  },
+  composed: {
+    type: 'Filtered',
+    constraintGroups: [],
+    groupOperator: 'And',
+    warnings: [],
+    hasConflicts: false,
+  },
+  endpoint: 'search',
+};
+
+const pipelineResult = (results: SearchResults) => ({ results, understanding: mockUnderstanding });
+
+  const resultsFor = (make: string): SearchResults => ({
+    results: [
+      {
+        vehicle: {
+          id: make,
+          make,
+          model: 'Any',
+          price: 10000,
+          mileage: 1000,
+          transmissionType: 'Manual',
+          fuelType: 'Petrol',
+          saleLocation: 'Leeds',
+        },
+        score: 0.5,
+      },
+    ],
+    totalCount: 1,
+    searchDuration: '10ms',
+    strategy: { name: 'hybrid', approaches: [], weights: {}, shouldRerank: false },
+  });
+
+  const deferred = () => {
+    let resolve!: (value: ReturnType<typeof pipelineResult>) => void;
+    const promise = new Promise<ReturnType<typeof pipelineResult>>((r) => {
+      resolve = r;
+    });
+    return { promise, resolve };
+  };
+
+// Each test gets its own cache; sharing one between hooks stands for a single browser tab
+const withCache = (cache = new Map()) =>
+  function CacheProvider({ children }: { children: ReactNode }) {
+    return createElement(SWRConfig, { value: { provider: () => cache } }, children);
+  };
+
 describe('useSearch', () => {
   beforeEach(() => {
     jest.clearAllMocks();
   });
 
   it('manages loading state', async () => {
-    mockSearchVehicles.mockImplementation(
-      () => new Promise((resolve) => setTimeout(() => resolve({
+    mockRunSearchPipeline.mockImplementation(
+      () => new Promise((resolve) => setTimeout(() => resolve(pipelineResult({
         results: [],
         totalCount: 0,
         searchDuration: '100ms',
-        strategy: { name: 'hybrid' },
-      }), 100))
+        strategy: { name: 'hybrid', approaches: [], weights: {}, shouldRerank: false },
+      })), 100))
     );
 
     const { result } = renderHook(() => useSearch('test-session'));
@@ -58,10 +120,10 @@ describe('useSearch', () => {
       ],
       totalCount: 1,
       searchDuration: '150ms',
-      strategy: { name: 'hybrid' },
+      strategy: { name: 'hybrid', approaches: [], weights: {}, shouldRerank: false },
     };
 
-    mockSearchVehicles.mockResolvedValue(mockResults);
+    mockRunSearchPipeline.mockResolvedValue(pipelineResult(mockResults));
 
     const { result } = renderHook(() => useSearch('test-session'));
 
@@ -70,12 +132,30 @@ describe('useSearch', () => {
     });
 
     expect(result.current.results).toEqual(mockResults);
+    expect(result.current.understanding).toEqual(mockUnderstanding);
     expect(result.current.error).toBeNull();
   });
 
+  it('sends refinement filters with the query', async () => {
+    mockRunSearchPipeline.mockResolvedValue(pipelineResult(resultsFor('BMW')));
+    const { result } = renderHook(() => useSearch('test-session'), { wrapper: withCache() });
+
+    await act(async () => {
+      await result.current.search('BMW', { filters: { make: ['BMW'], yearMin: 2018 } });
+    });
+    await act(async () => {
+      await result.current.search('BMW', { filters: {} });
+    });
+
+    expect(mockRunSearchPipeline.mock.calls.map((call) => call[0])).toEqual([
+      { query: 'BMW', sessionId: 'test-session', maxResults: 10, filters: { make: ['BMW'], yearMin: 2018 } },
+      { query: 'BMW', sessionId: 'test-session', maxResults: 10, filters: undefined },
+    ]);
+  });
+
   it('handles API errors', async () => {
     const errorMessage = 'Search failed';
-    mockSearchVehicles.mockRejectedValue(new Error(errorMessage));
+    mockRunSearchPipeline.mockRejectedValue(new Error(errorMessage));
 
     const { result } = renderHook(() => useSearch('test-session'));
 
@@ -83,7 +163,7 @@ describe('useSearch', () => {
       await result.current.search('test query');
     });
 
-    expect(result.current.error).toBe(errorMessage);
+    expect(result.current.error).toMatchObject({ kind: 'unknown', message: errorMessage });
     expect(result.current.results).toBeNull();
   });
 
@@ -94,11 +174,13 @@ describe('useSearch', () => {
       await result.current.search('test query');
     });
 
-    expect(mockSearchVehicles).toHaveBeenCalledWith(
+    expect(mockRunSearchPipeline).toHaveBeenCalledWith(
       expect.objectContaining({
         query: 'test query',
         sessionId: undefined,
-      })
+      }),
+      expect.any(AbortSignal),
+      expect.any(Function)
     );
   });
 
@@ -125,17 +207,20 @@ describe('useSearch', () => {
       await result.current.search('');
     });
 
-    expect(mockSearchVehicles).not.toHaveBeenCalled();
-    expect(result.current.error).toBe('Please enter a search query');
+    expect(mockRunSearchPipeline).not.toHaveBeenCalled();
+    expect(result.current.error).toMatchObject({
+      kind: 'validation',
+      message: 'Please enter a search query',
+    });
   });
 
   it('trims whitespace from query', async () => {
-    mockSearchVehicles.mockResolvedValue({
+    mockRunSearchPipeline.mockResolvedValue(pipelineResult({
       results: [],
       totalCount: 0,
       searchDuration: '50ms',
-      strategy: { name: 'hybrid' },
-    });
+      strategy: { name: 'hybrid', approaches: [], weights: {}, shouldRerank: false },
+    }));
 
     const { result } = renderHook(() => useSearch('test-session'));
 
@@ -143,7 +228,577 @@ describe('useSearch', () => {
       await result.current.search('   ');
     });
 
-    expect(mockSearchVehicles).not.toHaveBeenCalled();
-    expect(result.current.error).toBe('Please enter a search query');
+    expect(mockRunSearchPipeline).not.toHaveBeenCalled();
+    expect(result.current.error).toMatchObject({
+      kind: 'validation',
+      message: 'Please enter a search query',
+    });
+  });
+
+  describe('cancellation', () => {
+    it('aborts a superseded search and ignores its late response', async () => {
+      const first = deferred();
+      const second = deferred();
+      mockRunSearchPipeline
+        .mockImplementationOnce(() => first.promise)
+        .mockImplementationOnce(() => second.promise);
+
+      const { result } = renderHook(() => useSearch('test-session'));
+
+      act(() => {
+        result.current.search('BMW');
+      });
+      act(() => {
+        result.current.search('Audi');
+      });
+
+      const firstSignal = mockRunSearchPipeline.mock.calls[0][1] as AbortSignal;
+      expect(firstSignal.aborted).toBe(true);
+
+      await act(async () => {
+        second.resolve(pipelineResult(resultsFor('Audi')));
+      });
+      await act(async () => {
+        first.resolve(pipelineResult(resultsFor('BMW')));
+      });
+
+      expect(result.current.results?.results[0].vehicle.make).toBe('Audi');
+      expect(result.current.isLoading).toBe(false);
+    });
+
+    it('marks results stale while a newer search is in flight', async () => {
+      const pending = deferred();
+      mockRunSearchPipeline
+        .mockResolvedValueOnce(pipelineResult(resultsFor('BMW')))
+        .mockImplementationOnce(() => pending.promise);
+
+      const { result } = renderHook(() => useSearch('test-session'));
+
+      await act(async () => {
+        await result.current.search('BMW');
+      });
+      expect(result.current.isStale).toBe(false);
+
+      act(() => {
+        result.current.search('Audi');
+      });
+      expect(result.current.isStale).toBe(true);
+
+      await act(async () => {
+        pending.resolve(pipelineResult(resultsFor('Audi')));
+      });
+      expect(result.current.isStale).toBe(false);
+    });
+
+    it('marks results stale when the same query is searched with other filters', async () => {
+      const pending = deferred();
+      mockRunSearchPipeline
+        .mockResolvedValueOnce(pipelineResult(resultsFor('BMW')))
+        .mockImplementationOnce(() => pending.promise);
+
+      const { result } = renderHook(() => useSearch('test-session'));
+
+      await act(async () => {
+        await result.current.search('BMW', { filters: { fuelType: ['Diesel'] } });
+      });
+      expect(result.current.isStale).toBe(false);
+
+      act(() => {
+        result.current.search('BMW', { filters: { fuelType: ['Petrol'] } });
+      });
+      expect(result.current.isStale).toBe(true);
+
+      await act(async () => {
+        pending.resolve(pipelineResult(resultsFor('BMW')));
+      });
+      expect(result.current.isStale).toBe(false);
+    });
+
+    it('cancel() aborts the in-flight search without reporting an error', async () => {
+      mockRunSearchPipeline
+        .mockResolvedValueOnce(pipelineResult(resultsFor('Audi')))
+        .mockImplementationOnce(
+          (_request, signal) =>
+            new Promise((_resolve, reject) => {
+              signal?.addEventListener('abort', () =>
+                reject(new DOMException('The operation was aborted.', 'AbortError'))
+              );
+            })
+        );
+
+      const { result } = renderHook(() => useSearch('test-session'));
+
+      await act(async () => {
+        await result.current.search('Audi');
+      });
+
+      let searchPromise: Promise<void>;
+      act(() => {
+        searchPromise = result.current.search('BMW');
+      });
+      expect(result.current.isLoading).toBe(true);
+      expect(result.current.isStale).toBe(true);
+
+      await act(async () => {
+        result.current.cancel();
+        await searchPromise;
+      });
+
+      expect(result.current.isLoading).toBe(false);
+      expect(result.current.error).toBeNull();
+      // The earlier results stand, no longer waiting on a newer search
+      expect(result.current.isStale).toBe(false);
+      expect(result.current.query).toBe('Audi');
+      expect(result.current.results?.results[0].vehicle.make).toBe('Audi');
+    });
+  });
+
+  describe('streaming', () => {
+    it('shows each stage\'s results while the search is still running', async () => {
+      const pending = deferred();
+      let report!: Parameters<typeof pipelineApi.runSearchPipeline>[2];
+      mockRunSearchPipeline.mockImplementation((_request, _signal, onProgress) => {
+        report = onProgress;
+        return pending.promise;
+      });
+
+      const { result } = renderHook(() => useSearch('test-session'));
+
+      act(() => {
+        result.current.search('BMW');
+      });
+      expect(result.current.progress).toBeNull();
+
+      act(() => {
+        report!({ stage: 'parsed', parsed: mockUnderstanding.parsed! });
+        report!({ stage: 'exact', results: resultsFor('BMW') });
+      });
+
+      expect(result.current.progress).toBe('exact');
+      expect(result.current.results?.results[0].vehicle.id).toBe('BMW');
+      expect(result.current.isStale).toBe(false);
+      expect(result.current.isLoading).toBe(true);
+
+      await act(async () => {
+        pending.resolve(pipelineResult(resultsFor('Audi')));
+      });
+
+      expect(result.current.results?.results[0].vehicle.id).toBe('Audi');
+      expect(result.current.progress).toBeNull();
+      expect(result.current.isLoading).toBe(false);
+    });
+
+    it('ignores progress from a superseded search', async () => {
+      const reports: Array<Parameters<typeof pipelineApi.runSearchPipeline>[2]> = [];
+      mockRunSearchPipeline.mockImplementation((_request, _signal, onProgress) => {
+        reports.push(onProgress);
+        return new Promise(() => {});
+      });
+
+      const { result } = renderHook(() => useSearch('test-session'));
+
+      act(() => {
+        result.current.search('BMW');
+      });
+      act(() => {
+        result.current.search('Audi');
+      });
+      act(() => {
+        reports[0]!({ stage: 'exact', results: resultsFor('BMW') });
+      });
+
+      expect(result.current.results).toBeNull();
+      expect(result.current.progress).toBeNull();
+    });
+
+    it('makes a single request when streaming is turned off', async () => {
+      mockRunSearchPipeline.mockResolvedValue(pipelineResult(resultsFor('BMW')));
+
+      const { result } = renderHook(() => useSearch('test-session', { streaming: false }));
+
+      await act(async () => {
+        await result.current.search('BMW');
+      });
+
+      expect(mockRunSearchPipeline).toHaveBeenCalledWith(
+        expect.objectContaining({ query: 'BMW' }),
+        expect.any(AbortSignal),
+        undefined
+      );
+    });
+  });
+
+  describe('pagination', () => {
+    // A page of `count` results whose IDs start with `prefix`, out of `totalCount`
+    const pageOf = (prefix: string, count: number, totalCount = 25): SearchResults => ({
+      ...resultsFor(prefix),
+      results: Array.from({ length: count }, (_, index) => ({
+        ...resultsFor(prefix).results[0],
+        vehicle: { ...resultsFor(prefix).results[0].vehicle, id: `${prefix}${index + 1}` },
+      })),
+      totalCount,
+    });
+
+    const ids = (results: { vehicle: { id: string } }[] = []) => results.map((r) => r.vehicle.id);
+
+    const searchFirstPage = async () => {
+      mockRunSearchPipeline.mockResolvedValue(pipelineResult(pageOf('P1-', 10)));
+      const hook = renderHook(() => useSearch('test-session'), { wrapper: withCache() });
+      await act(async () => {
+        await hook.result.current.search('BMW');
+      });
+      return hook;
+    };
+
+    it('exposes page state for the first page', async () => {
+      const { result } = await searchFirstPage();
+
+      expect(result.current.page).toBe(1);
+      expect(result.current.pageSize).toBe(10);
+      expect(result.current.pageCount).toBe(3);
+      expect(result.current.hasMore).toBe(true);
+      expect(ids(result.current.pageResults)).toHaveLength(10);
+    });
+
+    it('fetches a numbered page with the matching offset', async () => {
+      mockFetchResultsPage.mockResolvedValue(pageOf('P3-', 5));
+      const { result } = await searchFirstPage();
+
+      await act(async () => {
+        await result.current.goToPage(3);
+      });
+
+      expect(mockFetchResultsPage).toHaveBeenCalledWith(
+        mockUnderstanding,
+        { query: 'BMW', sessionId: 'test-session', maxResults: 10 },
+        20,
+        expect.any(AbortSignal)
+      );
+      expect(result.current.page).toBe(3);
+      expect(ids(result.current.pageResults)).toEqual(['P3-1', 'P3-2', 'P3-3', 'P3-4', 'P3-5']);
+      // Page 2 was skipped, so the continuous list still ends after page 1
+      expect(ids(result.current.results?.results)).toHaveLength(10);
+    });
+
+    it('does not refetch a page it already has', async () => {
+      mockFetchResultsPage.mockResolvedValue(pageOf('P2-', 10));
+      const { result } = await searchFirstPage();
+
+      await act(async () => {
+        await result.current.goToPage(2);
+      });
+      await act(async () => {
+        await result.current.goToPage(1);
+      });
+
+      expect(mockFetchResultsPage).toHaveBeenCalledTimes(1);
+      expect(result.current.page).toBe(1);
+      expect(ids(result.current.pageResults)[0]).toBe('P1-1');
+    });
+
+    it('appends pages with loadMore until every result is loaded', async () => {
+      mockFetchResultsPage
+        .mockResolvedValueOnce(pageOf('P2-', 10))
+        .mockResolvedValueOnce(pageOf('P3-', 5));
+      const { result } = await searchFirstPage();
+
+      await act(async () => {
+        await result.current.loadMore();
+      });
+      await act(async () => {
+        await result.current.loadMore();
+      });
+
+      expect(mockFetchResultsPage.mock.calls.map((call) => call[2])).toEqual([10, 20]);
+      expect(ids(result.current.results?.results)).toHaveLength(25);
+      expect(ids(result.current.results?.results).slice(9, 11)).toEqual(['P1-10', 'P2-1']);
+      expect(result.current.hasMore).toBe(false);
+    });
+
+    it('reports a failed page load without losing the loaded results', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+      mockFetchResultsPage.mockRejectedValue(new SearchApiError('Search failed', 500));
+      const { result } = await searchFirstPage();
+
+      await act(async () => {
+        await result.current.loadMore();
+      });
+
+      expect(result.current.error).toMatchObject({ kind: 'unknown', message: 'Search failed' });
+      expect(result.current.isLoadingMore).toBe(false);
+      expect(ids(result.current.results?.results)).toHaveLength(10);
+      consoleSpy.mockRestore();
+    });
+
+    it('starts again from page 1 on a new search', async () => {
+      mockFetchResultsPage.mockResolvedValue(pageOf('P2-', 10));
+      const { result } = await searchFirstPage();
+      await act(async () => {
+        await result.current.goToPage(2);
+      });
+
+      mockRunSearchPipeline.mockResolvedValue(pipelineResult(pageOf('N1-', 10, 12)));
+      await act(async () => {
+        await result.current.search('Audi');
+      });
+
+      expect(result.current.page).toBe(1);
+      expect(result.current.pageCount).toBe(2);
+      expect(ids(result.current.results?.results)[0]).toBe('N1-1');
+      expect(ids(result.current.results?.results)).toHaveLength(10);
+    });
+  });
+
+  describe('sorting', () => {
+    const priced = (name: string, prices: number[]): SearchResults => ({
+      ...resultsFor('BMW'),
+      results: prices.map((price, index) => ({
+        ...resultsFor('BMW').results[0],
+        vehicle: { ...resultsFor('BMW').results[0].vehicle, id: `${index + 1}`, price },
+        rank: index + 1,
+      })),
+      totalCount: prices.length,
+      strategy: { name, approaches: [], weights: {}, shouldRerank: false },
+    });
+
+    const ids = (results: { vehicle: { id: string } }[] = []) => results.map((r) => r.vehicle.id);
+
+    it('sorts ranked results here without a new request', async () => {
+      mockRunSearchPipeline.mockResolvedValue(pipelineResult(priced('Hybrid', [20000, 15000, 18000])));
+      const { result } = renderHook(() => useSearch('test-session'), { wrapper: withCache() });
+      await act(async () => {
+        await result.current.search('BMW');
+      });
+
+      await act(async () => {
+        await result.current.sortBy('price-asc');
+      });
+
+      expect(result.current.sort).toBe('price-asc');
+      expect(ids(result.current.pageResults)).toEqual(['2', '3', '1']);
+      expect(mockRunSearchPipeline).toHaveBeenCalledTimes(1);
+      expect(mockFetchResultsPage).not.toHaveBeenCalled();
+    });
+
+    it('fetches exact matches again in the new order', async () => {
+      mockRunSearchPipeline.mockResolvedValue(pipelineResult(priced('ExactOnly', [15000, 18000, 20000])));
+      mockFetchResultsPage.mockResolvedValue(priced('ExactOnly', [20000, 18000, 15000]));
+      const { result } = renderHook(() => useSearch('test-session'), { wrapper: withCache() });
+      await act(async () => {
+        await result.current.search('BMW');
+      });
+
+      await act(async () => {
+        await result.current.sortBy('price-desc');
+      });
+
+      expect(mockFetchResultsPage).toHaveBeenCalledWith(
+        mockUnderstanding,
+        { query: 'BMW', sessionId: 'test-session', maxResults: 10, sort: 'price-desc' },
+        0,
+        expect.any(AbortSignal)
+      );
+      expect(result.current.page).toBe(1);
+      expect(result.current.results?.results.map((r) => r.vehicle.price)).toEqual([20000, 18000, 15000]);
+    });
+
+    it('sends the sort with the search', async () => {
+      mockRunSearchPipeline.mockResolvedValue(pipelineResult(priced('ExactOnly', [15000])));
+      const { result } = renderHook(() => useSearch('test-session'), { wrapper: withCache() });
+
+      await act(async () => {
+        await result.current.search('BMW', { sort: 'newest' });
+      });
+
+      expect(mockRunSearchPipeline.mock.calls[0][0]).toMatchObject({ query: 'BMW', sort: 'newest' });
+      expect(result.current.sort).toBe('newest');
+    });
+  });
+
+  describe('restore', () => {
+    const pageOf = (prefix: string, totalCount = 25): SearchResults => ({
+      ...resultsFor(prefix),
+      results: Array.from({ length: 10 }, (_, index) => ({
+        ...resultsFor(prefix).results[0],
+        vehicle: { ...resultsFor(prefix).results[0].vehicle, id: `${prefix}${index + 1}` },
+      })),
+      totalCount,
+    });
+
+    it('runs the search when this tab has not seen it', async () => {
+      mockRunSearchPipeline.mockResolvedValue(pipelineResult(pageOf('P1-')));
+      const { result } = renderHook(() => useSearch('test-session'), { wrapper: withCache() });
+
+      await act(async () => {
+        await result.current.restore('BMW');
+      });
+
+      expect(mockRunSearchPipeline).toHaveBeenCalledTimes(1);
+      expect(result.current.query).toBe('BMW');
+      expect(result.current.results?.results).toHaveLength(10);
+    });
+
+    it('shows a search it has already run without a new request', async () => {
+      const wrapper = withCache();
+      mockRunSearchPipeline.mockResolvedValue(pipelineResult(pageOf('P1-')));
+      const first = renderHook(() => useSearch('test-session'), { wrapper });
+      await act(async () => {
+        await first.result.current.search('BMW');
+      });
+      first.unmount();
+      mockRunSearchPipeline.mockClear();
+
+      const { result } = renderHook(() => useSearch('test-session'), { wrapper });
+      await act(async () => {
+        await result.current.restore('BMW');
+      });
+
+      expect(mockRunSearchPipeline).not.toHaveBeenCalled();
+      expect(result.current.isLoading).toBe(false);
+      expect(result.current.understanding).toEqual(mockUnderstanding);
+      expect(result.current.results?.results[0].vehicle.id).toBe('P1-1');
+    });
+
+    it('keeps searches with different filters apart', async () => {
+      const wrapper = withCache();
+      mockRunSearchPipeline.mockResolvedValue(pipelineResult(pageOf('P1-')));
+      const first = renderHook(() => useSearch('test-session'), { wrapper });
+      await act(async () => {
+        await first.result.current.search('BMW', { filters: { fuelType: ['Diesel'] } });
+      });
+      first.unmount();
+      mockRunSearchPipeline.mockClear();
+
+      const { result } = renderHook(() => useSearch('test-session'), { wrapper });
+      await act(async () => {
+        await result.current.restore('BMW', { filters: { fuelType: ['Diesel'] } });
+      });
+      expect(mockRunSearchPipeline).not.toHaveBeenCalled();
+
+      await act(async () => {
+        await result.current.restore('BMW', { filters: { fuelType: ['Petrol'] } });
+      });
+      expect(mockRunSearchPipeline).toHaveBeenCalledTimes(1);
+    });
+
+    it('returns to a cached later page without a new request', async () => {
+      const wrapper = withCache();
+      mockRunSearchPipeline.mockResolvedValue(pipelineResult(pageOf('P1-')));
+      mockFetchResultsPage.mockResolvedValue(pageOf('P2-'));
+      const first = renderHook(() => useSearch('test-session'), { wrapper });
+      await act(async () => {
+        await first.result.current.search('BMW');
+      });
+      await act(async () => {
+        await first.result.current.goToPage(2);
+      });
+      first.unmount();
+      jest.clearAllMocks();
+
+      const { result } = renderHook(() => useSearch('test-session'), { wrapper });
+      await act(async () => {
+        await result.current.restore('BMW', { page: 2 });
+      });
+
+      expect(mockRunSearchPipeline).not.toHaveBeenCalled();
+      expect(mockFetchResultsPage).not.toHaveBeenCalled();
+      expect(result.current.page).toBe(2);
+      expect(result.current.pageResults?.[0].vehicle.id).toBe('P2-1');
+    });
+
+    it('fetches the requested page of a search it has not seen', async () => {
+      mockRunSearchPipeline.mockResolvedValue(pipelineResult(pageOf('P1-')));
+      mockFetchResultsPage.mockResolvedValue(pageOf('P3-'));
+      const { result } = renderHook(() => useSearch('test-session'), { wrapper: withCache() });
+
+      await act(async () => {
+        await result.current.restore('BMW', { page: 3 });
+      });
+
+      expect(mockFetchResultsPage).toHaveBeenCalledWith(
+        mockUnderstanding,
+        { query: 'BMW', sessionId: 'test-session', maxResults: 10 },
+        20,
+        expect.any(AbortSignal)
+      );
+      expect(result.current.page).toBe(3);
+    });
+  });
+
+  describe('rate limiting', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('reports the retry window and lifts it when it ends', async () => {
+      jest.useFakeTimers({ now: new Date('2024-01-28T10:00:00Z') });
+      mockRunSearchPipeline.mockRejectedValue(
+        new SearchApiError('Rate limit exceeded', 429, undefined, { retryAfter: 30, remainingRequests: 0 })
+      );
+
+      const { result } = renderHook(() => useSearch('test-session'));
+
+      await act(async () => {
+        await result.current.search('BMW');
+      });
+
+      expect(result.current.error).toMatchObject({ kind: 'rateLimited', retryAfter: 30, query: 'BMW' });
+      expect(result.current.blockedUntil).toBe(Date.parse('2024-01-28T10:00:30Z'));
+
+      act(() => {
+        jest.advanceTimersByTime(30000);
+      });
+
+      expect(result.current.blockedUntil).toBeNull();
+      expect(result.current.error).toBeNull();
+    });
+  });
+
+  it('classifies guardrail rejections by violation type', async () => {
+    mockRunSearchPipeline.mockRejectedValue(
+      new SearchApiError('Query is not related to vehicle search.', 400, {
+        error: { code: 'OffTopic', message: 'Query is not related to vehicle search.', details: [] },
+      })
+    );
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+
+    const { result } = renderHook(() => useSearch('test-session'));
+
+    await act(async () => {
+      await result.current.search('What is the weather?');
+    });
+
+    expect(result.current.error).toMatchObject({
+      kind: 'safety',
+      violation: 'OffTopic',
+      query: 'What is the weather?',
+    });
+    consoleSpy.mockRestore();
+  });
+
+  it('blocks searching until a session block expires', async () => {
+    jest.useFakeTimers({ now: new Date('2024-01-28T10:00:00Z') });
+    mockRunSearchPipeline.mockRejectedValue(
+      new SearchApiError('Your session has been temporarily blocked.', 403, {
+        error: {
+          code: 'SESSION_BLOCKED',
+          message: 'Your session has been temporarily blocked.',
+          details: { expiresAt: '2024-01-28T11:00:00Z', remainingTime: '01:00:00' },
+        },
+      })
+    );
+
+    const { result } = renderHook(() => useSearch('test-session'));
+
+    await act(async () => {
+      await result.current.search('BMW');
+    });
+
+    expect(result.current.error).toMatchObject({
+      kind: 'sessionBlocked',
+      blockedUntil: '2024-01-28T11:00:00Z',
+    });
+    expect(result.current.blockedUntil).toBe(Date.parse('2024-01-28T11:00:00Z'));
+    jest.useRealTimers();
   });
 });
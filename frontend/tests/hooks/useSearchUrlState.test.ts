@@ -0,0 +1,77 @@
+import { renderHook, act } from '@testing-library/react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { useSearchUrlState } from '@/lib/hooks/useSearchUrlState';
+
+jest.mock('next/navigation', () => ({
+  usePathname: jest.fn(),
+  useRouter: jest.fn(),
+  useSearchParams: jest.fn(),
+}));
+
+describe('useSearchUrlState', () => {
+  const router = { push: jest.fn(), replace: jest.fn() };
+  let url: string;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    url = '';
+    (usePathname as jest.Mock).mockReturnValue('/search');
+    (useRouter as jest.Mock).mockReturnValue(router);
+    (useSearchParams as jest.Mock).mockImplementation(() => new URLSearchParams(url));
+  });
+
+  it('hands the state in the URL to onNavigate once enabled', () => {
+    url = 'q=BMW&page=2';
+    const onNavigate = jest.fn();
+
+    const { rerender } = renderHook(
+      ({ enabled }) => useSearchUrlState({ onNavigate, enabled }),
+      { initialProps: { enabled: false } }
+    );
+    expect(onNavigate).not.toHaveBeenCalled();
+
+    rerender({ enabled: true });
+
+    expect(onNavigate).toHaveBeenCalledTimes(1);
+    expect(onNavigate).toHaveBeenCalledWith(expect.objectContaining({ query: 'BMW', page: 2 }));
+  });
+
+  it('writes updates without reporting them back as navigation', () => {
+    const onNavigate = jest.fn();
+    const { result, rerender } = renderHook(() => useSearchUrlState({ onNavigate }));
+    onNavigate.mockClear();
+
+    act(() => {
+      result.current.update({ query: 'Audi A4' }, { push: true });
+    });
+    expect(router.push).toHaveBeenCalledWith('/search?q=Audi+A4', { scroll: false });
+
+    url = 'q=Audi+A4';
+    rerender();
+
+    expect(onNavigate).not.toHaveBeenCalled();
+    expect(result.current.state.query).toBe('Audi A4');
+  });
+
+  it('merges updates made in the same render', () => {
+    const { result } = renderHook(() => useSearchUrlState({ onNavigate: jest.fn() }));
+
+    act(() => {
+      result.current.update({ query: 'BMW', page: 1 }, { push: true });
+      result.current.update({ compare: ['AB12CDE'] });
+    });
+
+    expect(router.replace).toHaveBeenLastCalledWith('/search?q=BMW&compare=AB12CDE', { scroll: false });
+  });
+
+  it('reports back/forward navigation', () => {
+    url = 'q=BMW';
+    const onNavigate = jest.fn();
+    const { rerender } = renderHook(() => useSearchUrlState({ onNavigate }));
+
+    url = 'q=Audi&page=3';
+    rerender();
+
+    expect(onNavigate).toHaveBeenLastCalledWith(expect.objectContaining({ query: 'Audi', page: 3 }));
+  });
+});
@@ -0,0 +1,75 @@
+import { renderHook, waitFor } from '@testing-library/react';
+import { useSession } from '@/lib/hooks/useSession';
+import * as conversationApi from '@/lib/api/conversation';
+import { SearchApiError } from '@/lib/api/errors';
+
+jest.mock('@/lib/api/conversation');
+
+const mockCreateSession = conversationApi.createSession as jest.MockedFunction<
+  typeof conversationApi.createSession
+>;
+const mockGetSession = conversationApi.getSession as jest.MockedFunction<typeof conversationApi.getSession>;
+
+const stored = { sessionId: 'stored-session', createdAt: '2024-01-28T10:00:00Z' };
+const created = { sessionId: 'new-session', createdAt: '2024-01-28T11:00:00Z' };
+
+describe('useSession', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    localStorage.clear();
+    mockCreateSession.mockResolvedValue(created);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('creates a session when none is stored', async () => {
+    const { result } = renderHook(() => useSession());
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    expect(result.current.session).toEqual(created);
+    expect(JSON.parse(localStorage.getItem('searchSession')!)).toEqual(created);
+  });
+
+  it('restores a stored session that still exists', async () => {
+    localStorage.setItem('searchSession', JSON.stringify(stored));
+    mockGetSession.mockResolvedValue({ ...stored, lastAccessedAt: '2024-01-28T10:30:00Z', messageCount: 4 });
+
+    const { result } = renderHook(() => useSession());
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    expect(result.current.session).toEqual(stored);
+    expect(result.current.details?.messageCount).toBe(4);
+    expect(mockCreateSession).not.toHaveBeenCalled();
+  });
+
+  it('starts a new session when the stored one has expired', async () => {
+    localStorage.setItem('searchSession', JSON.stringify(stored));
+    mockGetSession.mockRejectedValue(new SearchApiError('Session not found', 404));
+
+    const { result } = renderHook(() => useSession());
+
+    await waitFor(() => expect(result.current.session).toEqual(created));
+
+    expect(JSON.parse(localStorage.getItem('searchSession')!)).toEqual(created);
+    expect(result.current.error).toBeNull();
+  });
+
+  it('keeps the stored session when it cannot be checked', async () => {
+    localStorage.setItem('searchSession', JSON.stringify(stored));
+    mockGetSession.mockRejectedValue(new SearchApiError('Service unavailable', 503));
+
+    const { result } = renderHook(() => useSession());
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    expect(result.current.session).toEqual(stored);
+    expect(result.current.error).toBe('Service unavailable');
+    expect(JSON.parse(localStorage.getItem('searchSession')!)).toEqual(stored);
+    expect(mockCreateSession).not.toHaveBeenCalled();
+  });
+});
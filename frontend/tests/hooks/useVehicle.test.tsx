@@ -0,0 +1,135 @@
+import { ReactNode } from 'react';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { SWRConfig } from 'swr';
+import { useVehicle } from '@/lib/hooks/useVehicle';
+import { useSearch } from '@/lib/hooks/useSearch';
+import { useSearchResults } from '@/lib/hooks/useSearchResults';
+import { searchResultsKey, vehicleKey } from '@/lib/api/cache';
+import * as searchApi from '@/lib/api/search';
+import * as pipelineApi from '@/lib/api/pipeline';
+import { SearchPipelineResult } from '@/lib/api/types';
+
+jest.mock('@/lib/api/search');
+jest.mock('@/lib/api/pipeline');
+
+const mockGetVehicleById = searchApi.getVehicleById as jest.MockedFunction<
+  typeof searchApi.getVehicleById
+>;
+const mockRunSearchPipeline = pipelineApi.runSearchPipeline as jest.MockedFunction<
+  typeof pipelineApi.runSearchPipeline
+>;
+
+const mockVehicle = {
+  id: 'AB12CDE',
+  make: 'BMW',
+  model: '3 Series',
+  derivative: '320d M Sport',
+  price: 18500,
+  mileage: 42000,
+  bodyType: 'Saloon',
+  engineSize: 2.0,
+  fuelType: 'Diesel',
+  transmissionType: 'Automatic',
+  colour: 'Black',
+  saleLocation: 'Leeds',
+  features: [],
+};
+
+const mockPipelineResult: SearchPipelineResult = {
+  results: {
+    results: [{ vehicle: mockVehicle, score: 0.92 }],
+    totalCount: 1,
+    searchDuration: '120.50ms',
+    strategy: { name: 'Hybrid', approaches: [], weights: {}, shouldRerank: false },
+  },
+  understanding: {
+    parsed: {
+      originalQuery: 'BMW',
+      intent: 'search',
+      confidence: 0.9,
+      entities: [],
+      unmappedTerms: [],
+    },
+    composed: {
+      type: 'Filtered',
+      constraintGroups: [],
+      groupOperator: 'And',
+      warnings: [],
+      hasConflicts: false,
+    },
+    endpoint: 'search',
+  },
+};
+
+const wrapper = ({ children }: { children: ReactNode }) => (
+  <SWRConfig value={{ provider: () => new Map() }}>{children}</SWRConfig>
+);
+
+describe('cache keys', () => {
+  it('produces equal keys for equal requests', () => {
+    expect(vehicleKey('AB12CDE')).toEqual(vehicleKey('AB12CDE'));
+    expect(searchResultsKey({ query: 'BMW', sessionId: 'abc' })).toEqual(
+      searchResultsKey({ sessionId: 'abc', query: 'BMW', maxResults: 10 })
+    );
+    expect(vehicleKey('AB12CDE')).not.toEqual(vehicleKey('XY34ZZZ'));
+  });
+});
+
+describe('useVehicle', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('deduplicates concurrent requests for the same vehicle', async () => {
+    mockGetVehicleById.mockResolvedValue(mockVehicle);
+
+    const { result } = renderHook(
+      () => [useVehicle('AB12CDE'), useVehicle('AB12CDE')] as const,
+      { wrapper }
+    );
+
+    await waitFor(() => {
+      expect(result.current[0].vehicle?.id).toBe('AB12CDE');
+      expect(result.current[1].vehicle?.id).toBe('AB12CDE');
+    });
+    expect(mockGetVehicleById).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports fetch errors', async () => {
+    mockGetVehicleById.mockRejectedValue(new Error('Vehicle with ID AB12CDE not found'));
+
+    const { result } = renderHook(() => useVehicle('AB12CDE'), { wrapper });
+
+    await waitFor(() => {
+      expect(result.current.error).toBe('Vehicle with ID AB12CDE not found');
+    });
+    expect(result.current.vehicle).toBeNull();
+  });
+});
+
+describe('useSearchResults', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('serves results cached by useSearch without running the pipeline again', async () => {
+    mockRunSearchPipeline.mockResolvedValue(mockPipelineResult);
+    const cache = new Map();
+    const sharedWrapper = ({ children }: { children: ReactNode }) => (
+      <SWRConfig value={{ provider: () => cache }}>{children}</SWRConfig>
+    );
+
+    const { result: searcher } = renderHook(() => useSearch('abc'), { wrapper: sharedWrapper });
+    await act(async () => {
+      await searcher.current.search('BMW');
+    });
+
+    // e.g. the results page mounting again after navigating back
+    const { result } = renderHook(() => useSearchResults({ query: 'BMW', sessionId: 'abc' }), {
+      wrapper: sharedWrapper,
+    });
+
+    expect(result.current.data).toEqual(mockPipelineResult);
+    expect(mockRunSearchPipeline).toHaveBeenCalledTimes(1);
+  });
+});
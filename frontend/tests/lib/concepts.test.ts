@@ -0,0 +1,60 @@
+/**
+ * @jest-environment node
+ */
+import { conceptIndicators, scoreConcept } from '@/lib/api/concepts'
+import type { SimilarityScore } from '@/lib/api/generated'
+import { jsonResponse } from '../utils/http'
+
+const reliable: SimilarityScore = {
+  overallScore: 0.75,
+  componentScores: { mileage: 1, serviceHistoryPresent: 1, motExpiryDate: 0 },
+  matchingAttributes: ['mileage', 'serviceHistoryPresent'],
+  mismatchingAttributes: ['motExpiryDate'],
+  descriptionBoost: -0.05,
+  matchedPositiveIndicators: ['one owner'],
+  matchedNegativeIndicators: ['accident damage'],
+}
+
+describe('scoreConcept', () => {
+  let fetchMock: jest.Mock
+
+  beforeEach(() => {
+    fetchMock = jest.fn()
+    global.fetch = fetchMock
+  })
+
+  it('posts the vehicle and concept and returns the validated score', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(reliable))
+
+    await expect(scoreConcept('TEST123', 'reliable')).resolves.toEqual(reliable)
+
+    const request: Request = fetchMock.mock.calls[0][0]
+    expect(request.url).toMatch(/\/api\/v1\/search\/similarity$/)
+    expect(await request.json()).toEqual({ vehicleId: 'TEST123', concept: 'reliable' })
+  })
+
+  it('reports an unknown concept with the backend message', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ error: "Unknown concept 'quirky'" }, 400))
+
+    await expect(scoreConcept('TEST123', 'quirky')).rejects.toMatchObject({
+      name: 'SearchApiError',
+      message: "Unknown concept 'quirky'",
+      status: 400,
+    })
+  })
+})
+
+describe('conceptIndicators', () => {
+  it('names the attributes met and missed, then the phrases found in the description', () => {
+    expect(conceptIndicators(reliable)).toEqual({
+      positive: ['mileage', 'service history', '"one owner"'],
+      negative: ['MOT', '"accident damage"'],
+    })
+  })
+
+  it('keeps attributes it has no name for as they are', () => {
+    expect(
+      conceptIndicators({ ...reliable, matchingAttributes: ['seats'], matchedPositiveIndicators: [] }).positive
+    ).toEqual(['seats'])
+  })
+})
@@ -0,0 +1,99 @@
+/**
+ * @jest-environment node
+ */
+import {
+  clearConversation,
+  createSession,
+  getConversationHistory,
+  getSession,
+} from '@/lib/api/conversation'
+import { jsonResponse } from '../utils/http'
+
+describe('conversation API', () => {
+  let fetchMock: jest.Mock
+
+  const lastRequest = (): Request => fetchMock.mock.calls[fetchMock.mock.calls.length - 1][0]
+
+  beforeEach(() => {
+    fetchMock = jest.fn()
+    global.fetch = fetchMock
+  })
+
+  it('creates a session with POST /api/v1/conversation', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ sessionId: 'abc', createdAt: '2024-01-28T10:00:00Z' }))
+
+    const session = await createSession()
+
+    expect(lastRequest().method).toBe('POST')
+    expect(new URL(lastRequest().url).pathname).toBe('/api/v1/conversation')
+    expect(session.sessionId).toBe('abc')
+  })
+
+  it('returns session details including the current search state', async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse({
+        sessionId: 'abc',
+        createdAt: '2024-01-28T10:00:00Z',
+        lastAccessedAt: '2024-01-28T10:05:00Z',
+        messageCount: 4,
+        currentSearchState: {
+          lastQuery: 'bmw under 20k',
+          lastResultIds: ['v1'],
+          activeFilters: {},
+          viewedVehicleIds: [],
+        },
+      })
+    )
+
+    const details = await getSession('abc')
+
+    expect(new URL(lastRequest().url).pathname).toBe('/api/v1/conversation/abc')
+    expect(details.messageCount).toBe(4)
+    expect(details.lastAccessedAt).toBe('2024-01-28T10:05:00Z')
+    expect(details.currentSearchState?.lastQuery).toBe('bmw under 20k')
+  })
+
+  it('passes maxMessages when fetching history', async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse({
+        sessionId: 'abc',
+        messages: [
+          {
+            messageId: '1',
+            timestamp: '2024-01-28T10:00:00Z',
+            role: 'User',
+            content: 'BMW under £20k',
+            parsedQuery: null,
+            results: null,
+          },
+        ],
+        totalMessages: 1,
+      })
+    )
+
+    const history = await getConversationHistory('abc', 25)
+
+    const url = new URL(lastRequest().url)
+    expect(url.pathname).toBe('/api/v1/conversation/abc/history')
+    expect(url.searchParams.get('maxMessages')).toBe('25')
+    expect(history.messages[0].results).toBeUndefined()
+  })
+
+  it('surfaces a missing session instead of returning empty history', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ error: 'Session abc not found', sessionId: 'abc' }, 404))
+
+    await expect(getConversationHistory('abc')).rejects.toMatchObject({
+      message: 'Session abc not found',
+      status: 404,
+    })
+  })
+
+  it('deletes the session when clearing the conversation', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ success: true, message: 'Session deleted' }))
+
+    await clearConversation('abc')
+
+    expect(lastRequest().method).toBe('DELETE')
+    expect(new URL(lastRequest().url).pathname).toBe('/api/v1/conversation/abc')
+  })
+})
@@ -0,0 +1,85 @@
+/**
+ * @jest-environment node
+ */
+import { explainMatch, matchContributions } from '@/lib/api/explain'
+import type { ExplainedScore, ParseQueryResponse } from '@/lib/api/generated'
+import { jsonResponse } from '../utils/http'
+
+const parsed: ParseQueryResponse = {
+  originalQuery: 'BMW under 20k',
+  intent: 'search',
+  confidence: 0.9,
+  entities: [{ type: 'Make', value: 'BMW', confidence: 0.95, startPosition: 0, endPosition: 3 }],
+  unmappedTerms: [],
+}
+
+const explained: ExplainedScore = {
+  score: 0.8,
+  explanation: 'This BMW 3 Series is a strong match.',
+  components: [
+    { factor: 'Price Match', score: 0.5, weight: 0.4, reason: 'Slightly over budget' },
+    { factor: 'Make Match', score: 1, weight: 0.4, reason: 'Exact match for BMW' },
+    { factor: 'Reliable', score: 1, weight: 0.2, reason: 'Low mileage for its age' },
+  ],
+}
+
+describe('explainMatch', () => {
+  let fetchMock: jest.Mock
+
+  beforeEach(() => {
+    fetchMock = jest.fn()
+    global.fetch = fetchMock
+  })
+
+  it('posts the vehicle and parsed query and returns the validated explanation', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(explained))
+
+    await expect(explainMatch('TEST123', parsed)).resolves.toEqual(explained)
+
+    const request: Request = fetchMock.mock.calls[0][0]
+    expect(request.url).toMatch(/\/api\/v1\/search\/explain$/)
+    expect(await request.json()).toEqual({
+      vehicleId: 'TEST123',
+      query: {
+        originalQuery: 'BMW under 20k',
+        intent: 'Search',
+        entities: parsed.entities,
+        confidenceScore: 0.9,
+        unmappedTerms: [],
+      },
+    })
+  })
+
+  it('reports a failure with the backend message', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ error: 'Vehicle not found' }, 404))
+
+    await expect(explainMatch('MISSING', parsed)).rejects.toMatchObject({
+      name: 'SearchApiError',
+      message: 'Vehicle not found',
+      status: 404,
+    })
+  })
+})
+
+describe('matchContributions', () => {
+  it('orders factors by what they added to the score', () => {
+    expect(matchContributions(explained).map((contribution) => contribution.factor)).toEqual([
+      'Make Match',
+      'Price Match',
+      'Reliable',
+    ])
+  })
+
+  it('splits the score by weight', () => {
+    const [make, price] = matchContributions(explained)
+
+    expect(make).toMatchObject({ share: 0.4, contribution: 0.4, reason: 'Exact match for BMW' })
+    expect(price).toMatchObject({ share: 0.4, contribution: 0.2 })
+    const total = matchContributions(explained).reduce((sum, contribution) => sum + contribution.contribution, 0)
+    expect(total).toBeCloseTo(explained.score)
+  })
+
+  it('is empty when nothing was weighed', () => {
+    expect(matchContributions({ ...explained, components: [] })).toEqual([])
+  })
+})
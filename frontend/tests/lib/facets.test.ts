@@ -0,0 +1,110 @@
+/**
+ * @jest-environment node
+ */
+import { facetsQuery, getFacets } from '@/lib/api/facets'
+import { mergeFilterConstraints } from '@/lib/api/filters'
+import type { ComposeQueryResponse, SearchConstraint } from '@/lib/api/generated'
+import { jsonResponse } from '../utils/http'
+
+const composed = (constraints: SearchConstraint[], groupOperator = 'And'): ComposeQueryResponse => ({
+  type: 'Filtered',
+  constraintGroups: [{ constraints, operator: 'And', priority: 1 }],
+  groupOperator,
+  warnings: [],
+  hasConflicts: false,
+  oDataFilter: "make eq 'BMW'",
+})
+
+const mileage: SearchConstraint = { fieldName: 'mileage', operator: 'LessThanOrEqual', value: 60000, type: 'Range' }
+
+describe('getFacets', () => {
+  let fetchMock: jest.Mock
+
+  beforeEach(() => {
+    fetchMock = jest.fn()
+    global.fetch = fetchMock
+  })
+
+  it('posts the query and returns the validated facets', async () => {
+    const facets = {
+      facets: { make: [{ value: 'BMW', count: 12 }] },
+      ranges: { price: { min: 4500, max: 38000 } },
+      totalCount: 12,
+    }
+    fetchMock.mockResolvedValue(jsonResponse(facets))
+
+    await expect(getFacets(null)).resolves.toEqual(facets)
+
+    const request: Request = fetchMock.mock.calls[0][0]
+    expect(request.url).toMatch(/\/api\/v1\/search\/facets$/)
+    expect(await request.json()).toEqual({ composedQuery: null })
+  })
+
+  it('reports a failure with the backend message', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ error: 'Failed to compute facets' }, 500))
+
+    await expect(getFacets(null)).rejects.toMatchObject({
+      name: 'SearchApiError',
+      message: 'Failed to compute facets',
+      status: 500,
+    })
+  })
+})
+
+describe('facetsQuery', () => {
+  it('counts the whole inventory before anything is searched', () => {
+    expect(facetsQuery(undefined, {}, { make: ['BMW'] })).toBeNull()
+  })
+
+  it('swaps the filters the search ran with for the ones being chosen', () => {
+    const applied = { make: ['BMW'] }
+    const query = facetsQuery(
+      composed(mergeFilterConstraints([mileage], applied)),
+      applied,
+      { make: ['BMW', 'Audi'], fuelType: ['Diesel'] }
+    )
+
+    expect(query?.constraintGroups).toEqual([
+      { constraints: [mileage], operator: 'And', priority: 1 },
+      {
+        constraints: [
+          { fieldName: 'make', operator: 'In', value: ['BMW', 'Audi'], type: 'Exact' },
+          { fieldName: 'fuelType', operator: 'Equals', value: 'Diesel', type: 'Exact' },
+        ],
+        operator: 'And',
+        priority: 0,
+      },
+    ])
+    // Translated again from the groups above
+    expect(query?.oDataFilter).toBeNull()
+  })
+
+  it('lets a chosen filter replace what the query said about the same field', () => {
+    const understood: SearchConstraint = { fieldName: 'make', operator: 'Equals', value: 'Ford', type: 'Exact' }
+    const query = facetsQuery(composed([understood, mileage]), {}, { make: ['Audi'] })
+
+    expect(query?.constraintGroups.flatMap((group) => group.constraints)).toEqual([
+      mileage,
+      { fieldName: 'make', operator: 'Equals', value: 'Audi', type: 'Exact' },
+    ])
+  })
+
+  it('adds the filters to every alternative of an Or query', () => {
+    const price: SearchConstraint = { fieldName: 'price', operator: 'LessThanOrEqual', value: 9000, type: 'Range' }
+    const either: ComposeQueryResponse = {
+      ...composed([], 'Or'),
+      constraintGroups: [
+        { constraints: [mileage], operator: 'And', priority: 1 },
+        { constraints: [price], operator: 'And', priority: 1 },
+      ],
+    }
+
+    const query = facetsQuery(either, {}, { fuelType: ['Diesel'] })
+
+    const diesel = { fieldName: 'fuelType', operator: 'Equals', value: 'Diesel', type: 'Exact' }
+    expect(query?.constraintGroups.map((group) => group.constraints)).toEqual([
+      [mileage, diesel],
+      [price, diesel],
+    ])
+  })
+})
@@ -0,0 +1,202 @@
+import {
+  compactFilters,
+  describeAttributeWeight,
+  describeConstraint,
+  describeConstraintChange,
+  describeFilters,
+  mergeFilterConstraints,
+  removeFilterConstraints,
+  removeFilterField,
+  toFilterConstraints,
+} from '@/lib/api/filters'
+import type { SearchConstraint } from '@/lib/api/generated'
+
+describe('toFilterConstraints', () => {
+  it('uses Between for a range bounded at both ends', () => {
+    expect(toFilterConstraints({ priceRange: { min: 5000, max: 20000 } })).toEqual([
+      { fieldName: 'price', operator: 'Between', value: [5000, 20000], type: 'Range' },
+    ])
+  })
+
+  it('uses a minimum or maximum for a range open at one end', () => {
+    expect(
+      toFilterConstraints({
+        priceRange: { max: 20000 },
+        mileageRange: { min: 10000 },
+      })
+    ).toEqual([
+      { fieldName: 'price', operator: 'LessThanOrEqual', value: 20000, type: 'Range' },
+      { fieldName: 'mileage', operator: 'GreaterThanOrEqual', value: 10000, type: 'Range' },
+    ])
+  })
+
+  it('ignores a range open at both ends', () => {
+    expect(toFilterConstraints({ priceRange: {} })).toEqual([])
+  })
+
+  it('matches a single value exactly', () => {
+    expect(toFilterConstraints({ make: ['BMW'], fuelType: ['Diesel'], transmission: ['Manual'] })).toEqual([
+      { fieldName: 'make', operator: 'Equals', value: 'BMW', type: 'Exact' },
+      { fieldName: 'fuelType', operator: 'Equals', value: 'Diesel', type: 'Exact' },
+      { fieldName: 'transmissionType', operator: 'Equals', value: 'Manual', type: 'Exact' },
+    ])
+  })
+
+  it('matches any of several values', () => {
+    expect(toFilterConstraints({ bodyType: ['Estate', 'SUV'], location: ['Leeds'], make: [] })).toEqual([
+      { fieldName: 'bodyType', operator: 'In', value: ['Estate', 'SUV'], type: 'Exact' },
+      { fieldName: 'saleLocation', operator: 'Equals', value: 'Leeds', type: 'Exact' },
+    ])
+  })
+
+  it('turns a minimum year into a registration date', () => {
+    expect(toFilterConstraints({ yearMin: 2018 })).toEqual([
+      {
+        fieldName: 'registrationDate',
+        operator: 'GreaterThanOrEqual',
+        value: '2018-01-01T00:00:00+00:00',
+        type: 'Range',
+      },
+    ])
+  })
+})
+
+describe('mergeFilterConstraints', () => {
+  const understood: SearchConstraint[] = [
+    { fieldName: 'make', operator: 'Equals', value: 'Audi', type: 'Exact' },
+    { fieldName: 'description', operator: 'Contains', value: 'family', type: 'Semantic' },
+  ]
+
+  it('keeps constraints on fields the filters leave alone', () => {
+    expect(mergeFilterConstraints(understood, { fuelType: ['Diesel'] })).toEqual([
+      ...understood,
+      { fieldName: 'fuelType', operator: 'Equals', value: 'Diesel', type: 'Exact' },
+    ])
+  })
+
+  it('lets a filter replace what the query said about the same field', () => {
+    expect(mergeFilterConstraints(understood, { make: ['BMW'] })).toEqual([
+      understood[1],
+      { fieldName: 'make', operator: 'Equals', value: 'BMW', type: 'Exact' },
+    ])
+  })
+})
+
+describe('removeFilterConstraints', () => {
+  it('takes out only the constraints the filters added', () => {
+    const filters = { make: ['BMW', 'Audi'], priceRange: { max: 20000 } }
+    const understood: SearchConstraint[] = [
+      { fieldName: 'mileage', operator: 'LessThanOrEqual', value: 60000, type: 'Range' },
+    ]
+
+    expect(removeFilterConstraints(mergeFilterConstraints(understood, filters), filters)).toEqual(understood)
+  })
+})
+
+describe('describeFilters', () => {
+  it('labels each filter', () => {
+    expect(
+      describeFilters({
+        priceRange: { min: 5000, max: 20000 },
+        mileageRange: { max: 60000 },
+        make: ['BMW', 'Audi'],
+        yearMin: 2018,
+      })
+    ).toEqual([
+      { key: 'priceRange', label: '£5,000 – £20,000' },
+      { key: 'mileageRange', label: 'Up to 60,000 miles' },
+      { key: 'yearMin', label: '2018 or newer' },
+      { key: 'make', label: 'BMW or Audi' },
+    ])
+  })
+
+  it('leaves out open ranges and empty selections', () => {
+    expect(describeFilters({ priceRange: {}, make: [] })).toEqual([])
+  })
+})
+
+describe('describeConstraint', () => {
+  const label = (fieldName: string, operator: SearchConstraint['operator'], value: unknown) =>
+    describeConstraint({ fieldName, operator, value })
+
+  it('formats values for their field', () => {
+    expect(label('price', 'LessThanOrEqual', 20000)).toBe('Price ≤ £20,000')
+    expect(label('mileage', 'LessThan', 60000)).toBe('Mileage < 60,000 miles')
+    expect(label('engineSize', 'GreaterThanOrEqual', 2)).toBe('Engine size ≥ 2.0L')
+    expect(label('fuelType', 'Equals', 'Diesel')).toBe('Fuel = Diesel')
+  })
+
+  it('shows registrations by year', () => {
+    expect(label('registrationDate', 'GreaterThanOrEqual', '2018-01-01T00:00:00+00:00')).toBe('Registered ≥ 2018')
+  })
+
+  it('shows both ends of a range and any of several values', () => {
+    expect(label('price', 'Between', [5000, 20000])).toBe('Price £5,000 – £20,000')
+    expect(label('make', 'In', ['BMW', 'Audi'])).toBe('Make = BMW or Audi')
+  })
+
+  it('names fields it has no label for from the field name', () => {
+    expect(label('serviceHistoryPresent', 'Equals', true)).toBe('Service history present = Yes')
+  })
+})
+
+describe('describeConstraintChange', () => {
+  const price = (value: number) =>
+    ({ fieldName: 'price', operator: 'LessThanOrEqual', value, type: 'Range' }) as const
+
+  it('shows an updated constraint before and after', () => {
+    expect(
+      describeConstraintChange({ fieldName: 'price', changeType: 'Updated', previous: price(20000), current: price(15000) })
+    ).toBe('Price ≤ £20,000 → ≤ £15,000')
+  })
+
+  it('shows an added or removed constraint as it was', () => {
+    expect(describeConstraintChange({ fieldName: 'price', changeType: 'Added', current: price(15000) })).toBe(
+      'Price ≤ £15,000'
+    )
+    expect(describeConstraintChange({ fieldName: 'price', changeType: 'Removed', previous: price(20000) })).toBe(
+      'Price ≤ £20,000'
+    )
+  })
+})
+
+describe('describeAttributeWeight', () => {
+  it('describes what a concept looks for in an attribute', () => {
+    expect(describeAttributeWeight({ attribute: 'mileage', weight: 0.4, targetValue: 60000, comparisonType: 'less' })).toBe(
+      'Mileage < 60,000 miles'
+    )
+    expect(
+      describeAttributeWeight({ attribute: 'motExpiryDate', weight: 0.2, targetValue: 90, comparisonType: 'greaterOrEqual' })
+    ).toBe('MOT expiry ≥ 90 days away')
+    expect(
+      describeAttributeWeight({ attribute: 'bodyType', weight: 0.3, targetValue: ['SUV', 'MPV'], comparisonType: 'in' })
+    ).toBe('Body type = SUV or MPV')
+  })
+})
+
+describe('removeFilterField', () => {
+  it('drops the filter that constrains the field', () => {
+    const filters = { priceRange: { max: 20000 }, yearMin: 2018, transmission: ['Manual'] }
+
+    expect(removeFilterField(filters, 'price')).toEqual({ yearMin: 2018, transmission: ['Manual'] })
+    expect(removeFilterField(filters, 'registrationDate')).toEqual({
+      priceRange: { max: 20000 },
+      transmission: ['Manual'],
+    })
+    expect(removeFilterField(filters, 'transmissionType')).toEqual({ priceRange: { max: 20000 }, yearMin: 2018 })
+  })
+
+  it('leaves the filters alone when none constrains the field', () => {
+    const filters = { make: ['BMW'] }
+
+    expect(removeFilterField(filters, 'features')).toEqual(filters)
+  })
+})
+
+describe('compactFilters', () => {
+  it('drops open ranges and empty selections', () => {
+    expect(
+      compactFilters({ priceRange: { min: undefined, max: 20000 }, mileageRange: {}, make: [], colour: ['Red'] })
+    ).toEqual({ priceRange: { max: 20000 }, colour: ['Red'] })
+  })
+})
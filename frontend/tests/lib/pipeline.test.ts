@@ -0,0 +1,402 @@
+/**
+ * @jest-environment node
+ */
+import type { SearchConstraint } from '@/lib/api/generated'
+import { fetchResultsPage, runSearchPipeline, toParsedQuery } from '@/lib/api/pipeline'
+import { jsonResponse } from '../utils/http'
+
+const vehicle = {
+  id: 'AB12CDE',
+  make: 'BMW',
+  model: '3 Series',
+  derivative: '320d M Sport',
+  price: 18500,
+  mileage: 42000,
+  bodyType: 'Saloon',
+  engineSize: 2.0,
+  fuelType: 'Diesel',
+  transmissionType: 'Automatic',
+  colour: 'Black',
+  numberOfDoors: null,
+  registrationDate: null,
+  saleLocation: 'Leeds',
+  features: [],
+}
+
+const parsed = (intent: string) => ({
+  originalQuery: 'BMW under 20k',
+  intent,
+  confidence: 0.9,
+  entities: [{ type: 'Make', value: 'BMW', confidence: 0.95, startPosition: 0, endPosition: 3 }],
+  unmappedTerms: [],
+})
+
+const makeConstraint = { fieldName: 'make', operator: 'Equals', value: 'BMW', type: 'Exact' }
+
+const composed = (constraints: unknown[]) => ({
+  type: 'Filtered',
+  constraintGroups: [{ constraints, operator: 'And', priority: 1 }],
+  groupOperator: 'And',
+  warnings: [],
+  hasConflicts: false,
+  oDataFilter: "make eq 'BMW'",
+})
+
+const searchResponse = {
+  results: [{ vehicle, relevanceScore: 0.92, scoreBreakdown: null }],
+  totalCount: 1,
+  strategy: {
+    type: 'Hybrid',
+    approaches: ['ExactMatch', 'SemanticSearch'],
+    weights: { ExactMatch: 0.3, SemanticSearch: 0.7 },
+    shouldRerank: true,
+  },
+  searchDuration: '120.50ms',
+  stages: [
+    { name: 'strategy', durationMs: 0.4 },
+    { name: 'search', durationMs: 120.1 },
+  ],
+}
+
+describe('runSearchPipeline', () => {
+  let routes: Record<string, unknown>
+  let fetchMock: jest.Mock
+
+  const requestBody = async (path: string) => {
+    const call = fetchMock.mock.calls.find(([request]) => new URL(request.url).pathname === path)
+    return (call![0] as Request).clone().json()
+  }
+
+  const calledPaths = () => fetchMock.mock.calls.map(([request]) => new URL(request.url).pathname)
+
+  beforeEach(() => {
+    routes = {}
+    fetchMock = jest.fn(async (request: Request) => {
+      const path = new URL(request.url).pathname
+      return path in routes ? jsonResponse(routes[path]) : jsonResponse({ error: 'Not found' }, 404)
+    })
+    global.fetch = fetchMock
+  })
+
+  it('parses, maps and composes a new query before searching', async () => {
+    routes['/api/v1/query/parse'] = parsed('search')
+    routes['/api/v1/query/map'] = { constraints: [makeConstraint], unmappableTerms: [], metadata: {}, concepts: [] }
+    routes['/api/v1/query/compose'] = composed([makeConstraint])
+    routes['/api/v1/search'] = searchResponse
+
+    const { results, understanding } = await runSearchPipeline({
+      query: 'BMW under 20k',
+      sessionId: 'abc',
+    })
+
+    expect(calledPaths()).toEqual([
+      '/api/v1/query/parse',
+      '/api/v1/query/map',
+      '/api/v1/query/compose',
+      '/api/v1/search',
+    ])
+    expect((await requestBody('/api/v1/query/map')).parsedQuery).toMatchObject({
+      intent: 'Search',
+      confidenceScore: 0.9,
+    })
+    expect(await requestBody('/api/v1/search')).toMatchObject({
+      composedQuery: { oDataFilter: "make eq 'BMW'" },
+      maxResults: 10,
+      offset: 0,
+      sessionId: 'abc',
+      query: 'BMW under 20k',
+    })
+    for (const [request] of fetchMock.mock.calls) {
+      expect((request as Request).headers.get('X-Session-Id')).toBe('abc')
+    }
+    expect(understanding.parsed?.entities[0].value).toBe('BMW')
+    expect(understanding.mapped?.constraints).toHaveLength(1)
+    expect(understanding.refined).toBeUndefined()
+    expect(understanding.endpoint).toBe('search')
+    expect(results.results[0].vehicle.id).toBe('AB12CDE')
+    expect(results.strategy).toEqual({
+      name: 'Hybrid',
+      approaches: ['ExactMatch', 'SemanticSearch'],
+      weights: { ExactMatch: 0.3, SemanticSearch: 0.7 },
+      shouldRerank: true,
+    })
+    expect(results.stages).toEqual(searchResponse.stages)
+  })
+
+  it('refines against the session search state for follow-up queries', async () => {
+    routes['/api/v1/query/parse'] = parsed('refine')
+    routes['/api/v1/conversation/abc'] = {
+      sessionId: 'abc',
+      createdAt: '2024-01-28T10:00:00Z',
+      lastAccessedAt: '2024-01-28T10:05:00Z',
+      messageCount: 2,
+      currentSearchState: { lastResultIds: [], activeFilters: {}, viewedVehicleIds: [] },
+    }
+    routes['/api/v1/query/refine'] = {
+      composedQuery: composed([makeConstraint]),
+      addedConstraints: [],
+      updatedConstraints: ['make'],
+      removedConstraints: [],
+      changes: [
+        {
+          fieldName: 'make',
+          changeType: 'Updated',
+          previous: { ...makeConstraint, value: 'Audi' },
+          current: makeConstraint,
+        },
+      ],
+      previousCount: 42,
+    }
+    routes['/api/v1/search'] = searchResponse
+
+    const { understanding } = await runSearchPipeline({ query: 'cheaper ones', sessionId: 'abc' })
+
+    expect(calledPaths()).not.toContain('/api/v1/query/map')
+    expect(understanding.refined?.updatedConstraints).toEqual(['make'])
+    expect(understanding.refined?.changes[0].previous?.value).toBe('Audi')
+    expect(understanding.refined?.previousCount).toBe(42)
+    expect(understanding.composed.oDataFilter).toBe("make eq 'BMW'")
+  })
+
+  it('merges refinement filters into the constraints before composing', async () => {
+    routes['/api/v1/query/parse'] = parsed('search')
+    routes['/api/v1/query/map'] = {
+      constraints: [
+        makeConstraint,
+        { fieldName: 'price', operator: 'LessThanOrEqual', value: 20000, type: 'Range' },
+      ],
+      unmappableTerms: [],
+      metadata: {},
+      concepts: [],
+    }
+    routes['/api/v1/query/compose'] = composed([makeConstraint])
+    routes['/api/v1/search'] = searchResponse
+
+    await runSearchPipeline({
+      query: 'BMW under 20k',
+      filters: { priceRange: { min: 5000, max: 15000 }, mileageRange: { min: 30000 } },
+    })
+
+    expect((await requestBody('/api/v1/query/compose')).mappedQuery.constraints).toEqual([
+      makeConstraint,
+      { fieldName: 'price', operator: 'Between', value: [5000, 15000], type: 'Range' },
+      { fieldName: 'mileage', operator: 'GreaterThanOrEqual', value: 30000, type: 'Range' },
+    ])
+  })
+
+  it('composes a refinement again when filters are applied to it', async () => {
+    routes['/api/v1/query/parse'] = parsed('refine')
+    routes['/api/v1/conversation/abc'] = {
+      sessionId: 'abc',
+      createdAt: '2024-01-28T10:00:00Z',
+      lastAccessedAt: '2024-01-28T10:05:00Z',
+      messageCount: 2,
+      currentSearchState: { lastResultIds: [], activeFilters: {}, viewedVehicleIds: [] },
+    }
+    routes['/api/v1/query/refine'] = {
+      composedQuery: composed([makeConstraint]),
+      addedConstraints: [],
+      updatedConstraints: [],
+      removedConstraints: [],
+      changes: [],
+    }
+    routes['/api/v1/query/compose'] = {
+      ...composed([makeConstraint]),
+      oDataFilter: "make eq 'BMW' and fuelType eq 'Diesel'",
+    }
+    routes['/api/v1/search'] = searchResponse
+
+    const { understanding } = await runSearchPipeline({
+      query: 'cheaper ones',
+      sessionId: 'abc',
+      filters: { fuelType: ['Diesel'] },
+    })
+
+    expect(calledPaths()).toEqual([
+      '/api/v1/query/parse',
+      '/api/v1/conversation/abc',
+      '/api/v1/query/refine',
+      '/api/v1/query/compose',
+      '/api/v1/search',
+    ])
+    expect((await requestBody('/api/v1/query/compose')).mappedQuery.constraints).toEqual([
+      makeConstraint,
+      { fieldName: 'fuelType', operator: 'Equals', value: 'Diesel', type: 'Exact' },
+    ])
+    expect(understanding.composed.oDataFilter).toBe("make eq 'BMW' and fuelType eq 'Diesel'")
+  })
+
+  it('composes the constraints it is given instead of understanding the query', async () => {
+    const fuelConstraint = { fieldName: 'fuelType', operator: 'Equals', value: 'Diesel', type: 'Exact' }
+    routes['/api/v1/query/compose'] = composed([makeConstraint, fuelConstraint])
+    routes['/api/v1/search'] = searchResponse
+
+    const { understanding } = await runSearchPipeline({
+      query: 'BMW under 20k',
+      sessionId: 'abc',
+      constraints: [makeConstraint as SearchConstraint],
+      filters: { fuelType: ['Diesel'] },
+    })
+
+    expect(calledPaths()).toEqual(['/api/v1/query/compose', '/api/v1/search'])
+    expect((await requestBody('/api/v1/query/compose')).mappedQuery.constraints).toEqual([
+      makeConstraint,
+      fuelConstraint,
+    ])
+    expect((await requestBody('/api/v1/search')).sessionId).toBe('abc')
+    expect(understanding.parsed).toBeUndefined()
+    expect(understanding.endpoint).toBe('search')
+  })
+
+  it('maps a parsed query it is given instead of parsing or refining', async () => {
+    routes['/api/v1/query/map'] = { constraints: [makeConstraint], unmappableTerms: [], metadata: {}, concepts: [] }
+    routes['/api/v1/query/compose'] = composed([makeConstraint])
+    routes['/api/v1/search'] = searchResponse
+    const edited = { ...parsed('refine'), originalQuery: 'BMW' }
+
+    const { understanding } = await runSearchPipeline({ query: 'BMW', sessionId: 'abc', parsed: edited })
+
+    expect(calledPaths()).toEqual(['/api/v1/query/map', '/api/v1/query/compose', '/api/v1/search'])
+    expect((await requestBody('/api/v1/query/map')).parsedQuery).toMatchObject({ originalQuery: 'BMW' })
+    expect(understanding.parsed).toBe(edited)
+  })
+
+  it('falls back to semantic search when no constraints were understood', async () => {
+    routes['/api/v1/query/parse'] = { ...parsed('search'), entities: [] }
+    routes['/api/v1/query/map'] = { constraints: [], unmappableTerms: ['comfy'], metadata: {}, concepts: [] }
+    routes['/api/v1/query/compose'] = { ...composed([]), oDataFilter: null }
+    routes['/api/v1/search/semantic'] = {
+      matches: [{ vehicleId: 'AB12CDE', vehicle, similarityScore: 0.71, normalizedScore: 71 }],
+      averageScore: 0.71,
+      searchDuration: '80.00ms',
+    }
+
+    const { results, understanding } = await runSearchPipeline({ query: 'something comfy' })
+
+    expect(calledPaths()).not.toContain('/api/v1/search')
+    expect(understanding.endpoint).toBe('semantic')
+    expect(results.results[0].score).toBe(0.71)
+    expect(results.strategy.name).toBe('SemanticOnly')
+  })
+
+  it('searches with a forced strategy even when no constraints were understood', async () => {
+    routes['/api/v1/query/parse'] = { ...parsed('search'), entities: [] }
+    routes['/api/v1/query/map'] = { constraints: [], unmappableTerms: ['comfy'], metadata: {}, concepts: [] }
+    routes['/api/v1/query/compose'] = { ...composed([]), oDataFilter: null }
+    routes['/api/v1/search'] = searchResponse
+
+    const { understanding } = await runSearchPipeline({ query: 'something comfy', strategy: 'Hybrid' })
+
+    expect(calledPaths()).not.toContain('/api/v1/search/semantic')
+    expect((await requestBody('/api/v1/search')).strategy).toBe('Hybrid')
+    expect(understanding.endpoint).toBe('search')
+  })
+
+  it('stops at the failing stage with its error', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ error: 'Query cannot be empty' }, 400))
+
+    await expect(runSearchPipeline({ query: ' ' })).rejects.toMatchObject({
+      message: 'Query cannot be empty',
+      status: 400,
+    })
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('fetches a later page by repeating only the search', async () => {
+    routes['/api/v1/query/parse'] = parsed('search')
+    routes['/api/v1/query/map'] = { constraints: [makeConstraint], unmappableTerms: [], metadata: {}, concepts: [] }
+    routes['/api/v1/query/compose'] = composed([makeConstraint])
+    routes['/api/v1/search'] = { ...searchResponse, totalCount: 25 }
+    const request = { query: 'BMW under 20k', sessionId: 'abc', maxResults: 10 }
+    const { understanding } = await runSearchPipeline(request)
+    fetchMock.mockClear()
+
+    const page = await fetchResultsPage(understanding, request, 10)
+
+    expect(calledPaths()).toEqual(['/api/v1/search'])
+    const body = await requestBody('/api/v1/search')
+    expect(body).toMatchObject({
+      composedQuery: { oDataFilter: "make eq 'BMW'" },
+      maxResults: 10,
+      offset: 10,
+    })
+    // Without the query text the guardrails don't count the page against the rate limit
+    expect(body.query).toBeUndefined()
+    expect(body.sessionId).toBeUndefined()
+    expect(page.totalCount).toBe(25)
+  })
+
+  it('asks the backend to order results and keeps their relevance rank', async () => {
+    routes['/api/v1/query/parse'] = parsed('search')
+    routes['/api/v1/query/map'] = { constraints: [makeConstraint], unmappableTerms: [], metadata: {}, concepts: [] }
+    routes['/api/v1/query/compose'] = composed([makeConstraint])
+    routes['/api/v1/search'] = { ...searchResponse, totalCount: 25 }
+    const request = { query: 'BMW under 20k', sessionId: 'abc', maxResults: 10, sort: 'mileage-asc' as const }
+    const { results, understanding } = await runSearchPipeline(request)
+
+    expect((await requestBody('/api/v1/search')).composedQuery.orderBy).toBe('mileage asc')
+    expect(results.results[0].rank).toBe(1)
+
+    fetchMock.mockClear()
+    const page = await fetchResultsPage(understanding, request, 10)
+
+    expect((await requestBody('/api/v1/search')).composedQuery.orderBy).toBe('mileage asc')
+    expect(page.results[0].rank).toBe(11)
+  })
+
+  it('does not record the search again when fetching the first page in a new order', async () => {
+    routes['/api/v1/query/parse'] = parsed('search')
+    routes['/api/v1/query/map'] = { constraints: [makeConstraint], unmappableTerms: [], metadata: {}, concepts: [] }
+    routes['/api/v1/query/compose'] = composed([makeConstraint])
+    routes['/api/v1/search'] = searchResponse
+    const request = { query: 'BMW under 20k', sessionId: 'abc', maxResults: 10 }
+    const { understanding } = await runSearchPipeline(request)
+    fetchMock.mockClear()
+
+    await fetchResultsPage(understanding, { ...request, sort: 'price-desc' }, 0)
+
+    const body = await requestBody('/api/v1/search')
+    expect(body.composedQuery.orderBy).toBe('price desc')
+    expect(body.sessionId).toBeUndefined()
+    expect(body.query).toBeUndefined()
+  })
+
+  it('does not page a vector-only search', async () => {
+    routes['/api/v1/query/parse'] = { ...parsed('search'), entities: [] }
+    routes['/api/v1/query/map'] = { constraints: [], unmappableTerms: ['comfy'], metadata: {}, concepts: [] }
+    routes['/api/v1/query/compose'] = { ...composed([]), oDataFilter: null }
+    routes['/api/v1/search/semantic'] = { matches: [], averageScore: 0, searchDuration: '80.00ms' }
+    const { understanding } = await runSearchPipeline({ query: 'something comfy' })
+    fetchMock.mockClear()
+
+    await expect(fetchResultsPage(understanding, { query: 'something comfy' }, 10)).rejects.toThrow(
+      'This search has no further pages'
+    )
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+})
+
+describe('runSearchPipeline cancellation', () => {
+  it('rejects with the AbortError when the signal is aborted', async () => {
+    global.fetch = jest.fn((request: Request) =>
+      new Promise<Response>((_resolve, reject) => {
+        if (request.signal.aborted) {
+          reject(request.signal.reason)
+        }
+        request.signal.addEventListener('abort', () => reject(request.signal.reason))
+      })
+    ) as jest.Mock
+
+    const controller = new AbortController()
+    const pending = runSearchPipeline({ query: 'BMW' }, controller.signal)
+    controller.abort()
+
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' })
+  })
+})
+
+describe('toParsedQuery', () => {
+  it('maps the lower-cased intent back to the enum name', () => {
+    expect(toParsedQuery(parsed('offtopic')).intent).toBe('OffTopic')
+  })
+})
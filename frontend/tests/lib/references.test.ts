@@ -0,0 +1,108 @@
+/**
+ * @jest-environment node
+ */
+import type { ReferenceResponse } from '@/lib/api/generated'
+import {
+  describeReferent,
+  isVehicleReference,
+  mayReferToResults,
+  nameReferent,
+  resolveReferences,
+} from '@/lib/api/references'
+import { VehicleDocument } from '@/lib/api/types'
+import { jsonResponse } from '../utils/http'
+
+const focus = {
+  id: 'FD12ABC',
+  make: 'Ford',
+  model: 'Focus',
+  price: 8995,
+  mileage: 42000,
+  fuelType: 'Petrol',
+  transmissionType: 'Manual',
+  saleLocation: 'Leeds',
+} as VehicleDocument
+
+const reference = (referenceText: string, type: string): ReferenceResponse => ({
+  referenceText,
+  type,
+  resolvedValue: '',
+  position: 0,
+  vehicleIds: [],
+})
+
+describe('mayReferToResults', () => {
+  it('spots pronouns, positions and comparatives', () => {
+    expect(mayReferToResults('Tell me more about it')).toBe(true)
+    expect(mayReferToResults('Is that BMW still available')).toBe(true)
+    expect(mayReferToResults('something like the second one')).toBe(true)
+    expect(mayReferToResults('show me cheaper ones')).toBe(true)
+  })
+
+  it('leaves out queries that stand alone', () => {
+    expect(mayReferToResults('BMW under £20k')).toBe(false)
+    expect(mayReferToResults('Itchen location')).toBe(false)
+  })
+})
+
+describe('resolveReferences', () => {
+  let fetchMock: jest.Mock
+
+  beforeEach(() => {
+    fetchMock = jest.fn()
+    global.fetch = fetchMock
+  })
+
+  it('identifies the session, as searches do', async () => {
+    const resolution = {
+      originalQuery: 'show me cheaper ones',
+      resolvedQuery: 'show me cheaper ones',
+      resolvedReferences: [],
+      resolvedValues: {},
+      hasUnresolvedReferences: false,
+    }
+    fetchMock.mockResolvedValue(jsonResponse(resolution))
+
+    await expect(resolveReferences('show me cheaper ones', 'session-1')).resolves.toEqual(resolution)
+
+    const request: Request = fetchMock.mock.calls[0][0]
+    expect(request.url).toMatch(/\/api\/v1\/query\/resolve$/)
+    expect(request.headers.get('X-Session-Id')).toBe('session-1')
+    expect(await request.json()).toEqual({ query: 'show me cheaper ones', sessionId: 'session-1' })
+  })
+})
+
+describe('isVehicleReference', () => {
+  it('is true of references to a single vehicle', () => {
+    expect(isVehicleReference(reference('it', 'Pronoun'))).toBe(true)
+    expect(isVehicleReference(reference('that BMW', 'Demonstrative'))).toBe(true)
+    expect(isVehicleReference(reference('second one', 'Anaphoric'))).toBe(true)
+  })
+
+  it('is false of plural pronouns and comparatives', () => {
+    expect(isVehicleReference(reference('them', 'Pronoun'))).toBe(false)
+    expect(isVehicleReference(reference('cheaper', 'Comparative'))).toBe(false)
+  })
+})
+
+describe('describeReferent', () => {
+  it('names the vehicle with its price', () => {
+    expect(describeReferent(focus)).toBe('Ford Focus (£8,995)')
+  })
+})
+
+describe('nameReferent', () => {
+  it('replaces a reference with the vehicle', () => {
+    expect(nameReferent('something like the second one', 'second one', focus)).toBe('something like the Ford Focus')
+    expect(nameReferent('Is that BMW still available', 'that BMW', focus)).toBe('Is the Ford Focus still available')
+  })
+
+  it('matches pronouns whatever their case, as whole words', () => {
+    expect(nameReferent('It has a service history?', 'it', focus)).toBe('the Ford Focus has a service history?')
+    expect(nameReferent('with sat nav, is it cheap', 'it', focus)).toBe('with sat nav, is the Ford Focus cheap')
+  })
+
+  it('leaves the query alone when the reference is not in it', () => {
+    expect(nameReferent('BMW under £20k', 'second one', focus)).toBe('BMW under £20k')
+  })
+})
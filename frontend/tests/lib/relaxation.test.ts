@@ -0,0 +1,114 @@
+/**
+ * @jest-environment node
+ */
+import type { ComposeQueryResponse } from '@/lib/api/generated'
+import { findRelaxations, relaxationCandidates } from '@/lib/api/relaxation'
+import { jsonResponse } from '../utils/http'
+
+const composed = (constraints: ComposeQueryResponse['constraintGroups'][number]['constraints']): ComposeQueryResponse => ({
+  type: 'Complex',
+  constraintGroups: [{ constraints, operator: 'And', priority: 1 }],
+  groupOperator: 'And',
+  warnings: [],
+  hasConflicts: false,
+  oDataFilter: "colour eq 'Red' and price le 20000",
+})
+
+const colour = { fieldName: 'colour', operator: 'Equals', value: 'Red', type: 'Exact' }
+const price = { fieldName: 'price', operator: 'LessThanOrEqual', value: 20000, type: 'Range' }
+const mileage = { fieldName: 'mileage', operator: 'Between', value: [0, 30000], type: 'Range' }
+const reliable = { fieldName: 'description', operator: 'Contains', value: 'reliable', type: 'Semantic' }
+
+describe('relaxationCandidates', () => {
+  it('loosens price and mileage limits before dropping each constraint', () => {
+    const candidates = relaxationCandidates(composed([colour, price, mileage]))
+
+    expect(candidates.map((candidate) => candidate.label)).toEqual([
+      'Raise the price to £24,000',
+      'Widen the mileage to 45,000 miles',
+      "Remove 'Colour = Red'",
+      "Remove 'Price ≤ £20,000'",
+      "Remove 'Mileage 0 miles – 30,000 miles'",
+    ])
+    expect(candidates[0].constraints).toEqual([
+      colour,
+      { ...price, value: 24000 },
+      mileage,
+    ])
+    expect(candidates[1].constraints[2]).toEqual({ ...mileage, value: [0, 45000] })
+    expect(candidates[2].constraints).toEqual([price, mileage])
+  })
+
+  it('counts each candidate over its own constraints rather than the old filter', () => {
+    const [loosened] = relaxationCandidates(composed([colour, price]))
+
+    expect(loosened.query.oDataFilter).toBeNull()
+    expect(loosened.query.constraintGroups[0].constraints).toEqual([colour, { ...price, value: 24000 }])
+  })
+
+  it('leaves semantic constraints alone', () => {
+    const candidates = relaxationCandidates(composed([colour, reliable]))
+
+    expect(candidates.map((candidate) => candidate.label)).toEqual(["Remove 'Colour = Red'"])
+    expect(candidates[0].constraints).toEqual([reliable])
+  })
+
+  it('does not suggest dropping the only constraint', () => {
+    expect(relaxationCandidates(composed([colour]))).toEqual([])
+    expect(relaxationCandidates(composed([price])).map((candidate) => candidate.label)).toEqual([
+      'Raise the price to £24,000',
+    ])
+  })
+})
+
+describe('findRelaxations', () => {
+  let fetchMock: jest.Mock
+
+  // The number of vehicles the facets endpoint finds, by the fields left constrained
+  const countWhere = (counts: (fields: string[]) => number | null) =>
+    fetchMock.mockImplementation(async (request: Request) => {
+      const { composedQuery } = await request.clone().json()
+      const fields = composedQuery.constraintGroups.flatMap((group: { constraints: { fieldName: string }[] }) =>
+        group.constraints.map((constraint) => constraint.fieldName)
+      )
+      const count = counts(fields)
+      return count === null
+        ? jsonResponse({ error: 'Invalid constraint' }, 400)
+        : jsonResponse({ facets: {}, ranges: {}, totalCount: count })
+    })
+
+  beforeEach(() => {
+    fetchMock = jest.fn()
+    global.fetch = fetchMock
+  })
+
+  it('returns those that find something, most results first', async () => {
+    countWhere((fields) => {
+      if (fields.length === 3) {
+        // The loosened price and mileage
+        return 0
+      }
+      if (!fields.includes('colour')) {
+        return 14
+      }
+      return fields.includes('price') ? 3 : 9
+    })
+
+    const relaxations = await findRelaxations(composed([colour, price, mileage]))
+
+    expect(fetchMock).toHaveBeenCalledTimes(5)
+    expect(relaxations.map(({ label, count }) => [label, count])).toEqual([
+      ["Remove 'Colour = Red'", 14],
+      ["Remove 'Price ≤ £20,000'", 9],
+      ["Remove 'Mileage 0 miles – 30,000 miles'", 3],
+    ])
+  })
+
+  it('leaves out those that cannot be counted', async () => {
+    countWhere((fields) => (fields.includes('colour') ? null : 6))
+
+    const relaxations = await findRelaxations(composed([colour, price]))
+
+    expect(relaxations.map(({ label }) => label)).toEqual(["Remove 'Colour = Red'"])
+  })
+})
@@ -0,0 +1,154 @@
+/**
+ * @jest-environment node
+ */
+import type { ComposeQueryResponse } from '@/lib/api/generated'
+import {
+  isRelevanceOrder,
+  priorityShares,
+  RELEVANCE_PRIORITIES,
+  rerankResults,
+  reorderResults,
+} from '@/lib/api/rerank'
+import { VehicleResult } from '@/lib/api/types'
+import { jsonResponse } from '../utils/http'
+
+const result = (id: string, price: number, mileage: number): VehicleResult => ({
+  vehicle: {
+    id,
+    make: 'Ford',
+    model: 'Focus',
+    price,
+    mileage,
+    fuelType: 'Petrol',
+    transmissionType: 'Manual',
+    saleLocation: 'Leeds',
+    description: 'Kept for the card, not sent',
+  },
+  rank: Number(id),
+  score: 0.9 - Number(id) / 10,
+  scoreBreakdown: { exactMatchScore: 0.8, semanticScore: 0.7, finalScore: 0.9 },
+})
+
+const results = [result('1', 12000, 60000), result('2', 9000, 30000), result('3', 15000, 10000)]
+
+const composed: ComposeQueryResponse = {
+  type: 'Filtered',
+  constraintGroups: [
+    {
+      constraints: [{ fieldName: 'make', operator: 'Equals', value: 'Ford', type: 'Exact' }],
+      operator: 'And',
+      priority: 1,
+    },
+  ],
+  groupOperator: 'And',
+  warnings: [],
+  hasConflicts: false,
+  oDataFilter: "make eq 'Ford'",
+}
+
+// The backend's copy of a result, which has fewer fields
+const searchResult = ({ vehicle }: VehicleResult, relevanceScore: number) => ({
+  vehicle: {
+    id: vehicle.id,
+    make: vehicle.make,
+    model: vehicle.model,
+    derivative: '',
+    price: vehicle.price,
+    mileage: vehicle.mileage,
+    bodyType: '',
+    engineSize: 0,
+    fuelType: vehicle.fuelType,
+    transmissionType: vehicle.transmissionType,
+    colour: '',
+    saleLocation: '',
+    features: [],
+  },
+  relevanceScore,
+})
+
+describe('rerankResults', () => {
+  let fetchMock: jest.Mock
+
+  beforeEach(() => {
+    fetchMock = jest.fn()
+    global.fetch = fetchMock
+  })
+
+  it('posts the results with the priorities as factor weights', async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse({ results: [searchResult(results[2], 0.9), searchResult(results[1], 0.6), searchResult(results[0], 0.2)] })
+    )
+
+    await rerankResults(results, composed, { ...RELEVANCE_PRIORITIES, mileage: 50, relevance: 50 })
+
+    const request: Request = fetchMock.mock.calls[0][0]
+    expect(request.url).toMatch(/\/api\/v1\/search\/rerank$/)
+    const body = await request.json()
+    expect(body.strategy).toEqual({
+      approach: 'WeightedScore',
+      factorWeights: { Mileage: 0.5, SemanticRelevance: 0.5 },
+      applyDiversity: false,
+    })
+    expect(body.query.constraintGroups[0].constraints[0]).toMatchObject({ fieldName: 'make', value: 'Ford' })
+    expect(body.results[1]).toMatchObject({
+      vehicleId: '2',
+      vehicle: { make: 'Ford', price: 9000, mileage: 30000, derivative: '' },
+      relevanceScore: 0.7,
+      scoreBreakdown: { keywordScore: 0 },
+    })
+  })
+
+  it('returns the results it was given in the new order', async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse({ results: [searchResult(results[2], 0.9), searchResult(results[1], 0.6), searchResult(results[0], 0.2)] })
+    )
+
+    const reranked = await rerankResults(results, composed, { ...RELEVANCE_PRIORITIES, mileage: 100 })
+
+    expect(reranked).toEqual([results[2], results[1], results[0]])
+    expect(reranked[0].vehicle.description).toBe('Kept for the card, not sent')
+  })
+
+  it('reports a failure with the backend message', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ error: 'Results list cannot be empty' }, 400))
+
+    await expect(rerankResults([], composed, RELEVANCE_PRIORITIES)).rejects.toMatchObject({
+      name: 'SearchApiError',
+      message: 'Results list cannot be empty',
+      status: 400,
+    })
+  })
+})
+
+describe('reorderResults', () => {
+  it('keeps results missing from the order after the rest, as they were', () => {
+    expect(reorderResults(results, ['3']).map((r) => r.vehicle.id)).toEqual(['3', '1', '2'])
+  })
+})
+
+describe('isRelevanceOrder', () => {
+  it('is true when only relevance counts, or nothing does', () => {
+    expect(isRelevanceOrder(RELEVANCE_PRIORITIES)).toBe(true)
+    expect(isRelevanceOrder({ ...RELEVANCE_PRIORITIES, relevance: 0 })).toBe(true)
+  })
+
+  it('is false when anything else counts', () => {
+    expect(isRelevanceOrder({ ...RELEVANCE_PRIORITIES, price: 10 })).toBe(false)
+  })
+})
+
+describe('priorityShares', () => {
+  it('gives each factor its share of the total', () => {
+    expect(priorityShares({ ...RELEVANCE_PRIORITIES, price: 100, age: 50, relevance: 50 })).toEqual({
+      price: 0.5,
+      mileage: 0,
+      age: 0.25,
+      serviceHistory: 0,
+      relevance: 0.25,
+    })
+  })
+
+  it('is all zero when nothing counts', () => {
+    expect(priorityShares({ ...RELEVANCE_PRIORITIES, relevance: 0 }).relevance).toBe(0)
+  })
+})
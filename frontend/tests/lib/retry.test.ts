@@ -0,0 +1,150 @@
+/**
+ * @jest-environment node
+ */
+import { getVehicleById } from '@/lib/api/search'
+import { parseQuery } from '@/lib/api/generated'
+import { SearchApiError, parseRetryAfter, unwrap } from '@/lib/api/errors'
+import { backoffDelay, createRetryingFetch, defaultRetryOptions } from '@/lib/api/retry'
+import { jsonResponse } from '../utils/http'
+
+const vehicle = {
+  id: 'AB12CDE',
+  make: 'BMW',
+  model: '3 Series',
+  derivative: '320d M Sport',
+  price: 18500,
+  mileage: 42000,
+  bodyType: 'Saloon',
+  engineSize: 2.0,
+  fuelType: 'Diesel',
+  transmissionType: 'Automatic',
+  colour: 'Black',
+  saleLocation: 'Leeds',
+  channel: 'Retail',
+  features: [],
+  description: '',
+}
+
+const rateLimitBody = {
+  error: {
+    code: 'RateLimitExceeded',
+    message: 'Rate limit exceeded. Please try again in 60 seconds.',
+    details: [],
+    retryAfterSeconds: 60,
+  },
+  timestamp: '2024-01-28T10:00:00Z',
+  traceId: 'trace-1',
+}
+
+describe('parseRetryAfter', () => {
+  it('reads delta-seconds', () => {
+    expect(parseRetryAfter('30')).toBe(30)
+  })
+
+  it('reads an HTTP date relative to now', () => {
+    const now = Date.parse('Wed, 21 Oct 2026 07:28:00 GMT')
+    expect(parseRetryAfter('Wed, 21 Oct 2026 07:28:45 GMT', now)).toBe(45)
+  })
+
+  it('ignores missing or malformed values', () => {
+    expect(parseRetryAfter(null)).toBeUndefined()
+    expect(parseRetryAfter('soon')).toBeUndefined()
+  })
+})
+
+describe('rate-limit errors', () => {
+  it('carries Retry-After and remaining requests from a 429', async () => {
+    global.fetch = jest.fn().mockResolvedValue(
+      jsonResponse(rateLimitBody, 429, { 'Retry-After': '42', 'X-RateLimit-Remaining': '0' })
+    )
+
+    const error = await parseQuery({ body: { query: 'BMW' } })
+      .then((result) => unwrap(result, 'Failed to parse query'))
+      .catch((e) => e)
+
+    expect(error).toBeInstanceOf(SearchApiError)
+    expect(error).toMatchObject({
+      status: 429,
+      message: 'Rate limit exceeded. Please try again in 60 seconds.',
+      retryAfter: 42,
+      remainingRequests: 0,
+    })
+  })
+
+  it('falls back to the retry time in the body when the header is not exposed', async () => {
+    global.fetch = jest.fn().mockResolvedValue(jsonResponse(rateLimitBody, 429))
+
+    const error = await parseQuery({ body: { query: 'BMW' } })
+      .then((result) => unwrap(result, 'Failed to parse query'))
+      .catch((e) => e)
+
+    expect(error.retryAfter).toBe(60)
+    expect(error.remainingRequests).toBeUndefined()
+  })
+})
+
+describe('backoffDelay', () => {
+  it('stays within a doubling window capped at maxDelay', () => {
+    expect(backoffDelay(0, defaultRetryOptions, () => 0.999)).toBeLessThan(300)
+    expect(backoffDelay(3, defaultRetryOptions, () => 0.999)).toBeLessThan(2400)
+    expect(backoffDelay(10, defaultRetryOptions, () => 0.999)).toBeLessThan(10000)
+    expect(backoffDelay(3, defaultRetryOptions, () => 0)).toBe(0)
+  })
+})
+
+describe('createRetryingFetch', () => {
+  const options = { retries: 2, baseDelay: 1, maxDelay: 5000 }
+
+  it('retries idempotent requests after a transient failure', async () => {
+    global.fetch = jest
+      .fn()
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(jsonResponse({}, 503))
+      .mockResolvedValueOnce(jsonResponse({ ok: true }))
+
+    const response = await createRetryingFetch(options)('http://api.test/api/v1/vehicles')
+
+    expect(response.status).toBe(200)
+    expect(global.fetch).toHaveBeenCalledTimes(3)
+  })
+
+  it('gives up after the configured number of retries', async () => {
+    global.fetch = jest.fn().mockResolvedValue(jsonResponse({}, 503))
+
+    const response = await createRetryingFetch(options)('http://api.test/api/v1/vehicles')
+
+    expect(response.status).toBe(503)
+    expect(global.fetch).toHaveBeenCalledTimes(3)
+  })
+
+  it('never retries non-idempotent requests', async () => {
+    global.fetch = jest.fn().mockResolvedValue(jsonResponse(rateLimitBody, 429))
+
+    const response = await createRetryingFetch(options)('http://api.test/api/v1/query/parse', {
+      method: 'POST',
+      body: '{}',
+    })
+
+    expect(response.status).toBe(429)
+    expect(global.fetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('hands back a 429 whose Retry-After is longer than it is prepared to wait', async () => {
+    global.fetch = jest.fn().mockResolvedValue(jsonResponse(rateLimitBody, 429, { 'Retry-After': '60' }))
+
+    const response = await createRetryingFetch(options)('http://api.test/api/v1/vehicles')
+
+    expect(response.status).toBe(429)
+    expect(global.fetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('is used by the API client for GETs', async () => {
+    global.fetch = jest
+      .fn()
+      .mockResolvedValueOnce(jsonResponse({}, 502))
+      .mockResolvedValueOnce(jsonResponse(vehicle))
+
+    await expect(getVehicleById('AB12CDE')).resolves.toMatchObject({ id: 'AB12CDE' })
+    expect(global.fetch).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,87 @@
+import { SearchApiError } from '@/lib/api/errors'
+import { toSearchError } from '@/lib/api/safety'
+
+const guardrailError = (code: string, message: string, details: unknown = []) =>
+  new SearchApiError(message, 400, {
+    error: { code, message, details },
+    timestamp: '2024-01-28T10:00:00Z',
+    traceId: 'trace-1',
+  })
+
+describe('toSearchError', () => {
+  it.each([
+    'OffTopic',
+    'PromptInjection',
+    'InappropriateContent',
+    'ExcessiveLength',
+    'InvalidCharacters',
+    'BulkExtraction',
+  ])('classifies %s rejections as safety violations', (code) => {
+    expect(toSearchError(guardrailError(code, 'Rejected'), 'query')).toEqual({
+      kind: 'safety',
+      violation: code,
+      message: 'Rejected',
+      query: 'query',
+      errors: [],
+    })
+  })
+
+  it('keeps the ValidationError list', () => {
+    const error = guardrailError('ExcessiveLength', 'Query exceeds maximum length of 500 characters', [
+      { rowNumber: 0, fieldName: 'query', message: 'Query exceeds maximum length of 500 characters', value: null },
+    ])
+
+    expect(toSearchError(error)).toMatchObject({
+      errors: [{ fieldName: 'query', message: 'Query exceeds maximum length of 500 characters' }],
+    })
+  })
+
+  it('treats guardrail failures without a violation type as validation errors', () => {
+    const error = guardrailError('VALIDATION_ERROR', 'Query must be at least 2 characters', [
+      { rowNumber: 0, fieldName: 'query', message: 'Query must be at least 2 characters' },
+    ])
+
+    expect(toSearchError(error)).toMatchObject({
+      kind: 'validation',
+      errors: [{ fieldName: 'query', message: 'Query must be at least 2 characters' }],
+    })
+  })
+
+  it('reads field errors from ValidationProblemDetails', () => {
+    const error = new SearchApiError('One or more validation errors occurred.', 400, {
+      title: 'One or more validation errors occurred.',
+      errors: { MaxResults: ['MaxResults must be between 1 and 100'] },
+    })
+
+    expect(toSearchError(error)).toMatchObject({
+      kind: 'validation',
+      errors: [{ fieldName: 'MaxResults', message: 'MaxResults must be between 1 and 100' }],
+    })
+  })
+
+  it('classifies 429s as rate limiting with the retry window', () => {
+    const error = new SearchApiError('Rate limit exceeded', 429, undefined, { retryAfter: 60, remainingRequests: 0 })
+
+    expect(toSearchError(error)).toMatchObject({ kind: 'rateLimited', retryAfter: 60, remainingRequests: 0 })
+  })
+
+  it.each([
+    ['a manual block', { expiresAt: '2024-01-28T11:00:00Z', remainingTime: '01:00:00' }],
+    ['an automatic block', { riskLevel: 'Critical', blockedUntil: '2024-01-28T11:00:00Z' }],
+  ])('classifies SESSION_BLOCKED from %s', (_name, details) => {
+    const error = new SearchApiError('Your session has been blocked.', 403, {
+      error: { code: 'SESSION_BLOCKED', message: 'Your session has been blocked.', details },
+    })
+
+    expect(toSearchError(error)).toMatchObject({
+      kind: 'sessionBlocked',
+      blockedUntil: '2024-01-28T11:00:00Z',
+    })
+  })
+
+  it('separates network failures from server errors', () => {
+    expect(toSearchError(new SearchApiError('fetch failed'))).toMatchObject({ kind: 'network' })
+    expect(toSearchError(new SearchApiError('Boom', 500))).toMatchObject({ kind: 'unknown', status: 500 })
+    expect(toSearchError(new Error('Boom'))).toMatchObject({ kind: 'unknown', message: 'Boom' })
+  })
+})
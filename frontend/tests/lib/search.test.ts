@@ -0,0 +1,80 @@
+/**
+ * @jest-environment node
+ */
+import { getSimilarVehicles, getVehicleById } from '@/lib/api/search'
+import { getErrorMessage } from '@/lib/api/errors'
+import { jsonResponse } from '../utils/http'
+
+const vehicle = {
+  id: 'AB12CDE',
+  make: 'BMW',
+  model: '3 Series',
+  derivative: '320d M Sport',
+  price: 18500,
+  mileage: 42000,
+  bodyType: 'Saloon',
+  engineSize: 2.0,
+  fuelType: 'Diesel',
+  transmissionType: 'Automatic',
+  colour: 'Black',
+  numberOfDoors: null,
+  registrationDate: null,
+  saleLocation: 'Leeds',
+  features: ['Navigation'],
+}
+
+describe('search API', () => {
+  let fetchMock: jest.Mock
+
+  beforeEach(() => {
+    fetchMock = jest.fn()
+    global.fetch = fetchMock
+  })
+
+  it('throws a SearchApiError carrying the backend error message and status', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ error: "Vehicle with ID 'AB12CDE' not found" }, 404))
+
+    await expect(getVehicleById('AB12CDE')).rejects.toMatchObject({
+      name: 'SearchApiError',
+      message: "Vehicle with ID 'AB12CDE' not found",
+      status: 404,
+    })
+  })
+
+  it('wraps network failures in a SearchApiError without a status', async () => {
+    fetchMock.mockRejectedValue(new Error('Network error'))
+
+    await expect(getVehicleById('AB12CDE')).rejects.toMatchObject({
+      name: 'SearchApiError',
+      message: 'Network error',
+      status: undefined,
+    })
+  })
+
+  it('requests a vehicle by id through the generated SDK', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ ...vehicle, channel: 'Retail', description: '' }))
+
+    const result = await getVehicleById('AB12CDE')
+
+    expect((fetchMock.mock.calls[0][0] as Request).url).toContain('/api/v1/vehicles/AB12CDE')
+    expect(result.make).toBe('BMW')
+  })
+
+  it('returns no similar vehicles when the endpoint is missing', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({}, 404))
+
+    await expect(getSimilarVehicles('AB12CDE')).resolves.toEqual([])
+  })
+})
+
+describe('getErrorMessage', () => {
+  it.each([
+    [{ error: 'Query cannot be empty' }, 'Query cannot be empty'],
+    [{ error: { code: 'OffTopic', message: 'Please ask about vehicles' } }, 'Please ask about vehicles'],
+    [{ title: 'Search failed', detail: 'Index unavailable' }, 'Index unavailable'],
+    ['Bad gateway', 'Bad gateway'],
+    [{}, undefined],
+  ])('extracts the message from %j', (body, expected) => {
+    expect(getErrorMessage(body)).toBe(expected)
+  })
+})
@@ -0,0 +1,66 @@
+import { parseSearchParams, SearchUrlState, toSearchParams } from '@/lib/searchParams'
+
+const fullState: SearchUrlState = {
+  query: 'family estate',
+  filters: {
+    priceRange: { min: 5000, max: 20000 },
+    mileageRange: { max: 60000 },
+    yearMin: 2018,
+    make: ['Volvo', 'Audi'],
+    model: ['XC60'],
+    bodyType: ['Estate'],
+    colour: ['Black'],
+    fuelType: ['Diesel'],
+    transmission: ['Automatic'],
+    location: ['Leeds'],
+    grade: ['2'],
+  },
+  sort: 'price-asc',
+  page: 3,
+  compare: ['AB12CDE', 'XY34ZZZ'],
+}
+
+describe('search URL state', () => {
+  it('round-trips every field', () => {
+    expect(parseSearchParams(toSearchParams(fullState))).toEqual(fullState)
+  })
+
+  it('uses short, readable parameters', () => {
+    expect(toSearchParams(fullState).toString()).toBe(
+      'q=family+estate&price=5000-20000&mileage=-60000&year=2018&make=Volvo%2CAudi&model=XC60' +
+        '&body=Estate&colour=Black&fuel=Diesel&transmission=Automatic&location=Leeds&grade=2' +
+        '&sort=price-asc&page=3&compare=AB12CDE%2CXY34ZZZ'
+    )
+  })
+
+  it('leaves out defaults', () => {
+    expect(toSearchParams({ query: 'BMW', filters: {}, page: 1, compare: [] }).toString()).toBe('q=BMW')
+  })
+
+  it('falls back to defaults for an empty URL', () => {
+    expect(parseSearchParams(new URLSearchParams())).toEqual({
+      query: '',
+      filters: {},
+      sort: undefined,
+      page: 1,
+      compare: [],
+    })
+  })
+
+  it('reads ranges open at either end', () => {
+    const state = parseSearchParams(new URLSearchParams('price=5000-&mileage=-60000'))
+
+    expect(state.filters).toEqual({ priceRange: { min: 5000 }, mileageRange: { max: 60000 } })
+  })
+
+  it('ignores malformed values in hand-edited links', () => {
+    const state = parseSearchParams(
+      new URLSearchParams('q=BMW&price=20000-5000&mileage=lots&year=new&make=,&sort=cheapest&page=0&compare=,,AB12CDE')
+    )
+
+    expect(state.filters).toEqual({})
+    expect(state.sort).toBeUndefined()
+    expect(state.page).toBe(1)
+    expect(state.compare).toEqual(['AB12CDE'])
+  })
+})
@@ -0,0 +1,85 @@
+import type { SearchResults, VehicleResult } from '@/lib/api/types'
+import { isServerSorted, isSortOrder, rememberedSort, rememberSort, sortResults } from '@/lib/sorting'
+
+const result = (id: string, vehicle: Partial<VehicleResult['vehicle']>, rank: number): VehicleResult => ({
+  vehicle: { id, make: 'BMW', model: '3 Series', price: 0, mileage: 0, ...vehicle } as VehicleResult['vehicle'],
+  score: 1,
+  rank,
+})
+
+const ids = (results: VehicleResult[]) => results.map(({ vehicle }) => vehicle.id)
+
+describe('sortResults', () => {
+  const results = [
+    result('A', { price: 20000, mileage: 30000, registrationDate: '2019-03-01' }, 1),
+    result('B', { price: 15000, mileage: 50000 }, 2),
+    result('C', { price: 20000, mileage: 10000, registrationDate: '2021-06-01' }, 3),
+  ]
+
+  it('keeps relevance order without a sort', () => {
+    expect(sortResults(results, undefined)).toBe(results)
+  })
+
+  it('orders by the field in either direction', () => {
+    expect(ids(sortResults(results, 'mileage-asc'))).toEqual(['C', 'A', 'B'])
+    expect(ids(sortResults(results, 'year-desc'))).toEqual(['C', 'A', 'B'])
+  })
+
+  it('keeps relevance order between equal values', () => {
+    expect(ids(sortResults(results, 'price-desc'))).toEqual(['A', 'C', 'B'])
+  })
+
+  it('puts vehicles without the value last either way', () => {
+    expect(ids(sortResults(results, 'year-asc'))).toEqual(['A', 'C', 'B'])
+  })
+
+  it('does not reorder the results it was given', () => {
+    sortResults(results, 'price-asc')
+
+    expect(ids(results)).toEqual(['A', 'B', 'C'])
+  })
+})
+
+describe('isServerSorted', () => {
+  const strategy = (name: string) => ({ strategy: { name } }) as SearchResults
+
+  it('is true only for exact-match searches', () => {
+    expect(isServerSorted(strategy('ExactOnly'), 'price-desc')).toBe(true)
+    expect(isServerSorted(strategy('ExactOnly'), undefined)).toBe(true)
+    expect(isServerSorted(strategy('Hybrid'), 'price-desc')).toBe(false)
+  })
+
+  it('is false for an order the index cannot sort by', () => {
+    expect(isServerSorted(strategy('ExactOnly'), 'mot-desc')).toBe(false)
+  })
+})
+
+describe('isSortOrder', () => {
+  it('accepts only known orders', () => {
+    expect(isSortOrder('mot-desc')).toBe(true)
+    expect(isSortOrder('cheapest')).toBe(false)
+    expect(isSortOrder(null)).toBe(false)
+  })
+})
+
+describe('remembered sort', () => {
+  beforeEach(() => localStorage.clear())
+
+  it('remembers the order per session', () => {
+    rememberSort('abc', 'newest')
+
+    expect(rememberedSort('abc')).toBe('newest')
+    expect(rememberedSort('def')).toBeUndefined()
+  })
+
+  it('forgets the order when relevance is chosen again', () => {
+    rememberSort('abc', 'newest')
+    rememberSort('abc', undefined)
+
+    expect(rememberedSort('abc')).toBeUndefined()
+  })
+
+  it('has nothing to remember without a session', () => {
+    expect(rememberedSort(undefined)).toBeUndefined()
+  })
+})
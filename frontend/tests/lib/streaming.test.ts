@@ -0,0 +1,233 @@
+/**
+ * @jest-environment node
+ */
+import { client } from '@/lib/api/client'
+import { SearchApiError } from '@/lib/api/errors'
+import { runSearchPipeline } from '@/lib/api/pipeline'
+import { SearchProgressEvent } from '@/lib/api/types'
+import {
+  StandInRoute,
+  StandInServer,
+  startStandInSearchServer,
+} from '../../../tests/e2e/fixtures/standInSearchServer'
+
+const vehicle = (id: string, make: string) => ({
+  id,
+  make,
+  model: 'Estate',
+  derivative: '2.0 TDI',
+  price: 18500,
+  mileage: 42000,
+  bodyType: 'Estate',
+  engineSize: 2.0,
+  fuelType: 'Diesel',
+  transmissionType: 'Automatic',
+  colour: 'Black',
+  numberOfDoors: 5,
+  registrationDate: null,
+  saleLocation: 'Leeds',
+  features: [],
+})
+
+const searchResponse = (ids: string[], strategy: string) => ({
+  results: ids.map((id, index) => ({
+    vehicle: vehicle(id, 'Audi'),
+    relevanceScore: 1 - index / 10,
+    scoreBreakdown: null,
+  })),
+  totalCount: ids.length,
+  strategy: { type: strategy, approaches: [], weights: {}, shouldRerank: false },
+  searchDuration: '80.00ms',
+  stages: [],
+})
+
+const constraints = [
+  { fieldName: 'fuelType', operator: 'Equals', value: 'Diesel', type: 'Exact' },
+  { fieldName: 'description', operator: 'Contains', value: 'family', type: 'Semantic' },
+]
+
+const queryRoutes: Record<string, StandInRoute> = {
+  '/api/v1/query/parse': {
+    json: {
+      originalQuery: 'diesel family estate',
+      intent: 'search',
+      confidence: 0.9,
+      entities: [],
+      unmappedTerms: [],
+    },
+  },
+  '/api/v1/query/map': { json: { constraints, unmappableTerms: [], metadata: {}, concepts: [] } },
+  '/api/v1/query/compose': {
+    json: {
+      type: 'Complex',
+      constraintGroups: [{ constraints, operator: 'And', priority: 1 }],
+      groupOperator: 'And',
+      warnings: [],
+      hasConflicts: false,
+      oDataFilter: "fuelType eq 'Diesel'",
+    },
+  },
+}
+
+const streamedStages = [
+  { event: 'exact', data: searchResponse(['EX1', 'EX2'], 'ExactOnly') },
+  { event: 'semantic', data: searchResponse(['SE1', 'EX2'], 'SemanticOnly'), delay: 20 },
+  { event: 'reranked', data: searchResponse(['EX2', 'SE1', 'EX1'], 'Hybrid'), delay: 20 },
+]
+
+describe('streamed search', () => {
+  let server: StandInServer
+  let events: SearchProgressEvent[]
+
+  const start = async (routes: Record<string, StandInRoute>) => {
+    server = await startStandInSearchServer({ ...queryRoutes, ...routes })
+    client.setConfig({ baseUrl: server.url })
+  }
+
+  const stages = () => events.map((event) => event.stage)
+  const searchPaths = () =>
+    server.requests.map((request) => request.path).filter((path) => path.startsWith('/api/v1/search'))
+
+  const run = (signal?: AbortSignal) =>
+    runSearchPipeline({ query: 'diesel family estate', maxResults: 3 }, signal, (event) => {
+      events.push(event)
+    })
+
+  beforeEach(() => {
+    events = []
+  })
+
+  afterEach(async () => {
+    await server?.close()
+  })
+
+  it('reports each stage as it arrives and resolves with the reranked results', async () => {
+    await start({ '/api/v1/search/stream': { events: streamedStages } })
+
+    const { results } = await run()
+
+    expect(stages()).toEqual(['parsed', 'composed', 'exact', 'semantic', 'reranked'])
+    expect(results.results.map((result) => result.vehicle.id)).toEqual(['EX2', 'SE1', 'EX1'])
+    expect(results.strategy.name).toBe('Hybrid')
+    expect(searchPaths()).toEqual(['/api/v1/search/stream'])
+  })
+
+  it('delivers partial results before the stream has finished', async () => {
+    await start({
+      '/api/v1/search/stream': {
+        events: [streamedStages[0], { ...streamedStages[2], delay: 200 }],
+      },
+    })
+
+    const pending = run()
+    const startedAt = Date.now()
+
+    await new Promise<void>((resolve) => {
+      const poll = setInterval(() => {
+        if (events.some((event) => event.stage === 'exact')) {
+          clearInterval(poll)
+          resolve()
+        }
+      }, 5)
+    })
+
+    expect(Date.now() - startedAt).toBeLessThan(200)
+    expect(stages()).not.toContain('reranked')
+
+    await pending
+    expect(stages()).toContain('reranked')
+  })
+
+  it('sends the composed query and session to the stream endpoint', async () => {
+    await start({ '/api/v1/search/stream': { events: streamedStages } })
+
+    await runSearchPipeline(
+      { query: 'diesel family estate', sessionId: 'session-1', maxResults: 3 },
+      undefined,
+      () => {}
+    )
+
+    const streamRequest = server.requests.find((request) => request.path === '/api/v1/search/stream')
+    expect(streamRequest?.body).toMatchObject({
+      maxResults: 3,
+      sessionId: 'session-1',
+      query: 'diesel family estate',
+      composedQuery: { oDataFilter: "fuelType eq 'Diesel'" },
+    })
+  })
+
+  it('falls back to the single-shot search when the backend cannot stream', async () => {
+    await start({ '/api/v1/search': { json: searchResponse(['EX1'], 'ExactOnly') } })
+
+    const { results } = await run()
+
+    expect(stages()).toEqual(['parsed', 'composed'])
+    expect(results.results.map((result) => result.vehicle.id)).toEqual(['EX1'])
+    expect(searchPaths()).toEqual(['/api/v1/search/stream', '/api/v1/search'])
+  })
+
+  it('falls back to the single-shot search when the stream ends early', async () => {
+    await start({
+      '/api/v1/search/stream': { events: [streamedStages[0]] },
+      '/api/v1/search': { json: searchResponse(['EX2', 'EX1'], 'Hybrid') },
+    })
+
+    const { results } = await run()
+
+    expect(stages()).toEqual(['parsed', 'composed', 'exact'])
+    expect(results.results.map((result) => result.vehicle.id)).toEqual(['EX2', 'EX1'])
+  })
+
+  it('surfaces a rate limit instead of falling back', async () => {
+    await start({
+      '/api/v1/search/stream': {
+        status: 429,
+        headers: { 'Retry-After': '30' },
+        json: { error: { code: 'RateLimitExceeded', message: 'Rate limit exceeded', details: [] } },
+      },
+    })
+
+    const error = await run().catch((err) => err)
+
+    expect(error).toBeInstanceOf(SearchApiError)
+    expect(error).toMatchObject({ status: 429, retryAfter: 30, message: 'Rate limit exceeded' })
+    expect(searchPaths()).toEqual(['/api/v1/search/stream'])
+  })
+
+  it('surfaces an error event from the stream', async () => {
+    await start({
+      '/api/v1/search/stream': {
+        events: [
+          streamedStages[0],
+          { event: 'error', data: { error: { code: 'SearchFailed', message: 'Index unavailable' } } },
+        ],
+      },
+    })
+
+    await expect(run()).rejects.toMatchObject({ message: 'Index unavailable', status: 500 })
+    expect(stages()).toEqual(['parsed', 'composed', 'exact'])
+  })
+
+  it('stops streaming when aborted', async () => {
+    await start({
+      '/api/v1/search/stream': {
+        events: [streamedStages[0], { ...streamedStages[2], delay: 5000 }],
+      },
+    })
+    const controller = new AbortController()
+
+    const pending = run(controller.signal).catch((err) => err)
+    await new Promise<void>((resolve) => {
+      const poll = setInterval(() => {
+        if (events.some((event) => event.stage === 'exact')) {
+          clearInterval(poll)
+          resolve()
+        }
+      }, 5)
+    })
+    controller.abort()
+
+    expect(await pending).toMatchObject({ name: 'AbortError' })
+    expect(stages()).not.toContain('reranked')
+  })
+})
@@ -0,0 +1,64 @@
+import type { VehicleResult } from '@/lib/api/types'
+import { suggestRefinements } from '@/lib/suggestions'
+
+const result = (index: number, vehicle: Partial<VehicleResult['vehicle']> = {}): VehicleResult => ({
+  vehicle: {
+    id: `V${index}`,
+    make: index < 5 ? 'BMW' : 'Audi',
+    model: 'Saloon',
+    price: 5000 + index * 2000,
+    mileage: (index + 1) * 10000,
+    fuelType: index === 7 ? 'Electric' : 'Petrol',
+    transmissionType: 'Manual',
+    saleLocation: 'London',
+    features: index % 2 === 0 ? ['Leather Seats'] : index === 1 ? ['Sunroof'] : [],
+    ...vehicle,
+  } as VehicleResult['vehicle'],
+  score: 1,
+})
+
+// Prices £5,000 to £19,000, mileages 10,000 to 80,000, five BMWs and three Audis, one electric, all in London
+const results = Array.from({ length: 8 }, (_, index) => result(index))
+
+const suggestion = (label: string, totalCount = 8, filters = {}) =>
+  suggestRefinements(results, totalCount, filters).find((candidate) => candidate.label === label)
+
+describe('suggestRefinements', () => {
+  it('limits price and mileage at their quantiles', () => {
+    expect(suggestion('Under £11,000')).toMatchObject({ count: 4, filters: { priceRange: { max: 11000 } } })
+    expect(suggestion('Under £7,000')).toMatchObject({ count: 2 })
+    expect(suggestion('Under 40,000 miles')).toMatchObject({ count: 4, filters: { mileageRange: { max: 40000 } } })
+  })
+
+  it('offers the makes and fuel types present', () => {
+    expect(suggestion('Only BMW')).toMatchObject({ count: 5, filters: { make: ['BMW'] } })
+    expect(suggestion('Only Audi')).toMatchObject({ count: 3 })
+    expect(suggestion('Electric only')).toMatchObject({ count: 1, filters: { fuelType: ['Electric'] } })
+  })
+
+  it('offers common features as a follow-up query', () => {
+    expect(suggestion('With leather seats')).toMatchObject({ count: 4, query: 'with leather seats' })
+    expect(suggestion('With sunroof')).toBeUndefined()
+  })
+
+  it('leaves out refinements that would not narrow the results', () => {
+    expect(suggestion('In London')).toBeUndefined()
+    expect(suggestRefinements(results, 8).every(({ count }) => count > 0 && count < 8)).toBe(true)
+  })
+
+  it('keeps the filters already applied', () => {
+    expect(suggestion('Under £11,000', 8, { priceRange: { min: 3000 }, transmission: ['Manual'] })?.filters).toEqual({
+      priceRange: { min: 3000, max: 11000 },
+      transmission: ['Manual'],
+    })
+  })
+
+  it('estimates counts from the loaded results when there are more', () => {
+    expect(suggestion('Only BMW', 80)).toMatchObject({ count: 50, estimated: true })
+    expect(suggestion('Only BMW', 8)).toMatchObject({ estimated: false })
+  })
+
+  it('suggests nothing without results', () => {
+    expect(suggestRefinements([], 0)).toEqual([])
+  })
+})
@@ -0,0 +1,53 @@
+import type { ParseQueryResponse } from '@/lib/api/generated'
+import { editEntity } from '@/lib/api/understanding'
+
+const parsed: ParseQueryResponse = {
+  originalQuery: 'reliable BMW under 20k',
+  intent: 'search',
+  confidence: 0.9,
+  entities: [
+    { type: 'QualitativeTerm', value: 'reliable', confidence: 0.8, startPosition: 0, endPosition: 8 },
+    { type: 'Make', value: 'BMW', confidence: 0.95, startPosition: 9, endPosition: 12 },
+    { type: 'Price', value: '20000', confidence: 0.9, startPosition: 19, endPosition: 22 },
+  ],
+  unmappedTerms: [],
+}
+
+describe('editEntity', () => {
+  it('corrects an entity and the query text it came from', () => {
+    const edited = editEntity(parsed, 1, 'Mercedes')
+
+    expect(edited.originalQuery).toBe('reliable Mercedes under 20k')
+    expect(edited.entities[1]).toMatchObject({ value: 'Mercedes', startPosition: 9, endPosition: 17 })
+    expect(edited.entities[2]).toMatchObject({ startPosition: 24, endPosition: 27 })
+    expect(edited.originalQuery.slice(24, 27)).toBe('20k')
+  })
+
+  it('removes an entity and its words', () => {
+    const edited = editEntity(parsed, 0, null)
+
+    expect(edited.originalQuery).toBe('BMW under 20k')
+    expect(edited.entities.map((entity) => entity.value)).toEqual(['BMW', '20000'])
+    expect(edited.entities[0]).toMatchObject({ startPosition: 0, endPosition: 3 })
+  })
+
+  it('removes the last entity without leaving a trailing space', () => {
+    expect(editEntity(parsed, 2, null).originalQuery).toBe('reliable BMW under')
+  })
+
+  it('keeps the query text when the entity has no place in it', () => {
+    const outOfText = {
+      ...parsed,
+      entities: [{ type: 'Make', value: 'BMW', confidence: 0.95, startPosition: 0, endPosition: 0 }],
+    }
+
+    const edited = editEntity(outOfText, 0, 'Audi')
+
+    expect(edited.originalQuery).toBe('reliable BMW under 20k')
+    expect(edited.entities[0].value).toBe('Audi')
+  })
+
+  it('ignores an entity it does not have', () => {
+    expect(editEntity(parsed, 5, null)).toBe(parsed)
+  })
+})
@@ -0,0 +1,72 @@
+/**
+ * @jest-environment node
+ */
+import { getConversationHistory } from '@/lib/api/conversation'
+import { ResponseValidationError } from '@/lib/api/errors'
+import { setValidationMode, setValidationReporter } from '@/lib/api/validation'
+import { jsonResponse } from '../utils/http'
+
+const historyWithBadMessage = {
+  sessionId: 'abc',
+  messages: [
+    {
+      messageId: '1',
+      timestamp: '2024-01-28T10:00:00Z',
+      role: 'User',
+      content: 'BMW under £20k',
+    },
+    {
+      messageId: '2',
+      timestamp: '2024-01-28T10:00:05Z',
+      role: 'Assistant',
+      content: 'Found 5 vehicles',
+      results: { count: '5', resultIds: [] },
+    },
+  ],
+  totalMessages: 2,
+}
+
+describe('response validation', () => {
+  beforeEach(() => {
+    global.fetch = jest.fn().mockResolvedValue(jsonResponse(historyWithBadMessage))
+  })
+
+  afterEach(() => {
+    setValidationMode('strict')
+  })
+
+  it('throws a ResponseValidationError naming the offending path in strict mode', async () => {
+    setValidationMode('strict')
+
+    const error = await getConversationHistory('abc').catch((e) => e)
+
+    expect(error).toBeInstanceOf(ResponseValidationError)
+    expect(error.path).toBe('messages[1].results.count')
+    expect(error.endpoint).toBe('GET /api/v1/conversation/abc/history')
+    expect(error.message).toContain('messages[1].results.count')
+  })
+
+  it('reports the mismatch and returns the data in lenient mode', async () => {
+    const reporter = jest.fn()
+    setValidationMode('lenient')
+    setValidationReporter(reporter)
+
+    const history = await getConversationHistory('abc')
+
+    expect(history.messages).toHaveLength(2)
+    expect(reporter).toHaveBeenCalledWith(
+      expect.objectContaining({ path: 'messages[1].results.count' })
+    )
+  })
+
+  it('accepts DateTime values serialised without an offset', async () => {
+    global.fetch = jest.fn().mockResolvedValue(
+      jsonResponse({
+        ...historyWithBadMessage,
+        messages: [{ ...historyWithBadMessage.messages[0], timestamp: '2024-01-28T10:00:00.1234567' }],
+      })
+    )
+
+    await expect(getConversationHistory('abc')).resolves.toMatchObject({ totalMessages: 2 })
+  })
+})
@@ -0,0 +1,8 @@
+/**
+ * A JSON response as the backend sends it, for mocked fetch calls
+ */
+export const jsonResponse = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  })
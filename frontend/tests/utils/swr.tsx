@@ -0,0 +1,13 @@
+import { ReactElement, ReactNode } from 'react';
+import { render } from '@testing-library/react';
+import { SWRConfig } from 'swr';
+
+/**
+ * Render with a fresh SWR cache, so no test sees another's data
+ */
+export const renderWithSWR = (ui: ReactElement) =>
+  render(ui, {
+    wrapper: ({ children }: { children: ReactNode }) => (
+      <SWRConfig value={{ provider: () => new Map(), dedupingInterval: 0 }}>{children}</SWRConfig>
+    ),
+  });
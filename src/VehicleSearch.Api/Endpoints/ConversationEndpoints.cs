@@ -46,7 +46,8 @@ public static class ConversationEndpoints
         })
         .WithName("CreateConversationSession")
         .WithSummary("Create new conversation session")
-        .WithDescription("Creates a new conversation session with a unique ID");
+        .WithDescription("Creates a new conversation session with a unique ID")
+        .Produces<CreateSessionResponse>();
 
         // GET /api/v1/conversation/{sessionId}
         group.MapGet("{sessionId}", async (
@@ -85,7 +86,8 @@ public static class ConversationEndpoints
         })
         .WithName("GetConversationSession")
         .WithSummary("Get session details")
-        .WithDescription("Retrieves details of an existing conversation session");
+        .WithDescription("Retrieves details of an existing conversation session")
+        .Produces<GetSessionResponse>();
 
         // GET /api/v1/conversation/{sessionId}/history
         group.MapGet("{sessionId}/history", async (
@@ -128,7 +130,8 @@ public static class ConversationEndpoints
         })
         .WithName("GetConversationHistory")
         .WithSummary("Get conversation history")
-        .WithDescription("Retrieves the conversation history for a session");
+        .WithDescription("Retrieves the conversation history for a session")
+        .Produces<ConversationHistory>();
 
         // DELETE /api/v1/conversation/{sessionId}
         group.MapDelete("{sessionId}", async (
@@ -160,7 +163,8 @@ public static class ConversationEndpoints
         })
         .WithName("ClearConversationSession")
         .WithSummary("Clear/delete session")
-        .WithDescription("Deletes a conversation session and all its data");
+        .WithDescription("Deletes a conversation session and all its data")
+        .Produces<ClearSessionResponse>();
     }
 
     /// <summary>
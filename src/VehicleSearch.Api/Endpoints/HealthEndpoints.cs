@@ -13,16 +13,16 @@ public static class HealthEndpoints
     {
         app.MapGet("/api/health", () =>
         {
-            var response = new
+            var response = new HealthResponse
             {
-                status = "Healthy",
-                timestamp = DateTime.UtcNow.ToString("O"),
-                version = "1.0.0",
-                dependencies = new
+                Status = "Healthy",
+                Timestamp = DateTime.UtcNow.ToString("O"),
+                Version = "1.0.0",
+                Dependencies = new HealthDependenciesResponse
                 {
-                    database = "Not configured",
-                    aiService = "Not configured",
-                    searchService = "Not configured"
+                    Database = "Not configured",
+                    AiService = "Not configured",
+                    SearchService = "Not configured"
                 }
             };
 
@@ -30,6 +30,54 @@ public static class HealthEndpoints
         })
         .WithName("GetHealth")
         .WithTags("Health")
-        .WithOpenApi();
+        .WithOpenApi()
+        .Produces<HealthResponse>();
+    }
+
+    /// <summary>
+    /// Response model for the health check.
+    /// </summary>
+    public record HealthResponse
+    {
+        /// <summary>
+        /// Gets or sets the overall API status.
+        /// </summary>
+        public string Status { get; init; } = string.Empty;
+
+        /// <summary>
+        /// Gets or sets the ISO 8601 timestamp of the check.
+        /// </summary>
+        public string Timestamp { get; init; } = string.Empty;
+
+        /// <summary>
+        /// Gets or sets the API version.
+        /// </summary>
+        public string Version { get; init; } = string.Empty;
+
+        /// <summary>
+        /// Gets or sets the status of downstream dependencies.
+        /// </summary>
+        public HealthDependenciesResponse Dependencies { get; init; } = new();
+    }
+
+    /// <summary>
+    /// Status of the API's downstream dependencies.
+    /// </summary>
+    public record HealthDependenciesResponse
+    {
+        /// <summary>
+        /// Gets or sets the database status.
+        /// </summary>
+        public string Database { get; init; } = string.Empty;
+
+        /// <summary>
+        /// Gets or sets the AI service status.
+        /// </summary>
+        public string AiService { get; init; } = string.Empty;
+
+        /// <summary>
+        /// Gets or sets the search service status.
+        /// </summary>
+        public string SearchService { get; init; } = string.Empty;
     }
 }
@@ -34,21 +34,21 @@ public static class KnowledgeBaseEndpoints
 
                 var result = await ingestionService.IngestFromCsvAsync(request.FilePath, cancellationToken);
 
-                return Results.Ok(new
+                return Results.Ok(new IngestResponse
                 {
-                    success = result.Success,
-                    totalRows = result.TotalRows,
-                    validRows = result.ValidRows,
-                    invalidRows = result.InvalidRows,
-                    processingTimeMs = result.ProcessingTimeMs,
-                    completedAt = result.CompletedAt,
-                    errors = result.Errors.Select(e => new
+                    Success = result.Success,
+                    TotalRows = result.TotalRows,
+                    ValidRows = result.ValidRows,
+                    InvalidRows = result.InvalidRows,
+                    ProcessingTimeMs = result.ProcessingTimeMs,
+                    CompletedAt = result.CompletedAt,
+                    Errors = result.Errors.Select(e => new IngestErrorResponse
                     {
-                        rowNumber = e.RowNumber,
-                        fieldName = e.FieldName,
-                        message = e.Message,
-                        value = e.Value
-                    })
+                        RowNumber = e.RowNumber,
+                        FieldName = e.FieldName,
+                        Message = e.Message,
+                        Value = e.Value
+                    }).ToList()
                 });
             }
             catch (FileNotFoundException ex)
@@ -65,25 +65,27 @@ public static class KnowledgeBaseEndpoints
         })
         .WithName("IngestVehicleData")
         .WithSummary("Ingest vehicle data from a CSV file")
-        .WithDescription("Parses, validates, and normalizes vehicle data from a CSV file");
+        .WithDescription("Parses, validates, and normalizes vehicle data from a CSV file")
+        .Produces<IngestResponse>();
 
         // GET /api/v1/knowledge-base/status
         group.MapGet("/status", (ILogger<Program> logger) =>
         {
             // TODO: This will be enhanced when we add search index integration
-            var response = new
+            var response = new KnowledgeBaseStatusResponse
             {
-                totalVehicles = 0,
-                lastIngestionDate = (DateTime?)null,
-                dataSource = "CSV",
-                status = "Ready"
+                TotalVehicles = 0,
+                LastIngestionDate = null,
+                DataSource = "CSV",
+                Status = "Ready"
             };
 
             return Results.Ok(response);
         })
         .WithName("GetKnowledgeBaseStatus")
         .WithSummary("Get knowledge base status")
-        .WithDescription("Returns the current status of the knowledge base including total vehicles and last ingestion date");
+        .WithDescription("Returns the current status of the knowledge base including total vehicles and last ingestion date")
+        .Produces<KnowledgeBaseStatusResponse>();
 
         // POST /api/v1/knowledge-base/index/create
         group.MapPost("/index/create", async (
@@ -97,13 +99,13 @@ public static class KnowledgeBaseEndpoints
 
                 var status = await indexService.GetIndexStatusAsync(cancellationToken);
 
-                return Results.Ok(new
+                return Results.Ok(new CreateIndexResponse
                 {
-                    indexName = status.IndexName,
-                    fieldsCount = VehicleSearch.Infrastructure.Search.SearchIndexService.TotalFieldCount,
-                    vectorFieldsCount = VehicleSearch.Infrastructure.Search.SearchIndexService.VectorFieldCount,
-                    created = true,
-                    timestamp = startTime
+                    IndexName = status.IndexName,
+                    FieldsCount = VehicleSearch.Infrastructure.Search.SearchIndexService.TotalFieldCount,
+                    VectorFieldsCount = VehicleSearch.Infrastructure.Search.SearchIndexService.VectorFieldCount,
+                    Created = true,
+                    Timestamp = startTime
                 });
             }
             catch (InvalidOperationException ex)
@@ -120,7 +122,8 @@ public static class KnowledgeBaseEndpoints
         })
         .WithName("CreateSearchIndex")
         .WithSummary("Create the Azure AI Search index")
-        .WithDescription("Creates the search index with the full schema including vector fields for hybrid search");
+        .WithDescription("Creates the search index with the full schema including vector fields for hybrid search")
+        .Produces<CreateIndexResponse>();
 
         // DELETE /api/v1/knowledge-base/index
         group.MapDelete("/index", async (
@@ -131,10 +134,10 @@ public static class KnowledgeBaseEndpoints
             {
                 await indexService.DeleteIndexAsync(cancellationToken);
 
-                return Results.Ok(new
+                return Results.Ok(new DeleteIndexResponse
                 {
-                    deleted = true,
-                    timestamp = DateTime.UtcNow
+                    Deleted = true,
+                    Timestamp = DateTime.UtcNow
                 });
             }
             catch (InvalidOperationException ex)
@@ -151,7 +154,8 @@ public static class KnowledgeBaseEndpoints
         })
         .WithName("DeleteSearchIndex")
         .WithSummary("Delete the Azure AI Search index")
-        .WithDescription("Deletes the search index and all its documents");
+        .WithDescription("Deletes the search index and all its documents")
+        .Produces<DeleteIndexResponse>();
 
         // GET /api/v1/knowledge-base/index/status
         group.MapGet("/index/status", async (
@@ -162,13 +166,7 @@ public static class KnowledgeBaseEndpoints
             {
                 var status = await indexService.GetIndexStatusAsync(cancellationToken);
 
-                return Results.Ok(new
-                {
-                    exists = status.Exists,
-                    indexName = status.IndexName,
-                    documentCount = status.DocumentCount,
-                    storageSize = status.StorageSize
-                });
+                return Results.Ok(status);
             }
             catch (Exception)
             {
@@ -180,7 +178,8 @@ public static class KnowledgeBaseEndpoints
         })
         .WithName("GetSearchIndexStatus")
         .WithSummary("Get search index status")
-        .WithDescription("Returns the current status of the search index including document count and storage size");
+        .WithDescription("Returns the current status of the search index including document count and storage size")
+        .Produces<IndexStatus>();
 
         // POST /api/v1/knowledge-base/index-vehicles
         group.MapPost("/index-vehicles", async (
@@ -218,19 +217,19 @@ public static class KnowledgeBaseEndpoints
                 // Index vehicles with embeddings
                 var result = await indexingService.IndexVehiclesAsync(vehicles, cancellationToken);
 
-                return Results.Ok(new
+                return Results.Ok(new IndexVehiclesResponse
                 {
-                    totalVehicles = result.TotalVehicles,
-                    succeeded = result.Succeeded,
-                    failed = result.Failed,
-                    embeddingsGenerated = result.EmbeddingsGenerated,
-                    indexingTime = (int)result.Duration.TotalMilliseconds,
-                    errors = result.Errors.Select(e => new
+                    TotalVehicles = result.TotalVehicles,
+                    Succeeded = result.Succeeded,
+                    Failed = result.Failed,
+                    EmbeddingsGenerated = result.EmbeddingsGenerated,
+                    IndexingTime = (int)result.Duration.TotalMilliseconds,
+                    Errors = result.Errors.Select(e => new IndexingErrorResponse
                     {
-                        vehicleId = e.VehicleId,
-                        message = e.Message,
-                        timestamp = e.Timestamp
-                    })
+                        VehicleId = e.VehicleId,
+                        Message = e.Message,
+                        Timestamp = e.Timestamp
+                    }).ToList()
                 });
             }
             catch (Exception ex)
@@ -244,7 +243,8 @@ public static class KnowledgeBaseEndpoints
         })
         .WithName("IndexVehicles")
         .WithSummary("Index vehicles with embeddings")
-        .WithDescription("Loads vehicles from CSV, generates embeddings, and indexes them in Azure AI Search");
+        .WithDescription("Loads vehicles from CSV, generates embeddings, and indexes them in Azure AI Search")
+        .Produces<IndexVehiclesResponse>();
     }
 
     /// <summary>
@@ -283,4 +283,201 @@ public static class KnowledgeBaseEndpoints
         /// </summary>
         public int BatchSize { get; init; } = 100;
     }
+
+    /// <summary>
+    /// Response model for a data ingestion run.
+    /// </summary>
+    public record IngestResponse
+    {
+        /// <summary>
+        /// Gets whether the ingestion succeeded.
+        /// </summary>
+        public bool Success { get; init; }
+
+        /// <summary>
+        /// Gets the total number of rows read.
+        /// </summary>
+        public int TotalRows { get; init; }
+
+        /// <summary>
+        /// Gets the number of valid rows.
+        /// </summary>
+        public int ValidRows { get; init; }
+
+        /// <summary>
+        /// Gets the number of invalid rows.
+        /// </summary>
+        public int InvalidRows { get; init; }
+
+        /// <summary>
+        /// Gets the processing time in milliseconds.
+        /// </summary>
+        public long ProcessingTimeMs { get; init; }
+
+        /// <summary>
+        /// Gets when the ingestion completed.
+        /// </summary>
+        public DateTime CompletedAt { get; init; }
+
+        /// <summary>
+        /// Gets the validation errors encountered.
+        /// </summary>
+        public List<IngestErrorResponse> Errors { get; init; } = new();
+    }
+
+    /// <summary>
+    /// A validation error raised for a single CSV row.
+    /// </summary>
+    public record IngestErrorResponse
+    {
+        /// <summary>
+        /// Gets the row number.
+        /// </summary>
+        public int RowNumber { get; init; }
+
+        /// <summary>
+        /// Gets the field name.
+        /// </summary>
+        public string FieldName { get; init; } = string.Empty;
+
+        /// <summary>
+        /// Gets the error message.
+        /// </summary>
+        public string Message { get; init; } = string.Empty;
+
+        /// <summary>
+        /// Gets the offending value.
+        /// </summary>
+        public string? Value { get; init; }
+    }
+
+    /// <summary>
+    /// Response model for the knowledge base status.
+    /// </summary>
+    public record KnowledgeBaseStatusResponse
+    {
+        /// <summary>
+        /// Gets the total number of vehicles.
+        /// </summary>
+        public int TotalVehicles { get; init; }
+
+        /// <summary>
+        /// Gets the date of the last ingestion.
+        /// </summary>
+        public DateTime? LastIngestionDate { get; init; }
+
+        /// <summary>
+        /// Gets the data source type.
+        /// </summary>
+        public string DataSource { get; init; } = string.Empty;
+
+        /// <summary>
+        /// Gets the knowledge base status.
+        /// </summary>
+        public string Status { get; init; } = string.Empty;
+    }
+
+    /// <summary>
+    /// Response model for index creation.
+    /// </summary>
+    public record CreateIndexResponse
+    {
+        /// <summary>
+        /// Gets the index name.
+        /// </summary>
+        public string IndexName { get; init; } = string.Empty;
+
+        /// <summary>
+        /// Gets the number of fields in the schema.
+        /// </summary>
+        public int FieldsCount { get; init; }
+
+        /// <summary>
+        /// Gets the number of vector fields in the schema.
+        /// </summary>
+        public int VectorFieldsCount { get; init; }
+
+        /// <summary>
+        /// Gets whether the index was created.
+        /// </summary>
+        public bool Created { get; init; }
+
+        /// <summary>
+        /// Gets when the index was created.
+        /// </summary>
+        public DateTime Timestamp { get; init; }
+    }
+
+    /// <summary>
+    /// Response model for index deletion.
+    /// </summary>
+    public record DeleteIndexResponse
+    {
+        /// <summary>
+        /// Gets whether the index was deleted.
+        /// </summary>
+        public bool Deleted { get; init; }
+
+        /// <summary>
+        /// Gets when the index was deleted.
+        /// </summary>
+        public DateTime Timestamp { get; init; }
+    }
+
+    /// <summary>
+    /// Response model for a vehicle indexing run.
+    /// </summary>
+    public record IndexVehiclesResponse
+    {
+        /// <summary>
+        /// Gets the total number of vehicles processed.
+        /// </summary>
+        public int TotalVehicles { get; init; }
+
+        /// <summary>
+        /// Gets the number of vehicles indexed.
+        /// </summary>
+        public int Succeeded { get; init; }
+
+        /// <summary>
+        /// Gets the number of vehicles that failed to index.
+        /// </summary>
+        public int Failed { get; init; }
+
+        /// <summary>
+        /// Gets the number of embeddings generated.
+        /// </summary>
+        public int EmbeddingsGenerated { get; init; }
+
+        /// <summary>
+        /// Gets the indexing time in milliseconds.
+        /// </summary>
+        public int IndexingTime { get; init; }
+
+        /// <summary>
+        /// Gets the indexing errors encountered.
+        /// </summary>
+        public List<IndexingErrorResponse> Errors { get; init; } = new();
+    }
+
+    /// <summary>
+    /// An error raised while indexing a single vehicle.
+    /// </summary>
+    public record IndexingErrorResponse
+    {
+        /// <summary>
+        /// Gets the vehicle ID.
+        /// </summary>
+        public string VehicleId { get; init; } = string.Empty;
+
+        /// <summary>
+        /// Gets the error message.
+        /// </summary>
+        public string Message { get; init; } = string.Empty;
+
+        /// <summary>
+        /// Gets when the error occurred.
+        /// </summary>
+        public DateTime Timestamp { get; init; }
+    }
 }
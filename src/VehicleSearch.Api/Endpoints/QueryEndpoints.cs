@@ -1,6 +1,8 @@
 using Microsoft.AspNetCore.Mvc;
+using VehicleSearch.Core.Enums;
 using VehicleSearch.Core.Interfaces;
 using VehicleSearch.Core.Models;
+using VehicleSearch.Infrastructure.AI;
 
 namespace VehicleSearch.Api.Endpoints;
 
@@ -77,7 +79,8 @@ public static class QueryEndpoints
         })
         .WithName("ParseQuery")
         .WithSummary("Parse natural language query")
-        .WithDescription("Classifies intent and extracts entities from a user query");
+        .WithDescription("Classifies intent and extracts entities from a user query")
+        .Produces<ParseQueryResponse>();
 
         // POST /api/v1/query/intent
         group.MapPost("/intent", async (
@@ -103,7 +106,7 @@ public static class QueryEndpoints
 
                 var intent = await queryService.ClassifyIntentAsync(request.Query, context, cancellationToken);
 
-                return Results.Ok(new { intent = intent.ToString().ToLower() });
+                return Results.Ok(new ClassifyIntentResponse { Intent = intent.ToString().ToLower() });
             }
             catch (ArgumentException ex)
             {
@@ -119,7 +122,8 @@ public static class QueryEndpoints
         })
         .WithName("ClassifyIntent")
         .WithSummary("Classify query intent")
-        .WithDescription("Classifies the intent of a user query");
+        .WithDescription("Classifies the intent of a user query")
+        .Produces<ClassifyIntentResponse>();
 
         // POST /api/v1/query/entities
         group.MapPost("/entities", async (
@@ -161,12 +165,14 @@ public static class QueryEndpoints
         })
         .WithName("ExtractEntities")
         .WithSummary("Extract entities from query")
-        .WithDescription("Extracts vehicle-related entities from a user query");
+        .WithDescription("Extracts vehicle-related entities from a user query")
+        .Produces<List<EntityResponse>>();
 
         // POST /api/v1/query/map
         group.MapPost("/map", async (
             MapQueryRequest request,
             [FromServices] IAttributeMapperService mapperService,
+            [FromServices] IConceptualMapperService conceptualMapper,
             CancellationToken cancellationToken) =>
         {
             try
@@ -178,6 +184,17 @@ public static class QueryEndpoints
 
                 var mappedQuery = await mapperService.MapToSearchQueryAsync(request.ParsedQuery, cancellationToken);
 
+                // Qualitative terms are also judged by weighted attributes when results are ranked
+                var concepts = new List<ConceptualMapping>();
+                foreach (var entity in request.ParsedQuery.Entities.Where(e => e.Type == EntityType.QualitativeTerm))
+                {
+                    var mapping = await conceptualMapper.MapConceptToAttributesAsync(entity.Value);
+                    if (mapping != null && concepts.All(c => c.Concept != mapping.Concept))
+                    {
+                        concepts.Add(mapping);
+                    }
+                }
+
                 var response = new MapQueryResponse
                 {
                     Constraints = mappedQuery.Constraints.Select(c => new ConstraintResponse
@@ -188,7 +205,8 @@ public static class QueryEndpoints
                         Type = c.Type.ToString()
                     }).ToList(),
                     UnmappableTerms = mappedQuery.UnmappableTerms,
-                    Metadata = mappedQuery.Metadata
+                    Metadata = mappedQuery.Metadata,
+                    Concepts = concepts
                 };
 
                 return Results.Ok(response);
@@ -207,7 +225,8 @@ public static class QueryEndpoints
         })
         .WithName("MapQuery")
         .WithSummary("Map parsed query to search constraints")
-        .WithDescription("Maps extracted entities from a parsed query into structured search constraints");
+        .WithDescription("Maps extracted entities from a parsed query into structured search constraints")
+        .Produces<MapQueryResponse>();
 
         // POST /api/v1/query/compose
         group.MapPost("/compose", async (
@@ -261,7 +280,8 @@ public static class QueryEndpoints
         })
         .WithName("ComposeQuery")
         .WithSummary("Compose complex search query")
-        .WithDescription("Composes a complex search query from mapped constraints with logical operators and conflict resolution");
+        .WithDescription("Composes a complex search query from mapped constraints with logical operators and conflict resolution")
+        .Produces<ComposeQueryResponse>();
 
         // POST /api/v1/query/resolve
         group.MapPost("/resolve", async (
@@ -295,13 +315,7 @@ public static class QueryEndpoints
                 {
                     OriginalQuery = resolvedQuery.OriginalQuery,
                     ResolvedQuery = resolvedQuery.ResolvedQueryText,
-                    ResolvedReferences = resolvedQuery.ResolvedReferences.Select(r => new ReferenceResponse
-                    {
-                        ReferenceText = r.ReferenceText,
-                        Type = r.Type.ToString(),
-                        ResolvedValue = r.ResolvedValue?.ToString() ?? string.Empty,
-                        Position = r.Position
-                    }).ToList(),
+                    ResolvedReferences = resolvedQuery.ResolvedReferences.Select(ToReferenceResponse).ToList(),
                     ResolvedValues = resolvedQuery.ResolvedValues,
                     HasUnresolvedReferences = resolvedQuery.HasUnresolvedReferences,
                     UnresolvedMessage = resolvedQuery.UnresolvedMessage
@@ -327,7 +341,8 @@ public static class QueryEndpoints
         })
         .WithName("ResolveReferences")
         .WithSummary("Resolve references in query")
-        .WithDescription("Resolves pronouns and references in a query using conversation context");
+        .WithDescription("Resolves pronouns and references in a query using conversation context")
+        .Produces<ResolveReferencesResponse>();
 
         // POST /api/v1/query/refine
         group.MapPost("/refine", async (
@@ -367,19 +382,18 @@ public static class QueryEndpoints
                     cancellationToken);
 
                 // Determine which constraints were added, updated, or removed
-                var previousFields = session.CurrentSearchState.ActiveFilters.Keys.ToHashSet();
-                var currentFields = new HashSet<string>();
-                foreach (var group in composedQuery.ConstraintGroups)
-                {
-                    foreach (var constraint in group.Constraints)
-                    {
-                        currentFields.Add(constraint.FieldName);
-                    }
-                }
+                var changes = QueryRefiner.CompareConstraints(
+                    session.CurrentSearchState.ActiveFilters,
+                    composedQuery.ConstraintGroups.SelectMany(g => g.Constraints));
+
+                var addedConstraints = FieldsChanged(changes, ConstraintChangeType.Added);
+                var updatedConstraints = FieldsChanged(changes, ConstraintChangeType.Updated);
+                var removedConstraints = FieldsChanged(changes, ConstraintChangeType.Removed);
 
-                var addedConstraints = currentFields.Except(previousFields).ToList();
-                var updatedConstraints = currentFields.Intersect(previousFields).ToList();
-                var removedConstraints = previousFields.Except(currentFields).ToList();
+                // The result count the refinement starts from
+                var previousCount = session.Messages
+                    .LastOrDefault(m => m.Role == MessageRole.Assistant && m.Results != null)
+                    ?.Results?.Count;
 
                 var response = new RefineQueryResponse
                 {
@@ -405,7 +419,9 @@ public static class QueryEndpoints
                     },
                     AddedConstraints = addedConstraints,
                     UpdatedConstraints = updatedConstraints,
-                    RemovedConstraints = removedConstraints
+                    RemovedConstraints = removedConstraints,
+                    Changes = changes.Select(ToChangeResponse).ToList(),
+                    PreviousCount = previousCount
                 };
 
                 return Results.Ok(response);
@@ -428,9 +444,63 @@ public static class QueryEndpoints
         })
         .WithName("RefineQuery")
         .WithSummary("Refine query with previous context")
-        .WithDescription("Refines a query by combining new constraints with previous search state");
+        .WithDescription("Refines a query by combining new constraints with previous search state")
+        .Produces<RefineQueryResponse>();
     }
 
+    /// <summary>
+    /// Maps a reference to its response model. A reference resolves to a vehicle ID,
+    /// the IDs of a result set or, for a comparative, a constraint.
+    /// </summary>
+    private static ReferenceResponse ToReferenceResponse(Reference reference) => new()
+    {
+        ReferenceText = reference.ReferenceText,
+        Type = reference.Type.ToString(),
+        ResolvedValue = reference.ResolvedValue switch
+        {
+            null => string.Empty,
+            IEnumerable<string> ids and not string => string.Join(",", ids),
+            SearchConstraint constraint => $"{constraint.FieldName} {constraint.Operator} {constraint.Value}",
+            var value => value.ToString() ?? string.Empty
+        },
+        Position = reference.Position,
+        VehicleIds = reference.ResolvedValue switch
+        {
+            string id => new List<string> { id },
+            IEnumerable<string> ids => ids.ToList(),
+            _ => new List<string>()
+        },
+        Constraint = reference.ResolvedValue is SearchConstraint resolved ? ToConstraintResponse(resolved) : null
+    };
+
+    /// <summary>
+    /// Gets the names of the fields with the given kind of change.
+    /// </summary>
+    private static List<string> FieldsChanged(List<ConstraintChange> changes, ConstraintChangeType changeType) =>
+        changes.Where(c => c.ChangeType == changeType).Select(c => c.FieldName).ToList();
+
+    /// <summary>
+    /// Maps a constraint change to its response model.
+    /// </summary>
+    private static ConstraintChangeResponse ToChangeResponse(ConstraintChange change) => new()
+    {
+        FieldName = change.FieldName,
+        ChangeType = change.ChangeType.ToString(),
+        Previous = change.Previous == null ? null : ToConstraintResponse(change.Previous),
+        Current = change.Current == null ? null : ToConstraintResponse(change.Current)
+    };
+
+    /// <summary>
+    /// Maps a search constraint to its response model.
+    /// </summary>
+    private static ConstraintResponse ToConstraintResponse(SearchConstraint constraint) => new()
+    {
+        FieldName = constraint.FieldName,
+        Operator = constraint.Operator.ToString(),
+        Value = constraint.Value,
+        Type = constraint.Type.ToString()
+    };
+
     /// <summary>
     /// Request model for query parsing.
     /// </summary>
@@ -478,6 +548,17 @@ public static class QueryEndpoints
         public List<string> UnmappedTerms { get; init; } = new();
     }
 
+    /// <summary>
+    /// Response model for intent classification.
+    /// </summary>
+    public record ClassifyIntentResponse
+    {
+        /// <summary>
+        /// The classified intent.
+        /// </summary>
+        public string Intent { get; init; } = string.Empty;
+    }
+
     /// <summary>
     /// Response model for an entity.
     /// </summary>
@@ -539,6 +620,11 @@ public static class QueryEndpoints
         /// Metadata about the mapping.
         /// </summary>
         public Dictionary<string, object> Metadata { get; init; } = new();
+
+        /// <summary>
+        /// Qualitative concepts in the query with the weighted attributes they are judged by.
+        /// </summary>
+        public List<ConceptualMapping> Concepts { get; init; } = new();
     }
 
     /// <summary>
@@ -711,6 +797,16 @@ public static class QueryEndpoints
         /// The position in the query.
         /// </summary>
         public int Position { get; init; }
+
+        /// <summary>
+        /// The vehicles the reference resolved to: one for a pronoun, demonstrative or position, the last result set for a plural.
+        /// </summary>
+        public List<string> VehicleIds { get; init; } = new();
+
+        /// <summary>
+        /// The constraint a comparative resolved to, if any.
+        /// </summary>
+        public ConstraintResponse? Constraint { get; init; }
     }
 
     /// <summary>
@@ -753,5 +849,41 @@ public static class QueryEndpoints
         /// List of removed constraint field names.
         /// </summary>
         public List<string> RemovedConstraints { get; init; } = new();
+
+        /// <summary>
+        /// Each added, updated or removed constraint with its values before and after.
+        /// </summary>
+        public List<ConstraintChangeResponse> Changes { get; init; } = new();
+
+        /// <summary>
+        /// Result count of the session's previous search, if it was recorded.
+        /// </summary>
+        public int? PreviousCount { get; init; }
+    }
+
+    /// <summary>
+    /// Response model for a change to one field's constraint.
+    /// </summary>
+    public record ConstraintChangeResponse
+    {
+        /// <summary>
+        /// Field name.
+        /// </summary>
+        public string FieldName { get; init; } = string.Empty;
+
+        /// <summary>
+        /// Added, Updated or Removed.
+        /// </summary>
+        public string ChangeType { get; init; } = string.Empty;
+
+        /// <summary>
+        /// The constraint before the change, unless it was added.
+        /// </summary>
+        public ConstraintResponse? Previous { get; init; }
+
+        /// <summary>
+        /// The constraint after the change, unless it was removed.
+        /// </summary>
+        public ConstraintResponse? Current { get; init; }
     }
 }
@@ -1,7 +1,13 @@
+using System.Diagnostics;
+using System.Text.Json;
 using Microsoft.AspNetCore.Mvc;
+using Microsoft.Extensions.Options;
 using VehicleSearch.Core.Entities;
+using VehicleSearch.Core.Enums;
+using VehicleSearch.Core.Exceptions;
 using VehicleSearch.Core.Interfaces;
 using VehicleSearch.Core.Models;
+using VehicleSearch.Infrastructure.AI;
 
 namespace VehicleSearch.Api.Endpoints;
 
@@ -25,6 +31,7 @@ public static class SearchEndpoints
             OrchestratedSearchRequest request,
             [FromServices] IQueryComposerService queryComposer,
             [FromServices] ISearchOrchestratorService searchOrchestrator,
+            [FromServices] IConversationSessionService sessionService,
             CancellationToken cancellationToken) =>
         {
             try
@@ -39,59 +46,45 @@ public static class SearchEndpoints
                     return Results.BadRequest(new { error = "MaxResults must be between 1 and 100" });
                 }
 
-                // Determine strategy
-                var strategy = await searchOrchestrator.DetermineStrategyAsync(
+                if (request.Offset < 0)
+                {
+                    return Results.BadRequest(new { error = "Offset cannot be negative" });
+                }
+
+                if (!TryParseStrategy(request.Strategy, out var requestedStrategy))
+                {
+                    return Results.BadRequest(new { error = StrategyError });
+                }
+
+                var stages = new List<SearchStageResponse>();
+                var stopwatch = Stopwatch.StartNew();
+
+                // Determine strategy, unless the caller chose one
+                var strategy = await ResolveStrategyAsync(
+                    searchOrchestrator,
                     request.ComposedQuery,
+                    requestedStrategy,
                     cancellationToken);
+                stages.Add(ToStageResponse("strategy", stopwatch));
 
                 // Execute search
                 var results = await searchOrchestrator.ExecuteSearchAsync(
                     request.ComposedQuery,
                     strategy,
                     request.MaxResults,
+                    request.Offset,
                     cancellationToken);
+                stages.Add(ToStageResponse("search", stopwatch));
 
                 // Convert to API response
-                var response = new OrchestratedSearchResponse
+                var response = ToSearchResponse(results, stages);
+
+                // Record the search so follow-up queries in the session can be refined;
+                // later pages belong to a search that is already recorded
+                if (!string.IsNullOrWhiteSpace(request.SessionId) && request.Offset == 0)
                 {
-                    Results = results.Results.Select(r => new VehicleSearchResult
-                    {
-                        Vehicle = new VehicleResponse
-                        {
-                            Make = r.Vehicle.Make,
-                            Model = r.Vehicle.Model,
-                            Derivative = r.Vehicle.Derivative,
-                            Price = r.Vehicle.Price,
-                            Mileage = r.Vehicle.Mileage,
-                            BodyType = r.Vehicle.BodyType,
-                            EngineSize = r.Vehicle.EngineSize,
-                            FuelType = r.Vehicle.FuelType,
-                            TransmissionType = r.Vehicle.TransmissionType,
-                            Colour = r.Vehicle.Colour,
-                            NumberOfDoors = r.Vehicle.NumberOfDoors,
-                            RegistrationDate = r.Vehicle.RegistrationDate,
-                            Features = r.Vehicle.Features
-                        },
-                        RelevanceScore = r.Score,
-                        ScoreBreakdown = r.ScoreBreakdown != null ? new ScoreBreakdownResponse
-                        {
-                            ExactMatchScore = r.ScoreBreakdown.ExactMatchScore,
-                            SemanticScore = r.ScoreBreakdown.SemanticScore,
-                            KeywordScore = r.ScoreBreakdown.KeywordScore,
-                            FinalScore = r.ScoreBreakdown.FinalScore
-                        } : null
-                    }).ToList(),
-                    TotalCount = results.TotalCount,
-                    Strategy = new SearchStrategyResponse
-                    {
-                        Type = results.Strategy.Type.ToString(),
-                        Approaches = results.Strategy.Approaches.Select(a => a.ToString()).ToList(),
-                        Weights = results.Strategy.Weights.ToDictionary(
-                            kvp => kvp.Key.ToString(),
-                            kvp => kvp.Value)
-                    },
-                    SearchDuration = $"{results.SearchDuration.TotalMilliseconds:F2}ms"
-                };
+                    await RecordSearchAsync(sessionService, request, results, cancellationToken);
+                }
 
                 return Results.Ok(response);
             }
@@ -109,7 +102,126 @@ public static class SearchEndpoints
         })
         .WithName("OrchestrationSearch")
         .WithSummary("Execute an orchestrated search with automatic strategy selection")
-        .WithDescription("Executes a search using the optimal combination of exact match, semantic search, and filtering based on query characteristics");
+        .WithDescription("Executes a search using the optimal combination of exact match, semantic search, and filtering based on query characteristics")
+        .Produces<OrchestratedSearchResponse>();
+
+        // POST /api/v1/search/stream
+        group.MapPost("/stream", async (
+            OrchestratedSearchRequest request,
+            HttpContext httpContext,
+            [FromServices] ISearchOrchestratorService searchOrchestrator,
+            [FromServices] IConversationSessionService sessionService,
+            [FromServices] IOptions<Microsoft.AspNetCore.Http.Json.JsonOptions> jsonOptions,
+            CancellationToken cancellationToken) =>
+        {
+            if (request.ComposedQuery == null)
+            {
+                return Results.BadRequest(new { error = "ComposedQuery is required" });
+            }
+
+            if (request.MaxResults <= 0 || request.MaxResults > 100)
+            {
+                return Results.BadRequest(new { error = "MaxResults must be between 1 and 100" });
+            }
+
+            if (!TryParseStrategy(request.Strategy, out var requestedStrategy))
+            {
+                return Results.BadRequest(new { error = StrategyError });
+            }
+
+            var response = httpContext.Response;
+            var serializerOptions = jsonOptions.Value.SerializerOptions;
+
+            response.ContentType = "text/event-stream";
+            response.Headers.CacheControl = "no-cache";
+
+            try
+            {
+                // Each event carries the timings of the stages so far; writing an event isn't timed
+                var stages = new List<SearchStageResponse>();
+                var stopwatch = Stopwatch.StartNew();
+
+                var strategy = await ResolveStrategyAsync(
+                    searchOrchestrator,
+                    request.ComposedQuery,
+                    requestedStrategy,
+                    cancellationToken);
+                stages.Add(ToStageResponse("strategy", stopwatch));
+
+                await foreach (var progress in searchOrchestrator.StreamSearchAsync(
+                    request.ComposedQuery,
+                    strategy,
+                    request.MaxResults,
+                    cancellationToken))
+                {
+                    var stage = progress.Stage.ToString().ToLowerInvariant();
+                    stages.Add(ToStageResponse(stage, stopwatch));
+
+                    await WriteEventAsync(
+                        response,
+                        stage,
+                        ToSearchResponse(progress.Results, stages),
+                        serializerOptions,
+                        cancellationToken);
+
+                    if (progress.Stage == SearchStage.Reranked && !string.IsNullOrWhiteSpace(request.SessionId))
+                    {
+                        await RecordSearchAsync(sessionService, request, progress.Results, cancellationToken);
+                    }
+
+                    stopwatch.Restart();
+                }
+            }
+            catch (OperationCanceledException) when (cancellationToken.IsCancellationRequested)
+            {
+                // The client disconnected; there is nobody left to report to
+            }
+            catch (Exception ex)
+            {
+                // The 200 status has already been sent, so the failure is reported as an event
+                await WriteEventAsync(
+                    response,
+                    "error",
+                    new { error = new { code = "SearchFailed", message = ex.Message } },
+                    serializerOptions,
+                    CancellationToken.None);
+            }
+
+            return Results.Empty;
+        })
+        .WithName("StreamSearch")
+        .WithSummary("Stream an orchestrated search as Server-Sent Events")
+        .WithDescription("Executes the same search as POST /api/v1/search, sending exact, semantic and reranked results as they become available")
+        .Produces<OrchestratedSearchResponse>(contentType: "text/event-stream");
+
+        // POST /api/v1/search/facets
+        group.MapPost("/facets", async (
+            FacetsRequest request,
+            [FromServices] IFacetService facetService,
+            CancellationToken cancellationToken) =>
+        {
+            try
+            {
+                var facets = await facetService.GetFacetsAsync(request.ComposedQuery, cancellationToken);
+
+                return Results.Ok(facets);
+            }
+            catch (ArgumentException ex)
+            {
+                return Results.BadRequest(new { error = ex.Message });
+            }
+            catch (Exception)
+            {
+                return Results.Problem(
+                    title: "Failed to compute facets",
+                    detail: "An unexpected error occurred while computing facets",
+                    statusCode: 500);
+            }
+        })
+        .WithName("GetSearchFacets")
+        .WithSummary("Get facet values and counts for a result set")
+        .WithDescription("Returns the distinct values of make, model, body type, colour, fuel, transmission, location and grade with vehicle counts, and the price, mileage and year bounds, for the vehicles matching a composed query")
+        .Produces<FacetResults>();
 
         // POST /api/v1/search/semantic
         group.MapPost("/semantic", async (
@@ -154,6 +266,7 @@ public static class SearchEndpoints
                         VehicleId = m.VehicleId,
                         Vehicle = new VehicleResponse
                         {
+                            Id = m.Vehicle.Id,
                             Make = m.Vehicle.Make,
                             Model = m.Vehicle.Model,
                             Derivative = m.Vehicle.Derivative,
@@ -166,6 +279,9 @@ public static class SearchEndpoints
                             Colour = m.Vehicle.Colour,
                             NumberOfDoors = m.Vehicle.NumberOfDoors,
                             RegistrationDate = m.Vehicle.RegistrationDate,
+                            MotExpiryDate = m.Vehicle.MotExpiryDate,
+                            ProcessedDate = m.Vehicle.ProcessedDate != default ? m.Vehicle.ProcessedDate : null,
+                            SaleLocation = m.Vehicle.SaleLocation,
                             Features = m.Vehicle.Features
                         },
                         SimilarityScore = m.SimilarityScore,
@@ -191,7 +307,8 @@ public static class SearchEndpoints
         })
         .WithName("SemanticSearch")
         .WithSummary("Perform semantic search using vector embeddings")
-        .WithDescription("Searches for vehicles using natural language queries and vector similarity matching");
+        .WithDescription("Searches for vehicles using natural language queries and vector similarity matching")
+        .Produces<SemanticSearchApiResponse>();
 
         // POST /api/v1/search/similarity
         group.MapPost("/similarity", async (
@@ -229,14 +346,7 @@ public static class SearchEndpoints
                 // Compute similarity
                 var score = await conceptualMapper.ComputeSimilarityAsync(vehicle, mapping);
 
-                return Results.Ok(new
-                {
-                    overallScore = score.OverallScore,
-                    componentScores = score.ComponentScores,
-                    matchingAttributes = score.MatchingAttributes,
-                    mismatchingAttributes = score.MismatchingAttributes,
-                    descriptionBoost = score.DescriptionBoost
-                });
+                return Results.Ok(score);
             }
             catch (ArgumentException ex)
             {
@@ -252,7 +362,8 @@ public static class SearchEndpoints
         })
         .WithName("ComputeSimilarity")
         .WithSummary("Compute similarity score for a vehicle against a concept")
-        .WithDescription("Computes multi-factor similarity between a vehicle and a qualitative concept");
+        .WithDescription("Computes multi-factor similarity between a vehicle and a qualitative concept")
+        .Produces<SimilarityScore>();
 
         // POST /api/v1/search/explain
         group.MapPost("/explain", async (
@@ -299,7 +410,8 @@ public static class SearchEndpoints
         })
         .WithName("ExplainRelevance")
         .WithSummary("Generate explanation for why a vehicle matched a query")
-        .WithDescription("Provides an explainable relevance score with detailed breakdown");
+        .WithDescription("Provides an explainable relevance score with detailed breakdown")
+        .Produces<ExplainedScore>();
 
         // POST /api/v1/search/rerank
         group.MapPost("/rerank", async (
@@ -396,6 +508,7 @@ public static class SearchEndpoints
                     {
                         Vehicle = new VehicleResponse
                         {
+                            Id = r.Vehicle.Id,
                             Make = r.Vehicle.Make,
                             Model = r.Vehicle.Model,
                             Derivative = r.Vehicle.Derivative,
@@ -408,6 +521,9 @@ public static class SearchEndpoints
                             Colour = r.Vehicle.Colour,
                             NumberOfDoors = r.Vehicle.NumberOfDoors,
                             RegistrationDate = r.Vehicle.RegistrationDate,
+                            MotExpiryDate = r.Vehicle.MotExpiryDate,
+                            ProcessedDate = r.Vehicle.ProcessedDate != default ? r.Vehicle.ProcessedDate : null,
+                            SaleLocation = r.Vehicle.SaleLocation,
                             Features = r.Vehicle.Features
                         },
                         RelevanceScore = r.Score,
@@ -437,7 +553,181 @@ public static class SearchEndpoints
         })
         .WithName("RerankResults")
         .WithSummary("Re-rank search results using advanced ranking algorithms")
-        .WithDescription("Applies weighted scoring, business rules, and diversity enhancement to improve result relevance");
+        .WithDescription("Applies weighted scoring, business rules, and diversity enhancement to improve result relevance")
+        .Produces<RerankResponse>();
+    }
+
+    /// <summary>
+    /// Converts search results to the API response shared by the search and stream endpoints.
+    /// </summary>
+    private static OrchestratedSearchResponse ToSearchResponse(SearchResults results, List<SearchStageResponse> stages)
+    {
+        return new OrchestratedSearchResponse
+        {
+            Results = results.Results.Select(r => new VehicleSearchResult
+            {
+                Vehicle = new VehicleResponse
+                {
+                    Id = r.Vehicle.Id,
+                    Make = r.Vehicle.Make,
+                    Model = r.Vehicle.Model,
+                    Derivative = r.Vehicle.Derivative,
+                    Price = r.Vehicle.Price,
+                    Mileage = r.Vehicle.Mileage,
+                    BodyType = r.Vehicle.BodyType,
+                    EngineSize = r.Vehicle.EngineSize,
+                    FuelType = r.Vehicle.FuelType,
+                    TransmissionType = r.Vehicle.TransmissionType,
+                    Colour = r.Vehicle.Colour,
+                    NumberOfDoors = r.Vehicle.NumberOfDoors,
+                    RegistrationDate = r.Vehicle.RegistrationDate,
+                    MotExpiryDate = r.Vehicle.MotExpiryDate,
+                    ProcessedDate = r.Vehicle.ProcessedDate != default ? r.Vehicle.ProcessedDate : null,
+                    SaleLocation = r.Vehicle.SaleLocation,
+                    Features = r.Vehicle.Features
+                },
+                RelevanceScore = r.Score,
+                ScoreBreakdown = r.ScoreBreakdown != null ? new ScoreBreakdownResponse
+                {
+                    ExactMatchScore = r.ScoreBreakdown.ExactMatchScore,
+                    SemanticScore = r.ScoreBreakdown.SemanticScore,
+                    KeywordScore = r.ScoreBreakdown.KeywordScore,
+                    FinalScore = r.ScoreBreakdown.FinalScore
+                } : null
+            }).ToList(),
+            TotalCount = results.TotalCount,
+            Strategy = new SearchStrategyResponse
+            {
+                Type = results.Strategy.Type.ToString(),
+                Approaches = results.Strategy.Approaches.Select(a => a.ToString()).ToList(),
+                Weights = results.Strategy.Weights.ToDictionary(
+                    kvp => kvp.Key.ToString(),
+                    kvp => kvp.Value),
+                ShouldRerank = results.Strategy.ShouldRerank
+            },
+            SearchDuration = $"{results.SearchDuration.TotalMilliseconds:F2}ms",
+            Stages = stages.ToList()
+        };
+    }
+
+    private const string StrategyError = "Strategy must be ExactOnly, SemanticOnly or Hybrid";
+
+    /// <summary>
+    /// Parses a requested strategy type; a missing one is valid and leaves the choice to the orchestrator.
+    /// </summary>
+    private static bool TryParseStrategy(string? value, out StrategyType? strategyType)
+    {
+        strategyType = null;
+        if (value == null)
+        {
+            return true;
+        }
+
+        if (!Enum.TryParse<StrategyType>(value, ignoreCase: true, out var parsed)
+            || !Enum.IsDefined(parsed)
+            || parsed == StrategyType.MultiStage)
+        {
+            return false;
+        }
+
+        strategyType = parsed;
+        return true;
+    }
+
+    private static async Task<SearchStrategy> ResolveStrategyAsync(
+        ISearchOrchestratorService searchOrchestrator,
+        ComposedQuery query,
+        StrategyType? requestedStrategy,
+        CancellationToken cancellationToken)
+    {
+        return requestedStrategy is { } type
+            ? searchOrchestrator.CreateStrategy(type, query)
+            : await searchOrchestrator.DetermineStrategyAsync(query, cancellationToken);
+    }
+
+    /// <summary>
+    /// Records the time since the stopwatch was last restarted as a stage, then restarts it.
+    /// </summary>
+    private static SearchStageResponse ToStageResponse(string name, Stopwatch stopwatch)
+    {
+        var stage = new SearchStageResponse { Name = name, DurationMs = stopwatch.Elapsed.TotalMilliseconds };
+        stopwatch.Restart();
+        return stage;
+    }
+
+    /// <summary>
+    /// Writes one Server-Sent Event and flushes it to the client.
+    /// </summary>
+    private static async Task WriteEventAsync(
+        HttpResponse response,
+        string eventName,
+        object data,
+        JsonSerializerOptions serializerOptions,
+        CancellationToken cancellationToken)
+    {
+        await response.WriteAsync($"event: {eventName}\ndata: {JsonSerializer.Serialize(data, serializerOptions)}\n\n", cancellationToken);
+        await response.Body.FlushAsync(cancellationToken);
+    }
+
+    /// <summary>
+    /// Adds the query and a result summary to the session history and stores the new search state.
+    /// An unknown session is ignored so that a stale session ID never fails the search itself.
+    /// </summary>
+    private static async Task RecordSearchAsync(
+        IConversationSessionService sessionService,
+        OrchestratedSearchRequest request,
+        SearchResults results,
+        CancellationToken cancellationToken)
+    {
+        try
+        {
+            var session = await sessionService.GetSessionAsync(request.SessionId!, cancellationToken);
+            var resultIds = results.Results.Select(r => r.Vehicle.Id).ToList();
+            var constraints = request.ComposedQuery.ConstraintGroups.SelectMany(g => g.Constraints).ToList();
+
+            // How this search differs from the one before it, for the conversation history
+            var previousState = session.CurrentSearchState;
+            var changes = previousState == null
+                ? new List<ConstraintChange>()
+                : QueryRefiner.CompareConstraints(previousState.ActiveFilters, constraints);
+            var previousCount = previousState == null
+                ? null
+                : session.Messages.LastOrDefault(m => m.Role == MessageRole.Assistant && m.Results != null)?.Results?.Count;
+
+            await sessionService.AddMessageAsync(session.SessionId, new ConversationMessage
+            {
+                Role = MessageRole.User,
+                Content = request.Query ?? string.Empty
+            }, cancellationToken);
+
+            await sessionService.AddMessageAsync(session.SessionId, new ConversationMessage
+            {
+                Role = MessageRole.Assistant,
+                Content = $"Found {results.TotalCount} vehicles",
+                Results = new SearchResultsMetadata
+                {
+                    Count = results.TotalCount,
+                    ResultIds = resultIds,
+                    PreviousCount = previousCount,
+                    Changes = changes
+                }
+            }, cancellationToken);
+
+            await sessionService.UpdateSearchStateAsync(session.SessionId, new SearchState
+            {
+                LastQuery = request.Query,
+                LastResultIds = resultIds,
+                ActiveFilters = constraints
+                    .GroupBy(c => c.FieldName)
+                    .ToDictionary(g => g.Key, g => g.Last()),
+                ViewedVehicleIds = session.CurrentSearchState?.ViewedVehicleIds ?? new List<string>(),
+                LastSearchTime = DateTime.UtcNow
+            }, cancellationToken);
+        }
+        catch (SessionNotFoundException)
+        {
+            // Session expired or was cleared; the search result is still valid
+        }
     }
 
     /// <summary>
@@ -534,6 +824,11 @@ public static class SearchEndpoints
     /// </summary>
     public record VehicleResponse
     {
+        /// <summary>
+        /// Gets or sets the vehicle identifier (registration number).
+        /// </summary>
+        public string Id { get; init; } = string.Empty;
+
         /// <summary>
         /// Gets or sets the make.
         /// </summary>
@@ -594,6 +889,21 @@ public static class SearchEndpoints
         /// </summary>
         public DateTime? RegistrationDate { get; init; }
 
+        /// <summary>
+        /// Gets or sets the MOT expiry date.
+        /// </summary>
+        public DateTime? MotExpiryDate { get; init; }
+
+        /// <summary>
+        /// Gets or sets when the vehicle was loaded into the inventory.
+        /// </summary>
+        public DateTime? ProcessedDate { get; init; }
+
+        /// <summary>
+        /// Gets or sets the sale location.
+        /// </summary>
+        public string SaleLocation { get; init; } = string.Empty;
+
         /// <summary>
         /// Gets or sets the features.
         /// </summary>
@@ -646,6 +956,39 @@ public static class SearchEndpoints
         /// Gets or sets the maximum number of results (1-100).
         /// </summary>
         public int MaxResults { get; init; } = 10;
+
+        /// <summary>
+        /// Gets or sets the number of results to skip, for fetching later pages.
+        /// Only the first page is recorded in the session; streamed searches always start at 0.
+        /// </summary>
+        public int Offset { get; init; }
+
+        /// <summary>
+        /// Gets or sets the conversation session to record the search in.
+        /// </summary>
+        public string? SessionId { get; init; }
+
+        /// <summary>
+        /// Gets or sets the original natural language query, stored in the session history.
+        /// </summary>
+        public string? Query { get; init; }
+
+        /// <summary>
+        /// Gets or sets the strategy to search with (ExactOnly, SemanticOnly or Hybrid) in place
+        /// of the one chosen from the query's constraints.
+        /// </summary>
+        public string? Strategy { get; init; }
+    }
+
+    /// <summary>
+    /// Request model for search facets.
+    /// </summary>
+    public record FacetsRequest
+    {
+        /// <summary>
+        /// Gets or sets the composed query whose results are counted; null counts the whole inventory.
+        /// </summary>
+        public ComposedQuery? ComposedQuery { get; init; }
     }
 
     /// <summary>
@@ -659,7 +1002,7 @@ public static class SearchEndpoints
         public List<VehicleSearchResult> Results { get; init; } = new();
 
         /// <summary>
-        /// Gets or sets the total count of results.
+        /// Gets or sets the total count of matching results across all pages.
         /// </summary>
         public int TotalCount { get; init; }
 
@@ -672,6 +1015,27 @@ public static class SearchEndpoints
         /// Gets or sets the search duration.
         /// </summary>
         public string SearchDuration { get; init; } = string.Empty;
+
+        /// <summary>
+        /// Gets or sets how long each stage of the request took, in the order they ran.
+        /// </summary>
+        public List<SearchStageResponse> Stages { get; init; } = new();
+    }
+
+    /// <summary>
+    /// Timing of one stage of a search request.
+    /// </summary>
+    public record SearchStageResponse
+    {
+        /// <summary>
+        /// Gets or sets the stage: strategy, search, or for a streamed search exact, semantic and reranked.
+        /// </summary>
+        public string Name { get; init; } = string.Empty;
+
+        /// <summary>
+        /// Gets or sets how long the stage took, in milliseconds.
+        /// </summary>
+        public double DurationMs { get; init; }
     }
 
     /// <summary>
@@ -714,6 +1078,11 @@ public static class SearchEndpoints
         /// Gets or sets the weights for each approach.
         /// </summary>
         public Dictionary<string, double> Weights { get; init; } = new();
+
+        /// <summary>
+        /// Gets or sets whether the combined results were reranked.
+        /// </summary>
+        public bool ShouldRerank { get; init; }
     }
 
     /// <summary>
@@ -33,25 +33,25 @@ public static class VehiclesEndpoints
                     return Results.NotFound(new { error = $"Vehicle with ID '{id}' not found" });
                 }
 
-                return Results.Ok(new
+                return Results.Ok(new VehicleDetailResponse
                 {
-                    id = vehicle.Id,
-                    make = vehicle.Make,
-                    model = vehicle.Model,
-                    derivative = vehicle.Derivative,
-                    price = vehicle.Price,
-                    mileage = vehicle.Mileage,
-                    bodyType = vehicle.BodyType,
-                    engineSize = vehicle.EngineSize,
-                    fuelType = vehicle.FuelType,
-                    transmissionType = vehicle.TransmissionType,
-                    colour = vehicle.Colour,
-                    numberOfDoors = vehicle.NumberOfDoors,
-                    registrationDate = vehicle.RegistrationDate,
-                    saleLocation = vehicle.SaleLocation,
-                    channel = vehicle.Channel,
-                    features = vehicle.Features,
-                    description = vehicle.Description
+                    Id = vehicle.Id,
+                    Make = vehicle.Make,
+                    Model = vehicle.Model,
+                    Derivative = vehicle.Derivative,
+                    Price = vehicle.Price,
+                    Mileage = vehicle.Mileage,
+                    BodyType = vehicle.BodyType,
+                    EngineSize = vehicle.EngineSize,
+                    FuelType = vehicle.FuelType,
+                    TransmissionType = vehicle.TransmissionType,
+                    Colour = vehicle.Colour,
+                    NumberOfDoors = vehicle.NumberOfDoors,
+                    RegistrationDate = vehicle.RegistrationDate,
+                    SaleLocation = vehicle.SaleLocation,
+                    Channel = vehicle.Channel,
+                    Features = vehicle.Features,
+                    Description = vehicle.Description
                 });
             }
             catch (Exception ex)
@@ -64,7 +64,8 @@ public static class VehiclesEndpoints
         })
         .WithName("GetVehicleById")
         .WithSummary("Get vehicle by ID")
-        .WithDescription("Retrieves a vehicle by its registration number from the search index");
+        .WithDescription("Retrieves a vehicle by its registration number from the search index")
+        .Produces<VehicleDetailResponse>();
 
         // GET /api/v1/vehicles
         group.MapGet("/", async (
@@ -74,10 +75,10 @@ public static class VehiclesEndpoints
             {
                 var totalCount = await retrievalService.GetTotalCountAsync();
 
-                return Results.Ok(new
+                return Results.Ok(new VehicleCountResponse
                 {
-                    totalVehicles = totalCount,
-                    timestamp = DateTime.UtcNow
+                    TotalVehicles = totalCount,
+                    Timestamp = DateTime.UtcNow
                 });
             }
             catch (Exception ex)
@@ -90,6 +91,114 @@ public static class VehiclesEndpoints
         })
         .WithName("GetVehicleCount")
         .WithSummary("Get total vehicle count")
-        .WithDescription("Returns the total number of vehicles in the search index");
+        .WithDescription("Returns the total number of vehicles in the search index")
+        .Produces<VehicleCountResponse>();
+    }
+
+    /// <summary>
+    /// Response model for a single vehicle.
+    /// </summary>
+    public record VehicleDetailResponse
+    {
+        /// <summary>
+        /// Gets or sets the vehicle ID (registration number).
+        /// </summary>
+        public string Id { get; init; } = string.Empty;
+
+        /// <summary>
+        /// Gets or sets the make.
+        /// </summary>
+        public string Make { get; init; } = string.Empty;
+
+        /// <summary>
+        /// Gets or sets the model.
+        /// </summary>
+        public string Model { get; init; } = string.Empty;
+
+        /// <summary>
+        /// Gets or sets the derivative.
+        /// </summary>
+        public string Derivative { get; init; } = string.Empty;
+
+        /// <summary>
+        /// Gets or sets the price.
+        /// </summary>
+        public decimal Price { get; init; }
+
+        /// <summary>
+        /// Gets or sets the mileage.
+        /// </summary>
+        public int Mileage { get; init; }
+
+        /// <summary>
+        /// Gets or sets the body type.
+        /// </summary>
+        public string BodyType { get; init; } = string.Empty;
+
+        /// <summary>
+        /// Gets or sets the engine size.
+        /// </summary>
+        public decimal EngineSize { get; init; }
+
+        /// <summary>
+        /// Gets or sets the fuel type.
+        /// </summary>
+        public string FuelType { get; init; } = string.Empty;
+
+        /// <summary>
+        /// Gets or sets the transmission type.
+        /// </summary>
+        public string TransmissionType { get; init; } = string.Empty;
+
+        /// <summary>
+        /// Gets or sets the colour.
+        /// </summary>
+        public string Colour { get; init; } = string.Empty;
+
+        /// <summary>
+        /// Gets or sets the number of doors.
+        /// </summary>
+        public int? NumberOfDoors { get; init; }
+
+        /// <summary>
+        /// Gets or sets the registration date.
+        /// </summary>
+        public DateTime? RegistrationDate { get; init; }
+
+        /// <summary>
+        /// Gets or sets the sale location.
+        /// </summary>
+        public string SaleLocation { get; init; } = string.Empty;
+
+        /// <summary>
+        /// Gets or sets the sales channel.
+        /// </summary>
+        public string Channel { get; init; } = string.Empty;
+
+        /// <summary>
+        /// Gets or sets the features.
+        /// </summary>
+        public List<string> Features { get; init; } = new();
+
+        /// <summary>
+        /// Gets or sets the description.
+        /// </summary>
+        public string Description { get; init; } = string.Empty;
+    }
+
+    /// <summary>
+    /// Response model for the vehicle count.
+    /// </summary>
+    public record VehicleCountResponse
+    {
+        /// <summary>
+        /// Gets or sets the total number of indexed vehicles.
+        /// </summary>
+        public int TotalVehicles { get; init; }
+
+        /// <summary>
+        /// Gets or sets the time the count was taken.
+        /// </summary>
+        public DateTime Timestamp { get; init; }
     }
 }
@@ -19,9 +19,12 @@ public class SafetyGuardrailMiddleware
 
     public async Task InvokeAsync(HttpContext context, ISafetyGuardrailService safetyService, IAbuseMonitoringService abuseMonitoringService)
     {
-        // Only apply safety checks to search and query endpoints
-        if (context.Request.Path.StartsWithSegments("/api/v1/search") ||
-            context.Request.Path.StartsWithSegments("/api/v1/query"))
+        // Only apply safety checks to search and query endpoints. Resolving references is
+        // exempt: the client previews it as the user types, it never searches or calls a
+        // model, and the query is checked (and counted) when it is submitted for parsing.
+        if ((context.Request.Path.StartsWithSegments("/api/v1/search") ||
+             context.Request.Path.StartsWithSegments("/api/v1/query")) &&
+            !context.Request.Path.StartsWithSegments("/api/v1/query/resolve"))
         {
             try
             {
@@ -82,8 +85,16 @@ public class SafetyGuardrailMiddleware
                             result.Message
                         );
 
-                        context.Response.StatusCode = 400; // Bad Request
+                        var isRateLimited = result.ViolationType == VehicleSearch.Core.Enums.SafetyViolationType.RateLimitExceeded;
+                        var retryAfterSeconds = result.RetryAfter.HasValue
+                            ? (int?)Math.Ceiling(result.RetryAfter.Value.TotalSeconds)
+                            : null;
+
+                        context.Response.StatusCode = isRateLimited
+                            ? StatusCodes.Status429TooManyRequests
+                            : StatusCodes.Status400BadRequest;
                         context.Response.ContentType = "application/json";
+                        AddRateLimitHeaders(context.Response, result.RemainingRequests, retryAfterSeconds);
 
                         var errorResponse = new
                         {
@@ -91,7 +102,8 @@ public class SafetyGuardrailMiddleware
                             {
                                 code = result.ViolationType?.ToString() ?? "VALIDATION_ERROR",
                                 message = result.Message,
-                                details = result.Errors
+                                details = result.Errors,
+                                retryAfterSeconds
                             },
                             timestamp = DateTime.UtcNow.ToString("O"),
                             traceId = context.TraceIdentifier
@@ -106,6 +118,8 @@ public class SafetyGuardrailMiddleware
                         await context.Response.WriteAsync(json);
                         return;
                     }
+
+                    AddRateLimitHeaders(context.Response, result.RemainingRequests, retryAfterSeconds: null);
                 }
             }
             catch (Exception ex)
@@ -119,6 +133,19 @@ public class SafetyGuardrailMiddleware
         await _next(context);
     }
 
+    private static void AddRateLimitHeaders(HttpResponse response, int? remainingRequests, int? retryAfterSeconds)
+    {
+        if (remainingRequests.HasValue)
+        {
+            response.Headers["X-RateLimit-Remaining"] = remainingRequests.Value.ToString();
+        }
+
+        if (retryAfterSeconds.HasValue)
+        {
+            response.Headers.RetryAfter = retryAfterSeconds.Value.ToString();
+        }
+    }
+
     private async Task<string?> ExtractQueryFromRequest(HttpRequest request)
     {
         // Check query string first
@@ -147,11 +174,14 @@ public class SafetyGuardrailMiddleware
                 if (!string.IsNullOrWhiteSpace(body))
                 {
                     using var jsonDocument = JsonDocument.Parse(body);
-                    if (jsonDocument.RootElement.TryGetProperty("query", out var queryElement))
+                    // Only free text is validated: explain and rerank send a structured query object
+                    if (jsonDocument.RootElement.TryGetProperty("query", out var queryElement) &&
+                        queryElement.ValueKind == JsonValueKind.String)
                     {
                         return queryElement.GetString();
                     }
-                    if (jsonDocument.RootElement.TryGetProperty("message", out var messageElement))
+                    if (jsonDocument.RootElement.TryGetProperty("message", out var messageElement) &&
+                        messageElement.ValueKind == JsonValueKind.String)
                     {
                         return messageElement.GetString();
                     }
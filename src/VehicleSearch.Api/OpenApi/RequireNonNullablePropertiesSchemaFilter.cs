@@ -0,0 +1,32 @@
+using Microsoft.OpenApi.Models;
+using Swashbuckle.AspNetCore.SwaggerGen;
+
+namespace VehicleSearch.Api.OpenApi;
+
+/// <summary>
+/// Marks every non-nullable schema property as required so that generated clients
+/// only treat nullable members as optional.
+/// </summary>
+public class RequireNonNullablePropertiesSchemaFilter : ISchemaFilter
+{
+    /// <summary>
+    /// Applies the filter to a generated schema.
+    /// </summary>
+    /// <param name="schema">The schema being generated.</param>
+    /// <param name="context">The schema filter context.</param>
+    public void Apply(OpenApiSchema schema, SchemaFilterContext context)
+    {
+        if (schema.Properties == null)
+        {
+            return;
+        }
+
+        foreach (var (name, property) in schema.Properties)
+        {
+            if (!property.Nullable && !schema.Required.Contains(name))
+            {
+                schema.Required.Add(name);
+            }
+        }
+    }
+}
@@ -1,6 +1,8 @@
+using System.Text.Json.Serialization;
 using Serilog;
 using VehicleSearch.Api.Endpoints;
 using VehicleSearch.Api.Middleware;
+using VehicleSearch.Api.OpenApi;
 
 var builder = WebApplication.CreateBuilder(args);
 
@@ -15,6 +17,13 @@ Log.Logger = new LoggerConfiguration()
 
 builder.Host.UseSerilog();
 
+// Serialize enums by name so the wire format (and the generated frontend client) is stable
+builder.Services.ConfigureHttpJsonOptions(options =>
+    options.SerializerOptions.Converters.Add(new JsonStringEnumConverter()));
+// Swashbuckle reads the MVC JSON options when describing enums
+builder.Services.Configure<Microsoft.AspNetCore.Mvc.JsonOptions>(options =>
+    options.JsonSerializerOptions.Converters.Add(new JsonStringEnumConverter()));
+
 // Add services to the container
 builder.Services.AddEndpointsApiExplorer();
 builder.Services.AddSwaggerGen(options =>
@@ -25,6 +34,9 @@ builder.Services.AddSwaggerGen(options =>
         Version = "v1",
         Description = "API for searching and exploring vehicle inventory using AI-powered semantic search"
     });
+    options.SupportNonNullableReferenceTypes();
+    options.UseAllOfToExtendReferenceSchemas();
+    options.SchemaFilter<RequireNonNullablePropertiesSchemaFilter>();
 });
 
 // Configure CORS
@@ -36,7 +48,9 @@ builder.Services.AddCors(options =>
         policy.WithOrigins(corsOrigins)
               .AllowAnyHeader()
               .AllowAnyMethod()
-              .AllowCredentials();
+              .AllowCredentials()
+              // Let the frontend read rate-limit information on 429 responses
+              .WithExposedHeaders("Retry-After", "X-RateLimit-Remaining");
     });
 });
 
@@ -79,6 +93,7 @@ builder.Services.AddScoped<VehicleSearch.Infrastructure.Search.ExactSearchExecut
 builder.Services.AddScoped<VehicleSearch.Infrastructure.Search.SemanticSearchExecutor>();
 builder.Services.AddScoped<VehicleSearch.Infrastructure.Search.HybridSearchExecutor>();
 builder.Services.AddScoped<VehicleSearch.Core.Interfaces.ISearchOrchestratorService, VehicleSearch.Infrastructure.Search.SearchOrchestratorService>();
+builder.Services.AddScoped<VehicleSearch.Core.Interfaces.IFacetService, VehicleSearch.Infrastructure.Search.FacetService>();
 
 // Register Result Ranking services
 builder.Services.AddScoped<VehicleSearch.Core.Interfaces.IResultRankingService, VehicleSearch.Infrastructure.Search.ResultRankingService>();
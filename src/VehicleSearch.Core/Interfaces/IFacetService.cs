@@ -0,0 +1,19 @@
+using VehicleSearch.Core.Models;
+
+namespace VehicleSearch.Core.Interfaces;
+
+/// <summary>
+/// Service interface for faceted navigation over search results.
+/// </summary>
+public interface IFacetService
+{
+    /// <summary>
+    /// Gets the facet values and numeric bounds of the vehicles matching a composed query.
+    /// Each field is counted without the query's own constraints on that field, so
+    /// selecting one value does not hide the alternatives.
+    /// </summary>
+    /// <param name="query">The composed query, or null for the whole inventory.</param>
+    /// <param name="cancellationToken">Cancellation token.</param>
+    /// <returns>The facet values with counts and the numeric ranges.</returns>
+    Task<FacetResults> GetFacetsAsync(ComposedQuery? query, CancellationToken cancellationToken = default);
+}
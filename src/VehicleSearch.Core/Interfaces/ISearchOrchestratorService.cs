@@ -15,15 +15,42 @@ public interface ISearchOrchestratorService
     /// <returns>The recommended search strategy.</returns>
     Task<SearchStrategy> DetermineStrategyAsync(ComposedQuery query, CancellationToken cancellationToken = default);
 
+    /// <summary>
+    /// Builds a strategy of the given type for a query, for callers that choose the strategy
+    /// themselves rather than letting <see cref="DetermineStrategyAsync"/> pick one.
+    /// </summary>
+    /// <param name="type">The strategy type to use.</param>
+    /// <param name="query">The composed query the strategy will run.</param>
+    /// <returns>The strategy, weighted for the query's constraints.</returns>
+    /// <exception cref="ArgumentException">The strategy type cannot be executed.</exception>
+    SearchStrategy CreateStrategy(StrategyType type, ComposedQuery query);
+
     /// <summary>
     /// Executes a search using the specified strategy.
     /// </summary>
     /// <param name="query">The composed query to execute.</param>
     /// <param name="strategy">The search strategy to use.</param>
     /// <param name="maxResults">Maximum number of results to return.</param>
+    /// <param name="offset">Number of matches to skip, for fetching later pages.</param>
     /// <param name="cancellationToken">Cancellation token.</param>
-    /// <returns>Search results with matching vehicles.</returns>
+    /// <returns>Search results with matching vehicles; <c>TotalCount</c> counts every match, not just this page.</returns>
     Task<SearchResults> ExecuteSearchAsync(
+        ComposedQuery query,
+        SearchStrategy strategy,
+        int maxResults = 10,
+        int offset = 0,
+        CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Executes a search using the specified strategy, yielding the exact and semantic
+    /// results of a hybrid search before the final reranked results.
+    /// </summary>
+    /// <param name="query">The composed query to execute.</param>
+    /// <param name="strategy">The search strategy to use.</param>
+    /// <param name="maxResults">Maximum number of results per stage.</param>
+    /// <param name="cancellationToken">Cancellation token.</param>
+    /// <returns>The results of each stage as it completes, ending with <see cref="SearchStage.Reranked"/>.</returns>
+    IAsyncEnumerable<SearchProgress> StreamSearchAsync(
         ComposedQuery query,
         SearchStrategy strategy,
         int maxResults = 10,
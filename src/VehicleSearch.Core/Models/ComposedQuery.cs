@@ -34,4 +34,10 @@ public class ComposedQuery
     /// Gets or sets the OData filter string for Azure Search.
     /// </summary>
     public string? ODataFilter { get; set; }
+
+    /// <summary>
+    /// Gets or sets the OData order-by clause (e.g. "price asc") for the results.
+    /// Only exact-match searches are ordered by it; ranked searches keep relevance order.
+    /// </summary>
+    public string? OrderBy { get; set; }
 }
@@ -0,0 +1,48 @@
+namespace VehicleSearch.Core.Models;
+
+/// <summary>
+/// Represents how one field's constraint changed between two searches in a conversation.
+/// </summary>
+public class ConstraintChange
+{
+    /// <summary>
+    /// Gets or sets the field name in the search index.
+    /// </summary>
+    public string FieldName { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Gets or sets whether the constraint was added, updated or removed.
+    /// </summary>
+    public ConstraintChangeType ChangeType { get; set; }
+
+    /// <summary>
+    /// Gets or sets the constraint before the change. Null when it was added.
+    /// </summary>
+    public SearchConstraint? Previous { get; set; }
+
+    /// <summary>
+    /// Gets or sets the constraint after the change. Null when it was removed.
+    /// </summary>
+    public SearchConstraint? Current { get; set; }
+}
+
+/// <summary>
+/// Represents the kind of change made to a constraint.
+/// </summary>
+public enum ConstraintChangeType
+{
+    /// <summary>
+    /// The field was not constrained before.
+    /// </summary>
+    Added,
+
+    /// <summary>
+    /// The field's operator or value changed.
+    /// </summary>
+    Updated,
+
+    /// <summary>
+    /// The field is no longer constrained.
+    /// </summary>
+    Removed
+}
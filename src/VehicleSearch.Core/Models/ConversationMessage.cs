@@ -52,4 +52,14 @@ public class SearchResultsMetadata
     /// Gets or sets the list of vehicle IDs in the results.
     /// </summary>
     public List<string> ResultIds { get; set; } = new();
+
+    /// <summary>
+    /// Gets or sets the total count of results for the previous search in the session, if there was one.
+    /// </summary>
+    public int? PreviousCount { get; set; }
+
+    /// <summary>
+    /// Gets or sets how the constraints changed since the previous search in the session.
+    /// </summary>
+    public List<ConstraintChange> Changes { get; set; } = new();
 }
@@ -0,0 +1,56 @@
+namespace VehicleSearch.Core.Models;
+
+/// <summary>
+/// Represents the distinct values of the facetable fields across a result set,
+/// with the number of vehicles having each, and the bounds of its numeric fields.
+/// </summary>
+public class FacetResults
+{
+    /// <summary>
+    /// Gets or sets the values of each facet field, most common first, keyed by field name.
+    /// </summary>
+    public Dictionary<string, List<FacetValue>> Facets { get; set; } = new();
+
+    /// <summary>
+    /// Gets or sets the smallest and largest value of each numeric field
+    /// (price, mileage and registration year). Absent when no vehicle matches.
+    /// </summary>
+    public Dictionary<string, NumericRange> Ranges { get; set; } = new();
+
+    /// <summary>
+    /// Gets or sets the number of vehicles in the result set.
+    /// </summary>
+    public int TotalCount { get; set; }
+}
+
+/// <summary>
+/// Represents one value of a facet field and how many vehicles have it.
+/// </summary>
+public class FacetValue
+{
+    /// <summary>
+    /// Gets or sets the field value.
+    /// </summary>
+    public string Value { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Gets or sets the number of vehicles with this value.
+    /// </summary>
+    public long Count { get; set; }
+}
+
+/// <summary>
+/// Represents the smallest and largest value of a numeric field.
+/// </summary>
+public class NumericRange
+{
+    /// <summary>
+    /// Gets or sets the smallest value.
+    /// </summary>
+    public double Min { get; set; }
+
+    /// <summary>
+    /// Gets or sets the largest value.
+    /// </summary>
+    public double Max { get; set; }
+}
@@ -38,5 +38,15 @@ public enum RankingFactor
     /// <summary>
     /// Location proximity to user.
     /// </summary>
-    LocationProximity
+    LocationProximity,
+
+    /// <summary>
+    /// Mileage relative to other results, lowest first.
+    /// </summary>
+    Mileage,
+
+    /// <summary>
+    /// Whether the vehicle has a service history.
+    /// </summary>
+    ServiceHistory
 }
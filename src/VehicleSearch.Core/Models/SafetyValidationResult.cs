@@ -27,6 +27,16 @@ public class SafetyValidationResult
     /// </summary>
     public string Message { get; set; } = string.Empty;
 
+    /// <summary>
+    /// Gets or sets how long the caller must wait before retrying, when rate limited.
+    /// </summary>
+    public TimeSpan? RetryAfter { get; set; }
+
+    /// <summary>
+    /// Gets or sets the number of requests left in the current rate limit window, when known.
+    /// </summary>
+    public int? RemainingRequests { get; set; }
+
     /// <summary>
     /// Gets the total number of errors.
     /// </summary>
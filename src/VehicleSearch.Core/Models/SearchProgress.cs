@@ -0,0 +1,38 @@
+namespace VehicleSearch.Core.Models;
+
+/// <summary>
+/// Represents the results available at one stage of a streamed search.
+/// </summary>
+public class SearchProgress
+{
+    /// <summary>
+    /// Gets or sets the stage that produced the results.
+    /// </summary>
+    public SearchStage Stage { get; set; }
+
+    /// <summary>
+    /// Gets or sets the results available at this stage.
+    /// </summary>
+    public SearchResults Results { get; set; } = null!;
+}
+
+/// <summary>
+/// Represents a stage of a streamed search.
+/// </summary>
+public enum SearchStage
+{
+    /// <summary>
+    /// Vehicles matching the exact and range constraints.
+    /// </summary>
+    Exact,
+
+    /// <summary>
+    /// Vehicles ranked by similarity to the semantic constraints.
+    /// </summary>
+    Semantic,
+
+    /// <summary>
+    /// The final results of the selected strategy.
+    /// </summary>
+    Reranked
+}
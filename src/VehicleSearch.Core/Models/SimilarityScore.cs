@@ -29,4 +29,14 @@ public class SimilarityScore
     /// Gets or sets the description boost applied (can be negative).
     /// </summary>
     public double DescriptionBoost { get; set; }
+
+    /// <summary>
+    /// Gets or sets the concept's positive indicators found in the description.
+    /// </summary>
+    public List<string> MatchedPositiveIndicators { get; set; } = new();
+
+    /// <summary>
+    /// Gets or sets the concept's negative indicators found in the description.
+    /// </summary>
+    public List<string> MatchedNegativeIndicators { get; set; } = new();
 }
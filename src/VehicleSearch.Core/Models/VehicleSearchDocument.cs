@@ -70,11 +70,21 @@ public class VehicleSearchDocument
     /// </summary>
     public DateTimeOffset RegistrationDate { get; set; }
 
+    /// <summary>
+    /// Gets or sets the MOT expiry date.
+    /// </summary>
+    public DateTimeOffset? MotExpiryDate { get; set; }
+
     /// <summary>
     /// Gets or sets the sale location.
     /// </summary>
     public string SaleLocation { get; set; } = string.Empty;
 
+    /// <summary>
+    /// Gets or sets the condition grade.
+    /// </summary>
+    public string Grade { get; set; } = string.Empty;
+
     /// <summary>
     /// Gets or sets the channel.
     /// </summary>
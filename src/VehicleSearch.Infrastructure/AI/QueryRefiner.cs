@@ -1,3 +1,4 @@
+using System.Text.Json;
 using Microsoft.Extensions.Logging;
 using VehicleSearch.Core.Interfaces;
 using VehicleSearch.Core.Models;
@@ -67,6 +68,70 @@ public class QueryRefiner
         return composedQuery;
     }
 
+    /// <summary>
+    /// Compares a session's active filters with the constraints of the search that follows them.
+    /// A field constrained more than once counts by its last constraint, as in the stored search state,
+    /// and a field whose operator and value are both unchanged is left out.
+    /// </summary>
+    /// <param name="previousFilters">Active filters from the previous search state.</param>
+    /// <param name="currentConstraints">Constraints of the new search.</param>
+    /// <returns>The added, updated and removed constraints, one per field.</returns>
+    public static List<ConstraintChange> CompareConstraints(
+        IReadOnlyDictionary<string, SearchConstraint> previousFilters,
+        IEnumerable<SearchConstraint> currentConstraints)
+    {
+        var current = currentConstraints
+            .GroupBy(c => c.FieldName)
+            .ToDictionary(g => g.Key, g => g.Last());
+
+        var changes = new List<ConstraintChange>();
+
+        foreach (var (fieldName, constraint) in current)
+        {
+            if (!previousFilters.TryGetValue(fieldName, out var previous))
+            {
+                changes.Add(new ConstraintChange
+                {
+                    FieldName = fieldName,
+                    ChangeType = ConstraintChangeType.Added,
+                    Current = constraint
+                });
+            }
+            else if (previous.Operator != constraint.Operator || !SameValue(previous.Value, constraint.Value))
+            {
+                changes.Add(new ConstraintChange
+                {
+                    FieldName = fieldName,
+                    ChangeType = ConstraintChangeType.Updated,
+                    Previous = previous,
+                    Current = constraint
+                });
+            }
+        }
+
+        foreach (var (fieldName, previous) in previousFilters)
+        {
+            if (!current.ContainsKey(fieldName))
+            {
+                changes.Add(new ConstraintChange
+                {
+                    FieldName = fieldName,
+                    ChangeType = ConstraintChangeType.Removed,
+                    Previous = previous
+                });
+            }
+        }
+
+        return changes;
+    }
+
+    /// <summary>
+    /// Compares constraint values by their JSON form, since a stored value may come back
+    /// as a JsonElement rather than the number, string or array it was created from.
+    /// </summary>
+    private static bool SameValue(object? left, object? right) =>
+        JsonSerializer.Serialize(left) == JsonSerializer.Serialize(right);
+
     /// <summary>
     /// Merges new constraints with previous active filters.
     /// </summary>
@@ -17,6 +17,7 @@ public class ReferenceResolverService : IReferenceResolverService
     // Pronoun patterns
     private static readonly string[] SingularPronouns = { "it", "that", "this" };
     private static readonly string[] PluralPronouns = { "them", "those", "these" };
+    private static readonly string[] DemonstrativeNouns = { "one", "car", "vehicle" };
     private static readonly Regex PositionalPattern = 
         new(@"\b(first|second|third|fourth|fifth|last|previous)\s+(one|vehicle|car)\b", 
             RegexOptions.IgnoreCase | RegexOptions.Compiled);
@@ -68,6 +69,9 @@ public class ReferenceResolverService : IReferenceResolverService
         // Resolve positional references
         ResolvePositionalReferences(query, session, resolvedQuery);
 
+        // Resolve comparatives against the active filters
+        ResolveComparativeReferences(session, resolvedQuery);
+
         return resolvedQuery;
     }
 
@@ -97,10 +101,22 @@ public class ReferenceResolverService : IReferenceResolverService
         var queryLower = query.ToLowerInvariant();
         var words = queryLower.Split(' ', StringSplitOptions.RemoveEmptyEntries);
 
+        var originalWords = query.Split(' ', StringSplitOptions.RemoveEmptyEntries);
+
         // Check for singular pronouns
         for (int i = 0; i < words.Length; i++)
         {
-            if (SingularPronouns.Contains(words[i]))
+            if (IsDemonstrative(words, originalWords, i))
+            {
+                // "that BMW", "this one": the pronoun points at a vehicle named after it
+                references.Add(new Reference
+                {
+                    ReferenceText = $"{words[i]} {originalWords[i + 1]}",
+                    Type = ReferenceType.Demonstrative,
+                    Position = i
+                });
+            }
+            else if (SingularPronouns.Contains(words[i]))
             {
                 references.Add(new Reference
                 {
@@ -180,6 +196,10 @@ public class ReferenceResolverService : IReferenceResolverService
             {
                 resolvedQuery.ResolvedValues["vehicle_id"] = lastSingleResult;
                 resolvedQuery.ResolvedQueryText = query; // Keep query as-is, value in ResolvedValues
+                foreach (var reference in resolvedQuery.ResolvedReferences.Where(IsSingularReference))
+                {
+                    reference.ResolvedValue = lastSingleResult;
+                }
                 _logger.LogInformation("Resolved singular pronoun to vehicle: {VehicleId}", lastSingleResult);
             }
             else
@@ -198,6 +218,11 @@ public class ReferenceResolverService : IReferenceResolverService
             {
                 resolvedQuery.ResolvedValues["vehicle_ids"] = lastResultSet;
                 resolvedQuery.ResolvedQueryText = query; // Keep query as-is, value in ResolvedValues
+                foreach (var reference in resolvedQuery.ResolvedReferences.Where(r => 
+                    r.Type == ReferenceType.Pronoun && PluralPronouns.Contains(r.ReferenceText)))
+                {
+                    reference.ResolvedValue = lastResultSet;
+                }
                 _logger.LogInformation("Resolved plural pronoun to {Count} vehicles", lastResultSet.Count);
             }
             else
@@ -252,6 +277,12 @@ public class ReferenceResolverService : IReferenceResolverService
                 var vehicleId = lastResults[index];
                 resolvedQuery.ResolvedValues["vehicle_id"] = vehicleId;
                 resolvedQuery.ResolvedQueryText = query; // Keep query as-is, value in ResolvedValues
+                var reference = resolvedQuery.ResolvedReferences.FirstOrDefault(r => 
+                    r.Type == ReferenceType.Anaphoric && r.Position == match.Index);
+                if (reference != null)
+                {
+                    reference.ResolvedValue = vehicleId;
+                }
                 _logger.LogInformation("Resolved positional reference '{Position}' to vehicle: {VehicleId}", 
                     position, vehicleId);
             }
@@ -264,6 +295,51 @@ public class ReferenceResolverService : IReferenceResolverService
         }
     }
 
+    /// <summary>
+    /// Resolves each comparative reference (e.g., "cheaper") to the constraint it makes of the active filters.
+    /// A comparative with no active filter to compare against is left unresolved.
+    /// </summary>
+    private void ResolveComparativeReferences(
+        ConversationSession session, 
+        ResolvedQuery resolvedQuery)
+    {
+        var activeFilters = session.CurrentSearchState?.ActiveFilters;
+        if (activeFilters == null || activeFilters.Count == 0)
+            return;
+
+        foreach (var reference in resolvedQuery.ResolvedReferences.Where(r => r.Type == ReferenceType.Comparative))
+        {
+            var constraints = _comparativeResolver.ResolveComparatives(reference.ReferenceText, activeFilters);
+            var constraint = constraints.Values.FirstOrDefault();
+            if (constraint != null)
+            {
+                reference.ResolvedValue = constraint;
+                _logger.LogInformation("Resolved comparative '{Term}' to a constraint on {FieldName}", 
+                    reference.ReferenceText, constraint.FieldName);
+            }
+        }
+    }
+
+    /// <summary>
+    /// Determines whether the word at the index is "that" or "this" followed by "one", "car", "vehicle"
+    /// or a capitalised name such as a make.
+    /// </summary>
+    private static bool IsDemonstrative(string[] words, string[] originalWords, int index)
+    {
+        if (index + 1 >= words.Length || (words[index] != "that" && words[index] != "this"))
+            return false;
+
+        var next = originalWords[index + 1];
+        return DemonstrativeNouns.Contains(words[index + 1]) || char.IsUpper(next[0]);
+    }
+
+    /// <summary>
+    /// Determines whether a reference points at a single vehicle by pronoun or demonstrative.
+    /// </summary>
+    private static bool IsSingularReference(Reference reference) =>
+        reference.Type == ReferenceType.Demonstrative ||
+        (reference.Type == ReferenceType.Pronoun && SingularPronouns.Contains(reference.ReferenceText));
+
     /// <summary>
     /// Gets the last single vehicle result from the conversation history.
     /// </summary>
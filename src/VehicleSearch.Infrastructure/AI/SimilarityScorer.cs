@@ -53,7 +53,9 @@ public class SimilarityScorer
         }
 
         // Compute description boost
-        var descriptionBoost = ComputeDescriptionBoost(vehicle.Description, concept);
+        var positiveIndicators = FindIndicators(vehicle.Description, concept.PositiveIndicators);
+        var negativeIndicators = FindIndicators(vehicle.Description, concept.NegativeIndicators);
+        var descriptionBoost = ComputeDescriptionBoost(positiveIndicators, negativeIndicators);
 
         // Calculate final score with boost
         var finalScore = Math.Clamp(totalWeightedScore + descriptionBoost, 0.0, 1.0);
@@ -68,7 +70,9 @@ public class SimilarityScorer
             ComponentScores = componentScores,
             MatchingAttributes = matchingAttributes,
             MismatchingAttributes = mismatchingAttributes,
-            DescriptionBoost = descriptionBoost
+            DescriptionBoost = descriptionBoost,
+            MatchedPositiveIndicators = positiveIndicators,
+            MatchedNegativeIndicators = negativeIndicators
         };
     }
 
@@ -265,34 +269,26 @@ public class SimilarityScorer
     }
 
     /// <summary>
-    /// Computes description boost based on positive/negative indicators.
-    /// +0.05 per positive indicator, -0.10 per negative indicator, max ±0.5
+    /// Finds the indicators that appear in a description, ignoring case.
     /// </summary>
-    private double ComputeDescriptionBoost(string description, ConceptualMapping concept)
+    private static List<string> FindIndicators(string description, IEnumerable<string> indicators)
     {
         if (string.IsNullOrWhiteSpace(description))
-            return 0.0;
+            return new List<string>();
 
-        var descriptionLower = description.ToLowerInvariant();
-        double boost = 0.0;
-
-        // Add boost for positive indicators
-        foreach (var indicator in concept.PositiveIndicators)
-        {
-            if (descriptionLower.Contains(indicator.ToLowerInvariant()))
-            {
-                boost += PositiveIndicatorBoost;
-            }
-        }
+        return indicators
+            .Where(indicator => description.Contains(indicator, StringComparison.OrdinalIgnoreCase))
+            .ToList();
+    }
 
-        // Subtract for negative indicators
-        foreach (var indicator in concept.NegativeIndicators)
-        {
-            if (descriptionLower.Contains(indicator.ToLowerInvariant()))
-            {
-                boost -= NegativeIndicatorPenalty;
-            }
-        }
+    /// <summary>
+    /// Computes description boost based on the positive/negative indicators found.
+    /// +0.05 per positive indicator, -0.10 per negative indicator, max ±0.5
+    /// </summary>
+    private static double ComputeDescriptionBoost(List<string> positiveIndicators, List<string> negativeIndicators)
+    {
+        var boost = positiveIndicators.Count * PositiveIndicatorBoost
+            - negativeIndicators.Count * NegativeIndicatorPenalty;
 
         // Clamp to ±0.5
         return Math.Clamp(boost, -MaxDescriptionBoost, MaxDescriptionBoost);
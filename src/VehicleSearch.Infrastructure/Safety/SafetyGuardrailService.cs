@@ -163,11 +163,17 @@ public class SafetyGuardrailService : ISafetyGuardrailService
             {
                 IsValid = false,
                 ViolationType = SafetyViolationType.RateLimitExceeded,
-                Message = $"Rate limit exceeded. Please try again in {rateLimitResult.RetryAfter.TotalSeconds:F0} seconds."
+                Message = $"Rate limit exceeded. Please try again in {rateLimitResult.RetryAfter.TotalSeconds:F0} seconds.",
+                RetryAfter = rateLimitResult.RetryAfter,
+                RemainingRequests = 0
             };
         }
 
-        return new SafetyValidationResult { IsValid = true };
+        return new SafetyValidationResult
+        {
+            IsValid = true,
+            RemainingRequests = rateLimitResult.RemainingRequests
+        };
     }
 
     /// <inheritdoc/>
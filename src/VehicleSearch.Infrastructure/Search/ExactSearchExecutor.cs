@@ -13,6 +13,17 @@ namespace VehicleSearch.Infrastructure.Search;
 /// </summary>
 public class ExactSearchExecutor
 {
+    /// <summary>
+    /// Fields exact matches can be ordered by: those the index marks sortable.
+    /// </summary>
+    public static readonly IReadOnlySet<string> SortableFields = new HashSet<string>(StringComparer.OrdinalIgnoreCase)
+    {
+        "price", "mileage", "registrationDate", "processedDate"
+    };
+
+    // Exact matches are equally relevant, so without a requested order the cheapest come first
+    private const string DefaultOrderBy = "price asc";
+
     private readonly AzureSearchClient _searchClient;
     private readonly ILogger<ExactSearchExecutor> _logger;
 
@@ -28,11 +39,13 @@ public class ExactSearchExecutor
     }
 
     /// <summary>
-    /// Executes an exact match search using OData filters.
+    /// Executes an exact match search using OData filters, skipping the first
+    /// <paramref name="offset"/> matches.
     /// </summary>
     public async Task<SearchResults> ExecuteAsync(
         ComposedQuery query,
         int maxResults,
+        int offset = 0,
         CancellationToken cancellationToken = default)
     {
         var stopwatch = Stopwatch.StartNew();
@@ -60,14 +73,16 @@ public class ExactSearchExecutor
             {
                 Filter = odataFilter,
                 Size = maxResults,
+                Skip = offset,
+                IncludeTotalCount = true,
                 Select =
                 {
                     "id", "make", "model", "derivative", "price", "mileage",
                     "bodyType", "engineSize", "fuelType", "transmissionType",
                     "colour", "numberOfDoors", "registrationDate", "saleLocation",
-                    "channel", "features", "description"
+                    "channel", "features", "description", "motExpiryDate", "processedDate"
                 },
-                OrderBy = { "price asc" } // Default ordering
+                OrderBy = { ResolveOrderBy(query.OrderBy) }
             };
 
             _logger.LogDebug("Executing search with filter: {Filter}", odataFilter);
@@ -105,7 +120,7 @@ public class ExactSearchExecutor
             return new SearchResults
             {
                 Results = results,
-                TotalCount = results.Count,
+                TotalCount = (int)(response.Value.TotalCount ?? offset + results.Count),
                 Strategy = new SearchStrategy
                 {
                     Type = StrategyType.ExactOnly,
@@ -136,6 +151,31 @@ public class ExactSearchExecutor
         }
     }
 
+    /// <summary>
+    /// Validates an order-by clause of the form "field asc|desc" against <see cref="SortableFields"/>,
+    /// defaulting to price ascending when none is given.
+    /// </summary>
+    /// <exception cref="ArgumentException">The clause names an unsortable field or an unknown direction.</exception>
+    public static string ResolveOrderBy(string? orderBy)
+    {
+        if (string.IsNullOrWhiteSpace(orderBy))
+        {
+            return DefaultOrderBy;
+        }
+
+        var parts = orderBy.Split(' ', StringSplitOptions.RemoveEmptyEntries);
+        var field = parts[0];
+        var direction = parts.Length > 1 ? parts[1].ToLowerInvariant() : "asc";
+
+        if (parts.Length > 2 || !SortableFields.Contains(field) || (direction != "asc" && direction != "desc"))
+        {
+            throw new ArgumentException(
+                $"Cannot order results by '{orderBy}'. Sortable fields are: {string.Join(", ", SortableFields)}");
+        }
+
+        return $"{SortableFields.First(sortable => sortable.Equals(field, StringComparison.OrdinalIgnoreCase))} {direction}";
+    }
+
     /// <summary>
     /// Maps a VehicleSearchDocument to a Vehicle entity.
     /// </summary>
@@ -158,10 +198,12 @@ public class ExactSearchExecutor
             RegistrationDate = document.RegistrationDate != DateTimeOffset.MinValue
                 ? document.RegistrationDate.DateTime
                 : null,
+            MotExpiryDate = document.MotExpiryDate?.DateTime,
             SaleLocation = document.SaleLocation,
             Channel = document.Channel,
             Features = document.Features.ToList(),
-            Description = document.Description
+            Description = document.Description,
+            ProcessedDate = document.ProcessedDate.DateTime
         };
     }
 }
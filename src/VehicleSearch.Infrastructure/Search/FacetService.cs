@@ -0,0 +1,235 @@
+using Azure.Search.Documents;
+using Azure.Search.Documents.Models;
+using Microsoft.Extensions.Logging;
+using VehicleSearch.Core.Interfaces;
+using VehicleSearch.Core.Models;
+using VehicleSearch.Infrastructure.AI;
+
+namespace VehicleSearch.Infrastructure.Search;
+
+/// <summary>
+/// Service for faceted navigation using Azure AI Search facets.
+/// </summary>
+public class FacetService : IFacetService
+{
+    /// <summary>
+    /// Fields whose distinct values are counted. Models are counted within the
+    /// query's make constraints, so they follow the selected makes.
+    /// </summary>
+    public static readonly IReadOnlyList<string> FacetFields = new[]
+    {
+        "make", "model", "bodyType", "colour", "fuelType", "transmissionType", "saleLocation", "grade"
+    };
+
+    // Numeric fields and the names their ranges are reported under
+    private static readonly IReadOnlyDictionary<string, string> RangeFields = new Dictionary<string, string>
+    {
+        ["price"] = "price",
+        ["mileage"] = "mileage",
+        ["registrationDate"] = "year"
+    };
+
+    private const int MaxFacetValues = 100;
+
+    private readonly AzureSearchClient _searchClient;
+    private readonly ODataTranslator _odataTranslator;
+    private readonly ILogger<FacetService> _logger;
+
+    /// <summary>
+    /// Initializes a new instance of the <see cref="FacetService"/> class.
+    /// </summary>
+    public FacetService(
+        AzureSearchClient searchClient,
+        ODataTranslator odataTranslator,
+        ILogger<FacetService> logger)
+    {
+        _searchClient = searchClient ?? throw new ArgumentNullException(nameof(searchClient));
+        _odataTranslator = odataTranslator ?? throw new ArgumentNullException(nameof(odataTranslator));
+        _logger = logger ?? throw new ArgumentNullException(nameof(logger));
+    }
+
+    /// <inheritdoc/>
+    public async Task<FacetResults> GetFacetsAsync(ComposedQuery? query, CancellationToken cancellationToken = default)
+    {
+        try
+        {
+            // Fields whose filters come out the same are counted in one request
+            var facetTasks = FacetFields
+                .GroupBy(field => BuildFilter(query, field))
+                .Select(group => CountFacetsAsync(group.Key, group.ToList(), cancellationToken))
+                .ToList();
+            var rangeTasks = RangeFields
+                .Select(field => GetRangeAsync(BuildFilter(query, field.Key), field.Key, cancellationToken))
+                .ToList();
+            var totalTask = CountAsync(BuildFilter(query, excludedField: null), cancellationToken);
+
+            await Task.WhenAll(facetTasks.Cast<Task>().Concat(rangeTasks).Append(totalTask));
+
+            var results = new FacetResults { TotalCount = totalTask.Result };
+            foreach (var facets in facetTasks.Select(task => task.Result))
+            {
+                foreach (var (field, values) in facets)
+                {
+                    results.Facets[field] = values;
+                }
+            }
+            foreach (var (field, range) in RangeFields.Zip(rangeTasks, (field, task) => (field.Value, task.Result)))
+            {
+                if (range != null)
+                {
+                    results.Ranges[field] = range;
+                }
+            }
+
+            _logger.LogInformation("Computed {FacetCount} facets over {TotalCount} vehicles",
+                results.Facets.Count, results.TotalCount);
+
+            return results;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Failed to compute facets");
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Builds the OData filter for a composed query without its constraints on
+    /// <paramref name="excludedField"/>, or with all of them when it is null.
+    /// Returns null when nothing is left to filter on.
+    /// </summary>
+    public string? BuildFilter(ComposedQuery? query, string? excludedField)
+    {
+        if (query == null || query.ConstraintGroups.All(group => group.Constraints.Count == 0))
+        {
+            return null;
+        }
+
+        if (excludedField == null && !string.IsNullOrWhiteSpace(query.ODataFilter))
+        {
+            return query.ODataFilter;
+        }
+
+        var remaining = new ComposedQuery
+        {
+            Type = query.Type,
+            GroupOperator = query.GroupOperator,
+            ConstraintGroups = query.ConstraintGroups
+                .Select(group => new ConstraintGroup
+                {
+                    Constraints = group.Constraints
+                        .Where(constraint => !string.Equals(constraint.FieldName, excludedField, StringComparison.OrdinalIgnoreCase))
+                        .ToList(),
+                    Operator = group.Operator,
+                    Priority = group.Priority
+                })
+                .Where(group => group.Constraints.Count > 0)
+                .ToList()
+        };
+
+        if (remaining.ConstraintGroups.Count == 0)
+        {
+            return null;
+        }
+
+        var filter = _odataTranslator.ToODataFilter(remaining);
+        return string.IsNullOrWhiteSpace(filter) ? null : filter;
+    }
+
+    private async Task<Dictionary<string, List<FacetValue>>> CountFacetsAsync(
+        string? filter,
+        IReadOnlyList<string> fields,
+        CancellationToken cancellationToken)
+    {
+        var searchOptions = new SearchOptions
+        {
+            Filter = filter,
+            Size = 0
+        };
+        foreach (var field in fields)
+        {
+            searchOptions.Facets.Add($"{field},count:{MaxFacetValues}");
+        }
+
+        var response = await _searchClient.Client.SearchAsync<VehicleSearchDocument>(
+            "*",
+            searchOptions,
+            cancellationToken);
+
+        return fields.ToDictionary(
+            field => field,
+            field => response.Value.Facets.TryGetValue(field, out var facetResults)
+                ? facetResults
+                    .Where(facet => !string.IsNullOrWhiteSpace(facet.Value?.ToString()))
+                    .Select(facet => new FacetValue { Value = facet.Value.ToString()!, Count = facet.Count ?? 0 })
+                    .ToList()
+                : new List<FacetValue>());
+    }
+
+    private async Task<NumericRange?> GetRangeAsync(string? filter, string field, CancellationToken cancellationToken)
+    {
+        // Vehicles without a value would sort first and make the minimum meaningless;
+        // a missing registration date is indexed as DateTimeOffset.MinValue
+        var hasValue = field == "registrationDate"
+            ? "registrationDate gt 1900-01-01T00:00:00Z"
+            : $"{field} ne null";
+        var withValue = filter == null ? hasValue : $"({filter}) and {hasValue}";
+
+        var min = await GetBoundAsync(withValue, field, "asc", cancellationToken);
+        var max = await GetBoundAsync(withValue, field, "desc", cancellationToken);
+
+        return min.HasValue && max.HasValue
+            ? new NumericRange { Min = min.Value, Max = max.Value }
+            : null;
+    }
+
+    private async Task<double?> GetBoundAsync(
+        string filter,
+        string field,
+        string direction,
+        CancellationToken cancellationToken)
+    {
+        var searchOptions = new SearchOptions
+        {
+            Filter = filter,
+            Size = 1,
+            OrderBy = { $"{field} {direction}" },
+            Select = { field }
+        };
+
+        var response = await _searchClient.Client.SearchAsync<VehicleSearchDocument>(
+            "*",
+            searchOptions,
+            cancellationToken);
+
+        await foreach (var result in response.Value.GetResultsAsync())
+        {
+            return field switch
+            {
+                "price" => result.Document.Price,
+                "mileage" => result.Document.Mileage,
+                "registrationDate" => result.Document.RegistrationDate.Year,
+                _ => null
+            };
+        }
+
+        return null;
+    }
+
+    private async Task<int> CountAsync(string? filter, CancellationToken cancellationToken)
+    {
+        var searchOptions = new SearchOptions
+        {
+            Filter = filter,
+            Size = 0,
+            IncludeTotalCount = true
+        };
+
+        var response = await _searchClient.Client.SearchAsync<VehicleSearchDocument>(
+            "*",
+            searchOptions,
+            cancellationToken);
+
+        return (int)(response.Value.TotalCount ?? 0);
+    }
+}
@@ -34,12 +34,14 @@ public class HybridSearchExecutor
     }
 
     /// <summary>
-    /// Executes a hybrid search combining exact and semantic approaches.
+    /// Executes a hybrid search combining exact and semantic approaches, skipping the
+    /// first <paramref name="offset"/> matches.
     /// </summary>
     public async Task<SearchResults> ExecuteAsync(
         ComposedQuery query,
         SearchStrategy strategy,
         int maxResults,
+        int offset = 0,
         CancellationToken cancellationToken = default)
     {
         var stopwatch = Stopwatch.StartNew();
@@ -87,19 +89,21 @@ public class HybridSearchExecutor
             // Build vector search options
             var vectorQuery = new VectorizedQuery(embedding)
             {
-                KNearestNeighborsCount = maxResults * 3,
+                KNearestNeighborsCount = (offset + maxResults) * 3,
                 Fields = { "descriptionVector" }
             };
 
             var searchOptions = new SearchOptions
             {
                 Size = maxResults * 3,
+                Skip = offset,
+                IncludeTotalCount = true,
                 Select =
                 {
                     "id", "make", "model", "derivative", "price", "mileage",
                     "bodyType", "engineSize", "fuelType", "transmissionType",
                     "colour", "numberOfDoors", "registrationDate", "saleLocation",
-                    "channel", "features", "description"
+                    "channel", "features", "description", "motExpiryDate", "processedDate"
                 }
             };
 
@@ -178,7 +182,11 @@ public class HybridSearchExecutor
             return new SearchResults
             {
                 Results = results,
-                TotalCount = results.Count,
+                // Scores only fall below the minimum at the tail of the ranking, so a short page
+                // means nothing further matches; otherwise the index's count is the best estimate
+                TotalCount = results.Count < maxResults
+                    ? offset + results.Count
+                    : (int)Math.Max(response.Value.TotalCount ?? 0, offset + results.Count),
                 Strategy = strategy,
                 SearchDuration = stopwatch.Elapsed,
                 Metadata = new Dictionary<string, object>
@@ -225,10 +233,12 @@ public class HybridSearchExecutor
             RegistrationDate = document.RegistrationDate != DateTimeOffset.MinValue
                 ? document.RegistrationDate.DateTime
                 : null,
+            MotExpiryDate = document.MotExpiryDate?.DateTime,
             SaleLocation = document.SaleLocation,
             Channel = document.Channel,
             Features = document.Features.ToList(),
-            Description = document.Description
+            Description = document.Description,
+            ProcessedDate = document.ProcessedDate.DateTime
         };
     }
 }
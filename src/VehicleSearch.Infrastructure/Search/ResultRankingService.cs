@@ -141,6 +141,11 @@ public class ResultRankingService : IResultRankingService
             if (strategy.FactorWeights.Any())
             {
                 var totalWeight = strategy.FactorWeights.Values.Sum();
+                if (strategy.FactorWeights.Values.Any(weight => weight < 0) || totalWeight <= 0)
+                {
+                    throw new ArgumentException("Factor weights must not be negative and must not all be zero", nameof(strategy));
+                }
+
                 if (Math.Abs(totalWeight - 1.0) > 0.001)
                 {
                     _logger.LogWarning(
@@ -258,6 +263,15 @@ public class ResultRankingService : IResultRankingService
             maxPrice = prices.Max();
         }
 
+        int? minMileage = null;
+        int? maxMileage = null;
+        if (factorWeights.ContainsKey(RankingFactor.Mileage) && results.Any())
+        {
+            var mileages = results.Select(r => r.Vehicle.Mileage).ToList();
+            minMileage = mileages.Min();
+            maxMileage = mileages.Max();
+        }
+
         foreach (var result in results)
         {
             var scores = new Dictionary<RankingFactor, double>();
@@ -272,6 +286,8 @@ public class ResultRankingService : IResultRankingService
                     RankingFactor.PriceCompetitiveness => ComputePriceScore(result.Vehicle.Price, minPrice, maxPrice),
                     RankingFactor.VehicleCondition => ComputeConditionScore(result.Vehicle),
                     RankingFactor.Recency => ComputeRecencyScore(result.Vehicle),
+                    RankingFactor.Mileage => ComputeMileageScore(result.Vehicle.Mileage, minMileage, maxMileage),
+                    RankingFactor.ServiceHistory => result.Vehicle.ServiceHistoryPresent ? 1.0 : 0.0,
                     _ => 0.5 // Default neutral score
                 };
             }
@@ -461,6 +477,24 @@ public class ResultRankingService : IResultRankingService
         return 1.0 - (double)((price - minPrice.Value) / (maxPrice.Value - minPrice.Value));
     }
 
+    /// <summary>
+    /// Computes mileage score relative to the other results.
+    /// </summary>
+    /// <param name="mileage">Vehicle mileage.</param>
+    /// <param name="minMileage">Minimum mileage in result set.</param>
+    /// <param name="maxMileage">Maximum mileage in result set.</param>
+    /// <returns>Mileage score (0-1).</returns>
+    private double ComputeMileageScore(int mileage, int? minMileage, int? maxMileage)
+    {
+        if (!minMileage.HasValue || !maxMileage.HasValue || maxMileage == minMileage)
+        {
+            return 0.5; // Neutral if no comparison available
+        }
+
+        // Lower mileage = higher score (inverted normalization)
+        return 1.0 - (double)(mileage - minMileage.Value) / (maxMileage.Value - minMileage.Value);
+    }
+
     /// <summary>
     /// Computes vehicle condition score based on multiple factors.
     /// 
@@ -191,7 +191,7 @@ public class SearchIndexService : ISearchIndexService
             // Identity & Text Fields
             new SearchField("id", SearchFieldDataType.String) { IsKey = true, IsSearchable = false },
             new SearchField("make", SearchFieldDataType.String) { IsSearchable = true, IsFilterable = true, IsFacetable = true },
-            new SearchField("model", SearchFieldDataType.String) { IsSearchable = true, IsFilterable = true },
+            new SearchField("model", SearchFieldDataType.String) { IsSearchable = true, IsFilterable = true, IsFacetable = true },
             new SearchField("derivative", SearchFieldDataType.String) { IsSearchable = true, IsFilterable = false },
             new SearchField("bodyType", SearchFieldDataType.String) { IsFilterable = true, IsFacetable = true },
             new SearchField("colour", SearchFieldDataType.String) { IsFilterable = true, IsFacetable = true },
@@ -204,12 +204,16 @@ public class SearchIndexService : ISearchIndexService
 
             // Date Fields
             new SearchField("registrationDate", SearchFieldDataType.DateTimeOffset) { IsFilterable = true, IsSortable = true },
+            // Azure AI Search won't change an existing field's attributes, so motExpiryDate stays
+            // unsortable on deployed indexes; fields can only be added (processedDate, sortable)
             new SearchField("motExpiryDate", SearchFieldDataType.DateTimeOffset) { IsFilterable = true },
+            new SearchField("processedDate", SearchFieldDataType.DateTimeOffset) { IsFilterable = true, IsSortable = true },
 
             // Categorical Fields
             new SearchField("fuelType", SearchFieldDataType.String) { IsFilterable = true, IsFacetable = true },
             new SearchField("transmissionType", SearchFieldDataType.String) { IsFilterable = true, IsFacetable = true },
             new SearchField("saleLocation", SearchFieldDataType.String) { IsFilterable = true, IsFacetable = true },
+            new SearchField("grade", SearchFieldDataType.String) { IsFilterable = true, IsFacetable = true },
 
             // Array Fields
             new SearchField("features", SearchFieldDataType.Collection(SearchFieldDataType.String)) { IsSearchable = true, IsFilterable = true },
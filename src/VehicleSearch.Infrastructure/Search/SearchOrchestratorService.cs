@@ -1,4 +1,5 @@
 using System.Diagnostics;
+using System.Runtime.CompilerServices;
 using Microsoft.Extensions.Logging;
 using VehicleSearch.Core.Interfaces;
 using VehicleSearch.Core.Models;
@@ -44,30 +45,82 @@ public class SearchOrchestratorService : ISearchOrchestratorService
                 throw new ArgumentNullException(nameof(query));
             }
 
-            // Extract constraint types
-            var exactConstraints = query.ConstraintGroups
-                .SelectMany(g => g.Constraints)
-                .Where(c => c.Type == ConstraintType.Exact || c.Type == ConstraintType.Range)
-                .ToList();
-
-            var semanticConstraints = query.ConstraintGroups
-                .SelectMany(g => g.Constraints)
-                .Where(c => c.Type == ConstraintType.Semantic)
-                .ToList();
+            var exactCount = CountExactConstraints(query);
+            var semanticCount = CountSemanticConstraints(query);
 
             _logger.LogInformation(
                 "Determining strategy: {ExactCount} exact, {SemanticCount} semantic constraints",
-                exactConstraints.Count,
-                semanticConstraints.Count);
-
-            SearchStrategy strategy;
+                exactCount,
+                semanticCount);
 
             // Decision tree based on constraint types
-            if (semanticConstraints.Count == 0 && exactConstraints.Count > 0)
+            var type = (exactCount, semanticCount) switch
             {
-                // Pure filtering - ExactOnly strategy
-                _logger.LogInformation("Selected ExactOnly strategy (pure filtering)");
-                strategy = new SearchStrategy
+                // Pure filtering
+                (> 0, 0) => StrategyType.ExactOnly,
+                // Combine exact and semantic
+                (> 0, > 0) => StrategyType.Hybrid,
+                // Pure vector search, and the fallback when there are no constraints
+                _ => StrategyType.SemanticOnly
+            };
+
+            var strategy = BuildStrategy(type, exactCount);
+
+            _logger.LogInformation(
+                "Selected {StrategyType} strategy ({Weights})",
+                strategy.Type,
+                string.Join(", ", strategy.Weights.Select(w => $"{w.Key}: {w.Value:F2}")));
+
+            stopwatch.Stop();
+            _logger.LogDebug("Strategy determined in {Duration}ms", stopwatch.ElapsedMilliseconds);
+
+            return Task.FromResult(strategy);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error determining search strategy");
+            throw;
+        }
+    }
+
+    /// <inheritdoc/>
+    public SearchStrategy CreateStrategy(StrategyType type, ComposedQuery query)
+    {
+        if (query == null)
+        {
+            throw new ArgumentNullException(nameof(query));
+        }
+
+        if (type == StrategyType.MultiStage)
+        {
+            throw new ArgumentException($"Strategy type {type} is not supported.", nameof(type));
+        }
+
+        _logger.LogInformation("Using requested {StrategyType} strategy", type);
+
+        return BuildStrategy(type, CountExactConstraints(query));
+    }
+
+    private static int CountExactConstraints(ComposedQuery query) =>
+        query.ConstraintGroups
+            .SelectMany(g => g.Constraints)
+            .Count(c => c.Type == ConstraintType.Exact || c.Type == ConstraintType.Range);
+
+    private static int CountSemanticConstraints(ComposedQuery query) =>
+        query.ConstraintGroups
+            .SelectMany(g => g.Constraints)
+            .Count(c => c.Type == ConstraintType.Semantic);
+
+    /// <summary>
+    /// Builds a strategy of the given type. A hybrid strategy weights exact matching by the
+    /// number of exact constraints, 15% each up to 70%, and reranks the fused results.
+    /// </summary>
+    private static SearchStrategy BuildStrategy(StrategyType type, int exactConstraintCount)
+    {
+        switch (type)
+        {
+            case StrategyType.ExactOnly:
+                return new SearchStrategy
                 {
                     Type = StrategyType.ExactOnly,
                     Approaches = new List<SearchApproach> { SearchApproach.ExactMatch },
@@ -77,36 +130,12 @@ public class SearchOrchestratorService : ISearchOrchestratorService
                     },
                     ShouldRerank = false
                 };
-            }
-            else if (exactConstraints.Count == 0 && semanticConstraints.Count > 0)
-            {
-                // Pure semantic search - SemanticOnly strategy
-                _logger.LogInformation("Selected SemanticOnly strategy (pure vector search)");
-                strategy = new SearchStrategy
-                {
-                    Type = StrategyType.SemanticOnly,
-                    Approaches = new List<SearchApproach> { SearchApproach.SemanticSearch },
-                    Weights = new Dictionary<SearchApproach, double>
-                    {
-                        [SearchApproach.SemanticSearch] = 1.0
-                    },
-                    ShouldRerank = false
-                };
-            }
-            else if (exactConstraints.Count > 0 && semanticConstraints.Count > 0)
-            {
-                // Hybrid approach - combine exact and semantic
-                // Calculate weights based on constraint counts
-                // More exact constraints = higher exact weight (up to 70%)
-                var exactWeight = Math.Min(0.7, exactConstraints.Count * 0.15);
-                var semanticWeight = 1.0 - exactWeight;
 
-                _logger.LogInformation(
-                    "Selected Hybrid strategy (exact weight: {ExactWeight:F2}, semantic weight: {SemanticWeight:F2})",
-                    exactWeight,
-                    semanticWeight);
+            case StrategyType.Hybrid:
+                var exactWeight = Math.Min(0.7, exactConstraintCount * 0.15);
+                var semanticWeight = 1.0 - exactWeight;
 
-                strategy = new SearchStrategy
+                return new SearchStrategy
                 {
                     Type = StrategyType.Hybrid,
                     Approaches = new List<SearchApproach>
@@ -121,12 +150,9 @@ public class SearchOrchestratorService : ISearchOrchestratorService
                     },
                     ShouldRerank = true
                 };
-            }
-            else
-            {
-                // Fallback: semantic search
-                _logger.LogInformation("Selected SemanticOnly strategy (fallback - no constraints)");
-                strategy = new SearchStrategy
+
+            default:
+                return new SearchStrategy
                 {
                     Type = StrategyType.SemanticOnly,
                     Approaches = new List<SearchApproach> { SearchApproach.SemanticSearch },
@@ -136,17 +162,6 @@ public class SearchOrchestratorService : ISearchOrchestratorService
                     },
                     ShouldRerank = false
                 };
-            }
-
-            stopwatch.Stop();
-            _logger.LogDebug("Strategy determined in {Duration}ms", stopwatch.ElapsedMilliseconds);
-
-            return Task.FromResult(strategy);
-        }
-        catch (Exception ex)
-        {
-            _logger.LogError(ex, "Error determining search strategy");
-            throw;
         }
     }
 
@@ -155,6 +170,7 @@ public class SearchOrchestratorService : ISearchOrchestratorService
         ComposedQuery query,
         SearchStrategy strategy,
         int maxResults = 10,
+        int offset = 0,
         CancellationToken cancellationToken = default)
     {
         if (query == null)
@@ -172,18 +188,24 @@ public class SearchOrchestratorService : ISearchOrchestratorService
             throw new ArgumentException("MaxResults must be between 1 and 100.", nameof(maxResults));
         }
 
+        if (offset < 0)
+        {
+            throw new ArgumentException("Offset cannot be negative.", nameof(offset));
+        }
+
         _logger.LogInformation(
-            "Executing search with {StrategyType} strategy, max results: {MaxResults}",
+            "Executing search with {StrategyType} strategy, max results: {MaxResults}, offset: {Offset}",
             strategy.Type,
-            maxResults);
+            maxResults,
+            offset);
 
         try
         {
             return strategy.Type switch
             {
-                StrategyType.ExactOnly => await _exactExecutor.ExecuteAsync(query, maxResults, cancellationToken),
-                StrategyType.SemanticOnly => await _semanticExecutor.ExecuteAsync(query, maxResults, cancellationToken),
-                StrategyType.Hybrid => await _hybridExecutor.ExecuteAsync(query, strategy, maxResults, cancellationToken),
+                StrategyType.ExactOnly => await _exactExecutor.ExecuteAsync(query, maxResults, offset, cancellationToken),
+                StrategyType.SemanticOnly => await _semanticExecutor.ExecuteAsync(query, maxResults, offset, cancellationToken),
+                StrategyType.Hybrid => await _hybridExecutor.ExecuteAsync(query, strategy, maxResults, offset, cancellationToken),
                 _ => throw new NotSupportedException($"Strategy type {strategy.Type} is not supported")
             };
         }
@@ -194,6 +216,54 @@ public class SearchOrchestratorService : ISearchOrchestratorService
         }
     }
 
+    /// <inheritdoc/>
+    public async IAsyncEnumerable<SearchProgress> StreamSearchAsync(
+        ComposedQuery query,
+        SearchStrategy strategy,
+        int maxResults = 10,
+        [EnumeratorCancellation] CancellationToken cancellationToken = default)
+    {
+        if (query == null)
+        {
+            throw new ArgumentNullException(nameof(query));
+        }
+
+        if (strategy == null)
+        {
+            throw new ArgumentNullException(nameof(strategy));
+        }
+
+        if (maxResults <= 0 || maxResults > 100)
+        {
+            throw new ArgumentException("MaxResults must be between 1 and 100.", nameof(maxResults));
+        }
+
+        // A hybrid search fuses both approaches in a single request, so run each on its own
+        // first to give the caller results to show while the fused ranking is computed
+        if (strategy.Type == StrategyType.Hybrid)
+        {
+            _logger.LogInformation("Streaming hybrid search, max results: {MaxResults}", maxResults);
+
+            yield return new SearchProgress
+            {
+                Stage = SearchStage.Exact,
+                Results = await _exactExecutor.ExecuteAsync(query, maxResults, cancellationToken: cancellationToken)
+            };
+
+            yield return new SearchProgress
+            {
+                Stage = SearchStage.Semantic,
+                Results = await _semanticExecutor.ExecuteAsync(query, maxResults, cancellationToken: cancellationToken)
+            };
+        }
+
+        yield return new SearchProgress
+        {
+            Stage = SearchStage.Reranked,
+            Results = await ExecuteSearchAsync(query, strategy, maxResults, cancellationToken: cancellationToken)
+        };
+    }
+
     /// <inheritdoc/>
     public async Task<SearchResults> ExecuteHybridSearchAsync(
         ComposedQuery query,
@@ -212,6 +282,6 @@ public class SearchOrchestratorService : ISearchOrchestratorService
 
         // If the determined strategy is hybrid, execute it
         // Otherwise, execute with the determined strategy
-        return await ExecuteSearchAsync(query, strategy, maxResults, cancellationToken);
+        return await ExecuteSearchAsync(query, strategy, maxResults, cancellationToken: cancellationToken);
     }
 }
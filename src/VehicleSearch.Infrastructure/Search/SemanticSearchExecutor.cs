@@ -34,11 +34,13 @@ public class SemanticSearchExecutor
     }
 
     /// <summary>
-    /// Executes a semantic search using vector embeddings.
+    /// Executes a semantic search using vector embeddings, skipping the first
+    /// <paramref name="offset"/> matches.
     /// </summary>
     public async Task<SearchResults> ExecuteAsync(
         ComposedQuery query,
         int maxResults,
+        int offset = 0,
         CancellationToken cancellationToken = default)
     {
         var stopwatch = Stopwatch.StartNew();
@@ -84,19 +86,21 @@ public class SemanticSearchExecutor
             // Build vector search options
             var vectorQuery = new VectorizedQuery(embedding)
             {
-                KNearestNeighborsCount = maxResults * 3, // Overquery for filtering
+                KNearestNeighborsCount = (offset + maxResults) * 3, // Overquery for filtering
                 Fields = { "descriptionVector" }
             };
 
             var searchOptions = new SearchOptions
             {
                 Size = maxResults * 3,
+                Skip = offset,
+                IncludeTotalCount = true,
                 Select =
                 {
                     "id", "make", "model", "derivative", "price", "mileage",
                     "bodyType", "engineSize", "fuelType", "transmissionType",
                     "colour", "numberOfDoors", "registrationDate", "saleLocation",
-                    "channel", "features", "description"
+                    "channel", "features", "description", "motExpiryDate", "processedDate"
                 }
             };
 
@@ -168,7 +172,11 @@ public class SemanticSearchExecutor
             return new SearchResults
             {
                 Results = results,
-                TotalCount = results.Count,
+                // Scores only fall below the minimum at the tail of the ranking, so a short page
+                // means nothing further matches; otherwise the index's count is the best estimate
+                TotalCount = results.Count < maxResults
+                    ? offset + results.Count
+                    : (int)Math.Max(response.Value.TotalCount ?? 0, offset + results.Count),
                 Strategy = new SearchStrategy
                 {
                     Type = StrategyType.SemanticOnly,
@@ -222,10 +230,12 @@ public class SemanticSearchExecutor
             RegistrationDate = document.RegistrationDate != DateTimeOffset.MinValue
                 ? document.RegistrationDate.DateTime
                 : null,
+            MotExpiryDate = document.MotExpiryDate?.DateTime,
             SaleLocation = document.SaleLocation,
             Channel = document.Channel,
             Features = document.Features.ToList(),
-            Description = document.Description
+            Description = document.Description,
+            ProcessedDate = document.ProcessedDate.DateTime
         };
     }
 }
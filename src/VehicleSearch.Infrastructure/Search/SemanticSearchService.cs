@@ -133,7 +133,7 @@ public class SemanticSearchService : ISemanticSearchService
                 Select = { "id", "make", "model", "derivative", "price", "mileage", 
                           "bodyType", "engineSize", "fuelType", "transmissionType", 
                           "colour", "numberOfDoors", "registrationDate", "saleLocation",
-                          "channel", "features", "description" }
+                          "channel", "features", "description", "motExpiryDate", "processedDate" }
             };
 
             searchOptions.VectorSearch = new VectorSearchOptions
@@ -309,10 +309,12 @@ public class SemanticSearchService : ISemanticSearchService
             RegistrationDate = document.RegistrationDate != DateTimeOffset.MinValue 
                 ? document.RegistrationDate.DateTime 
                 : null,
+            MotExpiryDate = document.MotExpiryDate?.DateTime,
             SaleLocation = document.SaleLocation,
             Channel = document.Channel,
             Features = document.Features.ToList(),
-            Description = document.Description
+            Description = document.Description,
+            ProcessedDate = document.ProcessedDate.DateTime
         };
     }
 }
@@ -264,7 +264,11 @@ public class VehicleIndexingService : IVehicleIndexingService
             RegistrationDate = vehicle.RegistrationDate.HasValue
                 ? new DateTimeOffset(vehicle.RegistrationDate.Value)
                 : DateTimeOffset.MinValue,
+            MotExpiryDate = vehicle.MotExpiryDate.HasValue
+                ? new DateTimeOffset(vehicle.MotExpiryDate.Value)
+                : null,
             SaleLocation = vehicle.SaleLocation,
+            Grade = vehicle.Grade,
             Channel = vehicle.Channel,
             Features = vehicle.Features.ToArray(),
             Description = vehicle.Description,
@@ -158,6 +158,7 @@ public class VehicleRetrievalService : IVehicleRetrievalService
                 ? doc.RegistrationDate.DateTime
                 : null,
             SaleLocation = doc.SaleLocation,
+            Grade = doc.Grade,
             Channel = doc.Channel,
             Features = doc.Features.ToList(),
             Description = doc.Description,
@@ -3,6 +3,7 @@ using System.Net.Http.Json;
 using FluentAssertions;
 using Microsoft.AspNetCore.Mvc.Testing;
 using VehicleSearch.Api.Endpoints;
+using VehicleSearch.Core.Models;
 
 namespace VehicleSearch.Api.Tests.Integration;
 
@@ -136,4 +137,137 @@ public class SearchEndpointsTests : IClassFixture<WebApplicationFactory<Program>
         // Note: May fail if Azure is not configured, but endpoint should accept the request structure
         response.StatusCode.Should().BeOneOf(HttpStatusCode.OK, HttpStatusCode.InternalServerError);
     }
+
+    [Fact]
+    public async Task StreamSearch_WithInvalidMaxResults_ReturnsBadRequestBeforeStreaming()
+    {
+        // Arrange
+        var request = new SearchEndpoints.OrchestratedSearchRequest
+        {
+            ComposedQuery = new ComposedQuery(),
+            MaxResults = 0
+        };
+
+        // Act
+        var response = await _client.PostAsJsonAsync("/api/v1/search/stream", request);
+
+        // Assert
+        // Validation failures are plain JSON errors so clients can tell them apart from a stream
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+        response.Content.Headers.ContentType?.MediaType.Should().NotBe("text/event-stream");
+
+        var error = await response.Content.ReadAsStringAsync();
+        error.Should().Contain("MaxResults must be between 1 and 100");
+    }
+
+    [Fact]
+    public async Task StreamSearch_WithValidQuery_RespondsWithEventStream()
+    {
+        // Arrange
+        var request = new SearchEndpoints.OrchestratedSearchRequest
+        {
+            ComposedQuery = new ComposedQuery(),
+            MaxResults = 5
+        };
+
+        // Act
+        var response = await _client.PostAsJsonAsync("/api/v1/search/stream", request);
+
+        // Assert
+        // Search failures (e.g. Azure not configured) arrive as an "error" event on the stream
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+        response.Content.Headers.ContentType?.MediaType.Should().Be("text/event-stream");
+
+        var body = await response.Content.ReadAsStringAsync();
+        body.Should().MatchRegex("event: (reranked|error)");
+    }
+
+    [Fact]
+    public async Task OrchestrationSearch_WithNegativeOffset_ReturnsBadRequest()
+    {
+        // Arrange
+        var request = new SearchEndpoints.OrchestratedSearchRequest
+        {
+            ComposedQuery = new ComposedQuery(),
+            MaxResults = 10,
+            Offset = -10
+        };
+
+        // Act
+        var response = await _client.PostAsJsonAsync("/api/v1/search", request);
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+
+        var error = await response.Content.ReadAsStringAsync();
+        error.Should().Contain("Offset cannot be negative");
+    }
+
+    [Fact]
+    public async Task OrchestrationSearch_WithUnknownStrategy_ReturnsBadRequest()
+    {
+        // Arrange
+        var request = new SearchEndpoints.OrchestratedSearchRequest
+        {
+            ComposedQuery = new ComposedQuery(),
+            MaxResults = 10,
+            Strategy = "MultiStage"
+        };
+
+        // Act
+        var response = await _client.PostAsJsonAsync("/api/v1/search", request);
+
+        // Assert
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+
+        var error = await response.Content.ReadAsStringAsync();
+        error.Should().Contain("Strategy must be ExactOnly, SemanticOnly or Hybrid");
+    }
+
+    [Fact]
+    public async Task Explain_WithParsedQuery_PassesSafetyMiddleware()
+    {
+        // Arrange
+        var request = new SearchEndpoints.ExplainRequest
+        {
+            VehicleId = "",
+            Query = new ParsedQuery { OriginalQuery = "reliable family car" }
+        };
+
+        // Act
+        var response = await _client.PostAsJsonAsync("/api/v1/search/explain", request);
+
+        // Assert
+        // The query is an object, not text, so the guardrails leave it to the endpoint's own validation
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+
+        var error = await response.Content.ReadAsStringAsync();
+        error.Should().Contain("VehicleId is required");
+    }
+
+    [Fact]
+    public async Task Rerank_WithComposedQuery_PassesSafetyMiddleware()
+    {
+        // Arrange
+        var request = new SearchEndpoints.RerankRequest
+        {
+            Results = new List<SearchEndpoints.RerankVehicleResult>(),
+            Query = new ComposedQuery(),
+            Strategy = new SearchEndpoints.RerankStrategyRequest
+            {
+                Approach = "WeightedScore",
+                FactorWeights = new Dictionary<string, double> { ["PriceCompetitiveness"] = 1.0 }
+            }
+        };
+
+        // Act
+        var response = await _client.PostAsJsonAsync("/api/v1/search/rerank", request);
+
+        // Assert
+        // The query is an object, not text, so the guardrails leave it to the endpoint's own validation
+        response.StatusCode.Should().Be(HttpStatusCode.BadRequest);
+
+        var error = await response.Content.ReadAsStringAsync();
+        error.Should().Contain("Results list cannot be empty");
+    }
 }
@@ -66,6 +66,28 @@ public class SafetyGuardrailMiddlewareTests
         _safetyServiceMock.Verify(s => s.ValidateQueryAsync(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<CancellationToken>()), Times.Never);
     }
 
+    [Fact]
+    public async Task InvokeAsync_WithReferenceResolution_SkipsValidation()
+    {
+        // Arrange
+        var context = new DefaultHttpContext();
+        context.Request.Path = "/api/v1/query/resolve";
+        context.Request.Method = "POST";
+        context.Request.ContentType = "application/json";
+        context.Request.Headers["X-Session-Id"] = "test-session";
+
+        var requestBody = JsonSerializer.Serialize(new { query = "something cheaper than that", sessionId = "test-session" });
+        var bytes = Encoding.UTF8.GetBytes(requestBody);
+        context.Request.Body = new MemoryStream(bytes);
+
+        // Act
+        await _middleware.InvokeAsync(context, _safetyServiceMock.Object, _abuseMonitoringServiceMock.Object);
+
+        // Assert
+        _nextMock.Verify(n => n(context), Times.Once);
+        _safetyServiceMock.Verify(s => s.ValidateQueryAsync(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<CancellationToken>()), Times.Never);
+    }
+
     [Fact]
     public async Task InvokeAsync_WithSearchEndpointAndValidQuery_CallsNext()
     {
@@ -191,7 +213,29 @@ public class SafetyGuardrailMiddlewareTests
     }
 
     [Fact]
-    public async Task InvokeAsync_WithRateLimitViolation_ReturnsBadRequestWithRetryInfo()
+    public async Task InvokeAsync_WithStructuredQueryInRequestBody_SkipsValidation()
+    {
+        // Arrange
+        var context = new DefaultHttpContext();
+        context.Request.Path = "/api/v1/search/explain";
+        context.Request.Method = "POST";
+        context.Request.ContentType = "application/json";
+
+        var requestBody = JsonSerializer.Serialize(new { vehicleId = "V1", query = new { originalQuery = "red car" } });
+        var bytes = Encoding.UTF8.GetBytes(requestBody);
+        context.Request.Body = new MemoryStream(bytes);
+        context.Response.Body = new MemoryStream();
+
+        // Act
+        await _middleware.InvokeAsync(context, _safetyServiceMock.Object, _abuseMonitoringServiceMock.Object);
+
+        // Assert
+        _nextMock.Verify(n => n(context), Times.Once);
+        _safetyServiceMock.Verify(s => s.ValidateQueryAsync(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<CancellationToken>()), Times.Never);
+    }
+
+    [Fact]
+    public async Task InvokeAsync_WithRateLimitViolation_ReturnsTooManyRequestsWithRetryInfo()
     {
         // Arrange
         var context = new DefaultHttpContext();
@@ -207,14 +251,18 @@ public class SafetyGuardrailMiddlewareTests
             {
                 IsValid = false,
                 ViolationType = SafetyViolationType.RateLimitExceeded,
-                Message = "Rate limit exceeded. Please try again in 60 seconds."
+                Message = "Rate limit exceeded. Please try again in 60 seconds.",
+                RetryAfter = TimeSpan.FromSeconds(60),
+                RemainingRequests = 0
             });
 
         // Act
         await _middleware.InvokeAsync(context, _safetyServiceMock.Object, _abuseMonitoringServiceMock.Object);
 
         // Assert
-        context.Response.StatusCode.Should().Be((int)HttpStatusCode.BadRequest);
+        context.Response.StatusCode.Should().Be((int)HttpStatusCode.TooManyRequests);
+        context.Response.Headers.RetryAfter.ToString().Should().Be("60");
+        context.Response.Headers["X-RateLimit-Remaining"].ToString().Should().Be("0");
         
         context.Response.Body.Seek(0, SeekOrigin.Begin);
         using var reader = new StreamReader(context.Response.Body);
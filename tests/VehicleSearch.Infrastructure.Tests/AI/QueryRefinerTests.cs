@@ -0,0 +1,144 @@
+using System.Text.Json;
+using FluentAssertions;
+using VehicleSearch.Core.Models;
+using VehicleSearch.Infrastructure.AI;
+
+namespace VehicleSearch.Infrastructure.Tests.AI;
+
+public class QueryRefinerTests
+{
+    private static SearchConstraint Constraint(string fieldName, ConstraintOperator op, object value) => new()
+    {
+        FieldName = fieldName,
+        Operator = op,
+        Value = value,
+        Type = ConstraintType.Exact
+    };
+
+    #region CompareConstraints Tests
+
+    [Fact]
+    public void CompareConstraints_WithNewField_ReturnsAdded()
+    {
+        // Arrange
+        var previous = new Dictionary<string, SearchConstraint>
+        {
+            ["make"] = Constraint("make", ConstraintOperator.Equals, "BMW")
+        };
+        var current = new[]
+        {
+            Constraint("make", ConstraintOperator.Equals, "BMW"),
+            Constraint("fuelType", ConstraintOperator.Equals, "Diesel")
+        };
+
+        // Act
+        var changes = QueryRefiner.CompareConstraints(previous, current);
+
+        // Assert
+        changes.Should().ContainSingle();
+        changes[0].FieldName.Should().Be("fuelType");
+        changes[0].ChangeType.Should().Be(ConstraintChangeType.Added);
+        changes[0].Previous.Should().BeNull();
+        changes[0].Current!.Value.Should().Be("Diesel");
+    }
+
+    [Fact]
+    public void CompareConstraints_WithChangedValue_ReturnsUpdatedWithBothValues()
+    {
+        // Arrange
+        var previous = new Dictionary<string, SearchConstraint>
+        {
+            ["price"] = Constraint("price", ConstraintOperator.LessThanOrEqual, 20000)
+        };
+        var current = new[] { Constraint("price", ConstraintOperator.LessThanOrEqual, 15000) };
+
+        // Act
+        var changes = QueryRefiner.CompareConstraints(previous, current);
+
+        // Assert
+        changes.Should().ContainSingle();
+        changes[0].ChangeType.Should().Be(ConstraintChangeType.Updated);
+        changes[0].Previous!.Value.Should().Be(20000);
+        changes[0].Current!.Value.Should().Be(15000);
+    }
+
+    [Fact]
+    public void CompareConstraints_WithChangedOperator_ReturnsUpdated()
+    {
+        // Arrange
+        var previous = new Dictionary<string, SearchConstraint>
+        {
+            ["mileage"] = Constraint("mileage", ConstraintOperator.LessThanOrEqual, 50000)
+        };
+        var current = new[] { Constraint("mileage", ConstraintOperator.LessThan, 50000) };
+
+        // Act
+        var changes = QueryRefiner.CompareConstraints(previous, current);
+
+        // Assert
+        changes.Should().ContainSingle()
+            .Which.ChangeType.Should().Be(ConstraintChangeType.Updated);
+    }
+
+    [Fact]
+    public void CompareConstraints_WithMissingField_ReturnsRemoved()
+    {
+        // Arrange
+        var previous = new Dictionary<string, SearchConstraint>
+        {
+            ["make"] = Constraint("make", ConstraintOperator.Equals, "BMW"),
+            ["colour"] = Constraint("colour", ConstraintOperator.Equals, "Red")
+        };
+        var current = new[] { Constraint("make", ConstraintOperator.Equals, "BMW") };
+
+        // Act
+        var changes = QueryRefiner.CompareConstraints(previous, current);
+
+        // Assert
+        changes.Should().ContainSingle();
+        changes[0].FieldName.Should().Be("colour");
+        changes[0].ChangeType.Should().Be(ConstraintChangeType.Removed);
+        changes[0].Current.Should().BeNull();
+    }
+
+    [Fact]
+    public void CompareConstraints_WithStoredJsonValue_TreatsEqualValueAsUnchanged()
+    {
+        // Arrange
+        var stored = JsonSerializer.Deserialize<JsonElement>("[\"BMW\",\"Audi\"]");
+        var previous = new Dictionary<string, SearchConstraint>
+        {
+            ["make"] = Constraint("make", ConstraintOperator.In, stored)
+        };
+        var current = new[] { Constraint("make", ConstraintOperator.In, new[] { "BMW", "Audi" }) };
+
+        // Act
+        var changes = QueryRefiner.CompareConstraints(previous, current);
+
+        // Assert
+        changes.Should().BeEmpty();
+    }
+
+    [Fact]
+    public void CompareConstraints_WithRepeatedField_UsesLastConstraint()
+    {
+        // Arrange
+        var previous = new Dictionary<string, SearchConstraint>
+        {
+            ["price"] = Constraint("price", ConstraintOperator.LessThanOrEqual, 15000)
+        };
+        var current = new[]
+        {
+            Constraint("price", ConstraintOperator.LessThanOrEqual, 20000),
+            Constraint("price", ConstraintOperator.LessThanOrEqual, 15000)
+        };
+
+        // Act
+        var changes = QueryRefiner.CompareConstraints(previous, current);
+
+        // Assert
+        changes.Should().BeEmpty();
+    }
+
+    #endregion
+}
@@ -107,6 +107,21 @@ public class ReferenceResolverServiceTests
         result.Should().Contain(r => r.ReferenceText == "newer");
     }
 
+    [Fact]
+    public async Task ExtractReferentsAsync_WithDemonstrative_ReturnsDemonstrativeReference()
+    {
+        // Arrange
+        var query = "Is that BMW still available";
+
+        // Act
+        var result = await _service.ExtractReferentsAsync(query);
+
+        // Assert
+        result.Should().ContainSingle();
+        result[0].ReferenceText.Should().Be("that BMW");
+        result[0].Type.Should().Be(ReferenceType.Demonstrative);
+    }
+
     [Fact]
     public async Task ExtractReferentsAsync_WithNoReferences_ReturnsEmptyList()
     {
@@ -296,6 +311,28 @@ public class ReferenceResolverServiceTests
         result.HasUnresolvedReferences.Should().BeFalse();
     }
 
+    [Fact]
+    public async Task ResolveReferencesAsync_PositionalReference_SetsReferenceResolvedValue()
+    {
+        // Arrange
+        var query = "Something like the second one";
+        var session = new ConversationSession
+        {
+            SessionId = "test-session",
+            CurrentSearchState = new SearchState
+            {
+                LastResultIds = new List<string> { "V001", "V002", "V003" }
+            }
+        };
+
+        // Act
+        var result = await _service.ResolveReferencesAsync(query, session);
+
+        // Assert
+        result.ResolvedReferences.Should().ContainSingle(r => r.Type == ReferenceType.Anaphoric)
+            .Which.ResolvedValue.Should().Be("V002");
+    }
+
     [Fact]
     public async Task ResolveReferencesAsync_LastOne_ResolvesToLastResult()
     {
@@ -345,6 +382,86 @@ public class ReferenceResolverServiceTests
 
     #endregion
 
+    #region ResolveReferencesAsync Tests - Demonstratives and Comparatives
+
+    [Fact]
+    public async Task ResolveReferencesAsync_Demonstrative_ResolvesToLastSingleVehicle()
+    {
+        // Arrange
+        var query = "Is that BMW still available";
+        var session = new ConversationSession
+        {
+            SessionId = "test-session",
+            CurrentSearchState = new SearchState
+            {
+                LastResultIds = new List<string> { "V001" }
+            }
+        };
+
+        // Act
+        var result = await _service.ResolveReferencesAsync(query, session);
+
+        // Assert
+        result.ResolvedReferences.Should().ContainSingle()
+            .Which.ResolvedValue.Should().Be("V001");
+        result.HasUnresolvedReferences.Should().BeFalse();
+    }
+
+    [Fact]
+    public async Task ResolveReferencesAsync_Comparative_ResolvesToConstraint()
+    {
+        // Arrange
+        var query = "Show me cheaper ones";
+        var session = new ConversationSession
+        {
+            SessionId = "test-session",
+            CurrentSearchState = new SearchState
+            {
+                ActiveFilters = new Dictionary<string, SearchConstraint>
+                {
+                    ["price"] = new SearchConstraint
+                    {
+                        FieldName = "price",
+                        Operator = ConstraintOperator.LessThanOrEqual,
+                        Value = 20000,
+                        Type = ConstraintType.Range
+                    }
+                }
+            }
+        };
+
+        // Act
+        var result = await _service.ResolveReferencesAsync(query, session);
+
+        // Assert
+        var constraint = result.ResolvedReferences.Should().ContainSingle(r => r.Type == ReferenceType.Comparative)
+            .Which.ResolvedValue.Should().BeOfType<SearchConstraint>().Subject;
+        constraint.FieldName.Should().Be("price");
+        constraint.Operator.Should().Be(ConstraintOperator.LessThan);
+        constraint.Value.Should().Be(18000);
+    }
+
+    [Fact]
+    public async Task ResolveReferencesAsync_Comparative_NoActiveFilters_LeavesReferenceUnresolved()
+    {
+        // Arrange
+        var query = "Show me cheaper ones";
+        var session = new ConversationSession
+        {
+            SessionId = "test-session",
+            CurrentSearchState = new SearchState()
+        };
+
+        // Act
+        var result = await _service.ResolveReferencesAsync(query, session);
+
+        // Assert
+        result.ResolvedReferences.Should().ContainSingle()
+            .Which.ResolvedValue.Should().BeNull();
+    }
+
+    #endregion
+
     #region ResolveReferencesAsync Tests - Edge Cases
 
     [Fact]
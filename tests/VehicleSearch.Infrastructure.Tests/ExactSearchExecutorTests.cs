@@ -0,0 +1,48 @@
+using FluentAssertions;
+using VehicleSearch.Infrastructure.Search;
+
+namespace VehicleSearch.Infrastructure.Tests;
+
+public class ExactSearchExecutorTests
+{
+    [Theory]
+    [InlineData(null)]
+    [InlineData("")]
+    [InlineData("  ")]
+    public void ResolveOrderBy_WithoutOrder_DefaultsToCheapestFirst(string? orderBy)
+    {
+        // Act
+        var result = ExactSearchExecutor.ResolveOrderBy(orderBy);
+
+        // Assert
+        result.Should().Be("price asc");
+    }
+
+    [Theory]
+    [InlineData("mileage asc", "mileage asc")]
+    [InlineData("registrationDate DESC", "registrationDate desc")]
+    [InlineData("processeddate desc", "processedDate desc")]
+    [InlineData("processedDate", "processedDate asc")]
+    public void ResolveOrderBy_WithSortableField_ReturnsNormalisedClause(string orderBy, string expected)
+    {
+        // Act
+        var result = ExactSearchExecutor.ResolveOrderBy(orderBy);
+
+        // Assert
+        result.Should().Be(expected);
+    }
+
+    [Theory]
+    [InlineData("make asc")]
+    [InlineData("motExpiryDate desc")]
+    [InlineData("price sideways")]
+    [InlineData("price asc, mileage desc")]
+    public void ResolveOrderBy_WithUnsupportedClause_ThrowsArgumentException(string orderBy)
+    {
+        // Act
+        Action act = () => ExactSearchExecutor.ResolveOrderBy(orderBy);
+
+        // Assert
+        act.Should().Throw<ArgumentException>().WithMessage($"*{orderBy}*");
+    }
+}
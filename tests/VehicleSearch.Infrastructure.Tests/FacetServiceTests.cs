@@ -0,0 +1,140 @@
+using FluentAssertions;
+using Microsoft.Extensions.Logging;
+using Microsoft.Extensions.Options;
+using Moq;
+using VehicleSearch.Core.Models;
+using VehicleSearch.Infrastructure.AI;
+using VehicleSearch.Infrastructure.Search;
+
+namespace VehicleSearch.Infrastructure.Tests;
+
+public class FacetServiceTests
+{
+    private readonly FacetService _service;
+
+    public FacetServiceTests()
+    {
+        var config = Options.Create(new AzureSearchConfig
+        {
+            Endpoint = "https://test-search.search.windows.net",
+            ApiKey = "test-key",
+            IndexName = "test-index",
+            VectorDimensions = 1536
+        });
+        var searchClient = new AzureSearchClient(config, Mock.Of<ILogger<AzureSearchClient>>());
+        var translator = new ODataTranslator(Mock.Of<ILogger<ODataTranslator>>());
+
+        _service = new FacetService(searchClient, translator, Mock.Of<ILogger<FacetService>>());
+    }
+
+    private static ComposedQuery CreateQuery(params SearchConstraint[] constraints)
+    {
+        return new ComposedQuery
+        {
+            Type = QueryType.Filtered,
+            GroupOperator = LogicalOperator.And,
+            ConstraintGroups = new List<ConstraintGroup>
+            {
+                new ConstraintGroup { Constraints = constraints.ToList(), Operator = LogicalOperator.And, Priority = 1 }
+            }
+        };
+    }
+
+    private static readonly SearchConstraint MakeConstraint = new()
+    {
+        FieldName = "make",
+        Operator = ConstraintOperator.Equals,
+        Value = "BMW",
+        Type = ConstraintType.Exact
+    };
+
+    private static readonly SearchConstraint PriceConstraint = new()
+    {
+        FieldName = "price",
+        Operator = ConstraintOperator.LessThanOrEqual,
+        Value = 20000,
+        Type = ConstraintType.Range
+    };
+
+    [Fact]
+    public void Constructor_WithNullTranslator_ThrowsArgumentNullException()
+    {
+        // Arrange
+        var config = Options.Create(new AzureSearchConfig
+        {
+            Endpoint = "https://test-search.search.windows.net",
+            ApiKey = "test-key",
+            IndexName = "test-index"
+        });
+        var searchClient = new AzureSearchClient(config, Mock.Of<ILogger<AzureSearchClient>>());
+
+        // Act
+        Action act = () => new FacetService(searchClient, null!, Mock.Of<ILogger<FacetService>>());
+
+        // Assert
+        act.Should().Throw<ArgumentNullException>();
+    }
+
+    [Fact]
+    public void BuildFilter_WithoutQuery_ReturnsNull()
+    {
+        // Act
+        var filter = _service.BuildFilter(null, "make");
+
+        // Assert
+        filter.Should().BeNull();
+    }
+
+    [Fact]
+    public void BuildFilter_ExcludingField_LeavesOutItsConstraints()
+    {
+        // Arrange
+        var query = CreateQuery(MakeConstraint, PriceConstraint);
+
+        // Act
+        var filter = _service.BuildFilter(query, "make");
+
+        // Assert
+        filter.Should().Be("price le 20000");
+    }
+
+    [Fact]
+    public void BuildFilter_ExcludingOtherField_KeepsConstraints()
+    {
+        // Arrange
+        var query = CreateQuery(MakeConstraint, PriceConstraint);
+
+        // Act
+        var filter = _service.BuildFilter(query, "model");
+
+        // Assert
+        filter.Should().Be("(make eq 'BMW' and price le 20000)");
+    }
+
+    [Fact]
+    public void BuildFilter_ExcludingOnlyConstrainedField_ReturnsNull()
+    {
+        // Arrange
+        var query = CreateQuery(MakeConstraint);
+
+        // Act
+        var filter = _service.BuildFilter(query, "make");
+
+        // Assert
+        filter.Should().BeNull();
+    }
+
+    [Fact]
+    public void BuildFilter_WithNoExcludedField_UsesComposedFilter()
+    {
+        // Arrange
+        var query = CreateQuery(MakeConstraint);
+        query.ODataFilter = "make eq 'BMW'";
+
+        // Act
+        var filter = _service.BuildFilter(query, excludedField: null);
+
+        // Assert
+        filter.Should().Be("make eq 'BMW'");
+    }
+}
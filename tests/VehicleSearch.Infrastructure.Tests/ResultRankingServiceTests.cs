@@ -338,6 +338,80 @@ public class ResultRankingServiceTests
             () => _service.RerankResultsAsync(results, strategy, query));
     }
 
+    [Fact]
+    public async Task RerankResultsAsync_WithMileageWeight_OrdersLowestMileageFirst()
+    {
+        // Arrange
+        var results = CreateTestResults();
+        var query = CreateTestQuery();
+        var strategy = new RerankingStrategy
+        {
+            Approach = RerankingApproach.WeightedScore,
+            FactorWeights = new Dictionary<RankingFactor, double>
+            {
+                [RankingFactor.Mileage] = 1.0
+            },
+            ApplyDiversity = false
+        };
+
+        // Act
+        var rankedResults = await _service.RerankResultsAsync(results, strategy, query);
+
+        // Assert
+        Assert.Equal(new[] { 30000, 35000, 45000, 50000, 55000 }, rankedResults.Select(r => r.Vehicle.Mileage));
+        Assert.Equal(1.0, rankedResults.First().Score);
+        Assert.Equal(0.0, rankedResults.Last().Score);
+    }
+
+    [Fact]
+    public async Task RerankResultsAsync_WithServiceHistoryWeight_PutsServicedVehiclesFirst()
+    {
+        // Arrange
+        var results = new List<VehicleResult>
+        {
+            CreateVehicleResult("1", "BMW", "3 Series", 50000, 0.9, serviceHistory: false),
+            CreateVehicleResult("2", "Audi", "A4", 45000, 0.85, serviceHistory: true),
+        };
+        var query = CreateTestQuery();
+        var strategy = new RerankingStrategy
+        {
+            Approach = RerankingApproach.WeightedScore,
+            FactorWeights = new Dictionary<RankingFactor, double>
+            {
+                [RankingFactor.SemanticRelevance] = 0.5,
+                [RankingFactor.ServiceHistory] = 0.5
+            },
+            ApplyDiversity = false
+        };
+
+        // Act
+        var rankedResults = await _service.RerankResultsAsync(results, strategy, query);
+
+        // Assert
+        Assert.Equal(new[] { "2", "1" }, rankedResults.Select(r => r.Vehicle.Id));
+    }
+
+    [Fact]
+    public async Task RerankResultsAsync_WithZeroWeights_ThrowsArgumentException()
+    {
+        // Arrange
+        var results = CreateTestResults();
+        var query = CreateTestQuery();
+        var strategy = new RerankingStrategy
+        {
+            Approach = RerankingApproach.WeightedScore,
+            FactorWeights = new Dictionary<RankingFactor, double>
+            {
+                [RankingFactor.Mileage] = 0.0
+            },
+            ApplyDiversity = false
+        };
+
+        // Act & Assert
+        await Assert.ThrowsAsync<ArgumentException>(
+            () => _service.RerankResultsAsync(results, strategy, query));
+    }
+
     [Fact]
     public async Task RerankResultsAsync_ClampsScoresToValidRange()
     {
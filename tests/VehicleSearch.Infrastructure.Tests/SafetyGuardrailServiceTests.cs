@@ -346,6 +346,8 @@ public class SafetyGuardrailServiceTests : IDisposable
         result.IsValid.Should().BeFalse();
         result.ViolationType.Should().Be(SafetyViolationType.RateLimitExceeded);
         result.Message.Should().Contain("Rate limit exceeded");
+        result.RetryAfter.Should().Be(TimeSpan.FromSeconds(60));
+        result.RemainingRequests.Should().Be(0);
     }
 
     #endregion
@@ -337,6 +337,59 @@ public class SearchOrchestratorServiceTests
             .WithMessage("*MaxResults must be between 1 and 100*");
     }
 
+    [Fact]
+    public async Task ExecuteSearchAsync_WithNegativeOffset_ThrowsArgumentException()
+    {
+        // Arrange
+        var query = new ComposedQuery();
+        var strategy = new SearchStrategy { Type = StrategyType.ExactOnly };
+
+        // Act
+        Func<Task> act = async () => await _service.ExecuteSearchAsync(query, strategy, offset: -1);
+
+        // Assert
+        await act.Should().ThrowAsync<ArgumentException>()
+            .WithMessage("*Offset cannot be negative*");
+    }
+
+    [Fact]
+    public async Task StreamSearchAsync_WithNullQuery_ThrowsArgumentNullException()
+    {
+        // Arrange
+        var strategy = new SearchStrategy { Type = StrategyType.Hybrid };
+
+        // Act
+        Func<Task> act = async () =>
+        {
+            await foreach (var _ in _service.StreamSearchAsync(null!, strategy))
+            {
+            }
+        };
+
+        // Assert
+        await act.Should().ThrowAsync<ArgumentNullException>();
+    }
+
+    [Fact]
+    public async Task StreamSearchAsync_WithInvalidMaxResults_ThrowsArgumentException()
+    {
+        // Arrange
+        var query = new ComposedQuery();
+        var strategy = new SearchStrategy { Type = StrategyType.Hybrid };
+
+        // Act
+        Func<Task> act = async () =>
+        {
+            await foreach (var _ in _service.StreamSearchAsync(query, strategy, maxResults: 0))
+            {
+            }
+        };
+
+        // Assert
+        await act.Should().ThrowAsync<ArgumentException>()
+            .WithMessage("*MaxResults must be between 1 and 100*");
+    }
+
     [Fact]
     public async Task ExecuteHybridSearchAsync_WithNullQuery_ThrowsArgumentNullException()
     {
@@ -418,4 +471,45 @@ public class SearchOrchestratorServiceTests
         result.Weights[SearchApproach.ExactMatch].Should().Be(0.7);
         result.Weights[SearchApproach.SemanticSearch].Should().BeApproximately(0.3, 0.0001);
     }
+
+    [Fact]
+    public void CreateStrategy_WithHybrid_WeightsExactMatchByExactConstraints()
+    {
+        // Arrange
+        var query = new ComposedQuery
+        {
+            Type = QueryType.Complex,
+            ConstraintGroups = new List<ConstraintGroup>
+            {
+                new ConstraintGroup
+                {
+                    Constraints = new List<SearchConstraint>
+                    {
+                        new SearchConstraint { FieldName = "make", Type = ConstraintType.Exact, Value = "BMW" },
+                        new SearchConstraint { FieldName = "price", Type = ConstraintType.Range, Value = 20000 }
+                    }
+                }
+            }
+        };
+
+        // Act
+        var result = _service.CreateStrategy(StrategyType.Hybrid, query);
+
+        // Assert
+        // The query alone would get ExactOnly; with 2 exact constraints, exactWeight = 0.3
+        result.Type.Should().Be(StrategyType.Hybrid);
+        result.Weights[SearchApproach.ExactMatch].Should().BeApproximately(0.3, 0.0001);
+        result.Weights[SearchApproach.SemanticSearch].Should().BeApproximately(0.7, 0.0001);
+        result.ShouldRerank.Should().BeTrue();
+    }
+
+    [Fact]
+    public void CreateStrategy_WithMultiStage_ThrowsArgumentException()
+    {
+        // Act
+        Action act = () => _service.CreateStrategy(StrategyType.MultiStage, new ComposedQuery());
+
+        // Assert
+        act.Should().Throw<ArgumentException>();
+    }
 }
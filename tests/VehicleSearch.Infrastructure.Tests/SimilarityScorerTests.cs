@@ -230,6 +230,25 @@ public class SimilarityScorerTests
         result.DescriptionBoost.Should().BeLessThan(0.0);
     }
 
+    [Fact]
+    public void ComputeScore_TracksIndicatorsFoundInDescription()
+    {
+        // Arrange
+        var vehicle = CreateTestVehicle(
+            mileage: 50000,
+            serviceHistory: true,
+            description: "One owner with warranty, minor accident damage repaired");
+        var concept = ConceptMappings.Mappings["reliable"];
+
+        // Act
+        var result = _scorer.ComputeScore(vehicle, concept);
+
+        // Assert
+        result.MatchedPositiveIndicators.Should().BeEquivalentTo("one owner", "warranty");
+        result.MatchedNegativeIndicators.Should().BeEquivalentTo("accident damage");
+        result.DescriptionBoost.Should().BeApproximately(0.0, 0.0001);
+    }
+
     [Fact]
     public void ComputeScore_DescriptionBoost_CappedAtMaximum()
     {
@@ -0,0 +1,134 @@
+/**
+ * A stand-in for the search API that serves canned JSON and Server-Sent Event
+ * responses over real HTTP, so streaming can be tested chunk by chunk without
+ * the backend or Azure. Used by the frontend's streaming pipeline suite
+ * (frontend/tests/lib/streaming.test.ts).
+ */
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+export interface StandInEvent {
+  event: string;
+  data: unknown;
+  // Milliseconds to wait before sending the event
+  delay?: number;
+}
+
+export type StandInRoute =
+  | { json: unknown; status?: number; headers?: Record<string, string> }
+  | { events: StandInEvent[] };
+
+export interface StandInRequest {
+  method: string;
+  path: string;
+  body: unknown;
+}
+
+export interface StandInServer {
+  url: string;
+  // Every request received, in order
+  requests: StandInRequest[];
+  close: () => Promise<void>;
+}
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+  'Access-Control-Expose-Headers': 'Retry-After, X-RateLimit-Remaining',
+};
+
+// Resolves early if the client goes away, so no timer outlives the connection
+const wait = (ms: number, response: ServerResponse) =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    response.once('close', () => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+
+async function readBody(request: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer);
+  }
+  const text = Buffer.concat(chunks).toString('utf8');
+  return text ? JSON.parse(text) : undefined;
+}
+
+async function sendEvents(response: ServerResponse, events: StandInEvent[]) {
+  response.writeHead(200, {
+    ...CORS_HEADERS,
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+  });
+  // Send the headers straight away so the client starts reading before the first event
+  response.flushHeaders();
+
+  for (const { event, data, delay } of events) {
+    if (delay) {
+      await wait(delay, response);
+    }
+    if (response.destroyed) {
+      return;
+    }
+    response.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+  response.end();
+}
+
+/**
+ * Start a server answering each path in `routes`; anything else is a 404.
+ * Listens on a random free port.
+ */
+export async function startStandInSearchServer(
+  routes: Record<string, StandInRoute>
+): Promise<StandInServer> {
+  const requests: StandInRequest[] = [];
+
+  const server = createServer(async (request, response) => {
+    const path = new URL(request.url ?? '/', 'http://localhost').pathname;
+
+    if (request.method === 'OPTIONS') {
+      response.writeHead(204, CORS_HEADERS).end();
+      return;
+    }
+
+    requests.push({ method: request.method ?? 'GET', path, body: await readBody(request) });
+
+    const route = routes[path];
+    if (!route) {
+      response
+        .writeHead(404, { ...CORS_HEADERS, 'Content-Type': 'application/json' })
+        .end(JSON.stringify({ error: 'Not found' }));
+      return;
+    }
+
+    if ('events' in route) {
+      await sendEvents(response, route.events);
+      return;
+    }
+
+    response
+      .writeHead(route.status ?? 200, {
+        ...CORS_HEADERS,
+        ...route.headers,
+        'Content-Type': 'application/json',
+      })
+      .end(JSON.stringify(route.json));
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () =>
+      new Promise((resolve, reject) => {
+        server.closeAllConnections();
+        server.close((error) => (error ? reject(error) : resolve()));
+      }),
+  };
+}